@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { recordApproval } from '@/lib/db';
+import { z } from 'zod';
+
+const DecisionSchema = z.discriminatedUnion('decision', [
+  z.object({
+    decision: z.literal('approve'),
+    comment: z.string().max(2000).optional(),
+    decided_by: z.string().max(200).optional(),
+  }),
+  z.object({
+    decision: z.literal('reject'),
+    comment: z.string().trim().min(1, 'A comment is required to reject').max(2000),
+    decided_by: z.string().max(200).optional(),
+  }),
+]);
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = DecisionSchema.safeParse(await request.json());
+    if (!body.success) {
+      return NextResponse.json(
+        { error: body.error.issues[0]?.message ?? 'Invalid decision' },
+        { status: 400 }
+      );
+    }
+
+    const approval = recordApproval(
+      id,
+      body.data.decision === 'approve' ? 'approved' : 'rejected',
+      body.data.comment?.trim() || null,
+      body.data.decided_by?.trim() || null
+    );
+    if (typeof approval === 'string') {
+      return NextResponse.json({ error: approval }, { status: 409 });
+    }
+
+    return NextResponse.json(approval);
+  } catch (error) {
+    console.error('Failed to record approval:', error);
+    return NextResponse.json(
+      { error: 'Failed to record approval' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getExecution, getExecutionSteps, getTelemetryEvents, getWorkflowArtifacts } from '@/lib/db';
+import { getExecution, getExecutionSteps, getExecutionTree, getPendingApproval, getTelemetryEvents, getWorkflowArtifacts } from '@/lib/db';
 
 // Cache for 20 seconds - specific execution details
 export const revalidate = 20;
@@ -15,9 +15,17 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
     const steps = getExecutionSteps(id);
     const artifacts = getWorkflowArtifacts(id);
-    const events = getTelemetryEvents({ executionId: id, limit: 100 });
+    const tree = getExecutionTree(id);
+    const approval = execution.state === 'awaiting_approval' ? getPendingApproval(id) : null;
 
-    return NextResponse.json({ execution, steps, artifacts, events });
+    // Events cover this execution and the sub-workflows beneath it
+    const subtree = new Set([id]);
+    for (const node of tree) {
+      if (node.parent_execution_id !== null && subtree.has(node.parent_execution_id)) subtree.add(node.execution_id);
+    }
+    const events = getTelemetryEvents({ executionIds: [...subtree], limit: 100 });
+
+    return NextResponse.json({ execution, steps, artifacts, events, tree, approval });
   } catch (error) {
     console.error('Failed to fetch execution details:', error);
     return NextResponse.json(
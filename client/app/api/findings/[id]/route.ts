@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { reviewFinding } from '@/lib/db';
+import { z } from 'zod';
+
+const ReviewSchema = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve'), note: z.string().trim().max(1000).optional() }),
+  z.object({ decision: z.literal('reject'), note: z.string().trim().min(1, 'A reason is required to reject').max(1000) }),
+]);
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const findingId = parseInt(id, 10);
+    const body = ReviewSchema.safeParse(await request.json());
+
+    if (!Number.isInteger(findingId) || findingId <= 0 || !body.success) {
+      return NextResponse.json(
+        { error: body.success ? 'Invalid finding ID' : body.error.issues[0]?.message ?? 'Invalid review' },
+        { status: 400 }
+      );
+    }
+
+    const finding = reviewFinding(findingId, body.data.decision, body.data.note || null);
+    if (!finding) {
+      return NextResponse.json(
+        { error: 'Finding not found or already reviewed' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(finding);
+  } catch (error) {
+    console.error('Failed to review finding:', error);
+    return NextResponse.json(
+      { error: 'Failed to review finding' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFindings } from '@/lib/db';
+import { validateArray, KnowledgeFindingRowSchema, FindingStatusSchema } from '@/lib/schemas';
+import { z } from 'zod';
+
+// Review queue changes as steps complete and findings are triaged
+export const revalidate = 0;
+
+const QueryParamsSchema = z.object({
+  status: FindingStatusSchema,
+  limit: z.number().int().min(1).max(500),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const params = QueryParamsSchema.parse({
+      status: searchParams.get('status') || 'proposed',
+      limit: parseInt(searchParams.get('limit') || '100', 10),
+    });
+
+    const findings = getFindings(params);
+    const validated = validateArray(KnowledgeFindingRowSchema, findings, 'findings');
+
+    return NextResponse.json(validated);
+  } catch (error) {
+    console.error('Failed to fetch findings:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid request parameters or data format' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch findings' },
+      { status: 500 }
+    );
+  }
+}
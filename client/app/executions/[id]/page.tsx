@@ -4,14 +4,25 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { EventList } from '@/components/EventList';
-import type { ExecutionRow, ExecutionStepRow, TelemetryEventRow, WorkflowArtifactRow } from '@/lib/types';
+import type { ExecutionApprovalRow, ExecutionRow, ExecutionStepRow, ExecutionTreeRow, TelemetryEventRow, WorkflowArtifactRow } from '@/lib/types';
 import { formatDurationMs, safeParseJSON } from '@/lib/utils';
 
 interface ExecutionDetail {
-  execution: ExecutionRow;
+  execution: ExecutionRow & { workflow_version: number | null };
   steps: ExecutionStepRow[];
   artifacts: WorkflowArtifactRow[];
   events: TelemetryEventRow[];
+  tree: ExecutionTreeRow[];
+  approval: ExecutionApprovalRow | null; // Recorded here, not yet applied by the server
+}
+
+/**
+ * Tree rows in display order: each execution followed by its sub-workflows
+ */
+function orderTree(rows: ExecutionTreeRow[]): ExecutionTreeRow[] {
+  const visit = (parentId: string | null): ExecutionTreeRow[] =>
+    rows.filter((row) => row.parent_execution_id === parentId).flatMap((row) => [row, ...visit(row.execution_id)]);
+  return visit(null);
 }
 
 export default function ExecutionDetailPage() {
@@ -20,6 +31,9 @@ export default function ExecutionDetailPage() {
   const [data, setData] = useState<ExecutionDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [expandedStep, setExpandedStep] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [decidedBy, setDecidedBy] = useState('');
+  const [approvalError, setApprovalError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -44,6 +58,31 @@ export default function ExecutionDetailPage() {
     return () => clearInterval(interval);
   }, [id]);
 
+  const decide = async (decision: 'approve' | 'reject') => {
+    if (decision === 'reject' && !comment.trim()) {
+      setApprovalError('Add a comment saying what to change before rejecting');
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/executions/${encodeURIComponent(id)}/approval`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment: comment.trim() || undefined, decided_by: decidedBy.trim() || undefined }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setApprovalError(body.error ?? 'Decision failed');
+        return;
+      }
+      setApprovalError(null);
+      setData((prev) => (prev ? { ...prev, approval: body } : prev));
+    } catch (err) {
+      console.error('Failed to decide:', err);
+      setApprovalError('Decision failed');
+    }
+  };
+
   if (loading) {
     return <div className="text-zinc-500">Loading...</div>;
   }
@@ -52,7 +91,7 @@ export default function ExecutionDetailPage() {
     return <div className="text-red-400">Execution not found</div>;
   }
 
-  const { execution, steps, artifacts = [], events } = data;
+  const { execution, steps, artifacts = [], events, tree = [], approval = null } = data;
 
   return (
     <div className="space-y-6">
@@ -61,7 +100,21 @@ export default function ExecutionDetailPage() {
           ← Back
         </Link>
         <h1 className="text-2xl font-bold">{execution.workflow_name}</h1>
+        {execution.workflow_version !== null && (
+          <Link
+            href={`/workflows/${encodeURIComponent(execution.workflow_name)}`}
+            className="text-zinc-400 text-sm hover:text-white"
+            title="Workflow version this execution is pinned to"
+          >
+            v{execution.workflow_version}
+          </Link>
+        )}
         <span className={`badge badge-${execution.state}`}>{execution.state}</span>
+        {execution.parent_execution_id && (
+          <Link href={`/executions/${encodeURIComponent(execution.parent_execution_id)}`} className="text-zinc-400 text-sm hover:text-white">
+            ↑ Parent execution
+          </Link>
+        )}
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -83,6 +136,47 @@ export default function ExecutionDetailPage() {
         </div>
       </div>
 
+      {execution.state === 'awaiting_approval' && (
+        <div className="bg-zinc-900 border border-amber-500/40 rounded-lg p-4 space-y-3">
+          <div>
+            <h2 className="text-lg font-semibold">Approval needed: {execution.current_step}</h2>
+            <p className="text-zinc-400 text-sm mt-1">
+              Approving continues the workflow; rejecting sends it back to an earlier phase with your comment.
+            </p>
+          </div>
+          {approval ? (
+            <p className="text-sm text-zinc-400">
+              {approval.decision === 'approved' ? 'Approved' : 'Rejected'}
+              {approval.decided_by ? ` by ${approval.decided_by}` : ''}
+              {approval.comment ? `: ${approval.comment}` : ''}. The MCP server applies it on its next check of this execution.
+            </p>
+          ) : (
+            <div className="flex items-start gap-2">
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comment (required to reject)"
+                rows={1}
+                className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm"
+              />
+              <input
+                value={decidedBy}
+                onChange={(e) => setDecidedBy(e.target.value)}
+                placeholder="Your name"
+                className="w-40 bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm"
+              />
+              <button onClick={() => decide('approve')} className="px-3 py-1.5 rounded text-sm bg-green-600 hover:bg-green-500">
+                Approve
+              </button>
+              <button onClick={() => decide('reject')} className="px-3 py-1.5 rounded text-sm bg-zinc-700 hover:bg-zinc-600">
+                Reject
+              </button>
+            </div>
+          )}
+          {approvalError && <p className="text-sm text-red-400">{approvalError}</p>}
+        </div>
+      )}
+
       <div>
         <h2 className="text-lg font-semibold mb-3">Step Timeline</h2>
         <div className="space-y-2">
@@ -99,6 +193,16 @@ export default function ExecutionDetailPage() {
                   <span className="text-zinc-500 w-6">{idx + 1}.</span>
                   <span className="font-medium">{step.step_name}</span>
                   <span className="text-zinc-500 text-sm">{step.agent_name}</span>
+                  {step.iteration > 1 && <span className="text-amber-400 text-xs">iteration {step.iteration}</span>}
+                  {step.child_execution_id && (
+                    <Link
+                      href={`/executions/${encodeURIComponent(step.child_execution_id)}`}
+                      className="text-blue-400 text-xs hover:text-blue-300"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      sub-workflow →
+                    </Link>
+                  )}
                 </div>
                 <div className="flex items-center gap-3">
                   <span className="text-zinc-400 text-sm">{formatDurationMs(step.duration_ms)}</span>
@@ -121,6 +225,27 @@ export default function ExecutionDetailPage() {
         </div>
       </div>
 
+      {tree.length > 1 && (
+        <div>
+          <h2 className="text-lg font-semibold mb-3">Sub-workflows</h2>
+          <div className="bg-zinc-900 border border-zinc-800 rounded p-3 space-y-1">
+            {orderTree(tree).map((node) => (
+              <div key={node.execution_id} className="flex items-center gap-3" style={{ paddingLeft: `${node.depth * 1.5}rem` }}>
+                {node.execution_id === execution.execution_id ? (
+                  <span className="font-medium">{node.workflow_name}</span>
+                ) : (
+                  <Link href={`/executions/${encodeURIComponent(node.execution_id)}`} className="text-blue-400 hover:text-blue-300">
+                    {node.workflow_name}
+                  </Link>
+                )}
+                {node.step_name && <span className="text-zinc-500 text-sm">{node.step_name}</span>}
+                <span className={`badge badge-${node.state}`}>{node.state}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div>
         <h2 className="text-lg font-semibold mb-3">Artifacts</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
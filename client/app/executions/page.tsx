@@ -5,7 +5,7 @@ import Link from 'next/link';
 import type { ExecutionRow, ExecutionState } from '@/lib/types';
 import { formatDurationMs } from '@/lib/utils';
 
-const STATES: Array<'all' | ExecutionState> = ['all', 'running', 'completed', 'failed', 'idle', 'paused', 'abandoned', 'diverged'];
+const STATES: Array<'all' | ExecutionState> = ['all', 'running', 'completed', 'failed', 'idle', 'paused', 'awaiting_approval', 'abandoned', 'diverged'];
 
 export default function ExecutionsPage() {
   const [executions, setExecutions] = useState<ExecutionRow[]>([]);
@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import type { FindingStatus, KnowledgeFindingRow } from '@/lib/types';
+
+const STATUSES: FindingStatus[] = ['proposed', 'active', 'rejected', 'deprecated'];
+
+const SEVERITY_CLASSES: Record<KnowledgeFindingRow['severity'], string> = {
+  critical: 'bg-red-500/20 text-red-400',
+  high: 'bg-orange-500/20 text-orange-400',
+  medium: 'bg-yellow-500/20 text-yellow-400',
+  low: 'bg-blue-500/20 text-blue-400',
+  info: 'bg-zinc-500/20 text-zinc-400',
+};
+
+export default function FindingsPage() {
+  const [findings, setFindings] = useState<KnowledgeFindingRow[]>([]);
+  const [status, setStatus] = useState<FindingStatus>('proposed');
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [errors, setErrors] = useState<Record<number, string>>({});
+
+  const fetchFindings = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/findings?status=${status}`);
+      if (res.ok) {
+        const data = await res.json();
+        if (Array.isArray(data)) {
+          setFindings(data);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to fetch:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchFindings();
+  }, [status, fetchFindings]);
+
+  const review = async (id: number, decision: 'approve' | 'reject') => {
+    const note = notes[id]?.trim() ?? '';
+    if (decision === 'reject' && !note) {
+      setErrors((prev) => ({ ...prev, [id]: 'Add a reason before rejecting' }));
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/findings/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: note || undefined }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        setErrors((prev) => ({ ...prev, [id]: body.error ?? 'Review failed' }));
+        return;
+      }
+      setFindings((prev) => prev.filter((f) => f.id !== id));
+    } catch (err) {
+      console.error('Failed to review:', err);
+      setErrors((prev) => ({ ...prev, [id]: 'Review failed' }));
+    }
+  };
+
+  const isPast = (date: string) => new Date(date).getTime() < Date.now();
+
+  const parseTags = (tags: string | null): string[] => {
+    try {
+      const parsed = JSON.parse(tags ?? '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Findings</h1>
+          <p className="text-zinc-400 text-sm mt-1">Findings suggested by workflow steps wait here until approved or rejected.</p>
+        </div>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as FindingStatus)}
+          className="bg-zinc-900 border border-zinc-700 rounded px-3 py-1.5 text-sm"
+        >
+          {STATUSES.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-zinc-500">Loading...</div>
+      ) : findings.length === 0 ? (
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg px-4 py-8 text-center text-zinc-500">
+          {status === 'proposed' ? 'Review queue is empty' : `No ${status} findings`}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {findings.map((finding) => (
+            <div key={finding.id} className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="font-semibold">{finding.title}</h2>
+                  <div className="flex flex-wrap gap-2 mt-1 text-xs">
+                    <span className={`badge ${SEVERITY_CLASSES[finding.severity]}`}>{finding.severity}</span>
+                    <span className="badge badge-idle">{finding.category}</span>
+                    <span className="badge badge-idle">
+                      {finding.scope === 'project' ? `project #${finding.project_id}` : finding.scope}
+                    </span>
+                    {parseTags(finding.tags).map((tag) => (
+                      <span key={tag} className="text-zinc-500">#{tag}</span>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-3 mt-1 text-xs text-zinc-500">
+                    {finding.superseded_by !== null && <span>superseded by #{finding.superseded_by}</span>}
+                    {finding.review_by && (
+                      <span className={isPast(finding.review_by) && finding.status === 'active' ? 'text-orange-400' : undefined}>
+                        review by {new Date(finding.review_by).toLocaleDateString()}
+                      </span>
+                    )}
+                    {finding.expires_at && <span>expires {new Date(finding.expires_at).toLocaleDateString()}</span>}
+                  </div>
+                </div>
+                <div className="text-right text-xs text-zinc-500 shrink-0">
+                  {finding.source_execution_id ? (
+                    <Link href={`/executions/${finding.source_execution_id}`} className="text-blue-400 hover:underline font-mono">
+                      {finding.source_execution_id}
+                    </Link>
+                  ) : (
+                    <span>manual</span>
+                  )}
+                  {finding.source_agent && <p>{finding.source_agent}</p>}
+                  <p>{new Date(finding.created_at).toLocaleString()}</p>
+                </div>
+              </div>
+
+              <p className="text-sm text-zinc-300 whitespace-pre-wrap">{finding.content}</p>
+
+              {finding.review_note && (
+                <p className="text-sm text-zinc-400">
+                  <span className="text-zinc-500">Review note:</span> {finding.review_note}
+                </p>
+              )}
+
+              {finding.status === 'proposed' && (
+                <div className="flex items-start gap-2">
+                  <textarea
+                    value={notes[finding.id] ?? ''}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [finding.id]: e.target.value }))}
+                    placeholder="Review note (required to reject)"
+                    rows={1}
+                    className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-3 py-1.5 text-sm"
+                  />
+                  <button
+                    onClick={() => review(finding.id, 'approve')}
+                    className="px-3 py-1.5 rounded text-sm bg-green-600 hover:bg-green-500"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => review(finding.id, 'reject')}
+                    className="px-3 py-1.5 rounded text-sm bg-zinc-700 hover:bg-zinc-600"
+                  >
+                    Reject
+                  </button>
+                </div>
+              )}
+              {errors[finding.id] && <p className="text-sm text-red-400">{errors[finding.id]}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
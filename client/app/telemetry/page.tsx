@@ -10,11 +10,30 @@ const EVENT_TYPES = [
   'workflow_started',
   'workflow_completed',
   'workflow_failed',
+  'workflow_timed_out',
   'step_started',
   'step_completed',
   'step_failed',
+  'step_timed_out',
+  'step_output_rejected',
+  'step_retry_scheduled',
+  'step_escalated',
+  'step_skipped',
+  'phase_transition',
+  'subworkflow_started',
+  'subworkflow_finished',
+  'approval_requested',
+  'approval_decided',
   'token_generated',
   'token_validated',
+  'token_revoked',
+  'finding_proposed',
+  'finding_reviewed',
+  'finding_injected',
+  'finding_duplicate',
+  'finding_merged',
+  'finding_expired',
+  'resource_synced',
   'error',
 ];
 
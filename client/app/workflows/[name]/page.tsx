@@ -3,7 +3,7 @@
 import { useState, useEffect, use } from 'react';
 import Link from 'next/link';
 import type { WorkflowRow, WorkflowStats } from '@/lib/types';
-import { parsePhases, formatDuration } from '@/lib/utils';
+import { describePhaseRunner, parsePhases, formatDuration } from '@/lib/utils';
 
 export default function WorkflowDetailPage({ params }: { params: Promise<{ name: string }> }) {
   const { name } = use(params);
@@ -121,7 +121,7 @@ export default function WorkflowDetailPage({ params }: { params: Promise<{ name:
                       </span>
                       <span className="font-medium">{(phase as { phase?: string; name?: string }).name ?? phase.phase}</span>
                       <span className="text-xs text-gray-400 bg-gray-800 px-2 py-0.5 rounded">
-                        {phase.agent}
+                        {describePhaseRunner(phase)}
                       </span>
                     </div>
                     {((phase as { steps?: string[] }).steps ?? []).length > 0 && (
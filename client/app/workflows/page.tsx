@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { parsePhases, parseTags, getComplexityColor, getComplexityLabel } from '@/lib/utils';
+import { describePhaseRunner, parsePhases, parseTags, getComplexityColor, getComplexityLabel } from '@/lib/utils';
 import type { WorkflowRow, ParsedPhase } from '@/lib/types';
 
 export default function WorkflowsPage() {
@@ -89,7 +89,7 @@ export default function WorkflowsPage() {
                       <div key={idx} className="bg-gray-800 rounded p-3">
                         <div className="flex items-center justify-between mb-2">
                           <span className="font-medium text-sm">{phase.phase}</span>
-                          <span className="text-xs text-blue-400">{phase.agent}</span>
+                          <span className="text-xs text-blue-400">{describePhaseRunner(phase)}</span>
                         </div>
                         <p className="text-xs text-gray-400 mt-2">{phase.description}</p>
                         {phase.dependsOn && phase.dependsOn.length > 0 && (
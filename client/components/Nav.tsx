@@ -8,6 +8,7 @@ const links = [
   { href: '/telemetry', label: 'Events' },
   { href: '/executions', label: 'Executions' },
   { href: '/artifacts', label: 'Artifacts' },
+  { href: '/findings', label: 'Findings' },
   { href: '/library', label: 'Library' },
   { href: '/impact', label: 'Impact' },
   { href: '/security', label: 'Security' },
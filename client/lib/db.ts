@@ -3,12 +3,16 @@ import fs from 'fs';
 import type {
   TelemetryEventRow,
   ExecutionRow,
+  ExecutionTreeRow,
   ExecutionStepRow,
+  ExecutionApprovalRow,
   WorkflowRow,
   AgentRow,
   Stats,
   WorkflowStats,
   WorkflowArtifactRow,
+  FindingStatus,
+  KnowledgeFindingRow,
 } from './types';
 import { getDatabasePath } from './db-config';
 
@@ -75,6 +79,23 @@ export function getDb(): Database.Database {
   return dbInstance;
 }
 
+let writeDbInstance: Database.Database | null = null;
+
+/**
+ * Writable connection, opened on first use
+ * Only finding reviews and approval decisions write; everything else goes through the read-only getDb()
+ */
+function getWriteDb(): Database.Database {
+  if (!writeDbInstance) {
+    if (!fs.existsSync(DB_PATH)) {
+      throw new Error(`Database file not found at: ${DB_PATH}`);
+    }
+    writeDbInstance = new Database(DB_PATH);
+    writeDbInstance.pragma('busy_timeout = 5000');
+  }
+  return writeDbInstance;
+}
+
 /**
  * Explicitly check database health
  */
@@ -87,13 +108,17 @@ export function checkDbHealth(): boolean {
   }
 }
 
+/**
+ * executionIds matches any of several executions, such as an execution and its sub-workflows
+ */
 export function getTelemetryEvents(options: {
   executionId?: string;
+  executionIds?: string[];
   eventType?: string;
   limit?: number;
   since?: string;
 }): TelemetryEventRow[] {
-  const { executionId, eventType, limit = 100, since } = options;
+  const { executionId, executionIds, eventType, limit = 100, since } = options;
   const conditions: string[] = [];
   const params: (string | number)[] = [];
 
@@ -101,6 +126,10 @@ export function getTelemetryEvents(options: {
     conditions.push('execution_id = ?');
     params.push(executionId);
   }
+  if (executionIds && executionIds.length > 0) {
+    conditions.push(`execution_id IN (${executionIds.map(() => '?').join(', ')})`);
+    params.push(...executionIds);
+  }
   if (eventType) {
     conditions.push('event_type = ?');
     params.push(eventType);
@@ -131,10 +160,49 @@ export function getExecutions(options: { state?: string; limit?: number }): Exec
     .all(Math.min(limit, 100)) as ExecutionRow[];
 }
 
-export function getExecution(executionId: string): ExecutionRow | undefined {
+/**
+ * workflow_version is the number of the workflow version the execution is pinned to
+ */
+export function getExecution(executionId: string): (ExecutionRow & { workflow_version: number | null }) | undefined {
   return getDb()
-    .prepare('SELECT * FROM workflow_executions_v2 WHERE execution_id = ?')
-    .get(executionId) as ExecutionRow | undefined;
+    .prepare(`
+      SELECT e.*, v.version as workflow_version
+      FROM workflow_executions_v2 e
+      LEFT JOIN workflow_versions v ON v.id = e.workflow_version_id
+      WHERE e.execution_id = ?
+    `)
+    .get(executionId) as (ExecutionRow & { workflow_version: number | null }) | undefined;
+}
+
+/**
+ * Every execution in the sub-workflow tree containing this one, from its top-level ancestor down,
+ * parents before their children
+ */
+export function getExecutionTree(executionId: string): ExecutionTreeRow[] {
+  return getDb()
+    .prepare(`
+      WITH RECURSIVE ancestors(execution_id, parent_execution_id) AS (
+        SELECT execution_id, parent_execution_id FROM workflow_executions_v2 WHERE execution_id = ?
+        UNION ALL
+        SELECT e.execution_id, e.parent_execution_id
+        FROM workflow_executions_v2 e
+        JOIN ancestors a ON e.execution_id = a.parent_execution_id
+      ),
+      tree(execution_id, parent_execution_id, workflow_name, state, depth) AS (
+        SELECT execution_id, parent_execution_id, workflow_name, state, 0
+        FROM workflow_executions_v2
+        WHERE execution_id = (SELECT execution_id FROM ancestors WHERE parent_execution_id IS NULL)
+        UNION ALL
+        SELECT e.execution_id, e.parent_execution_id, e.workflow_name, e.state, t.depth + 1
+        FROM workflow_executions_v2 e
+        JOIN tree t ON e.parent_execution_id = t.execution_id
+      )
+      SELECT t.*, s.step_name
+      FROM tree t
+      LEFT JOIN workflow_steps_v2 s ON s.execution_id = t.parent_execution_id AND s.child_execution_id = t.execution_id
+      ORDER BY t.depth ASC, t.execution_id ASC
+    `)
+    .all(executionId) as ExecutionTreeRow[];
 }
 
 export function getExecutionSteps(executionId: string): ExecutionStepRow[] {
@@ -143,6 +211,16 @@ export function getExecutionSteps(executionId: string): ExecutionStepRow[] {
     .all(executionId) as ExecutionStepRow[];
 }
 
+/**
+ * The decision recorded for the approval the execution waits on that the server has not applied yet
+ */
+export function getPendingApproval(executionId: string): ExecutionApprovalRow | null {
+  const row = getDb()
+    .prepare('SELECT * FROM workflow_approvals WHERE execution_id = ? AND applied_at IS NULL ORDER BY id DESC LIMIT 1')
+    .get(executionId) as ExecutionApprovalRow | undefined;
+  return row ?? null;
+}
+
 export function getWorkflowArtifacts(executionId: string): WorkflowArtifactRow[] {
   return getDb()
     .prepare('SELECT * FROM workflow_artifacts_v2 WHERE execution_id = ? ORDER BY created_at ASC')
@@ -248,3 +326,88 @@ export function getAggregateStats(): { workflows: number; executions: number; co
     completed: result.completed ?? 0,
   };
 }
+
+export function getFindings(options: { status?: FindingStatus; limit?: number }): KnowledgeFindingRow[] {
+  const { status = 'proposed', limit = 100 } = options;
+  return getDb()
+    .prepare(`
+      SELECT * FROM knowledge_findings
+      WHERE status = ?
+      ORDER BY CASE severity WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 ELSE 4 END, created_at DESC
+      LIMIT ?
+    `)
+    .all(status, Math.min(limit, 500)) as KnowledgeFindingRow[];
+}
+
+/**
+ * Approve or reject a proposed finding (mirrors knowledge.approve_finding / reject_finding)
+ * @returns The reviewed finding, or null if no proposed finding has that ID
+ */
+export function reviewFinding(
+  id: number,
+  decision: 'approve' | 'reject',
+  note: string | null
+): KnowledgeFindingRow | null {
+  const db = getWriteDb();
+  const review = db.transaction(() => {
+    const result = db
+      .prepare(`UPDATE knowledge_findings SET status = ?, review_note = ?, reviewed_at = ? WHERE id = ? AND status = 'proposed'`)
+      .run(decision === 'approve' ? 'active' : 'rejected', note, new Date().toISOString(), id);
+    if (result.changes === 0) return null;
+
+    // Same snapshot the MCP server's FindingLifecycle.recordRevision takes
+    db.prepare(
+      `INSERT INTO knowledge_finding_revisions (finding_id, revision, change, note, snapshot)
+       SELECT f.id, COALESCE((SELECT MAX(revision) FROM knowledge_finding_revisions WHERE finding_id = f.id), 0) + 1, ?, ?,
+         json_object(
+           'scope', f.scope, 'project_id', f.project_id, 'category', f.category, 'severity', f.severity, 'status', f.status,
+           'title', f.title, 'content', f.content, 'tags', json(COALESCE(f.tags, '[]')),
+           'superseded_by', f.superseded_by, 'expires_at', f.expires_at, 'review_by', f.review_by, 'review_note', f.review_note
+         )
+       FROM knowledge_findings f WHERE f.id = ?`
+    ).run(decision === 'approve' ? 'approved' : 'rejected', note, id);
+
+    const finding = db.prepare('SELECT * FROM knowledge_findings WHERE id = ?').get(id) as KnowledgeFindingRow;
+    db.prepare(
+      `INSERT INTO telemetry_events_v2 (event_type, execution_id, step_name, agent_name, metadata) VALUES ('finding_reviewed', ?, NULL, NULL, ?)`
+    ).run(finding.source_execution_id, JSON.stringify({ finding_id: id, decision: decision === 'approve' ? 'approved' : 'rejected', note }));
+    return finding;
+  });
+  return review();
+}
+
+/**
+ * Record a decision on the approval phase an execution waits on (mirrors workflow.approve / reject)
+ * The engine runs in the MCP server, which applies the decision the next time it checks the execution
+ * @returns The recorded decision, or why none could be recorded
+ */
+export function recordApproval(
+  executionId: string,
+  decision: 'approved' | 'rejected',
+  comment: string | null,
+  decidedBy: string | null
+): ExecutionApprovalRow | string {
+  const db = getWriteDb();
+  const record = db.transaction((): ExecutionApprovalRow | string => {
+    const step = db
+      .prepare(`
+        SELECT s.step_name, s.iteration
+        FROM workflow_executions_v2 e
+        JOIN workflow_steps_v2 s ON s.execution_id = e.execution_id AND s.step_name = e.current_step AND s.status = 'running'
+        WHERE e.execution_id = ? AND e.state = 'awaiting_approval'
+      `)
+      .get(executionId) as { step_name: string; iteration: number } | undefined;
+    if (!step) return 'Execution is not awaiting approval';
+
+    const row = db
+      .prepare(`
+        INSERT INTO workflow_approvals (execution_id, step_name, iteration, decision, comment, decided_by, source)
+        VALUES (?, ?, ?, ?, ?, ?, 'client')
+        ON CONFLICT(execution_id, step_name, iteration) DO NOTHING
+        RETURNING *
+      `)
+      .get(executionId, step.step_name, step.iteration, decision, comment, decidedBy) as ExecutionApprovalRow | undefined;
+    return row ?? `A decision on '${step.step_name}' was already recorded`;
+  });
+  return record();
+}
@@ -19,6 +19,7 @@ export const ExecutionStateSchema = z.enum([
   'idle',
   'running',
   'paused',
+  'awaiting_approval',
   'completed',
   'failed',
   'abandoned',
@@ -26,7 +27,7 @@ export const ExecutionStateSchema = z.enum([
 ]);
 export type ExecutionState = z.infer<typeof ExecutionStateSchema>;
 
-export const StepStatusSchema = z.enum(['pending', 'running', 'completed', 'failed']);
+export const StepStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'skipped']);
 export type StepStatus = z.infer<typeof StepStatusSchema>;
 
 export const ExecutionRowSchema = z.object({
@@ -39,9 +40,21 @@ export const ExecutionRowSchema = z.object({
   completed_at: z.string().nullable(),
   duration_ms: z.number().int().nullable(),
   metadata: z.string().nullable(),
+  parent_execution_id: z.string().nullable(),
 });
 export type ExecutionRow = z.infer<typeof ExecutionRowSchema>;
 
+// One execution in a sub-workflow tree; step_name is the parent phase that started it
+export const ExecutionTreeRowSchema = z.object({
+  execution_id: z.string(),
+  parent_execution_id: z.string().nullable(),
+  workflow_name: z.string(),
+  state: ExecutionStateSchema,
+  step_name: z.string().nullable(),
+  depth: z.number().int(),
+});
+export type ExecutionTreeRow = z.infer<typeof ExecutionTreeRowSchema>;
+
 export const ExecutionStepRowSchema = z.object({
   id: z.number().int(),
   execution_id: z.string(),
@@ -53,12 +66,31 @@ export const ExecutionStepRowSchema = z.object({
   duration_ms: z.number().int().nullable(),
   output: z.string().nullable(),
   token: z.string().nullable(),
+  child_execution_id: z.string().nullable(),
+  iteration: z.number().int(), // A phase reopened by an onOutcome transition gets a row per iteration
 });
 export type ExecutionStepRow = z.infer<typeof ExecutionStepRowSchema>;
 
+// A decision on an approval phase; the client records it with applied_at NULL and the server applies it
+export const ExecutionApprovalRowSchema = z.object({
+  id: z.number().int(),
+  execution_id: z.string(),
+  step_name: z.string(),
+  iteration: z.number().int(),
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().nullable(),
+  decided_by: z.string().nullable(),
+  source: z.enum(['mcp', 'cli', 'client']),
+  created_at: z.string(),
+  applied_at: z.string().nullable(),
+});
+export type ExecutionApprovalRow = z.infer<typeof ExecutionApprovalRowSchema>;
+
 export const ParsedPhaseSchema = z.object({
   phase: z.string(),
-  agent: z.string(),
+  agent: z.string().optional(), // Exactly one of agent, workflow and approval is set
+  workflow: z.string().optional(),
+  approval: z.object({ onReject: z.string() }).optional(),
   description: z.string(),
   dependsOn: z.array(z.string()),
   allowParallel: z.boolean(),
@@ -102,6 +134,32 @@ export const WorkflowArtifactRowSchema = z.object({
 });
 export type WorkflowArtifactRow = z.infer<typeof WorkflowArtifactRowSchema>;
 
+export const FindingStatusSchema = z.enum(['proposed', 'active', 'deprecated', 'rejected']);
+export type FindingStatus = z.infer<typeof FindingStatusSchema>;
+
+export const KnowledgeFindingRowSchema = z.object({
+  id: z.number().int(),
+  uid: z.string(),
+  scope: z.enum(['global', 'project', 'system']),
+  project_id: z.number().int().nullable(),
+  category: z.enum(['security', 'architecture', 'performance', 'constraint', 'pattern']),
+  severity: z.enum(['info', 'low', 'medium', 'high', 'critical']),
+  status: FindingStatusSchema,
+  title: z.string(),
+  content: z.string(),
+  tags: z.string().nullable(),
+  source_execution_id: z.string().nullable(),
+  source_agent: z.string().nullable(),
+  review_note: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  superseded_by: z.number().int().nullable(),
+  expires_at: z.string().nullable(),
+  review_by: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+export type KnowledgeFindingRow = z.infer<typeof KnowledgeFindingRowSchema>;
+
 // ============================================================================
 // API Response Schemas
 // ============================================================================
@@ -12,12 +12,16 @@ export type {
   ExecutionState,
   StepStatus,
   ExecutionRow,
+  ExecutionTreeRow,
   ExecutionStepRow,
+  ExecutionApprovalRow,
   WorkflowRow,
   AgentRow,
   ParsedPhase,
   WorkflowArtifactRow,
   ArtifactType,
+  FindingStatus,
+  KnowledgeFindingRow,
 
   // API response types
   Stats,
@@ -37,11 +41,15 @@ export {
   ExecutionStateSchema,
   StepStatusSchema,
   ExecutionRowSchema,
+  ExecutionTreeRowSchema,
   ExecutionStepRowSchema,
+  ExecutionApprovalRowSchema,
   WorkflowRowSchema,
   AgentRowSchema,
   ParsedPhaseSchema,
   WorkflowArtifactRowSchema,
+  FindingStatusSchema,
+  KnowledgeFindingRowSchema,
   StatsSchema,
   WorkflowStatsSchema,
   WorkflowEfficiencySchema,
@@ -15,6 +15,15 @@ export function parsePhases(phasesData: string | ParsedPhase[] | null | undefine
   return safeParseJSON<ParsedPhase[]>(phasesData, []);
 }
 
+/**
+ * Who runs a phase: its agent, its sub-workflow, or a person for approval phases
+ */
+export function describePhaseRunner(phase: ParsedPhase): string {
+  if (phase.agent) return phase.agent;
+  if (phase.approval) return `approval (rejects to ${phase.approval.onReject})`;
+  return `workflow: ${phase.workflow}`;
+}
+
 export function parseTags(tagsData: string | string[] | null | undefined): string[] {
   if (!tagsData) return [];
   if (Array.isArray(tagsData)) return tagsData; // Already parsed
@@ -0,0 +1,102 @@
+#!/usr/bin/env tsx
+
+/**
+ * Approval gates - list executions waiting on an approval phase and decide them
+ *
+ * Usage:
+ *   tsx scripts/approval.ts list
+ *   tsx scripts/approval.ts approve <execution_id> [--comment <text>] [--by <name>]
+ *   tsx scripts/approval.ts reject <execution_id> --comment <text> [--by <name>]
+ *
+ * A decision is applied right away: approval lets the workflow continue, rejection sends it back
+ * to the phase's onReject. Agents pick the new steps up from the current_step resource
+ */
+
+import { parseArgs } from 'util';
+
+const USAGE = `Usage:
+  npm run approval -- list
+  npm run approval -- approve <execution_id> [--comment <text>] [--by <name>]
+  npm run approval -- reject <execution_id> --comment <text> [--by <name>]`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      comment: { type: 'string' },
+      by: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, executionId = ''] = positionals;
+  if (values.help || (command !== 'list' && command !== 'approve' && command !== 'reject')) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  if (command !== 'list') {
+    if (!executionId) throw new Error(`Give the execution to ${command}`);
+    if (command === 'reject' && !values.comment?.trim()) throw new Error('--comment is required when rejecting');
+  }
+
+  const [{ getDatabasePath }, { initDatabase }, { StepExecutor }, { ExecutionWatchdog, loadExecutionPlan }] = await Promise.all([
+    import('../server/shared/config.ts'),
+    import('../server/database/index.ts'),
+    import('../server/mcp/core/step-executor.ts'),
+    import('../server/mcp/core/execution-watchdog.ts'),
+  ]);
+
+  const db = await initDatabase({ path: getDatabasePath(), runMigrations: true });
+  try {
+    if (command === 'list') {
+      const rows = db.connection
+        .prepare(
+          `SELECT e.execution_id, e.workflow_name, e.current_step, s.iteration, s.started_at
+           FROM workflow_executions_v2 e
+           LEFT JOIN workflow_steps_v2 s ON s.execution_id = e.execution_id AND s.step_name = e.current_step AND s.status = 'running'
+           WHERE e.state = 'awaiting_approval'
+           ORDER BY s.started_at ASC`
+        )
+        .all() as Array<{ execution_id: string; workflow_name: string; current_step: string | null; iteration: number | null; started_at: string | null }>;
+
+      if (rows.length === 0) {
+        console.log('[approval] No executions awaiting approval');
+        return;
+      }
+      for (const row of rows) {
+        const iteration = row.iteration && row.iteration > 1 ? ` (iteration ${row.iteration})` : '';
+        console.log(`${row.execution_id}  ${row.workflow_name} / ${row.current_step ?? '?'}${iteration}  since ${row.started_at ?? '?'}`);
+      }
+      return;
+    }
+
+    const plan = loadExecutionPlan(db.connection, executionId);
+    if (!plan) throw new Error(`Execution ${executionId} or its workflow not found`);
+
+    new ExecutionWatchdog(db.connection).checkExecution(executionId);
+    const result = new StepExecutor(db.connection).decideApproval(
+      executionId,
+      {
+        decision: command === 'approve' ? 'approved' : 'rejected',
+        comment: values.comment?.trim() || null,
+        decided_by: values.by ?? null,
+        source: 'cli',
+      },
+      plan.phases,
+      plan.policy
+    );
+    if (!result.success) throw new Error(result.error ?? 'Failed to record the decision');
+
+    const ready = (result.steps ?? []).map((step) => step.step_name);
+    const next = ready.length > 0 ? `; ready: ${ready.join(', ')}` : result.message ? `; ${result.message}` : '';
+    console.log(`[approval] ${executionId} ${command === 'approve' ? 'approved' : 'rejected'}, now '${result.workflow_state}'${next}`);
+  } finally {
+    db.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('[approval] Failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+
+/**
+ * Knowledge bundles - export findings to share or back up, import them elsewhere
+ *
+ * Usage:
+ *   tsx scripts/knowledge.ts export [--format json|markdown] [--out <file|dir>]
+ *                                   [--scope <scope>] [--project <path>] [--category <category>]
+ *                                   [--tag <tag>]... [--status <status>]
+ *   tsx scripts/knowledge.ts import <bundle.json | file.md | dir>... [--strategy <strategy>] [--dry-run]
+ *
+ * JSON goes to stdout unless --out is given; markdown needs --out, a directory that gets one
+ * file per finding. A directory given to import is read for *.md files, like content/knowledge/
+ */
+
+import { mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { extname, join } from 'path';
+import { parseArgs } from 'util';
+
+const USAGE = `Usage:
+  npm run knowledge -- export [--format json|markdown] [--out <file|dir>] [--scope <scope>] [--project <path>]
+                              [--category <category>] [--tag <tag>]... [--status <status>]
+  npm run knowledge -- import <bundle.json | file.md | dir>... [--strategy keep-newest|keep-filesystem|keep-database|manual] [--dry-run]`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      out: { type: 'string' },
+      scope: { type: 'string' },
+      project: { type: 'string' },
+      category: { type: 'string' },
+      tag: { type: 'string', multiple: true },
+      status: { type: 'string' },
+      strategy: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...paths] = positionals;
+  if (values.help || (command !== 'export' && command !== 'import')) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const [{ getDatabasePath }, { initDatabase }, bundles, types] = await Promise.all([
+    import('../server/shared/config.ts'),
+    import('../server/database/index.ts'),
+    import('../server/mcp/core/knowledge-bundle.ts'),
+    import('../server/mcp/types/index.ts'),
+  ]);
+
+  const db = await initDatabase({ path: getDatabasePath(), runMigrations: true });
+  try {
+    const knowledge = new bundles.KnowledgeBundles(db.connection);
+
+    if (command === 'export') {
+      const parsed = types.KnowledgeExportArgsSchema.safeParse({
+        format: values.format,
+        scope: values.scope,
+        project_path: values.project,
+        category: values.category,
+        tags: values.tag,
+        status: values.status,
+      });
+      if (!parsed.success) throw new Error(`Invalid options: ${parsed.error.message}`);
+      const { format, ...filters } = parsed.data;
+
+      if (format === 'markdown') {
+        if (!values.out) throw new Error('--out <dir> is required for markdown exports');
+        const files = knowledge.exportMarkdown(filters);
+        if (typeof files === 'string') throw new Error(files);
+        mkdirSync(values.out, { recursive: true });
+        for (const file of files) writeFileSync(join(values.out, file.name), file.content);
+        console.error(`[knowledge] Exported ${files.length} finding(s) to ${values.out}`);
+        return;
+      }
+
+      const bundle = knowledge.exportBundle(filters);
+      if (typeof bundle === 'string') throw new Error(bundle);
+      const json = `${JSON.stringify(bundle, null, 2)}\n`;
+      if (values.out) {
+        writeFileSync(values.out, json);
+        console.error(`[knowledge] Exported ${bundle.findings.length} finding(s) to ${values.out}`);
+      } else {
+        process.stdout.write(json);
+      }
+      return;
+    }
+
+    if (paths.length === 0) throw new Error('Give at least one bundle, markdown file or directory to import');
+    const strategy = types.KnowledgeConflictStrategySchema.safeParse(values.strategy ?? 'keep-newest');
+    if (!strategy.success) throw new Error(`Invalid --strategy '${values.strategy}'`);
+
+    let failed = false;
+    for (const path of paths) {
+      const entries = readEntries(path, bundles);
+      const report = knowledge.importEntries(entries, { strategy: strategy.data, dryRun: values['dry-run'], source: path });
+      const prefix = report.dry_run ? '[knowledge] (dry run)' : '[knowledge]';
+      console.log(
+        `${prefix} ${path}: ${report.added} added, ${report.updated} updated, ${report.unchanged} unchanged, ` +
+          `${report.kept} kept local, ${report.conflicts} conflict(s), ${report.errors} error(s)`
+      );
+      for (const finding of report.findings.filter((f) => f.action === 'conflict' || f.action === 'error')) {
+        console.log(`  ${finding.action}: ${finding.uid} ${finding.title} - ${finding.reason}`);
+      }
+      failed ||= report.errors > 0;
+    }
+    if (failed) process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Entries from a JSON bundle, a markdown file, or every markdown file in a directory
+ */
+function readEntries(path: string, bundles: typeof import('../server/mcp/core/knowledge-bundle.ts')): unknown[] {
+  if (statSync(path).isDirectory()) {
+    return readdirSync(path)
+      .filter((name) => extname(name) === '.md')
+      .sort()
+      .map((name) => bundles.parseKnowledgeMarkdown(name, readFileSync(join(path, name), 'utf-8')));
+  }
+
+  const text = readFileSync(path, 'utf-8');
+  if (extname(path) === '.md') return [bundles.parseKnowledgeMarkdown(path, text)];
+
+  const bundle = bundles.parseKnowledgeBundle(text);
+  if (typeof bundle === 'string') throw new Error(`${path}: ${bundle}`);
+  return bundle.findings;
+}
+
+main().catch((error) => {
+  console.error('[knowledge] Failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
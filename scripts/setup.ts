@@ -159,8 +159,9 @@ async function syncResources(): Promise<void> {
   const toolConfigsResult = results['tool-configs'];
 
   if (contentResult) {
-    const total = contentResult.added + contentResult.updated;
-    console.log(`- Content: +${contentResult.added} new, !${contentResult.updated} updated${contentResult.errors > 0 ? `, ✗${contentResult.errors} errors` : ''}`);
+    const conflicts = contentResult.conflicts > 0 ? `, ⚠${contentResult.conflicts} conflicts` : '';
+    const errors = contentResult.errors.length > 0 ? `, ✗${contentResult.errors.length} errors` : '';
+    console.log(`- Content: +${contentResult.added} new, !${contentResult.updated} updated, -${contentResult.deleted} deleted${conflicts}${errors}`);
   }
 
   if (projectsResult) {
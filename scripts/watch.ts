@@ -0,0 +1,99 @@
+#!/usr/bin/env tsx
+
+/**
+ * Watch mode - resync content and tool configs into the database as files change
+ *
+ * Usage:
+ *   tsx scripts/watch.ts [--plugin <name>]... [--debounce <ms>] [--strategy <strategy>]
+ *
+ * Runs one full sync first, then resyncs only the plugin (and files) that changed, recording a
+ * resource_synced telemetry event per run. The HTTP server does the same while it runs; this is
+ * for editing content without one, e.g. when tools run their own stdio servers. Stop with Ctrl+C
+ */
+
+import { parseArgs } from 'util';
+
+const USAGE = `Usage:
+  npm run watch -- [--plugin content|tool-configs]... [--debounce <ms>] [--strategy keep-newest|keep-filesystem|keep-database|manual]`;
+
+const STRATEGIES = ['keep-newest', 'keep-filesystem', 'keep-database', 'manual'] as const;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      plugin: { type: 'string', multiple: true },
+      debounce: { type: 'string' },
+      strategy: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const strategy = values.strategy as (typeof STRATEGIES)[number] | undefined;
+  if (strategy && !STRATEGIES.includes(strategy)) throw new Error(`Invalid --strategy '${values.strategy}'`);
+
+  const [config, { initDatabase }, { ResourceManager }, { TelemetryService, extractErrorMessage }] = await Promise.all([
+    import('../server/shared/config.ts'),
+    import('../server/database/index.ts'),
+    import('../server/src/manager.ts'),
+    import('../server/mcp/lib/utils.ts'),
+  ]);
+
+  const debounceMs = values.debounce !== undefined ? Number(values.debounce) : config.getSyncWatchSettings(true).debounceMs;
+  if (!Number.isFinite(debounceMs) || debounceMs < 0) throw new Error(`Invalid --debounce '${values.debounce}'`);
+
+  const db = await initDatabase({ path: config.getDatabasePath(), runMigrations: true });
+  const telemetry = new TelemetryService(db.connection);
+  const manager = await ResourceManager.init({
+    database: db.connection,
+    basePath: config.getContentPath(),
+    conflictStrategy: strategy,
+  });
+
+  // Catch up on edits made while nothing was watching
+  const initial = values.plugin
+    ? Object.fromEntries(await Promise.all(values.plugin.map(async (name) => [name, await manager.sync(name)] as const)))
+    : await manager.syncAll();
+  for (const [name, result] of Object.entries(initial)) {
+    console.log(`[watch] ${name}: ${summarize(result)}`);
+  }
+
+  const watcher = manager.watch({
+    debounceMs,
+    plugins: values.plugin,
+    onSynced: ({ plugin, paths, result, durationMs }) => {
+      telemetry.resourceSynced(plugin, paths, result, durationMs);
+      console.log(`[watch] ${plugin} (${paths.length > 0 ? `${paths.length} file(s)` : 'full'}, ${durationMs}ms): ${summarize(result)}`);
+      for (const error of result.errors) console.log(`  ✗ ${error}`);
+    },
+    onError: (plugin, error) => {
+      telemetry.error(null, `watch:${plugin}`, extractErrorMessage(error));
+      console.error(`[watch] ${plugin} failed:`, extractErrorMessage(error));
+    },
+  });
+  console.log(`[watch] Watching ${watcher.size} director${watcher.size === 1 ? 'y' : 'ies'} (debounce ${debounceMs}ms). Ctrl+C to stop`);
+
+  const stop = async () => {
+    await watcher.close();
+    db.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void stop());
+  process.on('SIGTERM', () => void stop());
+}
+
+function summarize(result: { added: number; updated: number; deleted: number; conflicts: number; errors: string[] }): string {
+  const parts = [`+${result.added} new`, `!${result.updated} updated`, `-${result.deleted} deleted`];
+  if (result.conflicts > 0) parts.push(`⚠${result.conflicts} conflicts`);
+  if (result.errors.length > 0) parts.push(`✗${result.errors.length} errors`);
+  return parts.join(', ');
+}
+
+main().catch((error) => {
+  console.error('[watch] Failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
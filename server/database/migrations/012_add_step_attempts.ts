@@ -0,0 +1,36 @@
+import type { Migration } from './types.js';
+
+/**
+ * Track retry attempts on workflow steps so execution policies can be enforced.
+ *
+ * Adds to workflow_steps_v2:
+ * - attempt: 1-based attempt counter, bumped each time a failed step is retried
+ * - retry_at: When a step waiting out its backoff ('pending') becomes runnable again
+ */
+const migration: Migration = {
+  version: 12,
+  name: 'add_step_attempts',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // STEP ATTEMPTS - Retry bookkeeping
+    // ============================================================================
+    db.exec(`
+      ALTER TABLE workflow_steps_v2 ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1 CHECK(attempt >= 1);
+      ALTER TABLE workflow_steps_v2 ADD COLUMN retry_at TEXT;
+
+      CREATE INDEX IF NOT EXISTS idx_steps_v2_retry_at ON workflow_steps_v2(retry_at) WHERE retry_at IS NOT NULL;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_steps_v2_retry_at;
+      ALTER TABLE workflow_steps_v2 DROP COLUMN retry_at;
+      ALTER TABLE workflow_steps_v2 DROP COLUMN attempt;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,48 @@
+import type { Migration } from './types.js';
+
+/**
+ * Store JSON contracts from content/contracts so step outputs can be validated.
+ *
+ * Creates:
+ * - contracts: One JSON Schema per file, referenced by name from a workflow phase's outputContract
+ */
+const migration: Migration = {
+  version: 13,
+  name: 'add_contracts',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // CONTRACTS - JSON Schemas for step inputs/outputs
+    // ============================================================================
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS contracts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL CHECK(length(name) > 0 AND length(name) <= 100),
+        description TEXT NOT NULL DEFAULT '' CHECK(length(description) <= 500),
+        schema_id TEXT CHECK(schema_id IS NULL OR length(schema_id) <= 500),
+        content TEXT NOT NULL CHECK(json_valid(content)),
+        path TEXT CHECK(path IS NULL OR length(path) <= 500),
+        file_hash TEXT CHECK(file_hash IS NULL OR length(file_hash) <= 64),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TRIGGER IF NOT EXISTS update_contracts_timestamp
+        AFTER UPDATE ON contracts
+        FOR EACH ROW
+      BEGIN
+        UPDATE contracts SET updated_at = CURRENT_TIMESTAMP WHERE id = OLD.id;
+      END;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP TRIGGER IF EXISTS update_contracts_timestamp;
+      DROP TABLE IF EXISTS contracts;
+    `);
+  },
+};
+
+export default migration;
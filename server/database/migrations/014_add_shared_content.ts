@@ -0,0 +1,48 @@
+import type { Migration } from './types.js';
+
+/**
+ * Store shared content fragments (e.g. agents/_shared_context.md) used when composing prompts.
+ *
+ * Creates:
+ * - shared_content: Named markdown fragments that are not agents themselves but are
+ *   prepended to every agent persona
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'add_shared_content',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // SHARED CONTENT - Prompt fragments common to all agents
+    // ============================================================================
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS shared_content (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL CHECK(length(name) > 0 AND length(name) <= 100),
+        description TEXT NOT NULL DEFAULT '' CHECK(length(description) <= 500),
+        content TEXT NOT NULL,
+        path TEXT CHECK(path IS NULL OR length(path) <= 500),
+        file_hash TEXT CHECK(file_hash IS NULL OR length(file_hash) <= 64),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TRIGGER IF NOT EXISTS update_shared_content_timestamp
+        AFTER UPDATE ON shared_content
+        FOR EACH ROW
+      BEGIN
+        UPDATE shared_content SET updated_at = CURRENT_TIMESTAMP WHERE id = OLD.id;
+      END;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP TRIGGER IF EXISTS update_shared_content_timestamp;
+      DROP TABLE IF EXISTS shared_content;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import type { Migration } from './types.js';
+
+/**
+ * Bind workflow executions to the project they run against, as the legacy workflow_executions did.
+ *
+ * Adds to workflow_executions_v2:
+ * - project_id: project_associations row resolved from workflow.start's project_path/project_id
+ */
+const migration: Migration = {
+  version: 15,
+  name: 'add_execution_project',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // EXECUTION PROJECT - Which repository an execution targets
+    // ============================================================================
+    db.exec(`
+      ALTER TABLE workflow_executions_v2 ADD COLUMN project_id INTEGER REFERENCES project_associations(id) ON DELETE SET NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_executions_v2_project_id ON workflow_executions_v2(project_id);
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_executions_v2_project_id;
+      ALTER TABLE workflow_executions_v2 DROP COLUMN project_id;
+    `);
+  },
+};
+
+export default migration;
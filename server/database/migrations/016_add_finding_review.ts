@@ -0,0 +1,141 @@
+import type { Migration } from './types.js';
+
+/**
+ * Review queue for knowledge findings suggested by workflow steps.
+ *
+ * Rebuilds knowledge_findings (SQLite cannot alter a CHECK constraint) to add:
+ * - status 'proposed': Suggested by a step, awaiting knowledge.approve_finding / reject_finding
+ * - status 'rejected': Declined during review; kept so the same suggestion is not re-triaged blind
+ * - review_note: Reviewer's note on the decision (required when rejecting)
+ * - reviewed_at: When the finding left the queue
+ *
+ * Also rebuilds knowledge_findings_fts: its `finding_id` column has no counterpart in the
+ * content table, so every UPDATE or DELETE on knowledge_findings failed. The FTS table now
+ * mirrors content columns only and its triggers use the external-content 'delete' command.
+ */
+type Db = Parameters<Migration['up']>[0];
+
+const FINDING_COLUMNS = `id, scope, project_id, category, severity, status, title, content, tags,
+  source_execution_id, source_agent, created_at, updated_at`;
+
+function rebuildFindingsTable(db: Db, statuses: string, reviewColumns: string, keepFilter: string): void {
+  db.exec(`
+    CREATE TABLE knowledge_findings_rebuild (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scope TEXT NOT NULL CHECK(scope IN ('global', 'project', 'system')),
+      project_id INTEGER,
+      category TEXT NOT NULL CHECK(category IN ('security', 'architecture', 'performance', 'constraint', 'pattern')),
+      severity TEXT NOT NULL CHECK(severity IN ('info', 'low', 'medium', 'high', 'critical')),
+      status TEXT NOT NULL DEFAULT 'active' CHECK(status IN (${statuses})),
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      tags TEXT CHECK(tags IS NULL OR json_valid(tags)),
+      source_execution_id TEXT,
+      source_agent TEXT,
+      ${reviewColumns}
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+      FOREIGN KEY (project_id) REFERENCES project_associations(id) ON DELETE CASCADE,
+      FOREIGN KEY (source_execution_id) REFERENCES workflow_executions_v2(execution_id) ON DELETE SET NULL,
+      CHECK(length(title) > 0),
+      CHECK(length(content) > 0),
+      CHECK(scope != 'project' OR project_id IS NOT NULL)
+    );
+
+    INSERT INTO knowledge_findings_rebuild (${FINDING_COLUMNS})
+    SELECT ${FINDING_COLUMNS} FROM knowledge_findings ${keepFilter};
+
+    DROP TABLE knowledge_findings;
+    ALTER TABLE knowledge_findings_rebuild RENAME TO knowledge_findings;
+
+    CREATE INDEX IF NOT EXISTS idx_knowledge_findings_scope ON knowledge_findings(scope);
+    CREATE INDEX IF NOT EXISTS idx_knowledge_findings_project ON knowledge_findings(project_id);
+    CREATE INDEX IF NOT EXISTS idx_knowledge_findings_category ON knowledge_findings(category);
+    CREATE INDEX IF NOT EXISTS idx_knowledge_findings_severity ON knowledge_findings(severity);
+    CREATE INDEX IF NOT EXISTS idx_knowledge_findings_status ON knowledge_findings(status);
+
+    CREATE TRIGGER IF NOT EXISTS trg_knowledge_findings_updated_at
+      AFTER UPDATE ON knowledge_findings
+      FOR EACH ROW
+    BEGIN
+      UPDATE knowledge_findings
+      SET updated_at = CURRENT_TIMESTAMP
+      WHERE id = old.id;
+    END;
+  `);
+}
+
+function rebuildFindingsFts(db: Db): void {
+  db.exec(`
+    DROP TABLE IF EXISTS knowledge_findings_fts;
+
+    CREATE VIRTUAL TABLE knowledge_findings_fts USING fts5(
+      title,
+      content,
+      tags,
+      category,
+      scope,
+      content='knowledge_findings',
+      content_rowid='id'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS trg_knowledge_findings_insert
+      AFTER INSERT ON knowledge_findings
+    BEGIN
+      INSERT INTO knowledge_findings_fts(rowid, title, content, tags, category, scope)
+      VALUES (new.id, new.title, new.content, new.tags, new.category, new.scope);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS trg_knowledge_findings_delete
+      AFTER DELETE ON knowledge_findings
+    BEGIN
+      INSERT INTO knowledge_findings_fts(knowledge_findings_fts, rowid, title, content, tags, category, scope)
+      VALUES ('delete', old.id, old.title, old.content, old.tags, old.category, old.scope);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS trg_knowledge_findings_update
+      AFTER UPDATE ON knowledge_findings
+    BEGIN
+      INSERT INTO knowledge_findings_fts(knowledge_findings_fts, rowid, title, content, tags, category, scope)
+      VALUES ('delete', old.id, old.title, old.content, old.tags, old.category, old.scope);
+      INSERT INTO knowledge_findings_fts(rowid, title, content, tags, category, scope)
+      VALUES (new.id, new.title, new.content, new.tags, new.category, new.scope);
+    END;
+
+    INSERT INTO knowledge_findings_fts(knowledge_findings_fts) VALUES ('rebuild');
+  `);
+}
+
+const migration: Migration = {
+  version: 16,
+  name: 'add_finding_review',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // KNOWLEDGE FINDINGS - Review statuses and columns
+    // ============================================================================
+    rebuildFindingsTable(
+      db,
+      `'proposed', 'active', 'deprecated', 'rejected'`,
+      `review_note TEXT CHECK(review_note IS NULL OR length(review_note) <= 1000),
+      reviewed_at TEXT,`,
+      ''
+    );
+
+    // ============================================================================
+    // FTS TABLE - Content columns only, so updates and deletes work
+    // ============================================================================
+    rebuildFindingsFts(db);
+  },
+
+  down: (db) => {
+    // Findings still in (or declined from) the review queue have no place in the old schema.
+    // The repaired FTS table is kept: the original one cannot survive an UPDATE
+    rebuildFindingsTable(db, `'active', 'deprecated'`, '', `WHERE status IN ('active', 'deprecated')`);
+    rebuildFindingsFts(db);
+  },
+};
+
+export default migration;
@@ -0,0 +1,76 @@
+import type { Migration } from './types.js';
+
+/**
+ * Lifecycle for knowledge findings: replacement links, expiry and revision history.
+ *
+ * Adds to knowledge_findings:
+ * - superseded_by: Finding that replaced this one (set by supersede or merge; the finding is deprecated).
+ *   Not a FOREIGN KEY so the column can be dropped again; the tools check the target exists
+ * - expires_at: After this time the finding is deprecated automatically
+ * - review_by: Date by which the finding should be re-checked; advisory only
+ *
+ * Creates:
+ * - knowledge_finding_revisions: Snapshot of a finding after every change, numbered per finding.
+ *   Existing findings get revision 1 ('created') from their current state
+ */
+const migration: Migration = {
+  version: 17,
+  name: 'add_finding_lifecycle',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // KNOWLEDGE FINDINGS - Lifecycle columns
+    // ============================================================================
+    db.exec(`
+      ALTER TABLE knowledge_findings ADD COLUMN superseded_by INTEGER;
+      ALTER TABLE knowledge_findings ADD COLUMN expires_at TEXT;
+      ALTER TABLE knowledge_findings ADD COLUMN review_by TEXT;
+
+      CREATE INDEX IF NOT EXISTS idx_knowledge_findings_superseded_by ON knowledge_findings(superseded_by);
+      CREATE INDEX IF NOT EXISTS idx_knowledge_findings_expires_at ON knowledge_findings(expires_at);
+    `);
+
+    // ============================================================================
+    // REVISIONS - One snapshot per change
+    // ============================================================================
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS knowledge_finding_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        finding_id INTEGER NOT NULL,
+        revision INTEGER NOT NULL CHECK(revision > 0),
+        change TEXT NOT NULL CHECK(change IN ('created', 'proposed', 'updated', 'approved', 'rejected', 'superseded', 'merged', 'expired')),
+        note TEXT CHECK(note IS NULL OR length(note) <= 1000),
+        snapshot TEXT NOT NULL CHECK(json_valid(snapshot)),
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+        FOREIGN KEY (finding_id) REFERENCES knowledge_findings(id) ON DELETE CASCADE,
+        UNIQUE(finding_id, revision)
+      );
+
+      INSERT INTO knowledge_finding_revisions (finding_id, revision, change, snapshot, created_at)
+      SELECT id, 1, 'created',
+        json_object(
+          'scope', scope, 'project_id', project_id, 'category', category, 'severity', severity, 'status', status,
+          'title', title, 'content', content, 'tags', json(COALESCE(tags, '[]')),
+          'superseded_by', NULL, 'expires_at', NULL, 'review_by', NULL, 'review_note', review_note
+        ),
+        updated_at
+      FROM knowledge_findings;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP TABLE IF EXISTS knowledge_finding_revisions;
+
+      DROP INDEX IF EXISTS idx_knowledge_findings_superseded_by;
+      DROP INDEX IF EXISTS idx_knowledge_findings_expires_at;
+      ALTER TABLE knowledge_findings DROP COLUMN superseded_by;
+      ALTER TABLE knowledge_findings DROP COLUMN expires_at;
+      ALTER TABLE knowledge_findings DROP COLUMN review_by;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,45 @@
+import type { Migration } from './types.js';
+
+/**
+ * Portable identity for knowledge findings, so exported bundles can be re-imported as upserts.
+ *
+ * Adds to knowledge_findings:
+ * - uid: Stable identifier carried in knowledge bundles and `knowledge/` content files. Row ids
+ *   differ per database; uid does not. Findings inserted without one get a random hex uid
+ */
+const migration: Migration = {
+  version: 18,
+  name: 'add_finding_uid',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // KNOWLEDGE FINDINGS - Portable uid
+    // ============================================================================
+    db.exec(`
+      ALTER TABLE knowledge_findings ADD COLUMN uid TEXT CHECK(uid IS NULL OR (length(uid) > 0 AND length(uid) <= 100));
+
+      UPDATE knowledge_findings SET uid = lower(hex(randomblob(16))) WHERE uid IS NULL;
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_knowledge_findings_uid ON knowledge_findings(uid);
+
+      CREATE TRIGGER IF NOT EXISTS trg_knowledge_findings_uid
+        AFTER INSERT ON knowledge_findings
+        FOR EACH ROW
+        WHEN new.uid IS NULL
+      BEGIN
+        UPDATE knowledge_findings SET uid = lower(hex(randomblob(16))) WHERE id = new.id;
+      END;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP TRIGGER IF EXISTS trg_knowledge_findings_uid;
+      DROP INDEX IF EXISTS idx_knowledge_findings_uid;
+      ALTER TABLE knowledge_findings DROP COLUMN uid;
+    `);
+  },
+};
+
+export default migration;
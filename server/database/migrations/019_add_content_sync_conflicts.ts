@@ -0,0 +1,49 @@
+import type { Migration } from './types.js';
+
+/**
+ * Conflicts found by the content sync, kept for a person to resolve.
+ *
+ * Creates:
+ * - content_sync_conflicts: One row per content resource (agent, rule, workflow, ...) whose file
+ *   changed or disappeared while the sync ran with the 'manual' strategy. A later sync that
+ *   settles the resource (another strategy, the file reverted, the row deleted) marks it resolved
+ */
+const migration: Migration = {
+  version: 19,
+  name: 'add_content_sync_conflicts',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // CONTENT SYNC CONFLICTS
+    // ============================================================================
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS content_sync_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content_type TEXT NOT NULL CHECK(content_type IN ('agent', 'shared', 'rule', 'contract', 'workflow', 'knowledge')),
+        name TEXT NOT NULL,
+        path TEXT,
+        file_hash TEXT CHECK(file_hash IS NULL OR length(file_hash) <= 64), -- NULL when the file was deleted
+        db_hash TEXT CHECK(db_hash IS NULL OR length(db_hash) <= 64),
+        reason TEXT NOT NULL,
+        detected_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        resolved_at TEXT,
+        resolution TEXT CHECK(resolution IS NULL OR resolution IN ('keep-filesystem', 'keep-database', 'in-sync', 'deleted')),
+
+        UNIQUE(content_type, name),
+        CHECK((resolved_at IS NULL) = (resolution IS NULL))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_content_sync_conflicts_open ON content_sync_conflicts(resolved_at) WHERE resolved_at IS NULL;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_content_sync_conflicts_open;
+      DROP TABLE IF EXISTS content_sync_conflicts;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,73 @@
+import type { Migration } from './types.js';
+
+/**
+ * Immutable workflow definitions, so an execution keeps the phases it started with when the
+ * workflow file is edited mid-run.
+ *
+ * Creates:
+ * - workflow_versions: One row per distinct definition of a workflow (description, content, tags,
+ *   complexity, phases), keyed by a hash of those fields and numbered per workflow. Rows cannot
+ *   be updated; a changed definition is a new version
+ *
+ * Adds to workflow_executions_v2:
+ * - workflow_version_id: The version the execution started on. Versions are keyed by a SHA-256
+ *   the server computes, so nothing is backfilled here: executions started before this migration
+ *   are pinned to their workflow's current definition the first time the server loads them
+ */
+const migration: Migration = {
+  version: 20,
+  name: 'add_workflow_versions',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // WORKFLOW VERSIONS - Immutable definitions keyed by content hash
+    // ============================================================================
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS workflow_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workflow_name TEXT NOT NULL CHECK(length(workflow_name) > 0 AND length(workflow_name) <= 200),
+        version INTEGER NOT NULL CHECK(version >= 1),
+        content_hash TEXT NOT NULL CHECK(length(content_hash) = 64),
+        description TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tags TEXT CHECK(tags IS NULL OR json_valid(tags)),
+        complexity TEXT,
+        phases TEXT CHECK(phases IS NULL OR json_valid(phases)),
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+        UNIQUE(workflow_name, version),
+        UNIQUE(workflow_name, content_hash)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_workflow_versions_name ON workflow_versions(workflow_name, version DESC);
+
+      CREATE TRIGGER IF NOT EXISTS trg_workflow_versions_immutable
+        BEFORE UPDATE ON workflow_versions
+      BEGIN
+        SELECT RAISE(ABORT, 'workflow_versions rows are immutable; record a new version instead');
+      END;
+    `);
+
+    // ============================================================================
+    // EXECUTION PIN - Which version an execution runs
+    // ============================================================================
+    db.exec(`
+      ALTER TABLE workflow_executions_v2 ADD COLUMN workflow_version_id INTEGER REFERENCES workflow_versions(id);
+
+      CREATE INDEX IF NOT EXISTS idx_executions_v2_workflow_version ON workflow_executions_v2(workflow_version_id);
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_executions_v2_workflow_version;
+      ALTER TABLE workflow_executions_v2 DROP COLUMN workflow_version_id;
+      DROP TRIGGER IF EXISTS trg_workflow_versions_immutable;
+      DROP INDEX IF EXISTS idx_workflow_versions_name;
+      DROP TABLE IF EXISTS workflow_versions;
+    `);
+  },
+};
+
+export default migration;
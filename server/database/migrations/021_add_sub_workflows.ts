@@ -0,0 +1,43 @@
+import type { Migration } from './types.js';
+
+/**
+ * Sub-workflows: a phase that runs another workflow as a child execution
+ *
+ * Adds to workflow_executions_v2:
+ * - parent_execution_id: The execution whose phase started this one; NULL for top-level executions
+ *
+ * Adds to workflow_steps_v2:
+ * - child_execution_id: The execution a sub-workflow step is waiting on. A retried step starts a
+ *   new child, so this always names the latest attempt's
+ */
+const migration: Migration = {
+  version: 21,
+  name: 'add_sub_workflows',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // EXECUTION TREE - Parent and child links
+    // ============================================================================
+    db.exec(`
+      ALTER TABLE workflow_executions_v2 ADD COLUMN parent_execution_id TEXT REFERENCES workflow_executions_v2(execution_id);
+      ALTER TABLE workflow_steps_v2 ADD COLUMN child_execution_id TEXT REFERENCES workflow_executions_v2(execution_id);
+
+      CREATE INDEX IF NOT EXISTS idx_executions_v2_parent ON workflow_executions_v2(parent_execution_id)
+        WHERE parent_execution_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_steps_v2_child ON workflow_steps_v2(child_execution_id)
+        WHERE child_execution_id IS NOT NULL;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_steps_v2_child;
+      DROP INDEX IF EXISTS idx_executions_v2_parent;
+      ALTER TABLE workflow_steps_v2 DROP COLUMN child_execution_id;
+      ALTER TABLE workflow_executions_v2 DROP COLUMN parent_execution_id;
+    `);
+  },
+};
+
+export default migration;
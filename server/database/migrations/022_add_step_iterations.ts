@@ -0,0 +1,84 @@
+import type { Migration } from './types.js';
+
+/**
+ * Rework loops: a phase sent back by an `onOutcome` transition runs again as a new step row,
+ * so every iteration keeps its own status, output and token.
+ *
+ * Rebuilds workflow_steps_v2 (SQLite cannot alter a UNIQUE or CHECK constraint) to add:
+ * - iteration: 1-based, bumped each time a transition reopens the phase. Retries of a failed
+ *   step stay on the same row and iteration (see attempt)
+ * - UNIQUE(execution_id, step_name, iteration) in place of UNIQUE(execution_id, step_name)
+ * - status 'skipped': The phase's `when` condition did not hold
+ */
+type Db = Parameters<Migration['up']>[0];
+
+const STEP_COLUMNS = `id, execution_id, step_name, agent_name, status, started_at, completed_at, duration_ms,
+  output, token, attempt, retry_at, child_execution_id`;
+
+function rebuildStepsTable(db: Db, statuses: string, withIterations: boolean, keepFilter: string): void {
+  db.exec(`
+    CREATE TABLE workflow_steps_v2_rebuild (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      execution_id TEXT NOT NULL,
+      step_name TEXT NOT NULL,
+      agent_name TEXT NOT NULL,
+      status TEXT NOT NULL CHECK(status IN (${statuses})),
+      started_at TEXT,
+      completed_at TEXT,
+      duration_ms INTEGER,
+      output TEXT CHECK(output IS NULL OR json_valid(output)),
+      token TEXT,
+      attempt INTEGER NOT NULL DEFAULT 1 CHECK(attempt >= 1),
+      retry_at TEXT,
+      child_execution_id TEXT REFERENCES workflow_executions_v2(execution_id),
+      ${withIterations ? 'iteration INTEGER NOT NULL DEFAULT 1 CHECK(iteration >= 1),' : ''}
+
+      FOREIGN KEY (execution_id) REFERENCES workflow_executions_v2(execution_id) ON DELETE CASCADE,
+      UNIQUE(${withIterations ? 'execution_id, step_name, iteration' : 'execution_id, step_name'}),
+      CHECK(length(execution_id) > 0),
+      CHECK(length(step_name) > 0),
+      CHECK(length(agent_name) > 0)
+    );
+
+    INSERT INTO workflow_steps_v2_rebuild (${STEP_COLUMNS})
+    SELECT ${STEP_COLUMNS} FROM workflow_steps_v2 s ${keepFilter};
+
+    DROP TABLE workflow_steps_v2;
+    ALTER TABLE workflow_steps_v2_rebuild RENAME TO workflow_steps_v2;
+
+    CREATE INDEX IF NOT EXISTS idx_steps_v2_execution ON workflow_steps_v2(execution_id);
+    CREATE INDEX IF NOT EXISTS idx_steps_v2_status ON workflow_steps_v2(status);
+    CREATE INDEX IF NOT EXISTS idx_steps_v2_token ON workflow_steps_v2(token);
+    CREATE INDEX IF NOT EXISTS idx_steps_v2_retry_at ON workflow_steps_v2(retry_at) WHERE retry_at IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_steps_v2_child ON workflow_steps_v2(child_execution_id)
+      WHERE child_execution_id IS NOT NULL;
+  `);
+}
+
+const migration: Migration = {
+  version: 22,
+  name: 'add_step_iterations',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // WORKFLOW STEPS - One row per phase iteration
+    // ============================================================================
+    rebuildStepsTable(db, `'pending', 'running', 'completed', 'failed', 'skipped'`, true, '');
+  },
+
+  down: (db) => {
+    // Only each phase's latest iteration fits the old schema. Skipped phases never ran, which the
+    // old statuses cannot express, so they are dropped too
+    rebuildStepsTable(
+      db,
+      `'pending', 'running', 'completed', 'failed'`,
+      false,
+      `WHERE s.status != 'skipped' AND s.iteration = (
+        SELECT MAX(iteration) FROM workflow_steps_v2 WHERE execution_id = s.execution_id AND step_name = s.step_name
+      )`
+    );
+  },
+};
+
+export default migration;
@@ -0,0 +1,148 @@
+import type { Migration } from './types.js';
+
+/**
+ * Human approval gates: an `approval` phase parks its execution until someone approves or
+ * rejects it through workflow.approve / workflow.reject, the CLI or the client
+ *
+ * Rebuilds workflow_executions_v2 (SQLite cannot alter a CHECK constraint) to add:
+ * - state 'awaiting_approval': An approval phase is waiting on a decision
+ *
+ * Adds workflow_approvals, one decision per approval step iteration:
+ * - decision: 'approved' or 'rejected' (a rejection requires a comment)
+ * - source: Where the decision was made ('mcp', 'cli' or 'client')
+ * - applied_at: When the engine acted on it. The client only records decisions; the server
+ *   applies them the next time the execution is touched or swept
+ */
+type Db = Parameters<Migration['up']>[0];
+
+const EXECUTION_COLUMNS = `execution_id, workflow_name, state, current_step, started_at, updated_at, completed_at, duration_ms,
+  metadata, project_id, workflow_version_id, parent_execution_id`;
+
+/**
+ * DROP TABLE deletes every row first, and with foreign keys on (they cannot be switched off inside
+ * the migration's transaction) that cascades to steps and artifacts and clears findings'
+ * source_execution_id. Those rows are set aside and restored once the rebuilt table is in place.
+ * Parent links are restored last, since they would otherwise point into the table being dropped,
+ * and the two updated_at triggers involved are held off so restoring rows changes nothing else
+ */
+function rebuildExecutionsTable(db: Db, states: string): void {
+  const triggers = db
+    .prepare(
+      `SELECT sql FROM sqlite_master WHERE type = 'trigger'
+       AND name IN ('update_workflow_executions_v2_timestamp', 'trg_knowledge_findings_updated_at')`
+    )
+    .all() as Array<{ sql: string }>;
+
+  db.exec(`
+    CREATE TEMP TABLE steps_backup AS SELECT * FROM workflow_steps_v2;
+    CREATE TEMP TABLE artifacts_backup AS SELECT * FROM workflow_artifacts_v2;
+    CREATE TEMP TABLE finding_sources_backup AS
+      SELECT id, source_execution_id FROM knowledge_findings WHERE source_execution_id IS NOT NULL;
+    CREATE TEMP TABLE parents_backup AS
+      SELECT execution_id, parent_execution_id FROM workflow_executions_v2 WHERE parent_execution_id IS NOT NULL;
+    DROP TRIGGER IF EXISTS trg_knowledge_findings_updated_at;
+
+    CREATE TABLE workflow_executions_v2_rebuild (
+      execution_id TEXT PRIMARY KEY,
+      workflow_name TEXT NOT NULL,
+      state TEXT NOT NULL CHECK(state IN (${states})),
+      current_step TEXT,
+      started_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      completed_at TEXT,
+      duration_ms INTEGER,
+      metadata TEXT CHECK(metadata IS NULL OR json_valid(metadata)),
+      project_id INTEGER REFERENCES project_associations(id) ON DELETE SET NULL,
+      workflow_version_id INTEGER REFERENCES workflow_versions(id),
+      parent_execution_id TEXT REFERENCES workflow_executions_v2(execution_id),
+
+      CHECK(length(execution_id) > 0),
+      CHECK(length(workflow_name) > 0)
+    );
+
+    INSERT INTO workflow_executions_v2_rebuild (${EXECUTION_COLUMNS})
+    SELECT ${EXECUTION_COLUMNS.replace('parent_execution_id', 'NULL')} FROM workflow_executions_v2;
+
+    -- Cleared here rather than by the drop's ON DELETE SET NULL, whose full-text index update
+    -- would run while the table is being dropped and fail with 'database table is locked'
+    UPDATE knowledge_findings SET source_execution_id = NULL WHERE source_execution_id IS NOT NULL;
+    DROP TABLE workflow_executions_v2;
+    ALTER TABLE workflow_executions_v2_rebuild RENAME TO workflow_executions_v2;
+
+    UPDATE workflow_executions_v2
+    SET parent_execution_id = (SELECT b.parent_execution_id FROM temp.parents_backup b WHERE b.execution_id = workflow_executions_v2.execution_id)
+    WHERE execution_id IN (SELECT execution_id FROM temp.parents_backup);
+    INSERT INTO workflow_steps_v2 SELECT * FROM temp.steps_backup;
+    INSERT INTO workflow_artifacts_v2 SELECT * FROM temp.artifacts_backup;
+    UPDATE knowledge_findings
+    SET source_execution_id = (SELECT b.source_execution_id FROM temp.finding_sources_backup b WHERE b.id = knowledge_findings.id)
+    WHERE id IN (SELECT id FROM temp.finding_sources_backup);
+
+    DROP TABLE temp.steps_backup;
+    DROP TABLE temp.artifacts_backup;
+    DROP TABLE temp.finding_sources_backup;
+    DROP TABLE temp.parents_backup;
+
+    CREATE INDEX IF NOT EXISTS idx_executions_v2_state ON workflow_executions_v2(state);
+    CREATE INDEX IF NOT EXISTS idx_executions_v2_workflow ON workflow_executions_v2(workflow_name);
+    CREATE INDEX IF NOT EXISTS idx_executions_v2_started ON workflow_executions_v2(started_at);
+    CREATE INDEX IF NOT EXISTS idx_executions_v2_current_step ON workflow_executions_v2(execution_id, current_step);
+    CREATE INDEX IF NOT EXISTS idx_executions_v2_project_id ON workflow_executions_v2(project_id);
+    CREATE INDEX IF NOT EXISTS idx_executions_v2_workflow_version ON workflow_executions_v2(workflow_version_id);
+    CREATE INDEX IF NOT EXISTS idx_executions_v2_parent ON workflow_executions_v2(parent_execution_id)
+      WHERE parent_execution_id IS NOT NULL;
+  `);
+
+  for (const trigger of triggers) db.exec(trigger.sql);
+}
+
+const migration: Migration = {
+  version: 23,
+  name: 'add_approvals',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // WORKFLOW EXECUTIONS - awaiting_approval state
+    // ============================================================================
+    rebuildExecutionsTable(db, `'idle', 'running', 'paused', 'awaiting_approval', 'completed', 'failed', 'abandoned', 'diverged'`);
+
+    // ============================================================================
+    // WORKFLOW APPROVALS - Decisions on approval phases
+    // ============================================================================
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS workflow_approvals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        execution_id TEXT NOT NULL,
+        step_name TEXT NOT NULL,
+        iteration INTEGER NOT NULL DEFAULT 1 CHECK(iteration >= 1),
+        decision TEXT NOT NULL CHECK(decision IN ('approved', 'rejected')),
+        comment TEXT,
+        decided_by TEXT,
+        source TEXT NOT NULL CHECK(source IN ('mcp', 'cli', 'client')),
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        applied_at TEXT,
+
+        FOREIGN KEY (execution_id) REFERENCES workflow_executions_v2(execution_id) ON DELETE CASCADE,
+        UNIQUE(execution_id, step_name, iteration),
+        CHECK(decision = 'approved' OR COALESCE(length(comment), 0) > 0)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_workflow_approvals_pending ON workflow_approvals(execution_id)
+        WHERE applied_at IS NULL;
+    `);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_workflow_approvals_pending;
+      DROP TABLE IF EXISTS workflow_approvals;
+    `);
+
+    // Executions awaiting approval have no place in the old states; they go back to running
+    db.exec(`UPDATE workflow_executions_v2 SET state = 'running' WHERE state = 'awaiting_approval'`);
+    rebuildExecutionsTable(db, `'idle', 'running', 'paused', 'completed', 'failed', 'abandoned', 'diverged'`);
+  },
+};
+
+export default migration;
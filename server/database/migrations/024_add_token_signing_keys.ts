@@ -0,0 +1,41 @@
+import { randomBytes } from 'crypto';
+import type { Migration } from './types.js';
+
+/**
+ * Continuation token signing key shared by every process using the database
+ *
+ * The MCP server, each stdio server a tool spawns and the CLIs all issue and verify step tokens,
+ * so they need the same key, and it has to outlive any one process. Adds token_signing_keys with
+ * one random key, used whenever none is configured (mcp.tokens.keys / MIDEX_TOKEN_KEYS):
+ * - id: Key ID carried in the tokens it signs (kid)
+ * - secret: HMAC-SHA256 secret
+ */
+const migration: Migration = {
+  version: 24,
+  name: 'add_token_signing_keys',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // TOKEN SIGNING KEYS - Generated at setup, read by every process
+    // ============================================================================
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS token_signing_keys (
+        id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+        CHECK(length(id) > 0),
+        CHECK(length(secret) > 0)
+      );
+    `);
+
+    db.prepare(`INSERT OR IGNORE INTO token_signing_keys (id, secret) VALUES ('local', ?)`).run(randomBytes(32).toString('hex'));
+  },
+
+  down: (db) => {
+    db.exec(`DROP TABLE IF EXISTS token_signing_keys`);
+  },
+};
+
+export default migration;
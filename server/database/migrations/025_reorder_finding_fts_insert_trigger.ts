@@ -0,0 +1,41 @@
+import type { Migration } from './types.js';
+
+/**
+ * Index new findings before their uid is filled in
+ *
+ * SQLite fires the most recently created trigger first, so trg_knowledge_findings_uid (018) ran
+ * before trg_knowledge_findings_insert (016). Its UPDATE sent the full-text index a 'delete' for
+ * a row that was not indexed yet, which corrupts knowledge_findings_fts: every insert without a
+ * uid failed with "database disk image is malformed". Recreates the insert trigger so it fires
+ * first, and rebuilds the index from knowledge_findings
+ */
+const migration: Migration = {
+  version: 25,
+  name: 'reorder_finding_fts_insert_trigger',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // FTS TABLE - Insert trigger newer than the uid trigger
+    // ============================================================================
+    db.exec(`
+      DROP TRIGGER IF EXISTS trg_knowledge_findings_insert;
+
+      CREATE TRIGGER trg_knowledge_findings_insert
+        AFTER INSERT ON knowledge_findings
+      BEGIN
+        INSERT INTO knowledge_findings_fts(rowid, title, content, tags, category, scope)
+        VALUES (new.id, new.title, new.content, new.tags, new.category, new.scope);
+      END;
+
+      INSERT INTO knowledge_findings_fts(knowledge_findings_fts) VALUES ('rebuild');
+    `);
+  },
+
+  down: (db) => {
+    // The old order cannot insert a finding without a uid, so the trigger is kept; only the index is rebuilt
+    db.exec(`INSERT INTO knowledge_findings_fts(knowledge_findings_fts) VALUES ('rebuild')`);
+  },
+};
+
+export default migration;
@@ -0,0 +1,76 @@
+import type { Migration } from './types.js';
+
+/**
+ * Keep the updated_at an UPDATE sets on a finding
+ *
+ * trg_knowledge_findings_updated_at stamped CURRENT_TIMESTAMP over every update, including the
+ * bundle timestamp a knowledge import writes. keep-newest then compared later bundles with the
+ * time of the import rather than of the content, and kept the database version of newer content.
+ * The trigger now only stamps updates that leave updated_at as it was.
+ *
+ * Recreating it, here and in 023, makes it fire before trg_knowledge_findings_update, so its nested
+ * UPDATE sent the full-text index a 'delete' for values not indexed yet. The FTS update trigger is
+ * recreated after it, so it fires first again, and the index is rebuilt
+ */
+type Db = Parameters<Migration['up']>[0];
+
+function recreateFtsUpdateTrigger(db: Db): void {
+  db.exec(`
+    DROP TRIGGER IF EXISTS trg_knowledge_findings_update;
+
+    CREATE TRIGGER trg_knowledge_findings_update
+      AFTER UPDATE ON knowledge_findings
+    BEGIN
+      INSERT INTO knowledge_findings_fts(knowledge_findings_fts, rowid, title, content, tags, category, scope)
+      VALUES ('delete', old.id, old.title, old.content, old.tags, old.category, old.scope);
+      INSERT INTO knowledge_findings_fts(rowid, title, content, tags, category, scope)
+      VALUES (new.id, new.title, new.content, new.tags, new.category, new.scope);
+    END;
+
+    INSERT INTO knowledge_findings_fts(knowledge_findings_fts) VALUES ('rebuild');
+  `);
+}
+
+const migration: Migration = {
+  version: 26,
+  name: 'keep_explicit_finding_updated_at',
+  destructive: false,
+
+  up: (db) => {
+    // ============================================================================
+    // KNOWLEDGE FINDINGS - updated_at trigger skips explicit timestamps
+    // ============================================================================
+    db.exec(`
+      DROP TRIGGER IF EXISTS trg_knowledge_findings_updated_at;
+
+      CREATE TRIGGER trg_knowledge_findings_updated_at
+        AFTER UPDATE ON knowledge_findings
+        FOR EACH ROW
+        WHEN new.updated_at IS old.updated_at
+      BEGIN
+        UPDATE knowledge_findings
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE id = old.id;
+      END;
+    `);
+    recreateFtsUpdateTrigger(db);
+  },
+
+  down: (db) => {
+    db.exec(`
+      DROP TRIGGER IF EXISTS trg_knowledge_findings_updated_at;
+
+      CREATE TRIGGER trg_knowledge_findings_updated_at
+        AFTER UPDATE ON knowledge_findings
+        FOR EACH ROW
+      BEGIN
+        UPDATE knowledge_findings
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE id = old.id;
+      END;
+    `);
+    recreateFtsUpdateTrigger(db);
+  },
+};
+
+export default migration;
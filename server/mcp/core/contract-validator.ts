@@ -0,0 +1,30 @@
+import type { Database } from 'better-sqlite3';
+import type { ValidateFunction } from 'ajv';
+import { createContractAjv, validateAgainstContract, type ContractValidation } from '../../utils/json-contracts.js';
+
+/**
+ * Validates values against the contracts loaded from content/contracts
+ * Compiled schemas are cached per contract and recompiled when the stored schema changes
+ */
+export class ContractValidator {
+  private compiled = new Map<string, { content: string; validate: ValidateFunction }>();
+
+  constructor(private db: Database) {}
+
+  /**
+   * @returns The validation result, or null if no contract has that name
+   */
+  validate(contractName: string, value: unknown): ContractValidation | null {
+    const row = this.db.prepare(`SELECT content FROM contracts WHERE name = ?`).get(contractName) as { content: string } | undefined;
+    if (!row) return null;
+
+    let cached = this.compiled.get(contractName);
+    if (!cached || cached.content !== row.content) {
+      // A fresh instance per compile: ajv refuses to register the same $id twice
+      cached = { content: row.content, validate: createContractAjv().compile(JSON.parse(row.content)) };
+      this.compiled.set(contractName, cached);
+    }
+
+    return validateAgainstContract(cached.validate, value);
+  }
+}
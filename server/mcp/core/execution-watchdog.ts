@@ -0,0 +1,77 @@
+import type { Database } from 'better-sqlite3';
+import type { WorkflowPhase, WorkflowVersion } from '../types/index.js';
+import { StepExecutor } from './step-executor.js';
+import { WorkflowStateMachine } from './workflow-state-machine.js';
+import { WorkflowVersions } from './workflow-versions.js';
+import { TelemetryService } from '../lib/index.js';
+import { resolveExecutionPolicy, type ExecutionPolicy } from '../../utils/execution-policies.js';
+
+export interface WorkflowPlan {
+  phases: WorkflowPhase[];
+  policy: ExecutionPolicy;
+  versionId: number;
+  version: number;
+}
+
+function toPlan(version: WorkflowVersion): WorkflowPlan {
+  return { phases: version.phases, policy: resolveExecutionPolicy(version.complexity), versionId: version.id, version: version.version };
+}
+
+/**
+ * Load a workflow's current phases and the execution policy selected by its complexity,
+ * recording the definition as a version so a new execution can be pinned to it
+ */
+export function loadWorkflowPlan(db: Database, workflowName: string): WorkflowPlan | null {
+  const version = new WorkflowVersions(db).record(workflowName);
+  return version ? toPlan(version) : null;
+}
+
+/**
+ * Load the plan an execution is pinned to; later edits to the workflow do not change it
+ */
+export function loadExecutionPlan(db: Database, executionId: string): WorkflowPlan | null {
+  const version = new WorkflowVersions(db).forExecution(executionId);
+  return version ? toPlan(version) : null;
+}
+
+/**
+ * Enforces execution policy timeouts and retry backoff for running executions, and applies
+ * approval decisions the client recorded for executions awaiting approval
+ * Executions are checked when touched (tools/resources) and by a periodic sweep from the server
+ */
+export class ExecutionWatchdog {
+  private stepExecutor: StepExecutor;
+  private stateMachine: WorkflowStateMachine;
+  private telemetry: TelemetryService;
+
+  constructor(private db: Database) {
+    this.stepExecutor = new StepExecutor(db);
+    this.stateMachine = new WorkflowStateMachine(db);
+    this.telemetry = new TelemetryService(db);
+  }
+
+  checkExecution(executionId: string, now: Date = new Date()): boolean {
+    const execution = this.stateMachine.getExecution(executionId);
+    if (!execution || (execution.state !== 'running' && execution.state !== 'awaiting_approval')) return false;
+
+    const plan = loadExecutionPlan(this.db, executionId);
+    if (!plan) {
+      this.telemetry.error(executionId, 'checkExecution', `Workflow '${execution.workflow_name}' not found`);
+      return false;
+    }
+
+    // Waiting on a person is not subject to timeouts
+    if (execution.state === 'awaiting_approval') {
+      return this.stepExecutor.applyPendingApproval(executionId, plan.phases, plan.policy, now) !== null;
+    }
+    return this.stepExecutor.enforcePolicies(executionId, plan.phases, plan.policy, now);
+  }
+
+  /**
+   * @returns Number of executions that changed
+   */
+  sweep(now: Date = new Date()): number {
+    return [...this.stateMachine.getExecutionsByState('running'), ...this.stateMachine.getExecutionsByState('awaiting_approval')]
+      .filter((execution) => this.checkExecution(execution.execution_id, now)).length;
+  }
+}
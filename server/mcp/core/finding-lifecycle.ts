@@ -0,0 +1,111 @@
+import type { Database } from 'better-sqlite3';
+import type { FindingChange, KnowledgeFinding, KnowledgeFindingRevision } from '../types/index.js';
+import { safeJsonParse, TelemetryService } from '../lib/index.js';
+import { searchableWords, toFtsQuery } from './knowledge-search.js';
+import { recordFindingRevision } from '../../src/lib/knowledge-import.js';
+
+// Share of distinct title+content words two findings must have in common to count as duplicates
+export const DUPLICATE_SIMILARITY = 0.6;
+const DUPLICATE_CANDIDATES = 10;
+
+export interface DuplicateMatch {
+  id: number;
+  title: string;
+  status: KnowledgeFinding['status'];
+  similarity: number;
+}
+
+type DuplicateCandidate = Pick<KnowledgeFinding, 'scope' | 'title' | 'content'> & { project_id: number | null };
+
+/**
+ * Revision history, duplicate detection and expiry for knowledge findings
+ *
+ * Every write to a finding is followed by recordRevision, which snapshots the row as it now
+ * stands; revisions are numbered per finding from 1
+ */
+export class FindingLifecycle {
+  private telemetry: TelemetryService;
+
+  constructor(private db: Database) {
+    this.telemetry = new TelemetryService(db);
+  }
+
+  recordRevision(findingId: number, change: FindingChange, note: string | null = null): void {
+    recordFindingRevision(this.db, findingId, change, note);
+  }
+
+  getRevisions(findingId: number): KnowledgeFindingRevision[] {
+    const rows = this.db
+      .prepare(
+        `SELECT revision, change, note, snapshot, created_at FROM knowledge_finding_revisions
+         WHERE finding_id = ? ORDER BY revision ASC`
+      )
+      .all(findingId) as Array<Omit<KnowledgeFindingRevision, 'snapshot'> & { snapshot: string }>;
+    return rows.map((row) => ({ ...row, snapshot: safeJsonParse<Record<string, unknown>>(row.snapshot, {}) }));
+  }
+
+  /**
+   * Active or proposed findings in the same scope (and project) whose title and content
+   * overlap the candidate's by at least DUPLICATE_SIMILARITY, most similar first
+   * FTS narrows the field; similarity is the Jaccard index of the two word sets
+   */
+  findDuplicates(candidate: DuplicateCandidate, excludeIds: number[] = []): DuplicateMatch[] {
+    const text = `${candidate.title} ${candidate.content}`;
+    const ftsQuery = toFtsQuery(text, 'any');
+    if (!ftsQuery) return [];
+
+    const rows = this.db
+      .prepare(
+        `SELECT f.id, f.title, f.content, f.status
+         FROM knowledge_findings_fts JOIN knowledge_findings f ON f.id = knowledge_findings_fts.rowid
+         WHERE knowledge_findings_fts MATCH ? AND f.status IN ('proposed', 'active') AND f.scope = ? AND f.project_id IS ?
+         ORDER BY bm25(knowledge_findings_fts) ASC
+         LIMIT ?`
+      )
+      .all(`{title content} : (${ftsQuery})`, candidate.scope, candidate.project_id, DUPLICATE_CANDIDATES + excludeIds.length) as Array<{
+      id: number;
+      title: string;
+      content: string;
+      status: KnowledgeFinding['status'];
+    }>;
+
+    const words = new Set(searchableWords(text));
+    return rows
+      .filter((row) => !excludeIds.includes(row.id))
+      .map((row) => {
+        const other = searchableWords(`${row.title} ${row.content}`);
+        const shared = other.filter((word) => words.has(word)).length;
+        const similarity = Math.round((shared / (words.size + other.length - shared)) * 100) / 100;
+        return { id: row.id, title: row.title, status: row.status, similarity };
+      })
+      .filter((match) => match.similarity >= DUPLICATE_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Deprecate active findings whose expires_at has passed
+   * @returns Ids of the findings that expired
+   */
+  expire(now: Date = new Date()): number[] {
+    const expire = this.db.transaction(() => {
+      const rows = this.db
+        .prepare(`SELECT id, expires_at FROM knowledge_findings WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= ?`)
+        .all(now.toISOString()) as Array<{ id: number; expires_at: string }>;
+
+      const deprecate = this.db.prepare(`UPDATE knowledge_findings SET status = 'deprecated' WHERE id = ?`);
+      for (const row of rows) {
+        deprecate.run(row.id);
+        this.recordRevision(row.id, 'expired');
+        this.telemetry.findingExpired(row.id, row.expires_at);
+      }
+      return rows.map((row) => row.id);
+    });
+
+    try {
+      return expire();
+    } catch (error) {
+      this.telemetry.error(null, 'expireFindings', error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  }
+}
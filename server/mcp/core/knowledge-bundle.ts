@@ -0,0 +1,161 @@
+import type { Database } from 'better-sqlite3';
+import { basename, extname, resolve } from 'path';
+import matter from 'gray-matter';
+import {
+  KNOWLEDGE_BUNDLE_FORMAT,
+  KNOWLEDGE_BUNDLE_VERSION,
+  KnowledgeBundleSchema,
+  type KnowledgeBundle,
+  type KnowledgeBundleEntry,
+  type KnowledgeBundleFile,
+  type KnowledgeExportArgs,
+} from '../types/index.js';
+import { safeJsonParse } from '../lib/index.js';
+import {
+  KnowledgeImporter,
+  SELECT_FINDINGS,
+  type FindingRow,
+  type KnowledgeImportOptions,
+  type KnowledgeImportReport,
+} from '../../src/lib/knowledge-import.js';
+import { toIsoTimestamp } from '../../src/lib/conflict.js';
+import { ProjectAssociationManager } from '../../src/lib/project-association.js';
+
+export type { ImportAction, ImportedFinding, KnowledgeImportOptions, KnowledgeImportReport } from '../../src/lib/knowledge-import.js';
+
+export type KnowledgeExportFilters = Omit<KnowledgeExportArgs, 'format'>;
+
+/**
+ * Parse a JSON bundle, given as an object or as its text
+ * @returns The validated bundle, or an error message
+ */
+export function parseKnowledgeBundle(value: unknown): KnowledgeBundle | string {
+  let document = value;
+  if (typeof value === 'string') {
+    try {
+      document = JSON.parse(value);
+    } catch (error) {
+      return `Bundle is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  const parsed = KnowledgeBundleSchema.safeParse(document);
+  return parsed.success ? parsed.data : `Invalid knowledge bundle: ${parsed.error.message}`;
+}
+
+/**
+ * Fields of a markdown finding: its frontmatter with the body as content. The file name stem
+ * stands in for a missing uid, so hand-written files keep their identity across imports
+ */
+export function parseKnowledgeMarkdown(name: string, text: string): Record<string, unknown> {
+  const { data, content } = matter(text);
+  return { uid: basename(name, extname(name)), ...data, content: content.trim() };
+}
+
+/**
+ * Markdown file for a finding: every field but content as frontmatter, content as the body
+ */
+export function toKnowledgeMarkdown(entry: KnowledgeBundleEntry): string {
+  const { content, ...fields } = entry;
+  // YAML cannot represent undefined, and empty fields only add noise
+  const frontmatter = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== null && value !== undefined));
+  return matter.stringify(`${content}\n`, frontmatter);
+}
+
+/**
+ * Export and import of knowledge findings as portable bundles
+ *
+ * Findings are matched across databases by uid, and project findings carry their project's
+ * name and path instead of a row id. Imports go through KnowledgeImporter, which the content
+ * sync shares for knowledge markdown
+ */
+export class KnowledgeBundles {
+  private importer: KnowledgeImporter;
+  private projects: ProjectAssociationManager;
+
+  constructor(private db: Database) {
+    this.importer = new KnowledgeImporter(db);
+    this.projects = new ProjectAssociationManager(db);
+  }
+
+  /**
+   * @returns A JSON bundle of the matching findings, or an error message for an unknown project
+   */
+  exportBundle(filters: KnowledgeExportFilters): KnowledgeBundle | string {
+    const entries = this.selectEntries(filters);
+    if (typeof entries === 'string') return entries;
+
+    return {
+      format: KNOWLEDGE_BUNDLE_FORMAT,
+      version: KNOWLEDGE_BUNDLE_VERSION,
+      exported_at: new Date().toISOString(),
+      findings: entries,
+    };
+  }
+
+  /**
+   * @returns One markdown file per matching finding, named after its title, or an error message
+   */
+  exportMarkdown(filters: KnowledgeExportFilters): KnowledgeBundleFile[] | string {
+    const entries = this.selectEntries(filters);
+    if (typeof entries === 'string') return entries;
+
+    const used = new Set<string>();
+    return entries.map((entry) => {
+      const slug = entry.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'finding';
+      const stem = used.has(slug) ? `${slug}-${entry.uid.slice(0, 8)}` : slug;
+      used.add(stem);
+      return { name: `${stem}.md`, content: toKnowledgeMarkdown(entry) };
+    });
+  }
+
+  /**
+   * Delegates to KnowledgeImporter
+   */
+  importEntries(entries: unknown[], options: KnowledgeImportOptions): KnowledgeImportReport {
+    return this.importer.importEntries(entries, options);
+  }
+
+  private selectEntries(filters: KnowledgeExportFilters): KnowledgeBundleEntry[] | string {
+    const conditions = ['f.status = ?'];
+    const params: unknown[] = [filters.status];
+
+    if (filters.scope) {
+      conditions.push('f.scope = ?');
+      params.push(filters.scope);
+    }
+    if (filters.project_id !== undefined || filters.project_path) {
+      const project = filters.project_path
+        ? this.projects.getProjectByPath(resolve(filters.project_path))
+        : this.projects.getProjectById(filters.project_id!);
+      if (!project) return `Project ${filters.project_path ?? filters.project_id} not found`;
+      conditions.push('f.project_id = ?');
+      params.push(project.id);
+    }
+    if (filters.category) {
+      conditions.push('f.category = ?');
+      params.push(filters.category);
+    }
+    for (const tag of filters.tags ?? []) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(COALESCE(f.tags, '[]')) WHERE value = ?)`);
+      params.push(tag);
+    }
+
+    const rows = this.db.prepare(`${SELECT_FINDINGS} WHERE ${conditions.join(' AND ')} ORDER BY f.id ASC`).all(...params) as FindingRow[];
+    return rows.map((row) => ({
+      uid: row.uid,
+      scope: row.scope,
+      project: row.project_name && row.project_path ? { name: row.project_name, path: row.project_path } : null,
+      category: row.category,
+      severity: row.severity,
+      status: row.status,
+      title: row.title,
+      content: row.content,
+      tags: safeJsonParse<string[]>(row.tags, []),
+      source_agent: row.source_agent,
+      expires_at: row.expires_at,
+      review_by: row.review_by,
+      updated_at: toIsoTimestamp(row.updated_at),
+    }));
+  }
+}
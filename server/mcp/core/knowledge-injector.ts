@@ -0,0 +1,158 @@
+import type { Database } from 'better-sqlite3';
+import type { InjectedFinding, KnowledgeSeverity, StepKnowledge, WorkflowPhase } from '../types/index.js';
+import { safeJsonParse, transformKnowledgeFindingRow, safeTransformRow, TelemetryService } from '../lib/index.js';
+import { KnowledgeSearch, STOP_WORDS } from './knowledge-search.js';
+import { getStepKnowledgeLimits, type StepKnowledgeLimits } from '../../shared/config.js';
+
+const SEVERITY_WEIGHT: Record<KnowledgeSeverity, number> = { info: 0, low: 1, medium: 2, high: 4, critical: 8 };
+const PROJECT_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const AGENT_WEIGHT = 3;
+const RELEVANCE_WEIGHT = 5; // Awarded in full to the best FTS match, proportionally to the rest
+
+interface ExecutionScope {
+  projectId: number | null;
+  tags: Set<string>;
+  text: string; // Free text the step works on: workflow input name, reason and keywords, plus the phase description
+}
+
+/**
+ * Picks the active findings handed to a step in its `knowledge` block
+ *
+ * Candidates are global and system findings plus project findings of the execution's project.
+ * Each scores on severity, being project-specific, sharing tags with the workflow or its input
+ * triggers, naming the phase's agent (as source or tag), and FTS relevance to the task. Findings
+ * with no signal but severity are left out unless critical. The top entries are kept whole
+ * while they fit the budget, which counts characters of the serialized block
+ */
+export class KnowledgeInjector {
+  private searcher: KnowledgeSearch;
+  private telemetry: TelemetryService;
+
+  constructor(
+    private db: Database,
+    private limits: StepKnowledgeLimits = getStepKnowledgeLimits()
+  ) {
+    this.searcher = new KnowledgeSearch(db);
+    this.telemetry = new TelemetryService(db);
+  }
+
+  /**
+   * Select findings for a dispatched step and record each one not yet recorded for that step
+   */
+  build(executionId: string, stepName: string, agentName: string, phases: WorkflowPhase[]): StepKnowledge {
+    const knowledge: StepKnowledge = { findings: [], budget_chars: this.limits.maxChars, truncated: false };
+    if (this.limits.maxFindings === 0) return knowledge;
+
+    const scope = this.getExecutionScope(executionId, phases.find((p) => p.phase === stepName)?.description ?? '');
+    if (!scope) return knowledge;
+
+    for (const finding of this.rank(scope, agentName)) {
+      if (knowledge.findings.length >= this.limits.maxFindings) break;
+      knowledge.findings.push(finding);
+      if (JSON.stringify(knowledge).length > this.limits.maxChars) {
+        knowledge.findings.pop();
+        knowledge.truncated = true;
+      }
+    }
+
+    this.recordInjections(executionId, stepName, agentName, knowledge.findings);
+    return knowledge;
+  }
+
+  private rank(scope: ExecutionScope, agentName: string): InjectedFinding[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM knowledge_findings
+         WHERE status = 'active' AND (scope != 'project' OR project_id = ?)
+         ORDER BY created_at DESC, id DESC`
+      )
+      .all(scope.projectId) as unknown[];
+
+    const relevance = this.searcher.relevance(scope.text);
+    const topRelevance = Math.max(0, ...relevance.values());
+
+    const ranked: InjectedFinding[] = [];
+    for (const row of rows) {
+      const finding = safeTransformRow(row, transformKnowledgeFindingRow);
+      if (!finding) continue;
+
+      let score = SEVERITY_WEIGHT[finding.severity];
+      const reasons: string[] = [];
+      if (finding.scope === 'project') {
+        score += PROJECT_WEIGHT;
+        reasons.push('project');
+      }
+      for (const tag of finding.tags.filter((t) => scope.tags.has(t))) {
+        score += TAG_WEIGHT;
+        reasons.push(`tag:${tag}`);
+      }
+      if (finding.source_agent === agentName || finding.tags.includes(agentName)) {
+        score += AGENT_WEIGHT;
+        reasons.push('agent');
+      }
+      const match = relevance.get(finding.id);
+      if (match !== undefined && topRelevance > 0) {
+        score += (RELEVANCE_WEIGHT * match) / topRelevance;
+        reasons.push('relevance');
+      }
+
+      if (reasons.length === 0 && finding.severity !== 'critical') continue;
+      ranked.push({
+        id: finding.id,
+        title: finding.title,
+        content: finding.content,
+        scope: finding.scope,
+        category: finding.category,
+        severity: finding.severity,
+        tags: finding.tags,
+        score: Math.round(score * 100) / 100,
+        reasons: [`severity:${finding.severity}`, ...reasons],
+      });
+    }
+
+    // Stable sort keeps newest first among equal scores
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+
+  private getExecutionScope(executionId: string, phaseDescription: string): ExecutionScope | null {
+    const row = this.db
+      .prepare(
+        `SELECT e.project_id, e.metadata, COALESCE(v.tags, w.tags) AS tags FROM workflow_executions_v2 e
+         LEFT JOIN workflow_versions v ON v.id = e.workflow_version_id
+         LEFT JOIN workflows w ON w.name = e.workflow_name
+         WHERE e.execution_id = ?`
+      )
+      .get(executionId) as { project_id: number | null; metadata: string | null; tags: string | null } | undefined;
+    if (!row) return null;
+
+    const input = safeJsonParse<{ input?: Record<string, unknown> }>(row.metadata, {}).input ?? {};
+    const triggers = (input.triggers ?? {}) as { keywords?: unknown; tags?: unknown };
+    const strings = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : typeof value === 'string' ? [value] : [];
+
+    return {
+      projectId: row.project_id,
+      tags: new Set([...safeJsonParse<string[]>(row.tags, []), ...strings(triggers.tags)]),
+      text: [...strings(input.name), ...strings(input.reason), ...strings(triggers.keywords), phaseDescription]
+        .join(' ')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => !STOP_WORDS.has(word.toLowerCase()))
+        .join(' '),
+    };
+  }
+
+  /**
+   * One finding_injected event per finding and step, however often the step is dispatched or read
+   */
+  private recordInjections(executionId: string, stepName: string, agentName: string, findings: InjectedFinding[]): void {
+    const recorded = this.db.prepare(
+      `SELECT 1 FROM telemetry_events_v2
+       WHERE event_type = 'finding_injected' AND execution_id = ? AND step_name = ? AND json_extract(metadata, '$.finding_id') = ?`
+    );
+    findings.forEach((finding, index) => {
+      if (recorded.get(executionId, stepName, finding.id)) return;
+      this.telemetry.findingInjected(executionId, stepName, agentName, finding.id, index + 1, finding.score, finding.reasons);
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import type { Database } from 'better-sqlite3';
+import type { KnowledgeSearchArgs, KnowledgeSearchResult, KnowledgeSeverity } from '../types/index.js';
+import { transformKnowledgeFindingRow } from '../lib/index.js';
+
+const HIGHLIGHT_OPEN = '<mark>';
+const HIGHLIGHT_CLOSE = '</mark>';
+const SNIPPET_TOKENS = 24;
+// bm25() column weights in FTS column order: title, content, tags, category, scope
+const BM25_WEIGHTS = '10.0, 1.0, 5.0, 0.0, 0.0';
+const SEVERITY_RANK: Record<KnowledgeSeverity, number> = { info: 0, low: 1, medium: 2, high: 3, critical: 4 };
+const SEVERITY_RANK_SQL = `CASE f.severity WHEN 'info' THEN 0 WHEN 'low' THEN 1 WHEN 'medium' THEN 2 WHEN 'high' THEN 3 ELSE 4 END`;
+
+// Task text is matched with OR, so words that appear in almost any document would make everything relevant
+export const STOP_WORDS = new Set(
+  'a an and are as at be by for from has have in is it its of on or our that the their this to was we were will with'.split(' ')
+);
+
+/**
+ * Distinct lowercase words of the text, as the FTS tokenizer sees them
+ */
+export function searchableWords(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+}
+
+/**
+ * Turn free text into an FTS5 query. Every word is quoted, so input is never parsed as FTS5 syntax
+ * @returns null when the text has no searchable words
+ */
+export function toFtsQuery(text: string, match: 'all' | 'any'): string | null {
+  const words = searchableWords(text);
+  if (words.length === 0) return null;
+  return words.map((word) => `"${word}"`).join(match === 'all' ? ' AND ' : ' OR ');
+}
+
+/**
+ * BM25-ranked full-text search over knowledge_findings_fts
+ * Title matches weigh most, then tags, then content; ties fall back to newest first
+ */
+export class KnowledgeSearch {
+  constructor(private db: Database) {}
+
+  /**
+   * @returns One page of ranked findings, or an error message when the query has no searchable words
+   */
+  search(args: KnowledgeSearchArgs): KnowledgeSearchResult | string {
+    const ftsQuery = toFtsQuery(args.q, args.match);
+    if (!ftsQuery) return `Query '${args.q}' has no searchable words`;
+
+    const conditions = ['knowledge_findings_fts MATCH ?', 'f.status = ?'];
+    const params: unknown[] = [ftsQuery, args.status];
+
+    if (args.scope) {
+      conditions.push('f.scope = ?');
+      params.push(args.scope);
+    }
+    if (args.project_id !== undefined) {
+      conditions.push(`(f.project_id = ? OR f.scope != 'project')`);
+      params.push(args.project_id);
+    }
+    if (args.category) {
+      conditions.push('f.category = ?');
+      params.push(args.category);
+    }
+    if (args.min_severity) {
+      conditions.push(`${SEVERITY_RANK_SQL} >= ?`);
+      params.push(SEVERITY_RANK[args.min_severity]);
+    }
+    for (const tag of args.tags ?? []) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(COALESCE(f.tags, '[]')) WHERE value = ?)`);
+      params.push(tag);
+    }
+
+    const from = `FROM knowledge_findings_fts JOIN knowledge_findings f ON f.id = knowledge_findings_fts.rowid
+      WHERE ${conditions.join(' AND ')}`;
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total ${from}`).get(...params) as { total: number };
+    const rows = this.db
+      .prepare(
+        `SELECT f.*,
+           bm25(knowledge_findings_fts, ${BM25_WEIGHTS}) AS rank,
+           highlight(knowledge_findings_fts, 0, ?, ?) AS title_highlight,
+           snippet(knowledge_findings_fts, 1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet
+         ${from}
+         ORDER BY rank ASC, f.created_at DESC, f.id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE, HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE, ...params, args.limit, args.offset) as Array<{
+      rank: number;
+      title_highlight: string;
+      snippet: string;
+    }>;
+
+    const nextOffset = args.offset + rows.length;
+    return {
+      query: args.q,
+      total,
+      limit: args.limit,
+      offset: args.offset,
+      next_offset: nextOffset < total ? nextOffset : null,
+      results: rows.map((row) => ({
+        finding: transformKnowledgeFindingRow(row),
+        score: -row.rank,
+        title_highlight: row.title_highlight,
+        snippet: row.snippet,
+      })),
+    };
+  }
+
+  /**
+   * BM25 relevance of every finding matching any word of the text, highest first
+   * @returns Finding id to score (larger is more relevant); empty when the text has no searchable words
+   */
+  relevance(text: string): Map<number, number> {
+    const ftsQuery = toFtsQuery(text, 'any');
+    if (!ftsQuery) return new Map();
+
+    const rows = this.db
+      .prepare(
+        `SELECT rowid AS id, bm25(knowledge_findings_fts, ${BM25_WEIGHTS}) AS rank
+         FROM knowledge_findings_fts WHERE knowledge_findings_fts MATCH ? ORDER BY rank ASC`
+      )
+      .all(ftsQuery) as Array<{ id: number; rank: number }>;
+    return new Map(rows.map((row) => [row.id, -row.rank]));
+  }
+}
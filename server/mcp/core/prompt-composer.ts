@@ -0,0 +1,90 @@
+import type { Database } from 'better-sqlite3';
+import { safeJsonParse, AgentRowSchema, safeParseRow } from '../lib/index.js';
+import { matchesGlob } from '../../utils/glob-match.js';
+
+export interface PromptScope {
+  workflowTags: string[];
+  files: string[]; // Paths named in the workflow input, matched against rule globs
+}
+
+export interface ComposedPrompt {
+  content: string;
+  applied_rules: string[];
+}
+
+const SHARED_CONTEXT_NAME = 'shared_context';
+const SECTION_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Builds the persona handed to a step: agent body, shared context, then the rules that apply
+ * Rules apply when they are alwaysApply, share a tag with the workflow, or have a glob
+ * matching a file in the workflow input; they are listed in that order
+ */
+export class PromptComposer {
+  constructor(private db: Database) {}
+
+  /**
+   * @returns The composed prompt, or null if the agent does not exist
+   */
+  compose(agentName: string, scope: PromptScope): ComposedPrompt | null {
+    const agentRow = this.db.prepare(`SELECT name, description, content FROM agents WHERE name = ?`).get(agentName);
+    const agent = safeParseRow(AgentRowSchema, agentRow);
+    if (!agent) return null;
+
+    const sections = [agent.content.trim()];
+
+    const shared = this.db.prepare(`SELECT content FROM shared_content WHERE name = ?`).get(SHARED_CONTEXT_NAME) as
+      | { content: string }
+      | undefined;
+    if (shared?.content.trim()) sections.push(shared.content.trim());
+
+    const rules = this.selectRules(scope);
+    sections.push(...rules.map((rule) => rule.content.trim()));
+
+    return { content: sections.join(SECTION_SEPARATOR), applied_rules: rules.map((rule) => rule.name) };
+  }
+
+  /**
+   * Scope of a running execution: the tags of the workflow version it runs and the files listed in its input
+   */
+  getExecutionScope(executionId: string): PromptScope {
+    const row = this.db
+      .prepare(
+        `SELECT e.metadata, COALESCE(v.tags, w.tags) AS tags FROM workflow_executions_v2 e
+         LEFT JOIN workflow_versions v ON v.id = e.workflow_version_id
+         LEFT JOIN workflows w ON w.name = e.workflow_name
+         WHERE e.execution_id = ?`
+      )
+      .get(executionId) as { metadata: string | null; tags: string | null } | undefined;
+
+    const files = safeJsonParse<{ input?: { files?: unknown } }>(row?.metadata, {}).input?.files;
+    return {
+      workflowTags: safeJsonParse<string[]>(row?.tags, []),
+      files: Array.isArray(files) ? files.filter((f): f is string => typeof f === 'string') : [],
+    };
+  }
+
+  private selectRules(scope: PromptScope): Array<{ name: string; content: string }> {
+    const rows = this.db.prepare(`SELECT name, content, globs, always_apply, tags FROM rules ORDER BY name ASC`).all() as Array<{
+      name: string;
+      content: string;
+      globs: string | null;
+      always_apply: number | null;
+      tags: string | null;
+    }>;
+
+    const workflowTags = new Set(scope.workflowTags);
+    const alwaysApply = rows.filter((rule) => rule.always_apply === 1);
+    const byTag = rows.filter(
+      (rule) => rule.always_apply !== 1 && safeJsonParse<string[]>(rule.tags, []).some((tag) => workflowTags.has(tag))
+    );
+    const selected = new Set([...alwaysApply, ...byTag]);
+    const byGlob = rows.filter(
+      (rule) =>
+        !selected.has(rule) &&
+        safeJsonParse<string[]>(rule.globs, []).some((glob) => scope.files.some((file) => matchesGlob(file, glob)))
+    );
+
+    return [...alwaysApply, ...byTag, ...byGlob];
+  }
+}
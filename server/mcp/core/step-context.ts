@@ -0,0 +1,143 @@
+import type { Database } from 'better-sqlite3';
+import type { StepContext, StepOutput, UpstreamArtifact, WorkflowPhase } from '../types/index.js';
+import { safeJsonParse } from '../lib/index.js';
+import { getStepContextBudget } from '../../shared/config.js';
+import { WorkflowStateMachine } from './workflow-state-machine.js';
+
+const TRUNCATION_MARKER = '\n…[truncated]';
+const CONTENT_FIELD_CHARS = ',"content":""'.length;
+const TRUNCATED_FIELD_CHARS = ',"truncated":true'.length;
+
+/**
+ * Builds the `context` block handed to a step: what its dependsOn phases produced, each at its
+ * latest iteration. A phase reopened by an onOutcome transition also gets the output of the phase
+ * that sent it back
+ *
+ * Summaries, recommendations and artifact references always come first; artifact content
+ * then fills whatever is left of the budget in phase order. The budget counts characters
+ * of the serialized (JSON) context
+ */
+export class StepContextBuilder {
+  constructor(
+    private db: Database,
+    private budgetChars: number = getStepContextBudget()
+  ) {}
+
+  build(executionId: string, stepName: string, phases: WorkflowPhase[]): StepContext {
+    const context: StepContext = { upstream: [], budget_chars: this.budgetChars, truncated: false };
+    const dependsOn = phases.find((p) => p.phase === stepName)?.dependsOn ?? [];
+    const reopenedBy = new WorkflowStateMachine(this.db).getIterations(executionId)[stepName]?.reopened_by;
+    const sources = reopenedBy && !dependsOn.includes(reopenedBy) ? [...dependsOn, reopenedBy] : dependsOn;
+    if (sources.length === 0) return context;
+
+    const stepStmt = this.db.prepare(
+      `SELECT agent_name, status, output, iteration FROM workflow_steps_v2 WHERE execution_id = ? AND step_name = ?
+       ORDER BY iteration DESC LIMIT 1`
+    );
+    const artifactStmt = this.db.prepare(
+      `SELECT id, name, artifact_type, content_type, size_bytes, content, metadata
+       FROM workflow_artifacts_v2 WHERE execution_id = ? AND step_name = ? ORDER BY id ASC`
+    );
+
+    const pendingContent: Array<{ ref: UpstreamArtifact; content: string }> = [];
+    for (const dependency of sources) {
+      const step = stepStmt.get(executionId, dependency) as
+        | { agent_name: string; status: string; output: string | null; iteration: number }
+        | undefined;
+      if (step?.status !== 'completed') continue;
+
+      const output = safeJsonParse<Partial<StepOutput>>(step.output, {});
+      const rows = artifactStmt.all(executionId, dependency) as Array<{
+        id: number;
+        name: string;
+        artifact_type: string;
+        content_type: string;
+        size_bytes: number;
+        content: string;
+        metadata: string | null;
+      }>;
+
+      const artifacts = rows
+        // Partial artifacts belong to failed attempts, not to the output that completed the step,
+        // and earlier iterations' artifacts to output the latest one superseded
+        .filter((row) => {
+          const metadata = safeJsonParse<{ partial?: boolean; iteration?: number }>(row.metadata, {});
+          return metadata.partial !== true && (metadata.iteration ?? 1) === step.iteration;
+        })
+        .map((row) => {
+          const ref: UpstreamArtifact = {
+            id: row.id,
+            name: row.name,
+            artifact_type: row.artifact_type,
+            content_type: row.content_type,
+            size_bytes: row.size_bytes,
+            uri: `midex://workflow/workflow_artifacts/${executionId}/${dependency}`,
+          };
+          pendingContent.push({ ref, content: row.content });
+          return ref;
+        });
+
+      context.upstream.push({
+        step_name: dependency,
+        agent_name: step.agent_name,
+        summary: typeof output.summary === 'string' ? output.summary : null,
+        verdict: typeof output.verdict === 'string' ? output.verdict : null,
+        next_step_recommendation: typeof output.next_step_recommendation === 'string' ? output.next_step_recommendation : null,
+        artifacts,
+      });
+    }
+
+    if (JSON.stringify(context).length > this.budgetChars) {
+      // Even the prose is over budget: give every summary and recommendation an equal share
+      const fixedChars = JSON.stringify({
+        ...context,
+        upstream: context.upstream.map((u) => ({ ...u, summary: '', next_step_recommendation: '' })),
+      }).length;
+      const share = Math.max(0, Math.floor((this.budgetChars - fixedChars) / (context.upstream.length * 2)));
+      for (const upstream of context.upstream) {
+        upstream.summary = upstream.summary === null ? null : truncate(upstream.summary, share);
+        upstream.next_step_recommendation = upstream.next_step_recommendation === null ? null : truncate(upstream.next_step_recommendation, share);
+      }
+      context.truncated = true;
+    }
+
+    // Reserve room for every artifact's truncated flag, then hand it back as content fits whole
+    for (const { ref } of pendingContent) ref.truncated = true;
+    let remaining = this.budgetChars - JSON.stringify(context).length;
+
+    for (const { ref, content } of pendingContent) {
+      const available = remaining - CONTENT_FIELD_CHARS;
+      if (available <= 0) continue;
+
+      ref.content = truncate(content, available);
+      remaining -= CONTENT_FIELD_CHARS + encodedLength(ref.content);
+      if (ref.content === content) {
+        delete ref.truncated;
+        remaining += TRUNCATED_FIELD_CHARS;
+      }
+    }
+
+    if (pendingContent.some(({ ref }) => ref.truncated)) context.truncated = true;
+    return context;
+  }
+}
+
+function encodedLength(text: string): number {
+  return JSON.stringify(text).length - 2;
+}
+
+/**
+ * Cut text so its JSON-escaped form fits in maxChars, marking the cut
+ */
+function truncate(text: string, maxChars: number): string {
+  if (encodedLength(text) <= maxChars) return text;
+  const room = maxChars - encodedLength(TRUNCATION_MARKER);
+  if (room <= 0) return '';
+
+  // Escaping only ever lengthens text, so shrink by the overshoot until the slice fits
+  let end = Math.min(text.length, room);
+  for (let excess = encodedLength(text.slice(0, end)) - room; excess > 0; excess = encodedLength(text.slice(0, end)) - room) {
+    end -= excess;
+  }
+  return text.slice(0, end) + TRUNCATION_MARKER;
+}
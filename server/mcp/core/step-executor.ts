@@ -1,8 +1,41 @@
 import type { Database } from 'better-sqlite3';
-import type { WorkflowStep, StepOutput, WorkflowPhase } from '../types/index.js';
-import { TokenService } from './token-service.js';
-import { WorkflowStateMachine } from './workflow-state-machine.js';
-import { TelemetryService, safeJsonParse, WorkflowStepRowSchema, safeParseRow } from '../lib/index.js';
+import type {
+  ApprovalDecision,
+  ApprovalSource,
+  ExecutionError,
+  OutcomeCondition,
+  PhaseTransition,
+  WorkflowStep,
+  StepArtifact,
+  StepOutput,
+  WorkflowPhase,
+  WorkflowState,
+} from '../types/index.js';
+import { TokenService, loadTokenSigningKeys } from './token-service.js';
+import { ContractValidator } from './contract-validator.js';
+import { WorkflowStateMachine, type ExecutionBinding } from './workflow-state-machine.js';
+import { FindingLifecycle } from './finding-lifecycle.js';
+import { WorkflowVersions } from './workflow-versions.js';
+import {
+  TelemetryService,
+  safeJsonParse,
+  WorkflowStepRowSchema,
+  WorkflowApprovalRowSchema,
+  safeParseRow,
+  type WorkflowStepRow,
+} from '../lib/index.js';
+import { findDownstreamPhases, getReadyPhases, selectPhasesToStart, validatePhaseGraph } from '../../utils/phase-graph.js';
+import { matchesCondition, readOutputField } from '../../utils/phase-conditions.js';
+import { resolveExecutionPolicy, type ExecutionPolicy } from '../../utils/execution-policies.js';
+import { formatContractViolations, type ContractViolation } from '../../utils/json-contracts.js';
+
+export interface ScheduledStep {
+  execution_id: string; // A sub-workflow's steps are scheduled on the child execution
+  step_name: string;
+  agent_name: string;
+  iteration: number;
+  token: string;
+}
 
 export interface StepExecutionResult {
   success: boolean;
@@ -12,21 +45,58 @@ export interface StepExecutionResult {
   workflow_state: string;
   message?: string;
   new_token?: string;
+  steps?: ScheduledStep[];
+  retry?: { step_name: string; attempt: number; retry_at: string };
+  validation_errors?: ContractViolation[];
   error?: string;
 }
 
+export interface ApprovalInput {
+  decision: ApprovalDecision;
+  comment: string | null;
+  decided_by: string | null;
+  source: ApprovalSource;
+}
+
+const DEFAULT_POLICY = resolveExecutionPolicy(null);
+const WORKFLOW_INPUT_CONTRACT = 'WorkflowInput';
+const WORKFLOW_OUTPUT_CONTRACT = 'WorkflowOutput';
+const DEFAULT_MAX_ITERATIONS = 3;
+const REJECTED: OutcomeCondition = { field: 'verdict', equals: 'rejected' };
+
+/**
+ * Step rows record who runs them; a sub-workflow phase is run by its workflow, an approval
+ * phase by whoever decides it
+ */
+function stepAgentName(phase: WorkflowPhase): string {
+  if (phase.approval) return 'approval';
+  return phase.agent ?? `workflow:${phase.workflow}`;
+}
+
 export class StepExecutor {
   private tokenService: TokenService;
+  private contractValidator: ContractValidator;
   private stateMachine: WorkflowStateMachine;
   private telemetry: TelemetryService;
+  private findingLifecycle: FindingLifecycle;
+  private versions: WorkflowVersions;
 
   constructor(private db: Database) {
-    this.tokenService = new TokenService();
+    this.tokenService = new TokenService(loadTokenSigningKeys(db));
+    this.contractValidator = new ContractValidator(db);
     this.stateMachine = new WorkflowStateMachine(db);
     this.telemetry = new TelemetryService(db);
+    this.findingLifecycle = new FindingLifecycle(db);
+    this.versions = new WorkflowVersions(db);
   }
 
-  startWorkflow(workflowName: string, executionId: string, phases: WorkflowPhase[]): StepExecutionResult {
+  startWorkflow(
+    workflowName: string,
+    executionId: string,
+    phases: WorkflowPhase[],
+    policy: ExecutionPolicy = DEFAULT_POLICY,
+    binding: ExecutionBinding = {}
+  ): StepExecutionResult {
     if (!executionId?.trim()) {
       return { success: false, execution_id: executionId, workflow_state: 'failed', error: 'Execution ID cannot be empty' };
     }
@@ -34,49 +104,773 @@ export class StepExecutor {
       return { success: false, execution_id: executionId, workflow_state: 'failed', error: 'Workflow name cannot be empty' };
     }
 
-    const firstPhase = phases.find((p) => !p.dependsOn || p.dependsOn.length === 0);
-    if (!firstPhase) {
+    if (phases.length === 0) {
       return { success: false, execution_id: executionId, workflow_state: 'failed', error: 'No phases defined in workflow' };
     }
 
+    const graphError = validatePhaseGraph(phases);
+    if (graphError) {
+      return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Invalid workflow phases: ${graphError}` };
+    }
+
+    const firstPhase = getReadyPhases(phases, new Set(), new Set())[0];
+    if (!firstPhase) {
+      return { success: false, execution_id: executionId, workflow_state: 'failed', error: 'Workflow has no starting phase' };
+    }
+
     const existing = this.db.prepare('SELECT execution_id FROM workflow_executions_v2 WHERE execution_id = ?').get(executionId);
     if (existing) {
       return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Execution ID '${executionId}' already exists` };
     }
 
+    if (binding.input) {
+      const validation = this.contractValidator.validate(WORKFLOW_INPUT_CONTRACT, binding.input);
+      if (!validation) {
+        return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Contract '${WORKFLOW_INPUT_CONTRACT}' not found; sync content before passing input` };
+      }
+      if (!validation.valid) {
+        return {
+          success: false,
+          execution_id: executionId,
+          workflow_state: 'failed',
+          validation_errors: validation.errors,
+          error: `Workflow input does not satisfy contract '${WORKFLOW_INPUT_CONTRACT}': ${formatContractViolations(validation.errors)}`,
+        };
+      }
+    }
+
     const transaction = this.db.transaction(() => {
-      this.stateMachine.createExecution(workflowName, executionId);
+      this.stateMachine.createExecution(workflowName, executionId, binding);
+      this.stateMachine.transitionState(executionId, 'running', firstPhase.phase, 'Workflow started');
+      this.telemetry.workflowStarted(executionId, firstPhase.phase, stepAgentName(firstPhase), workflowName);
+      return this.advance(executionId, phases, policy, 'Workflow started');
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      this.telemetry.workflowFailed(executionId, error instanceof Error ? error.message : String(error));
+      return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Failed to start workflow: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  continueWorkflow(token: string, output: StepOutput, phases: WorkflowPhase[], policy: ExecutionPolicy = DEFAULT_POLICY): StepExecutionResult {
+    const claim = this.claimStep(token);
+    if (!claim.ok) return claim.result;
+
+    const { execution_id, step } = claim;
+    const tokenStepName = step.step_name;
+
+    // A rejected output leaves the step running with its token live, so the agent can fix and resubmit
+    const contractName = phases.find((p) => p.phase === tokenStepName)?.outputContract;
+    if (contractName) {
+      const validation = this.contractValidator.validate(contractName, output);
+      if (!validation) {
+        const error = `Output contract '${contractName}' for step '${tokenStepName}' not found`;
+        this.telemetry.error(execution_id, 'continueWorkflow', error);
+        return { success: false, execution_id, workflow_state: 'running', error };
+      }
+      if (!validation.valid) {
+        this.telemetry.stepOutputRejected(execution_id, tokenStepName, step.agent_name, contractName, validation.errors);
+        return {
+          success: false,
+          execution_id,
+          workflow_state: 'running',
+          validation_errors: validation.errors,
+          error: `Output for step '${tokenStepName}' does not satisfy contract '${contractName}': ${formatContractViolations(validation.errors)}`,
+        };
+      }
+    }
+
+    const transaction = this.db.transaction(() => {
+      if (!this.takeToken(step)) return this.tokenAlreadyUsed(execution_id, tokenStepName);
+
       const now = new Date().toISOString();
+      const durationMs = new Date(now).getTime() - new Date(step.started_at || now).getTime();
+      this.db
+        .prepare(`UPDATE workflow_steps_v2 SET status = ?, completed_at = ?, duration_ms = ?, output = ?, token = NULL WHERE id = ?`)
+        .run('completed', now, durationMs, JSON.stringify(output), step.id);
+
+      this.telemetry.stepCompleted(execution_id, tokenStepName, step.agent_name, durationMs);
+
+      this.storeArtifacts(execution_id, tokenStepName, output.artifacts ?? [], step.iteration > 1 ? { iteration: step.iteration } : undefined);
+      this.proposeFindings(execution_id, tokenStepName, step.agent_name, output.suggested_findings ?? []);
+
+      return (
+        this.applyOutcome(execution_id, step, output, phases, policy, new Date(now)) ??
+        this.advance(execution_id, phases, policy, `Step '${tokenStepName}' completed`)
+      );
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      // The transaction rolled back, so report the state the execution is actually left in
+      this.telemetry.stepFailed(execution_id, tokenStepName, null, error instanceof Error ? error.message : String(error));
+      return { success: false, execution_id, workflow_state: this.currentState(execution_id), error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Mark the step held by this token as failed and apply the retry policy
+   * Partial artifacts are stored against the step, tagged with `partial` and the attempt number
+   */
+  failStep(
+    token: string,
+    reason: string,
+    phases: WorkflowPhase[],
+    policy: ExecutionPolicy = DEFAULT_POLICY,
+    partialArtifacts: StepArtifact[] = []
+  ): StepExecutionResult {
+    const claim = this.claimStep(token);
+    if (!claim.ok) return claim.result;
+
+    const { execution_id, step } = claim;
+
+    const transaction = this.db.transaction(() => {
+      if (!this.takeToken(step)) return this.tokenAlreadyUsed(execution_id, step.step_name);
+
+      this.storeArtifacts(execution_id, step.step_name, partialArtifacts, {
+        partial: true,
+        attempt: step.attempt,
+        ...(step.iteration > 1 ? { iteration: step.iteration } : {}),
+      });
+      return this.handleStepFailure(execution_id, step, reason, phases, policy, new Date());
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      // The transaction rolled back, so report the state the execution is actually left in
+      this.telemetry.error(execution_id, 'failStep', error instanceof Error ? error.message : String(error));
+      return { success: false, execution_id, workflow_state: this.currentState(execution_id), error: error instanceof Error ? error.message : String(error) };
+    }
+  }
 
+  /**
+   * Pause a running execution and the sub-workflows it is waiting on
+   * Outstanding tokens are revoked; running steps keep their place and get fresh tokens on resume
+   */
+  pauseExecution(executionId: string, reason: string): StepExecutionResult {
+    const execution = this.stateMachine.getExecution(executionId);
+    if (!execution) return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Execution ${executionId} not found` };
+    if (execution.state !== 'running') {
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: `Cannot pause an execution in '${execution.state}' state` };
+    }
+
+    const transaction = this.db.transaction((): StepExecutionResult => {
+      this.db.prepare(`UPDATE workflow_steps_v2 SET token = NULL WHERE execution_id = ? AND status = 'running'`).run(executionId);
+      this.stateMachine.transitionState(executionId, 'paused', execution.current_step, reason);
+      this.stateMachine.mergeMetadata(executionId, { paused_at: new Date().toISOString() });
+      for (const childId of this.getActiveChildren(executionId, 'running')) {
+        this.pauseExecution(childId, `Parent ${executionId} paused: ${reason}`);
+      }
+      return { success: true, execution_id: executionId, workflow_state: 'paused', message: `Execution paused: ${reason}` };
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      this.telemetry.error(executionId, 'pauseExecution', error instanceof Error ? error.message : String(error));
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Resume a paused execution, issuing fresh tokens for the steps that were running and resuming
+   * the sub-workflows paused with it. Time spent paused does not count towards the policy timeouts
+   */
+  resumeExecution(executionId: string, reason: string, phases: WorkflowPhase[], policy: ExecutionPolicy = DEFAULT_POLICY): StepExecutionResult {
+    const execution = this.stateMachine.getExecution(executionId);
+    if (!execution) return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Execution ${executionId} not found` };
+    if (execution.state !== 'paused') {
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: `Cannot resume an execution in '${execution.state}' state` };
+    }
+    const parent = execution.parent_execution_id ? this.stateMachine.getExecution(execution.parent_execution_id) : null;
+    if (parent?.state === 'paused') {
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: `Parent execution ${parent.execution_id} is paused; resume it instead` };
+    }
+
+    const transaction = this.db.transaction((): StepExecutionResult => {
+      const now = new Date();
+      const pausedAt = execution.metadata?.['paused_at'];
+      const previousPausedMs = typeof execution.metadata?.['paused_ms'] === 'number' ? execution.metadata['paused_ms'] : 0;
+      const pausedMs = previousPausedMs + (typeof pausedAt === 'string' ? Math.max(0, now.getTime() - new Date(pausedAt).getTime()) : 0);
+
+      this.stateMachine.transitionState(executionId, 'running', execution.current_step, reason);
+      this.stateMachine.mergeMetadata(executionId, { paused_at: null, paused_ms: pausedMs });
+
+      const reissued = this.getSteps(executionId)
+        .filter((s) => s.status === 'running' && s.child_execution_id === null)
+        .map((step): ScheduledStep => {
+          const token = this.tokenService.generateToken(executionId, step.step_name);
+          this.db
+            .prepare(`UPDATE workflow_steps_v2 SET token = ?, started_at = ? WHERE id = ?`)
+            .run(token, now.toISOString(), step.id);
+          this.telemetry.tokenGenerated(executionId, step.step_name);
+          return { execution_id: executionId, step_name: step.step_name, agent_name: step.agent_name, iteration: step.iteration, token };
+        });
+      for (const childId of this.getActiveChildren(executionId, 'paused')) {
+        const child = this.versions.forExecution(childId);
+        const resumed = this.resumeExecution(childId, `Parent ${executionId} resumed: ${reason}`, child?.phases ?? [], resolveExecutionPolicy(child?.complexity ?? null));
+        reissued.push(...(resumed.steps ?? []));
+      }
+
+      const result = this.advance(executionId, phases, policy, 'Execution resumed', now);
+      const steps = [...reissued, ...(result.steps ?? [])];
+      const [first] = steps;
+      if (!first) return result;
+
+      return {
+        ...result,
+        step_name: first.step_name,
+        agent_name: first.agent_name,
+        new_token: first.token,
+        steps,
+        message: undefined,
+      };
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      this.telemetry.error(executionId, 'resumeExecution', error instanceof Error ? error.message : String(error));
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Abandon a running, paused or awaiting_approval execution; in-flight steps are closed out as
+   * failed and its sub-workflows abandoned. A sub-workflow's abandonment fails the parent step
+   * waiting on it
+   */
+  abandonExecution(executionId: string, reason: string): StepExecutionResult {
+    const execution = this.stateMachine.getExecution(executionId);
+    if (!execution) return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Execution ${executionId} not found` };
+    if (!isActive(execution.state)) {
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: `Cannot abandon an execution in '${execution.state}' state` };
+    }
+
+    const transaction = this.db.transaction((): StepExecutionResult => {
+      this.cancelInFlightSteps(executionId, `Abandoned: ${reason}`, new Date());
+      this.stateMachine.transitionState(executionId, 'abandoned', null, reason);
+      this.settleParentStep(executionId, 'abandoned', new Date());
+      return { success: true, execution_id: executionId, workflow_state: 'abandoned', message: `Execution abandoned: ${reason}` };
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      this.telemetry.error(executionId, 'abandonExecution', error instanceof Error ? error.message : String(error));
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Record a decision on the approval phase an execution is waiting on and act on it: approval
+   * completes the phase, rejection sends the workflow back to the phase's onReject
+   */
+  decideApproval(executionId: string, input: ApprovalInput, phases: WorkflowPhase[], policy: ExecutionPolicy = DEFAULT_POLICY): StepExecutionResult {
+    const execution = this.stateMachine.getExecution(executionId);
+    if (!execution) return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Execution ${executionId} not found` };
+    if (execution.state !== 'awaiting_approval') {
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: `Execution ${executionId} is not awaiting approval (state '${execution.state}')` };
+    }
+    if (input.decision === 'rejected' && !input.comment?.trim()) {
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: 'A rejection needs a comment saying what to change' };
+    }
+
+    const step = this.getAwaitingApproval(executionId, phases);
+    if (!step) {
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: `Execution ${executionId} has no approval phase waiting on a decision` };
+    }
+    const recorded = this.getApproval(step);
+    if (recorded) {
+      return {
+        success: false,
+        execution_id: executionId,
+        workflow_state: execution.state,
+        error: `Phase '${step.step_name}' was already ${recorded.decision} (via ${recorded.source}); it is applied on the next check of the execution`,
+      };
+    }
+
+    const transaction = this.db.transaction((): StepExecutionResult => {
+      const now = new Date();
       this.db
-        .prepare(`INSERT INTO workflow_steps_v2 (execution_id, step_name, agent_name, status, started_at, token) VALUES (?, ?, ?, ?, ?, ?)`)
-        .run(executionId, firstPhase.phase, firstPhase.agent, 'running', now, null);
+        .prepare(
+          `INSERT INTO workflow_approvals (execution_id, step_name, iteration, decision, comment, decided_by, source, applied_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(executionId, step.step_name, step.iteration, input.decision, input.comment, input.decided_by, input.source, now.toISOString());
+      return this.applyApproval(executionId, step, input, phases, policy, now);
+    });
 
-      const token = this.tokenService.generateToken(executionId, firstPhase.phase);
-      this.db.prepare(`UPDATE workflow_steps_v2 SET token = ? WHERE execution_id = ? AND step_name = ?`).run(token, executionId, firstPhase.phase);
-      this.stateMachine.transitionState(executionId, 'running', firstPhase.phase);
+    try {
+      return transaction();
+    } catch (error) {
+      this.telemetry.error(executionId, 'decideApproval', error instanceof Error ? error.message : String(error));
+      return { success: false, execution_id: executionId, workflow_state: execution.state, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
 
-      this.telemetry.workflowStarted(executionId, firstPhase.phase, firstPhase.agent, workflowName);
-      this.telemetry.stepStarted(executionId, firstPhase.phase, firstPhase.agent);
-      this.telemetry.tokenGenerated(executionId, firstPhase.phase);
+  /**
+   * Act on a decision recorded without the engine (by the client) for the approval phase the
+   * execution is waiting on
+   *
+   * @returns The execution's result, or null when no such decision is waiting to be applied
+   */
+  applyPendingApproval(executionId: string, phases: WorkflowPhase[], policy: ExecutionPolicy = DEFAULT_POLICY, now: Date = new Date()): StepExecutionResult | null {
+    const execution = this.stateMachine.getExecution(executionId);
+    if (execution?.state !== 'awaiting_approval') return null;
 
-      return token;
+    const step = this.getAwaitingApproval(executionId, phases);
+    const pending = step ? this.getApproval(step) : null;
+    if (!step || !pending || pending.applied_at !== null) return null;
+
+    const transaction = this.db.transaction((): StepExecutionResult => {
+      this.db.prepare(`UPDATE workflow_approvals SET applied_at = ? WHERE id = ?`).run(now.toISOString(), pending.id);
+      return this.applyApproval(executionId, step, pending, phases, policy, now);
     });
 
     try {
-      const token = transaction();
-      return { success: true, execution_id: executionId, step_name: firstPhase.phase, agent_name: firstPhase.agent, workflow_state: 'running', new_token: token };
+      return transaction();
     } catch (error) {
-      this.telemetry.workflowFailed(executionId, error instanceof Error ? error.message : String(error));
-      return { success: false, execution_id: executionId, workflow_state: 'failed', error: `Failed to start workflow: ${error instanceof Error ? error.message : String(error)}` };
+      this.telemetry.error(executionId, 'applyPendingApproval', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Apply timeouts and due retries to a running execution
+   * Nothing else wakes an idle execution, so this runs on access and from a periodic sweep
+   *
+   * @returns true if the execution or any of its steps changed
+   */
+  enforcePolicies(executionId: string, phases: WorkflowPhase[], policy: ExecutionPolicy = DEFAULT_POLICY, now: Date = new Date()): boolean {
+    const execution = this.stateMachine.getExecution(executionId);
+    if (!execution || execution.state !== 'running') return false;
+
+    const isRunning = () => this.stateMachine.getExecution(executionId)?.state === 'running';
+
+    const transaction = this.db.transaction((): boolean => {
+      const totalLimitMs = policy.timeout.totalWorkflowMs;
+      // Time spent paused or waiting on an approval does not count
+      const waitedMs = readNumber(execution.metadata, 'paused_ms') + readNumber(execution.metadata, 'approval_wait_ms');
+      if (now.getTime() - new Date(execution.started_at).getTime() - waitedMs > totalLimitMs) {
+        const message = `Execution exceeded totalWorkflowMs timeout of ${totalLimitMs}ms`;
+        this.cancelInFlightSteps(executionId, message, now);
+        this.telemetry.workflowTimedOut(executionId, totalLimitMs);
+        this.failExecution(executionId, { code: 'workflow_timeout', message });
+        return true;
+      }
+
+      let changed = false;
+      const stepLimitMs = policy.timeout.perStepMs;
+      // A sub-workflow step is bounded by its child's own policy instead
+      for (const step of this.getSteps(executionId).filter((s) => s.status === 'running' && s.child_execution_id === null)) {
+        if (!isRunning()) break;
+        if (now.getTime() - new Date(step.started_at ?? now).getTime() <= stepLimitMs) continue;
+
+        this.telemetry.stepTimedOut(executionId, step.step_name, step.agent_name, stepLimitMs);
+        this.handleStepFailure(executionId, step, `Step exceeded perStepMs timeout of ${stepLimitMs}ms`, phases, policy, now);
+        changed = true;
+      }
+
+      const nowIso = now.toISOString();
+      const retryDue = this.getSteps(executionId).some((s) => s.status === 'pending' && s.retry_at !== null && s.retry_at <= nowIso);
+      if (isRunning() && retryDue) {
+        this.advance(executionId, phases, policy, 'Retry started', now);
+        changed = true;
+      }
+
+      return changed;
+    });
+
+    try {
+      return transaction();
+    } catch (error) {
+      this.telemetry.error(executionId, 'enforcePolicies', error instanceof Error ? error.message : String(error));
+      return false;
     }
   }
 
-  continueWorkflow(token: string, output: StepOutput, phases: WorkflowPhase[]): StepExecutionResult {
+  /**
+   * Retry a failed step while attempts remain, waiting out an exponential backoff as 'pending'
+   * Once attempts run out the step fails (escalating first if the policy asks for it); failFast
+   * then cancels everything in flight, otherwise independent branches are allowed to finish
+   */
+  private handleStepFailure(
+    executionId: string,
+    step: WorkflowStep,
+    reason: string,
+    phases: WorkflowPhase[],
+    policy: ExecutionPolicy,
+    now: Date
+  ): StepExecutionResult {
+    const nowIso = now.toISOString();
+    const durationMs = now.getTime() - new Date(step.started_at || nowIso).getTime();
+    const { maxAttempts, backoffMs, escalateOnFailure } = policy.retryPolicy;
+    this.telemetry.stepFailed(executionId, step.step_name, step.agent_name, reason);
+
+    if (step.attempt < maxAttempts) {
+      const retryAt = new Date(now.getTime() + backoffMs * 2 ** (step.attempt - 1)).toISOString();
+      this.db
+        .prepare(
+          `UPDATE workflow_steps_v2 SET status = 'pending', attempt = attempt + 1, retry_at = ?, duration_ms = ?, output = ?, token = NULL
+           WHERE id = ?`
+        )
+        .run(retryAt, durationMs, JSON.stringify({ error: reason }), step.id);
+      this.telemetry.stepRetryScheduled(executionId, step.step_name, step.agent_name, step.attempt + 1, retryAt);
+
+      return {
+        ...this.advance(executionId, phases, policy, `Step '${step.step_name}' failed (attempt ${step.attempt}/${maxAttempts}), retrying`, now),
+        retry: { step_name: step.step_name, attempt: step.attempt + 1, retry_at: retryAt },
+      };
+    }
+
+    this.db
+      .prepare(
+        `UPDATE workflow_steps_v2 SET status = 'failed', completed_at = ?, duration_ms = ?, output = ?, token = NULL, retry_at = NULL
+         WHERE id = ?`
+      )
+      .run(nowIso, durationMs, JSON.stringify({ error: reason }), step.id);
+
+    if (escalateOnFailure) {
+      this.telemetry.stepEscalated(executionId, step.step_name, step.agent_name, `Failed after ${step.attempt} attempt(s): ${reason}`);
+    }
+
+    if (policy.parallelism.failFast) {
+      this.cancelInFlightSteps(executionId, `Cancelled after '${step.step_name}' failed`, now);
+
+      const message = `Step '${step.step_name}' failed: ${reason}`;
+      this.failExecution(executionId, {
+        code: 'step_failed',
+        message,
+        step_name: step.step_name,
+        agent_name: step.agent_name,
+        reason,
+        attempts: step.attempt,
+      });
+      return { success: true, execution_id: executionId, workflow_state: 'failed', error: message };
+    }
+
+    return this.advance(executionId, phases, policy, `Step '${step.step_name}' failed`, now);
+  }
+
+  private storeArtifacts(executionId: string, stepName: string, artifacts: StepArtifact[], extraMetadata?: Record<string, unknown>): void {
+    for (const artifact of artifacts) {
+      const metadata = artifact.metadata || extraMetadata ? { ...artifact.metadata, ...extraMetadata } : null;
+      const artifactId = this.db
+        .prepare(
+          `INSERT INTO workflow_artifacts_v2 (
+          execution_id, step_name, artifact_type, name, content, content_type, size_bytes, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING id`
+        )
+        .get(
+          executionId,
+          stepName,
+          artifact.type,
+          artifact.name || artifact.title || 'untitled',
+          artifact.content,
+          artifact.content_type || 'text/plain',
+          Buffer.byteLength(artifact.content, 'utf8'),
+          metadata ? JSON.stringify(metadata) : null
+        ) as { id: number };
+
+      this.telemetry.artifactStored(executionId, stepName, String(artifactId.id));
+    }
+  }
+
+  /**
+   * Queue a step's suggested_findings for review as `proposed` knowledge findings
+   * Project-scoped suggestions without a project_id take the execution's project; if it has none they are dropped.
+   * Suggestions duplicating an active or proposed finding are dropped too, so repeated runs do not refill the queue
+   */
+  private proposeFindings(
+    executionId: string,
+    stepName: string,
+    agentName: string,
+    suggestions: NonNullable<StepOutput['suggested_findings']>
+  ): void {
+    if (suggestions.length === 0) return;
+
+    const executionProjectId = this.stateMachine.getExecution(executionId)?.project_id ?? null;
+    const insert = this.db.prepare(
+      `INSERT INTO knowledge_findings (scope, project_id, category, severity, status, title, content, tags, source_execution_id, source_agent)
+       VALUES (?, ?, ?, ?, 'proposed', ?, ?, ?, ?, ?)`
+    );
+
+    for (const suggestion of suggestions) {
+      const projectId = suggestion.scope === 'project' ? (suggestion.project_id ?? executionProjectId) : null;
+      if (suggestion.scope === 'project' && projectId === null) {
+        this.telemetry.error(executionId, 'proposeFindings', `Suggested finding '${suggestion.title}' is project-scoped but the execution has no project`);
+        continue;
+      }
+
+      const duplicate = this.findingLifecycle.findDuplicates({ ...suggestion, project_id: projectId })[0];
+      if (duplicate) {
+        this.telemetry.findingDuplicate(executionId, stepName, agentName, duplicate.id, suggestion.title, duplicate.similarity);
+        continue;
+      }
+
+      const result = insert.run(
+        suggestion.scope,
+        projectId,
+        suggestion.category,
+        suggestion.severity,
+        suggestion.title,
+        suggestion.content,
+        JSON.stringify(suggestion.tags ?? []),
+        executionId,
+        agentName
+      );
+      const findingId = Number(result.lastInsertRowid);
+      this.findingLifecycle.recordRevision(findingId, 'proposed');
+      this.telemetry.findingProposed(executionId, stepName, agentName, findingId, suggestion.title);
+    }
+  }
+
+  /**
+   * Move the execution to 'failed' and record a structured error in its metadata
+   * A failed sub-workflow fails the parent step waiting on it
+   */
+  private failExecution(executionId: string, error: Omit<ExecutionError, 'failed_at'>): void {
+    this.stateMachine.transitionState(executionId, 'failed', null, error.message);
+    this.stateMachine.mergeMetadata(executionId, { error: { ...error, failed_at: new Date().toISOString() } });
+    this.telemetry.workflowFailed(executionId, error.message);
+    this.settleParentStep(executionId, 'failed', new Date());
+  }
+
+  /**
+   * Close out running and pending steps (all of them, or only those of the given phases) as
+   * failed; sub-workflows still active are abandoned
+   */
+  private cancelInFlightSteps(executionId: string, reason: string, now: Date, onlyPhases?: Set<string>): void {
+    const inFlight = this.getSteps(executionId).filter(
+      (s) => (s.status === 'running' || s.status === 'pending') && (!onlyPhases || onlyPhases.has(s.step_name))
+    );
+    for (const step of inFlight) {
+      this.db
+        .prepare(`UPDATE workflow_steps_v2 SET status = 'failed', completed_at = ?, output = ?, token = NULL, retry_at = NULL WHERE id = ?`)
+        .run(now.toISOString(), JSON.stringify({ error: reason }), step.id);
+      this.telemetry.stepFailed(executionId, step.step_name, step.agent_name, reason);
+    }
+
+    // Steps are settled first, so the children's abandonment does not report back to them
+    for (const step of inFlight) {
+      const child = step.child_execution_id ? this.stateMachine.getExecution(step.child_execution_id) : null;
+      if (child && isActive(child.state)) {
+        this.abandonExecution(child.execution_id, `Parent ${executionId}: ${reason}`);
+      }
+    }
+  }
+
+  /**
+   * Start a sub-workflow phase: a child execution of the phase's workflow, pinned to its current
+   * version and bound to the parent's project and input. The step row waits on it without a token
+   * A child that cannot start (unknown workflow, a workflow already running further up the tree,
+   * input it rejects) fails the step outright; retrying would not change the outcome
+   *
+   * A retry (an existing step row) starts a fresh child, as does each iteration of the phase
+   *
+   * @returns The child's first steps
+   */
+  private startSubWorkflow(executionId: string, phase: WorkflowPhase, iteration: number, now: Date, retry?: WorkflowStep): ScheduledStep[] {
+    const workflowName = phase.workflow ?? '';
+    const attempt = retry?.attempt ?? 1;
+    const childId = `${executionId}.${phase.phase}${iteration > 1 ? `.r${iteration}` : ''}${attempt > 1 ? `.${attempt}` : ''}`;
+    const nowIso = now.toISOString();
+
+    const lineage = this.stateMachine.getLineage(executionId);
+    const version = this.versions.record(workflowName);
+    let error: string | null = null;
+    let started: StepExecutionResult | null = null;
+
+    if (lineage.some((execution) => execution.workflow_name === workflowName)) {
+      const chain = [...lineage.map((execution) => execution.workflow_name).reverse(), workflowName];
+      error = `Sub-workflow cycle: ${chain.join(' -> ')}`;
+    } else if (!version) {
+      error = `Workflow '${workflowName}' not found`;
+    } else {
+      const parent = lineage[0];
+      const input = parent?.metadata?.['input'];
+      started = this.startWorkflow(workflowName, childId, version.phases, resolveExecutionPolicy(version.complexity), {
+        projectId: parent?.project_id ?? null,
+        input: input && typeof input === 'object' ? (input as Record<string, unknown>) : undefined,
+        workflowVersionId: version.id,
+        parentExecutionId: executionId,
+      });
+      if (!started.success || !isActive(started.workflow_state)) {
+        error = `Sub-workflow '${workflowName}' could not start: ${started.error ?? started.workflow_state}`;
+      }
+    }
+
+    const childExecutionId = this.stateMachine.getExecution(childId) ? childId : null;
+    const status = error ? 'failed' : 'running';
+    const output = error ? JSON.stringify({ error }) : null;
+    const completedAt = error ? nowIso : null;
+    if (retry) {
+      this.db
+        .prepare(
+          `UPDATE workflow_steps_v2 SET status = ?, started_at = ?, completed_at = ?, duration_ms = NULL, output = ?, retry_at = NULL, token = NULL, child_execution_id = ?
+           WHERE id = ?`
+        )
+        .run(status, nowIso, completedAt, output, childExecutionId, retry.id);
+    } else {
+      this.db
+        .prepare(
+          `INSERT INTO workflow_steps_v2 (execution_id, step_name, agent_name, status, started_at, completed_at, output, child_execution_id, iteration)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(executionId, phase.phase, stepAgentName(phase), status, nowIso, completedAt, output, childExecutionId, iteration);
+    }
+
+    this.telemetry.stepStarted(executionId, phase.phase, stepAgentName(phase));
+    if (error) {
+      this.telemetry.stepFailed(executionId, phase.phase, stepAgentName(phase), error);
+      return [];
+    }
+    this.telemetry.subworkflowStarted(executionId, phase.phase, workflowName, childId);
+    return started?.steps ?? [];
+  }
+
+  /**
+   * Report a finished sub-workflow to the parent step waiting on it: completion stores the child's
+   * WorkflowOutput as the step output and advances the parent; failure or abandonment goes through
+   * the parent's retry policy like any failed step
+   *
+   * @returns The parent's result, or null when no running step waits on this execution
+   */
+  private settleParentStep(childExecutionId: string, state: 'completed' | 'failed' | 'abandoned', now: Date): StepExecutionResult | null {
+    const link = this.db
+      .prepare(`SELECT id, execution_id FROM workflow_steps_v2 WHERE child_execution_id = ? AND status = 'running'`)
+      .get(childExecutionId) as { id: number; execution_id: string } | undefined;
+    if (!link) return null;
+
+    const parent = this.stateMachine.getExecution(link.execution_id);
+    const step = this.getStepById(link.id);
+    if (parent?.state !== 'running' || !step) return null;
+
+    const version = this.versions.forExecution(parent.execution_id);
+    const phases = version?.phases ?? [];
+    const policy = resolveExecutionPolicy(version?.complexity ?? null);
+    this.telemetry.subworkflowFinished(parent.execution_id, step.step_name, childExecutionId, state);
+
+    if (state !== 'completed') {
+      const childError = this.stateMachine.getExecution(childExecutionId)?.metadata?.['error'] as { message?: string } | undefined;
+      const reason = `Sub-workflow ${childExecutionId} ${state}${childError?.message ? `: ${childError.message}` : ''}`;
+      return this.handleStepFailure(parent.execution_id, step, reason, phases, policy, now);
+    }
+
+    const output = this.buildWorkflowOutput(childExecutionId);
+    const contractName = phases.find((p) => p.phase === step.step_name)?.outputContract;
+    const validation = contractName ? this.contractValidator.validate(contractName, output) : null;
+    if (contractName && !validation?.valid) {
+      const details = validation ? formatContractViolations(validation.errors) : 'contract not found';
+      return this.handleStepFailure(parent.execution_id, step, `Sub-workflow output does not satisfy contract '${contractName}': ${details}`, phases, policy, now);
+    }
+
+    const durationMs = now.getTime() - new Date(step.started_at ?? now).getTime();
+    this.db
+      .prepare(`UPDATE workflow_steps_v2 SET status = 'completed', completed_at = ?, duration_ms = ?, output = ? WHERE id = ?`)
+      .run(now.toISOString(), durationMs, JSON.stringify(output), step.id);
+    this.telemetry.stepCompleted(parent.execution_id, step.step_name, step.agent_name, durationMs);
+
+    return (
+      this.applyOutcome(parent.execution_id, step, output, phases, policy, now) ??
+      this.advance(parent.execution_id, phases, policy, `Sub-workflow '${step.step_name}' completed`, now)
+    );
+  }
+
+  /**
+   * A completed execution's WorkflowOutput: its last step's output when that phase declares the
+   * WorkflowOutput contract, otherwise one assembled from the completed steps
+   */
+  private buildWorkflowOutput(executionId: string): Record<string, unknown> {
+    const execution = this.stateMachine.getExecution(executionId);
+    const phases = this.versions.forExecution(executionId)?.phases ?? [];
+    const completed = this.getCurrentSteps(executionId).filter((s) => s.status === 'completed');
+
+    const last = completed[completed.length - 1];
+    if (last?.output && phases.find((p) => p.phase === last.step_name)?.outputContract === WORKFLOW_OUTPUT_CONTRACT) {
+      return last.output;
+    }
+
+    // Phases nothing else depends on hold the workflow's conclusions
+    const upstream = new Set(phases.flatMap((p) => p.dependsOn ?? []));
+    const summary = completed
+      .filter((s) => !upstream.has(s.step_name) && typeof s.output?.['summary'] === 'string')
+      .map((s) => s.output?.['summary'] as string);
+    const artifacts = this.db
+      .prepare(`SELECT id, step_name, artifact_type, name FROM workflow_artifacts_v2 WHERE execution_id = ? ORDER BY id ASC`)
+      .all(executionId);
+
+    return {
+      summary: summary.join('\n\n'),
+      workflow: { name: execution?.workflow_name ?? '' },
+      steps: completed.map((s) => ({ step_name: s.step_name, agent_name: s.agent_name, summary: s.output?.['summary'] ?? null })),
+      artifacts,
+      findings: completed.flatMap((s) => (Array.isArray(s.output?.['findings']) ? (s.output['findings'] as unknown[]) : [])),
+      references: [`midex://workflow/step_history/${executionId}`],
+    };
+  }
+
+  /**
+   * Child executions in the given state that a running step of this execution waits on
+   */
+  private getActiveChildren(executionId: string, state: 'running' | 'paused'): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT e.execution_id FROM workflow_steps_v2 s
+         JOIN workflow_executions_v2 e ON e.execution_id = s.child_execution_id
+         WHERE s.execution_id = ? AND s.status = 'running' AND e.state = ?`
+      )
+      .all(executionId, state) as Array<{ execution_id: string }>;
+    return rows.map((row) => row.execution_id);
+  }
+
+  /**
+   * Spend a claimed step's token, as the first write of the transaction that settles the step
+   * claimStep checks the token before that transaction starts, so another process (a second
+   * server, the CLI, a watchdog sweep) may have settled the step in between
+   * @returns false when it did; the step must then be left alone
+   */
+  private takeToken(step: WorkflowStep): boolean {
+    const result = this.db
+      .prepare(`UPDATE workflow_steps_v2 SET token = NULL WHERE id = ? AND status = 'running' AND token = ?`)
+      .run(step.id, step.token);
+    return result.changes === 1;
+  }
+
+  private tokenAlreadyUsed(executionId: string, stepName: string): StepExecutionResult {
+    this.telemetry.tokenRevoked(executionId, stepName, 'used');
+    return {
+      success: false,
+      execution_id: executionId,
+      workflow_state: this.currentState(executionId),
+      error: `Token revoked: step '${stepName}' has already been settled. Tokens are single-use.`,
+    };
+  }
+
+  /**
+   * State the execution is in as stored, e.g. after a transaction rolled back
+   */
+  private currentState(executionId: string): WorkflowState {
+    return this.stateMachine.getExecution(executionId)?.state ?? 'failed';
+  }
+
+  /**
+   * Resolve a continuation token to the running step it was issued for
+   * Each running step holds its own token, so a token is only live while it matches the step row
+   */
+  private claimStep(
+    token: string
+  ): { ok: true; execution_id: string; step: WorkflowStep } | { ok: false; result: StepExecutionResult } {
     const validation = this.tokenService.validateToken(token);
     if (!validation.valid) {
       this.telemetry.tokenExpired(validation.error);
-      return { success: false, execution_id: '', workflow_state: 'failed', error: validation.error };
+      return { ok: false, result: { success: false, execution_id: '', workflow_state: 'failed', error: validation.error } };
     }
 
     const { execution_id, step_name: tokenStepName } = validation.payload;
@@ -84,94 +878,383 @@ export class StepExecutor {
     const execution = this.stateMachine.getExecution(execution_id);
     if (!execution) {
       this.telemetry.error(execution_id, 'continueWorkflow', 'Execution not found');
-      return { success: false, execution_id, workflow_state: 'failed', error: `Execution ${execution_id} not found` };
+      return { ok: false, result: { success: false, execution_id, workflow_state: 'failed', error: `Execution ${execution_id} not found` } };
     }
 
-    if (execution.current_step !== tokenStepName) {
-      this.telemetry.tokenMismatch(execution_id, tokenStepName, execution.current_step || '(none)');
+    if (execution.state !== 'running') {
+      const hints: Record<string, string> = {
+        paused: ' Call workflow.resume to get a fresh token.',
+        awaiting_approval: ' It continues once workflow.approve or workflow.reject is called.',
+      };
+      const hint = hints[execution.state] ?? '';
+      const error = `Execution ${execution_id} is '${execution.state}'.${hint}`;
+      this.telemetry.error(execution_id, 'claimStep', error);
+      return { ok: false, result: { success: false, execution_id, workflow_state: execution.state, error } };
+    }
+
+    const step = this.getStep(execution_id, tokenStepName);
+
+    // Tokens are single-use: only the nonce stored on the step row is live. Anything else was
+    // already spent, or replaced by a retry or a resume
+    const storedNonce = step?.token ? this.tokenService.readNonce(step.token) : null;
+    if (step && (step.status !== 'running' || storedNonce !== validation.payload.nonce)) {
+      const reason = step.status === 'completed' || step.status === 'failed' ? 'used' : 'superseded';
+      this.telemetry.tokenRevoked(execution_id, tokenStepName, reason);
       return {
-        success: false,
-        execution_id,
-        workflow_state: execution.state,
-        error: `Token step mismatch: token is for step '${tokenStepName}' but current step is '${execution.current_step || '(none)'}'. This token may have already been used or the workflow state has changed.`,
+        ok: false,
+        result: {
+          success: false,
+          execution_id,
+          workflow_state: execution.state,
+          error:
+            reason === 'used'
+              ? `Token revoked: step '${tokenStepName}' has already been settled. Tokens are single-use.`
+              : `Token revoked: step '${tokenStepName}' has been issued a newer token. Read current_step for the live one.`,
+        },
+      };
+    }
+
+    if (!step) {
+      const running = this.getSteps(execution_id).filter((s) => s.status === 'running').map((s) => s.step_name);
+      const runningList = running.length > 0 ? running.join(', ') : '(none)';
+      this.telemetry.tokenMismatch(execution_id, tokenStepName, runningList);
+      return {
+        ok: false,
+        result: {
+          success: false,
+          execution_id,
+          workflow_state: execution.state,
+          error: `Token is not current: token is for step '${tokenStepName}' but running steps are '${runningList}'. This token may have already been used or the workflow state has changed.`,
+        },
       };
     }
 
     this.telemetry.tokenValidated(execution_id, tokenStepName);
+    return { ok: true, execution_id, step };
+  }
 
-    const transaction = this.db.transaction(() => {
-      const now = new Date().toISOString();
-      const step = this.getStep(execution_id, tokenStepName);
-      if (!step) throw new Error(`Step ${tokenStepName} not found`);
+  /**
+   * Start whatever became ready and settle the execution when nothing is left to run
+   * Steps waiting out a retry backoff count as in flight
+   */
+  private advance(
+    executionId: string,
+    phases: WorkflowPhase[],
+    policy: ExecutionPolicy,
+    settledMessage: string,
+    now: Date = new Date()
+  ): StepExecutionResult {
+    const scheduled = [...this.promoteDueRetries(executionId, phases, now), ...this.scheduleReadyPhases(executionId, phases, policy)];
+    const steps = this.getCurrentSteps(executionId);
+    const inFlight = steps.filter((s) => s.status === 'running' || s.status === 'pending');
+
+    if (inFlight.length === 0) {
+      const completed = new Set(steps.filter((s) => s.status === 'completed' || s.status === 'skipped').map((s) => s.step_name));
+      const remaining = phases.filter((p) => !completed.has(p.phase)).map((p) => p.phase);
+      if (remaining.length === 0) {
+        this.stateMachine.transitionState(executionId, 'completed', null, 'All phases completed');
+        this.telemetry.workflowCompleted(executionId, this.getStepCount(executionId));
+
+        // A finished sub-workflow hands back whatever its parent scheduled next
+        const next = this.settleParentStep(executionId, 'completed', now)?.steps ?? [];
+        const [first] = next;
+        return {
+          success: true,
+          execution_id: executionId,
+          workflow_state: 'completed',
+          message: 'Workflow completed successfully',
+          ...(first ? { step_name: first.step_name, agent_name: first.agent_name, new_token: first.token, steps: next } : {}),
+        };
+      }
 
-      if (step.status !== 'running') {
-        throw new Error(`Step '${tokenStepName}' is in '${step.status}' state, expected 'running'. Cannot complete a step that is not running.`);
+      const failed = steps.filter((s) => s.status === 'failed');
+      const [firstFailed] = failed;
+      if (firstFailed) {
+        // The step outcome was recorded; the execution itself ends here
+        const message = `Step(s) ${failed.map((s) => s.step_name).join(', ')} failed; ${remaining.join(', ')} not completed`;
+        const reason = firstFailed.output?.['error'];
+        this.failExecution(executionId, {
+          code: 'step_failed',
+          message,
+          step_name: firstFailed.step_name,
+          agent_name: firstFailed.agent_name,
+          reason: typeof reason === 'string' ? reason : undefined,
+          attempts: firstFailed.attempt,
+        });
+        return { success: true, execution_id: executionId, workflow_state: 'failed', error: message };
       }
 
-      const durationMs = new Date(now).getTime() - new Date(step.started_at || now).getTime();
+      const message = `No runnable phase: ${remaining.join(', ')} still waiting on unmet dependencies`;
+      this.failExecution(executionId, { code: 'unmet_dependencies', message });
+      return { success: false, execution_id: executionId, workflow_state: 'failed', error: message };
+    }
+
+    const current = inFlight.find((s) => s.status === 'running') ?? inFlight[0]!;
+    this.db
+      .prepare(`UPDATE workflow_executions_v2 SET current_step = ?, updated_at = CURRENT_TIMESTAMP WHERE execution_id = ?`)
+      .run(current.step_name, executionId);
+
+    const first = scheduled[0];
+    const awaiting = inFlight.find((s) => phases.find((p) => p.phase === s.step_name)?.approval);
+    if (!first && awaiting) {
+      return {
+        success: true,
+        execution_id: executionId,
+        workflow_state: 'awaiting_approval',
+        steps: [],
+        message: `${settledMessage}. Phase '${awaiting.step_name}' awaits approval: call workflow.approve or workflow.reject`,
+      };
+    }
+    if (!first) {
+      const waitingOn = inFlight.map((s) => (s.status === 'pending' ? `${s.step_name} (retry at ${s.retry_at})` : s.step_name));
+      return {
+        success: true,
+        execution_id: executionId,
+        workflow_state: 'running',
+        steps: [],
+        message: `${settledMessage}. Waiting on step(s): ${waitingOn.join(', ')}`,
+      };
+    }
+
+    return {
+      success: true,
+      execution_id: executionId,
+      step_name: first.step_name,
+      agent_name: first.agent_name,
+      workflow_state: 'running',
+      new_token: first.token,
+      steps: scheduled,
+    };
+  }
+
+  /**
+   * Put steps whose retry backoff has elapsed back to work with a fresh token, or a fresh child
+   * execution for sub-workflow steps
+   */
+  private promoteDueRetries(executionId: string, phases: WorkflowPhase[], now: Date): ScheduledStep[] {
+    const nowIso = now.toISOString();
+    const due = this.getSteps(executionId).filter((s) => s.status === 'pending' && s.retry_at !== null && s.retry_at <= nowIso);
+
+    return due.flatMap((step) => {
+      const phase = phases.find((p) => p.phase === step.step_name);
+      if (phase?.workflow) return this.startSubWorkflow(executionId, phase, step.iteration, now, step);
+
+      const token = this.tokenService.generateToken(executionId, step.step_name);
       this.db
-        .prepare(`UPDATE workflow_steps_v2 SET status = ?, completed_at = ?, duration_ms = ?, output = ? WHERE execution_id = ? AND step_name = ?`)
-        .run('completed', now, durationMs, JSON.stringify(output), execution_id, tokenStepName);
+        .prepare(
+          `UPDATE workflow_steps_v2 SET status = 'running', started_at = ?, completed_at = NULL, duration_ms = NULL, output = NULL, retry_at = NULL, token = ?
+           WHERE id = ?`
+        )
+        .run(nowIso, token, step.id);
 
-      this.telemetry.stepCompleted(execution_id, tokenStepName, step.agent_name, durationMs);
+      this.telemetry.stepStarted(executionId, step.step_name, step.agent_name);
+      this.telemetry.tokenGenerated(executionId, step.step_name);
+      return [{ execution_id: executionId, step_name: step.step_name, agent_name: step.agent_name, iteration: step.iteration, token }];
+    });
+  }
+
+  /**
+   * Insert step rows and tokens for every phase that can start now, bounded by the parallelism policy
+   * Sub-workflow phases start their child execution instead and contribute its first steps, and
+   * approval phases park the execution until a decision arrives. A ready phase whose `when` condition does not hold is settled as skipped, which counts as done
+   * for the phases depending on it
+   */
+  private scheduleReadyPhases(executionId: string, phases: WorkflowPhase[], policy: ExecutionPolicy): ScheduledStep[] {
+    const steps = this.getCurrentSteps(executionId);
+    const iterations = this.stateMachine.getIterations(executionId);
+    const settled = new Set(steps.filter((s) => s.status === 'completed' || s.status === 'skipped').map((s) => s.step_name));
+    const started = new Set(steps.map((s) => s.step_name));
+    const inFlightNames = new Set(steps.filter((s) => s.status === 'running' || s.status === 'pending').map((s) => s.step_name));
+    const inFlight = phases.filter((p) => inFlightNames.has(p.phase));
+    const outputs = new Map(steps.filter((s) => s.status === 'completed').map((s) => [s.step_name, s.output]));
+    const now = new Date().toISOString();
 
-      if (output.artifacts) {
-        for (const artifact of output.artifacts) {
-          const artifactId = this.db
-            .prepare(
-              `INSERT INTO workflow_artifacts_v2 (
-              execution_id, step_name, artifact_type, name, content, content_type, size_bytes, metadata
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-            RETURNING id`
-            )
-            .get(
-              execution_id,
-              tokenStepName,
-              artifact.type,
-              artifact.name || artifact.title || 'untitled',
-              artifact.content,
-              artifact.content_type || 'text/plain',
-              Buffer.byteLength(artifact.content, 'utf8'),
-              artifact.metadata ? JSON.stringify(artifact.metadata) : null
-            ) as { id: number };
-
-          this.telemetry.artifactStored(execution_id, tokenStepName, String(artifactId.id));
-        }
-      }
-
-      const currentIndex = phases.findIndex((p) => p.phase === tokenStepName);
-      const nextPhase = currentIndex !== -1 && currentIndex < phases.length - 1 ? phases[currentIndex + 1] : null;
-
-      if (!nextPhase) {
-        this.stateMachine.transitionState(execution_id, 'completed', null);
-        this.telemetry.workflowCompleted(execution_id, this.getStepCount(execution_id));
-        return { success: true, execution_id, workflow_state: 'completed', message: 'Workflow completed successfully' };
+    // Skipping a phase can make the phases after it ready, so repeat until every ready phase runs
+    let ready = getReadyPhases(phases, settled, started);
+    let unmet = ready.filter((p) => !whenHolds(p, outputs));
+    while (unmet.length > 0) {
+      for (const phase of unmet) {
+        this.db
+          .prepare(`INSERT INTO workflow_steps_v2 (execution_id, step_name, agent_name, status, completed_at, iteration) VALUES (?, ?, ?, 'skipped', ?, ?)`)
+          .run(executionId, phase.phase, stepAgentName(phase), now, iterations[phase.phase]?.iteration ?? 1);
+        this.telemetry.stepSkipped(executionId, phase.phase, stepAgentName(phase), phase.when ?? {});
+        settled.add(phase.phase);
+        started.add(phase.phase);
       }
+      ready = getReadyPhases(phases, settled, started);
+      unmet = ready.filter((p) => !whenHolds(p, outputs));
+    }
+
+    const toStart = selectPhasesToStart(ready, inFlight, policy.parallelism.maxConcurrent);
+    return toStart.flatMap((phase) => {
+      const iteration = iterations[phase.phase]?.iteration ?? 1;
+      if (phase.workflow) return this.startSubWorkflow(executionId, phase, iteration, new Date(now));
+      if (phase.approval) return this.requestApproval(executionId, phase, iteration, now);
 
+      const agentName = stepAgentName(phase);
+      const token = this.tokenService.generateToken(executionId, phase.phase);
       this.db
-        .prepare(`INSERT INTO workflow_steps_v2 (execution_id, step_name, agent_name, status, started_at) VALUES (?, ?, ?, ?, ?)`)
-        .run(execution_id, nextPhase.phase, nextPhase.agent, 'running', now);
+        .prepare(`INSERT INTO workflow_steps_v2 (execution_id, step_name, agent_name, status, started_at, token, iteration) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+        .run(executionId, phase.phase, agentName, 'running', now, token, iteration);
 
-      const nextToken = this.tokenService.generateToken(execution_id, nextPhase.phase);
-      this.db.prepare(`UPDATE workflow_steps_v2 SET token = ? WHERE execution_id = ? AND step_name = ?`).run(nextToken, execution_id, nextPhase.phase);
-      this.db.prepare(`UPDATE workflow_executions_v2 SET current_step = ?, updated_at = CURRENT_TIMESTAMP WHERE execution_id = ?`).run(nextPhase.phase, execution_id);
+      this.telemetry.stepStarted(executionId, phase.phase, agentName);
+      this.telemetry.tokenGenerated(executionId, phase.phase);
+      return [{ execution_id: executionId, step_name: phase.phase, agent_name: agentName, iteration, token }];
+    });
+  }
 
-      this.telemetry.stepStarted(execution_id, nextPhase.phase, nextPhase.agent);
-      this.telemetry.tokenGenerated(execution_id, nextPhase.phase);
+  /**
+   * Apply the first onOutcome transition of a completed step that matches its output: the target
+   * phase and every phase downstream of it start a new iteration, and whatever of theirs is still
+   * in flight is cancelled. A target that has run maxIterations times fails the execution instead
+   * A rejected approval phase takes an implicit transition to its onReject phase
+   *
+   * @returns The execution's result after the transition, or null when none matched
+   */
+  private applyOutcome(
+    executionId: string,
+    step: WorkflowStep,
+    output: Record<string, unknown>,
+    phases: WorkflowPhase[],
+    policy: ExecutionPolicy,
+    now: Date
+  ): StepExecutionResult | null {
+    const phase = phases.find((p) => p.phase === step.step_name);
+    const transitions: PhaseTransition[] = [...(phase?.onOutcome ?? []), ...(phase?.approval ? [{ when: REJECTED, goto: phase.approval.onReject }] : [])];
+    const transition = transitions.find((t) => matchesCondition(t.when, output));
+    if (!transition) return null;
 
-      return { success: true, execution_id, step_name: nextPhase.phase, agent_name: nextPhase.agent, workflow_state: 'running', new_token: nextToken };
-    });
+    const iterations = this.stateMachine.getIterations(executionId);
+    const target = transition.goto;
+    const iteration = (iterations[target]?.iteration ?? 1) + 1;
+    const limit = phases.find((p) => p.phase === target)?.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const outcome = readOutputField(output, transition.when.field);
 
-    try {
-      return transaction();
-    } catch (error) {
-      this.telemetry.stepFailed(execution_id, tokenStepName, null, error instanceof Error ? error.message : String(error));
-      return { success: false, execution_id, workflow_state: 'failed', error: error instanceof Error ? error.message : String(error) };
+    if (iteration > limit) {
+      const message = `Phase '${target}' reached maxIterations (${limit}); '${step.step_name}' still reported ${transition.when.field} ${JSON.stringify(outcome ?? null)}`;
+      this.cancelInFlightSteps(executionId, `Cancelled after '${target}' reached maxIterations`, now);
+      this.failExecution(executionId, { code: 'max_iterations', message, step_name: step.step_name, agent_name: step.agent_name });
+      return { success: true, execution_id: executionId, workflow_state: 'failed', error: message };
     }
+
+    const reopened = findDownstreamPhases(phases, target);
+    this.cancelInFlightSteps(executionId, `Superseded: '${step.step_name}' sent the workflow back to '${target}'`, now, reopened);
+
+    // Phases not started in their current iteration stay on it; the rest move to the next
+    const started = new Set(this.getCurrentSteps(executionId).map((s) => s.step_name));
+    for (const phase of reopened) {
+      if (phase !== target && !started.has(phase)) continue;
+      iterations[phase] = {
+        iteration: (iterations[phase]?.iteration ?? 1) + 1,
+        ...(phase === target ? { reopened_by: step.step_name } : {}),
+      };
+    }
+    this.stateMachine.mergeMetadata(executionId, { iterations });
+    this.telemetry.phaseTransition(executionId, step.step_name, target, iteration, outcome);
+
+    return this.advance(executionId, phases, policy, `Step '${step.step_name}' sent the workflow back to '${target}' (iteration ${iteration})`, now);
+  }
+
+  /**
+   * Start an approval phase: its step row runs without a token and the execution waits in
+   * awaiting_approval until decideApproval or applyPendingApproval settles it
+   */
+  private requestApproval(executionId: string, phase: WorkflowPhase, iteration: number, now: string): ScheduledStep[] {
+    const rejectTo = phase.approval?.onReject ?? '';
+    this.db
+      .prepare(`INSERT INTO workflow_steps_v2 (execution_id, step_name, agent_name, status, started_at, iteration) VALUES (?, ?, ?, 'running', ?, ?)`)
+      .run(executionId, phase.phase, stepAgentName(phase), now, iteration);
+    this.stateMachine.transitionState(executionId, 'awaiting_approval', phase.phase, `Phase '${phase.phase}' awaits approval`);
+    this.stateMachine.mergeMetadata(executionId, { approval_requested_at: now });
+
+    this.telemetry.stepStarted(executionId, phase.phase, stepAgentName(phase));
+    this.telemetry.approvalRequested(executionId, phase.phase, iteration, rejectTo);
+    return [];
+  }
+
+  /**
+   * Settle an approval step with the decision as its output (verdict 'approved' or 'rejected',
+   * the comment under data) and carry on from there like any completed step
+   */
+  private applyApproval(
+    executionId: string,
+    step: WorkflowStep,
+    input: ApprovalInput,
+    phases: WorkflowPhase[],
+    policy: ExecutionPolicy,
+    now: Date
+  ): StepExecutionResult {
+    const execution = this.stateMachine.getExecution(executionId);
+    const requestedAt = execution?.metadata?.['approval_requested_at'];
+    const waitedMs = typeof requestedAt === 'string' ? Math.max(0, now.getTime() - new Date(requestedAt).getTime()) : 0;
+    const verb = input.decision === 'approved' ? 'Approved' : 'Rejected';
+    const summary = `${verb}${input.decided_by ? ` by ${input.decided_by}` : ''}${input.comment ? `: ${input.comment}` : ''}`;
+
+    this.stateMachine.transitionState(executionId, 'running', step.step_name, summary);
+    this.stateMachine.mergeMetadata(executionId, {
+      approval_requested_at: null,
+      approval_wait_ms: readNumber(execution?.metadata ?? null, 'approval_wait_ms') + waitedMs,
+    });
+
+    const output = {
+      summary,
+      verdict: input.decision,
+      data: { comment: input.comment, decided_by: input.decided_by, source: input.source },
+    };
+    this.db
+      .prepare(`UPDATE workflow_steps_v2 SET status = 'completed', completed_at = ?, duration_ms = ?, output = ? WHERE id = ?`)
+      .run(now.toISOString(), waitedMs, JSON.stringify(output), step.id);
+    this.telemetry.stepCompleted(executionId, step.step_name, step.agent_name, waitedMs);
+    this.telemetry.approvalDecided(executionId, step.step_name, input.decision, input.decided_by, input.source);
+
+    return (
+      this.applyOutcome(executionId, step, output, phases, policy, now) ??
+      this.advance(executionId, phases, policy, `Phase '${step.step_name}' ${input.decision}`, now)
+    );
+  }
+
+  /**
+   * The running step of an approval phase, if the execution is waiting on one
+   */
+  private getAwaitingApproval(executionId: string, phases: WorkflowPhase[]): WorkflowStep | null {
+    const approvalPhases = new Set(phases.filter((p) => p.approval).map((p) => p.phase));
+    return this.getCurrentSteps(executionId).find((s) => s.status === 'running' && approvalPhases.has(s.step_name)) ?? null;
+  }
+
+  /**
+   * The decision recorded for this iteration of an approval step, applied or not
+   */
+  private getApproval(step: WorkflowStep): (ApprovalInput & { id: number; applied_at: string | null }) | null {
+    const row = this.db
+      .prepare(`SELECT * FROM workflow_approvals WHERE execution_id = ? AND step_name = ? AND iteration = ?`)
+      .get(step.execution_id, step.step_name, step.iteration);
+    const parsed = row ? safeParseRow(WorkflowApprovalRowSchema, row) : null;
+    if (!parsed) return null;
+    return {
+      id: parsed.id,
+      decision: parsed.decision,
+      comment: parsed.comment,
+      decided_by: parsed.decided_by,
+      source: parsed.source,
+      applied_at: parsed.applied_at,
+    };
+  }
+
+  /**
+   * Each phase's row for the iteration it is on; rows of earlier iterations are history
+   */
+  getCurrentSteps(executionId: string): WorkflowStep[] {
+    const iterations = this.stateMachine.getIterations(executionId);
+    return this.getSteps(executionId).filter((s) => s.iteration === (iterations[s.step_name]?.iteration ?? 1));
   }
 
+  /**
+   * The phase's latest iteration
+   */
   private getStep(executionId: string, stepName: string): WorkflowStep | null {
-    const row = this.db.prepare(`SELECT * FROM workflow_steps_v2 WHERE execution_id = ? AND step_name = ?`).get(executionId, stepName);
+    const row = this.db
+      .prepare(`SELECT * FROM workflow_steps_v2 WHERE execution_id = ? AND step_name = ? ORDER BY iteration DESC LIMIT 1`)
+      .get(executionId, stepName);
     if (!row) return null;
 
     const parsed = safeParseRow(WorkflowStepRowSchema, row);
@@ -179,19 +1262,13 @@ export class StepExecutor {
       this.telemetry.error(executionId, 'getStep', `Invalid step row data for ${stepName}`);
       return null;
     }
+    return toWorkflowStep(parsed);
+  }
 
-    return {
-      id: parsed.id,
-      execution_id: parsed.execution_id,
-      step_name: parsed.step_name,
-      agent_name: parsed.agent_name,
-      status: parsed.status,
-      started_at: parsed.started_at,
-      completed_at: parsed.completed_at,
-      duration_ms: parsed.duration_ms,
-      output: safeJsonParse<Record<string, unknown> | null>(parsed.output, null),
-      token: parsed.token,
-    };
+  private getStepById(id: number): WorkflowStep | null {
+    const row = this.db.prepare(`SELECT * FROM workflow_steps_v2 WHERE id = ?`).get(id);
+    const parsed = row ? safeParseRow(WorkflowStepRowSchema, row) : null;
+    return parsed ? toWorkflowStep(parsed) : null;
   }
 
   private getStepCount(executionId: string): number {
@@ -199,25 +1276,57 @@ export class StepExecutor {
     return result?.count ?? 0;
   }
 
+  /**
+   * Every step row of the execution, including earlier iterations of reopened phases
+   */
   getSteps(executionId: string): WorkflowStep[] {
     const rows = this.db.prepare(`SELECT * FROM workflow_steps_v2 WHERE execution_id = ? ORDER BY id ASC`).all(executionId) as unknown[];
     return rows
       .map((row) => {
         const parsed = safeParseRow(WorkflowStepRowSchema, row);
-        if (!parsed) return null;
-        return {
-          id: parsed.id,
-          execution_id: parsed.execution_id,
-          step_name: parsed.step_name,
-          agent_name: parsed.agent_name,
-          status: parsed.status,
-          started_at: parsed.started_at,
-          completed_at: parsed.completed_at,
-          duration_ms: parsed.duration_ms,
-          output: safeJsonParse<Record<string, unknown> | null>(parsed.output, null),
-          token: parsed.token,
-        };
+        return parsed ? toWorkflowStep(parsed) : null;
       })
       .filter((step): step is WorkflowStep => step !== null);
   }
 }
+
+function toWorkflowStep(row: WorkflowStepRow): WorkflowStep {
+  return {
+    id: row.id,
+    execution_id: row.execution_id,
+    step_name: row.step_name,
+    agent_name: row.agent_name,
+    status: row.status,
+    started_at: row.started_at,
+    completed_at: row.completed_at,
+    duration_ms: row.duration_ms,
+    output: safeJsonParse<Record<string, unknown> | null>(row.output, null),
+    token: row.token,
+    attempt: row.attempt,
+    retry_at: row.retry_at,
+    child_execution_id: row.child_execution_id,
+    iteration: row.iteration,
+  };
+}
+
+/**
+ * A phase without a `when` condition always runs; one with a condition reads the output of its
+ * `when.phase` (by default its last dependsOn phase), which is null when that phase was skipped
+ */
+function whenHolds(phase: WorkflowPhase, outputs: Map<string, Record<string, unknown> | null>): boolean {
+  if (!phase.when) return true;
+  const source = phase.when.phase ?? phase.dependsOn?.[phase.dependsOn.length - 1];
+  return matchesCondition(phase.when, source ? (outputs.get(source) ?? null) : null);
+}
+
+/**
+ * Running, paused or waiting on an approval: not yet settled
+ */
+function isActive(state: string): boolean {
+  return state === 'running' || state === 'paused' || state === 'awaiting_approval';
+}
+
+function readNumber(metadata: Record<string, unknown> | null, key: string): number {
+  const value = metadata?.[key];
+  return typeof value === 'number' ? value : 0;
+}
@@ -1,9 +1,43 @@
-import { randomBytes } from 'crypto';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Database } from 'better-sqlite3';
 import type { TokenPayload, TokenValidation } from '../types/index.js';
 import { TokenPayloadSchema } from '../types/index.js';
+import { getTokenSigningKeys, type TokenSigningKey } from '../../shared/config.js';
 
+/**
+ * Keys every process sharing the database signs and verifies with: the configured ones
+ * (mcp.tokens.keys / MIDEX_TOKEN_KEYS), else the one setup stored in token_signing_keys
+ * Throws when there is neither, rather than signing with a key no other process knows
+ */
+export function loadTokenSigningKeys(db: Database): TokenSigningKey[] {
+  const configured = getTokenSigningKeys();
+  if (configured.length > 0) return configured;
+
+  let stored: TokenSigningKey[] = [];
+  try {
+    stored = db.prepare(`SELECT id, secret FROM token_signing_keys ORDER BY created_at DESC, id`).all() as TokenSigningKey[];
+  } catch {
+    // token_signing_keys is missing until the database is migrated
+  }
+  if (stored.length === 0) {
+    throw new Error('No token signing key: run `npm run setup` (or `npm run ensure:db`) to store one, or set mcp.tokens.keys / MIDEX_TOKEN_KEYS');
+  }
+  return stored;
+}
+
+/**
+ * Issues and verifies continuation tokens: `<base64url payload>.<base64url HMAC-SHA256>`
+ * The payload names the key (kid) that signed it, so tokens signed with a rotated-out
+ * key keep verifying for as long as that key stays in the configured list
+ */
 export class TokenService {
   private readonly TOKEN_LIFETIME_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly keys: TokenSigningKey[];
+
+  constructor(keys: TokenSigningKey[]) {
+    if (keys.length === 0) throw new Error('At least one token signing key is required');
+    this.keys = keys;
+  }
 
   generateToken(executionId: string, stepName: string): string {
     if (!executionId || typeof executionId !== 'string' || executionId.trim().length === 0) {
@@ -13,16 +47,17 @@ export class TokenService {
       throw new Error('step_name must be a non-empty string');
     }
 
+    const [signingKey] = this.keys as [TokenSigningKey];
     const payload: TokenPayload = {
       execution_id: executionId,
       step_name: stepName,
       issued_at: new Date().toISOString(),
       nonce: randomBytes(16).toString('hex'),
+      kid: signingKey.id,
     };
 
-    const json = JSON.stringify(payload);
-    const base64 = Buffer.from(json, 'utf-8').toString('base64');
-    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+    const encodedPayload = toBase64Url(Buffer.from(JSON.stringify(payload), 'utf-8'));
+    return `${encodedPayload}.${toBase64Url(sign(signingKey, encodedPayload))}`;
   }
 
   validateToken(token: string): TokenValidation {
@@ -31,16 +66,28 @@ export class TokenService {
     }
 
     try {
-      let base64 = token.replace(/-/g, '+').replace(/_/g, '/');
-      while (base64.length % 4 !== 0) base64 += '=';
-
-      const json = Buffer.from(base64, 'base64').toString('utf-8');
-      const result = TokenPayloadSchema.safeParse(JSON.parse(json));
+      const parts = token.split('.');
+      if (parts.length !== 2 || !parts[0] || !parts[1]) {
+        return { valid: false, error: 'Token is not signed' };
+      }
+      const [encodedPayload, encodedSignature] = parts;
 
+      const result = TokenPayloadSchema.safeParse(JSON.parse(fromBase64Url(encodedPayload).toString('utf-8')));
       if (!result.success) {
         return { valid: false, error: `Invalid token payload: ${result.error.message}` };
       }
 
+      const key = this.keys.find((k) => k.id === result.data.kid);
+      if (!key) {
+        return { valid: false, error: `Token signed with unknown key '${result.data.kid}'` };
+      }
+
+      const expected = sign(key, encodedPayload);
+      const actual = fromBase64Url(encodedSignature);
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return { valid: false, error: 'Token signature is invalid' };
+      }
+
       const issuedAt = new Date(result.data.issued_at);
       const age = Date.now() - issuedAt.getTime();
 
@@ -56,4 +103,33 @@ export class TokenService {
       return { valid: false, error: `Token decode failed: ${error instanceof Error ? error.message : String(error)}` };
     }
   }
+
+  /**
+   * Read the nonce of a token this server issued (e.g. the one stored on a step row)
+   * Does not verify the signature, so never use it on caller-supplied tokens
+   */
+  readNonce(token: string): string | null {
+    try {
+      const [encodedPayload] = token.split('.');
+      if (!encodedPayload) return null;
+      const result = TokenPayloadSchema.safeParse(JSON.parse(fromBase64Url(encodedPayload).toString('utf-8')));
+      return result.success ? result.data.nonce : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function sign(key: TokenSigningKey, encodedPayload: string): Buffer {
+  return createHmac('sha256', key.secret).update(encodedPayload).digest();
+}
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+function fromBase64Url(value: string): Buffer {
+  let base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  while (base64.length % 4 !== 0) base64 += '=';
+  return Buffer.from(base64, 'base64');
 }
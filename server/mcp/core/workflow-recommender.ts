@@ -0,0 +1,132 @@
+import type { Database } from 'better-sqlite3';
+import type { WorkflowRecommendArgs, WorkflowRecommendation } from '../types/index.js';
+import { safeJsonParse } from '../lib/index.js';
+import { STOP_WORDS, searchableWords, toFtsQuery } from './knowledge-search.js';
+
+const KEYWORD_WEIGHT = 4; // Per trigger keyword found in the description
+const TAG_WEIGHT = 1;
+const RELEVANCE_WEIGHT = 3; // Awarded in full to the best FTS match, proportionally to the rest
+// bm25() column weights in FTS column order: name, description, content, tags
+const BM25_WEIGHTS = '5.0, 10.0, 1.0, 2.0';
+
+interface WorkflowCandidate {
+  id: number;
+  name: string;
+  description: string;
+  tags: string | null;
+  triggers: string | null;
+  complexity: string | null;
+}
+
+interface ExecutionHistory {
+  completed: number;
+  finished: number;
+}
+
+/**
+ * Words as matched against keywords and tags: lowercase, without stop words, with a plural 's' dropped
+ */
+function stems(text: string): string[] {
+  return searchableWords(text)
+    .filter((word) => !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Ranks workflows for a free-text task description
+ *
+ * Relevance adds up trigger keywords (from frontmatter and the workflow registry) and tags whose
+ * every word appears in the description, plus BM25 relevance over the workflow's name,
+ * description, content and tags. History then scales it by the smoothed success rate of the
+ * workflow's finished executions, from half for one that never completes to one and a half for
+ * one that always does; a workflow never run keeps its relevance. Workflows with no relevance
+ * are left out whatever their history
+ */
+export class WorkflowRecommender {
+  constructor(private db: Database) {}
+
+  /**
+   * @returns Workflows ranked best first, or an error message when the description has no searchable words
+   */
+  recommend(args: WorkflowRecommendArgs): WorkflowRecommendation[] | string {
+    const text = searchableWords(args.description)
+      .filter((word) => !STOP_WORDS.has(word))
+      .join(' ');
+    const ftsQuery = toFtsQuery(text, 'any');
+    if (!ftsQuery) return `Description '${args.description}' has no searchable words`;
+
+    const words = new Set(stems(args.description));
+    const matches = (phrase: string) => {
+      const phraseWords = stems(phrase);
+      return phraseWords.length > 0 && phraseWords.every((word) => words.has(word));
+    };
+
+    const relevance = this.relevance(ftsQuery);
+    const topRelevance = Math.max(0, ...relevance.values());
+    const history = this.getHistory();
+
+    const candidates = this.db
+      .prepare(`SELECT id, name, description, tags, triggers, complexity FROM workflows ORDER BY name`)
+      .all() as WorkflowCandidate[];
+
+    const ranked: WorkflowRecommendation[] = [];
+    for (const workflow of candidates) {
+      const triggers = safeJsonParse<{ keywords?: string[]; complexity_hint?: string | null }>(workflow.triggers, {});
+      const matchedKeywords = (triggers.keywords ?? []).filter(matches);
+      const matchedTags = safeJsonParse<string[]>(workflow.tags, []).filter(matches);
+      const match = relevance.get(workflow.id);
+      const textRelevance = match !== undefined && topRelevance > 0 ? match / topRelevance : 0;
+
+      const score = KEYWORD_WEIGHT * matchedKeywords.length + TAG_WEIGHT * matchedTags.length + RELEVANCE_WEIGHT * textRelevance;
+      if (score === 0) continue;
+
+      const { completed, finished } = history.get(workflow.name) ?? { completed: 0, finished: 0 };
+      const smoothedRate = (completed + 1) / (finished + 2);
+      ranked.push({
+        name: workflow.name,
+        description: workflow.description,
+        score: Math.round(score * (0.5 + smoothedRate) * 100) / 100,
+        matched_keywords: matchedKeywords,
+        matched_tags: matchedTags,
+        relevance: Math.round(textRelevance * 100) / 100,
+        success_rate: finished > 0 ? Math.round((completed / finished) * 100) / 100 : null,
+        finished_executions: finished,
+        complexity: workflow.complexity,
+        complexity_hint: triggers.complexity_hint ?? null,
+      });
+    }
+
+    // Stable sort keeps name order among equal scores
+    return ranked.sort((a, b) => b.score - a.score).slice(0, args.limit);
+  }
+
+  /**
+   * BM25 relevance of every workflow matching any word of the query
+   * @returns Workflow id to score (larger is more relevant)
+   */
+  private relevance(ftsQuery: string): Map<number, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT rowid AS id, bm25(workflows_fts, ${BM25_WEIGHTS}) AS rank
+         FROM workflows_fts WHERE workflows_fts MATCH ? ORDER BY rank ASC`
+      )
+      .all(ftsQuery) as Array<{ id: number; rank: number }>;
+    return new Map(rows.map((row) => [row.id, -row.rank]));
+  }
+
+  /**
+   * Completed and finished (completed, failed or abandoned) executions per workflow
+   */
+  private getHistory(): Map<string, ExecutionHistory> {
+    const rows = this.db
+      .prepare(
+        `SELECT workflow_name,
+           SUM(CASE WHEN state = 'completed' THEN 1 ELSE 0 END) AS completed,
+           SUM(CASE WHEN state IN ('completed', 'failed', 'abandoned') THEN 1 ELSE 0 END) AS finished
+         FROM workflow_executions_v2
+         GROUP BY workflow_name`
+      )
+      .all() as Array<{ workflow_name: string } & ExecutionHistory>;
+    return new Map(rows.map((row) => [row.workflow_name, { completed: row.completed, finished: row.finished }]));
+  }
+}
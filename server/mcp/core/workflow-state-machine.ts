@@ -1,7 +1,19 @@
 import type { Database } from 'better-sqlite3';
-import type { WorkflowState, WorkflowExecution } from '../types/index.js';
+import type { PhaseIteration, WorkflowState, WorkflowExecution } from '../types/index.js';
+import { PhaseIterationSchema } from '../types/index.js';
 import { TelemetryService, safeJsonParse, WorkflowExecutionRowSchema, safeParseRow } from '../lib/index.js';
 
+/**
+ * What an execution is started with: the project it targets, its validated WorkflowInput, the
+ * workflow version it is pinned to and, for a sub-workflow, the execution that started it
+ */
+export interface ExecutionBinding {
+  projectId?: number | null;
+  input?: Record<string, unknown>;
+  workflowVersionId?: number | null;
+  parentExecutionId?: string | null;
+}
+
 export class WorkflowStateMachine {
   private telemetry: TelemetryService;
 
@@ -9,15 +21,27 @@ export class WorkflowStateMachine {
     this.telemetry = new TelemetryService(db);
   }
 
-  createExecution(workflowName: string, executionId: string): WorkflowExecution {
+  createExecution(workflowName: string, executionId: string, binding: ExecutionBinding = {}): WorkflowExecution {
     const now = new Date().toISOString();
+    const metadata = binding.input ? JSON.stringify({ input: binding.input }) : null;
 
     const result = this.db
       .prepare(
-        `INSERT INTO workflow_executions_v2 (execution_id, workflow_name, state, current_step, started_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?)`
+        `INSERT INTO workflow_executions_v2 (execution_id, workflow_name, state, current_step, started_at, updated_at, metadata, project_id, workflow_version_id, parent_execution_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
-      .run(executionId, workflowName, 'idle', null, now, now);
+      .run(
+        executionId,
+        workflowName,
+        'idle',
+        null,
+        now,
+        now,
+        metadata,
+        binding.projectId ?? null,
+        binding.workflowVersionId ?? null,
+        binding.parentExecutionId ?? null
+      );
 
     if (result.changes === 0) {
       throw new Error(`Failed to create execution: ${executionId}`);
@@ -55,17 +79,21 @@ export class WorkflowStateMachine {
       completed_at: parsed.completed_at,
       duration_ms: parsed.duration_ms,
       metadata: safeJsonParse<Record<string, unknown> | null>(parsed.metadata, null),
+      project_id: parsed.project_id,
+      workflow_version_id: parsed.workflow_version_id,
+      parent_execution_id: parsed.parent_execution_id,
     };
   }
 
-  transitionState(executionId: string, newState: WorkflowState, currentStep?: string | null): void {
+  transitionState(executionId: string, newState: WorkflowState, currentStep?: string | null, reason?: string): void {
     const execution = this.getExecution(executionId);
     if (!execution) throw new Error(`Execution ${executionId} not found`);
 
     const validTransitions: Record<WorkflowState, WorkflowState[]> = {
       idle: ['running'],
-      running: ['completed', 'failed', 'paused', 'abandoned', 'diverged'],
+      running: ['completed', 'failed', 'paused', 'awaiting_approval', 'abandoned', 'diverged'],
       paused: ['running', 'abandoned'],
+      awaiting_approval: ['running', 'abandoned'],
       completed: [],
       failed: [],
       abandoned: [],
@@ -94,9 +122,51 @@ export class WorkflowStateMachine {
     this.telemetry.record('workflow_state_transition', executionId, currentStep ?? null, null, {
       old_state: execution.state,
       new_state: newState,
+      ...(reason ? { reason } : {}),
     });
   }
 
+  /**
+   * Shallow-merge keys into the execution's metadata JSON
+   */
+  mergeMetadata(executionId: string, patch: Record<string, unknown>): void {
+    const execution = this.getExecution(executionId);
+    if (!execution) throw new Error(`Execution ${executionId} not found`);
+
+    this.db
+      .prepare(`UPDATE workflow_executions_v2 SET metadata = ?, updated_at = ? WHERE execution_id = ?`)
+      .run(JSON.stringify({ ...(execution.metadata ?? {}), ...patch }), new Date().toISOString(), executionId);
+  }
+
+  /**
+   * The iteration each phase reopened by an onOutcome transition is on; phases missing here are
+   * on their first
+   */
+  getIterations(executionId: string): Record<string, PhaseIteration> {
+    const stored = this.getExecution(executionId)?.metadata?.['iterations'];
+    if (!stored || typeof stored !== 'object') return {};
+
+    const iterations: Record<string, PhaseIteration> = {};
+    for (const [phase, value] of Object.entries(stored)) {
+      const parsed = PhaseIterationSchema.safeParse(value);
+      if (parsed.success) iterations[phase] = parsed.data;
+    }
+    return iterations;
+  }
+
+  /**
+   * The execution followed by the sub-workflow parents above it, ending with the top-level execution
+   */
+  getLineage(executionId: string): WorkflowExecution[] {
+    const lineage: WorkflowExecution[] = [];
+    let execution = this.getExecution(executionId);
+    while (execution) {
+      lineage.push(execution);
+      execution = execution.parent_execution_id ? this.getExecution(execution.parent_execution_id) : null;
+    }
+    return lineage;
+  }
+
   getExecutionsByWorkflow(workflowName: string): WorkflowExecution[] {
     const rows = this.db
       .prepare(`SELECT * FROM workflow_executions_v2 WHERE workflow_name = ? ORDER BY started_at DESC`)
@@ -116,6 +186,9 @@ export class WorkflowStateMachine {
           completed_at: parsed.completed_at,
           duration_ms: parsed.duration_ms,
           metadata: safeJsonParse<Record<string, unknown> | null>(parsed.metadata, null),
+          project_id: parsed.project_id,
+          workflow_version_id: parsed.workflow_version_id,
+          parent_execution_id: parsed.parent_execution_id,
         };
       })
       .filter((e): e is WorkflowExecution => e !== null);
@@ -140,6 +213,9 @@ export class WorkflowStateMachine {
           completed_at: parsed.completed_at,
           duration_ms: parsed.duration_ms,
           metadata: safeJsonParse<Record<string, unknown> | null>(parsed.metadata, null),
+          project_id: parsed.project_id,
+          workflow_version_id: parsed.workflow_version_id,
+          parent_execution_id: parsed.parent_execution_id,
         };
       })
       .filter((e): e is WorkflowExecution => e !== null);
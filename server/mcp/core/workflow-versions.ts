@@ -0,0 +1,164 @@
+import type { Database } from 'better-sqlite3';
+import type { WorkflowFieldChange, WorkflowPhase, WorkflowVersion, WorkflowVersionDiff } from '../types/index.js';
+import { safeJsonParse, safeParseRow, WorkflowVersionRowSchema } from '../lib/index.js';
+import { hashWorkflowDefinition, readWorkflowDefinition, recordWorkflowVersion } from '../../src/lib/workflow-versions.js';
+
+export type WorkflowVersionSummary = Pick<WorkflowVersion, 'version' | 'content_hash' | 'created_at'>;
+
+/**
+ * Immutable, numbered definitions of each workflow, and the version each execution is pinned to
+ *
+ * record snapshots the workflow's current row; a definition already stored (same content hash)
+ * returns its existing version, so re-syncing an unchanged file never adds one
+ */
+export class WorkflowVersions {
+  constructor(private db: Database) {}
+
+  record(workflowName: string): WorkflowVersion | null {
+    return this.db.transaction(() => {
+      const hash = recordWorkflowVersion(this.db, workflowName);
+      return hash ? this.fetch(`workflow_name = ? AND content_hash = ?`, workflowName, hash) : null;
+    })();
+  }
+
+  /**
+   * Version matching the workflow's current definition, or null when it has not been recorded
+   */
+  current(workflowName: string): WorkflowVersion | null {
+    const row = readWorkflowDefinition(this.db, workflowName);
+    return row ? this.fetch(`workflow_name = ? AND content_hash = ?`, workflowName, hashWorkflowDefinition(row)) : null;
+  }
+
+  get(workflowName: string, version: number): WorkflowVersion | null {
+    return this.fetch(`workflow_name = ? AND version = ?`, workflowName, version);
+  }
+
+  getById(id: number): WorkflowVersion | null {
+    return this.fetch(`id = ?`, id);
+  }
+
+  list(workflowName: string): WorkflowVersionSummary[] {
+    return this.db
+      .prepare(`SELECT version, content_hash, created_at FROM workflow_versions WHERE workflow_name = ? ORDER BY version ASC`)
+      .all(workflowName) as WorkflowVersionSummary[];
+  }
+
+  /**
+   * The version an execution runs. Executions started before versions existed are pinned to
+   * their workflow's current definition here, the first time they are loaded
+   */
+  forExecution(executionId: string): WorkflowVersion | null {
+    const execution = this.db
+      .prepare(`SELECT workflow_name, workflow_version_id FROM workflow_executions_v2 WHERE execution_id = ?`)
+      .get(executionId) as { workflow_name: string; workflow_version_id: number | null } | undefined;
+    if (!execution) return null;
+    if (execution.workflow_version_id !== null) return this.getById(execution.workflow_version_id);
+
+    const version = this.record(execution.workflow_name);
+    if (version) {
+      this.db
+        .prepare(`UPDATE workflow_executions_v2 SET workflow_version_id = ? WHERE execution_id = ? AND workflow_version_id IS NULL`)
+        .run(version.id, executionId);
+    }
+    return version;
+  }
+
+  /**
+   * What changed from one version to another: top-level fields, phases (matched by name) and
+   * a line diff of the markdown body
+   */
+  diff(workflowName: string, from: number, to: number): WorkflowVersionDiff | string {
+    const before = this.get(workflowName, from);
+    if (!before) return `Version ${from} of workflow '${workflowName}' not found`;
+    const after = this.get(workflowName, to);
+    if (!after) return `Version ${to} of workflow '${workflowName}' not found`;
+
+    const fields = (['description', 'complexity', 'tags'] as const)
+      .filter((field) => !sameValue(before[field], after[field]))
+      .map((field): WorkflowFieldChange => ({ field, from: before[field], to: after[field] }));
+
+    const beforePhases = new Map(before.phases.map((phase) => [phase.phase, phase]));
+    const afterPhases = new Map(after.phases.map((phase) => [phase.phase, phase]));
+    const changed = after.phases.flatMap((phase) => {
+      const previous = beforePhases.get(phase.phase);
+      const changes = previous ? diffPhase(previous, phase) : [];
+      return changes.length > 0 ? [{ phase: phase.phase, changes }] : [];
+    });
+    const kept = (phases: WorkflowPhase[], other: Map<string, WorkflowPhase>) =>
+      phases.filter((phase) => other.has(phase.phase)).map((phase) => phase.phase);
+
+    return {
+      workflow_name: workflowName,
+      from,
+      to,
+      fields,
+      phases: {
+        added: after.phases.filter((phase) => !beforePhases.has(phase.phase)).map((phase) => phase.phase),
+        removed: before.phases.filter((phase) => !afterPhases.has(phase.phase)).map((phase) => phase.phase),
+        changed,
+        reordered: !sameValue(kept(before.phases, afterPhases), kept(after.phases, beforePhases)),
+      },
+      content: diffLines(before.content, after.content),
+    };
+  }
+
+  private fetch(where: string, ...params: unknown[]): WorkflowVersion | null {
+    const row = this.db.prepare(`SELECT * FROM workflow_versions WHERE ${where}`).get(...params);
+    const parsed = row ? safeParseRow(WorkflowVersionRowSchema, row) : null;
+    if (!parsed) return null;
+
+    return {
+      ...parsed,
+      tags: safeJsonParse<string[]>(parsed.tags, []),
+      phases: safeJsonParse<WorkflowPhase[]>(parsed.phases, []),
+    };
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffPhase(before: WorkflowPhase, after: WorkflowPhase): WorkflowFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.delete('phase');
+  const value = (phase: WorkflowPhase, field: string) => (phase as Record<string, unknown>)[field] ?? null;
+
+  return [...fields]
+    .filter((field) => !sameValue(value(before, field), value(after, field)))
+    .map((field) => ({ field, from: value(before, field), to: value(after, field) }));
+}
+
+/**
+ * Removed ('- ') and added ('+ ') lines along the longest common subsequence of the two texts
+ */
+function diffLines(before: string, after: string): string[] {
+  if (before === after) return [];
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`- ${a[i++]}`);
+  while (j < b.length) lines.push(`+ ${b[j++]}`);
+  return lines;
+}
@@ -0,0 +1,173 @@
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getHttpTransportUrl, type HttpTransportSettings } from '../shared/config.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SESSION_HEADER = 'mcp-session-id';
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+/**
+ * A request refused before it reaches a session, answered as a JSON-RPC error with this status
+ */
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Streamable HTTP transport (POST for requests, GET for the server's SSE stream, DELETE to end a
+ * session) on one path, behind a bearer token
+ *
+ * Every client session gets its own MCP server instance from createSession, keyed by the
+ * Mcp-Session-Id the transport hands out on initialize. close() refuses new requests, ends every
+ * session and waits for the listener to stop
+ */
+export class McpHttpServer {
+  private sessions = new Map<string, HttpSession>();
+  private httpServer: HttpServer;
+  private tokenDigest: Buffer;
+  private closing = false;
+
+  constructor(
+    private settings: HttpTransportSettings & { token: string },
+    private createSession: () => Server
+  ) {
+    this.tokenDigest = digest(settings.token);
+    this.httpServer = createServer((req, res) => void this.handle(req, res));
+  }
+
+  /**
+   * Endpoint URL, with the port actually bound once listening (port 0 picks a free one)
+   */
+  get url(): string {
+    const address = this.httpServer.address();
+    return getHttpTransportUrl({ ...this.settings, port: address && typeof address === 'object' ? address.port : this.settings.port });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.settings.port, this.settings.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    const stopped = new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+    await Promise.all([...this.sessions.values()].map(({ server }) => server.close().catch(() => undefined)));
+    this.sessions.clear();
+    this.httpServer.closeAllConnections();
+    await stopped;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      if (pathname !== this.settings.path) throw new RequestError(404, `Not found; the MCP endpoint is ${this.settings.path}`);
+      if (!this.isAuthorized(req.headers.authorization)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        throw new RequestError(401, 'Missing or invalid bearer token');
+      }
+      if (this.closing) throw new RequestError(503, 'Server is shutting down');
+
+      const body = req.method === 'POST' ? await readJson(req) : undefined;
+      const sessionId = req.headers[SESSION_HEADER];
+      if (typeof sessionId === 'string') {
+        const session = this.sessions.get(sessionId);
+        if (!session) throw new RequestError(404, 'Session not found; start a new one with initialize');
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        throw new RequestError(400, 'No Mcp-Session-Id header; start a session with an initialize request');
+      }
+      const session = await this.startSession();
+      await session.transport.handleRequest(req, res, body);
+    } catch (error) {
+      const status = error instanceof RequestError ? error.status : 500;
+      if (status === 500) console.error('MCP HTTP request failed:', error);
+      if (!res.headersSent) {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code: status === 400 ? -32600 : -32000, message: error instanceof Error ? error.message : String(error) },
+            id: null,
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * A server and transport for a client's initialize request; the session is kept from the moment
+   * the transport assigns its ID until the client or close() ends it. A server that fails to
+   * connect is closed and the request answered with a 500
+   */
+  private async startSession(): Promise<HttpSession> {
+    const server = this.createSession();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, session);
+      },
+    });
+    const session: HttpSession = { server, transport };
+    transport.onclose = () => {
+      if (transport.sessionId) this.sessions.delete(transport.sessionId);
+    };
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      await server.close().catch(() => undefined);
+      throw error;
+    }
+    return session;
+  }
+
+  /**
+   * Compares digests so the check takes the same time whatever the token's length
+   */
+  private isAuthorized(header: string | undefined): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+    return match !== null && timingSafeEqual(digest(match[1]!.trim()), this.tokenDigest);
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new RequestError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new RequestError(400, 'Request body is not valid JSON');
+  }
+}
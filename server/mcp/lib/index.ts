@@ -1,6 +1,5 @@
 export {
   safeJsonParse,
-  decodeTokenPayload,
   extractErrorMessage,
   TelemetryService,
   buildToolError,
@@ -13,8 +12,10 @@ export {
   WorkflowExecutionRowSchema,
   WorkflowStepRowSchema,
   WorkflowArtifactRowSchema,
+  WorkflowApprovalRowSchema,
   TelemetryEventRowSchema,
   WorkflowDefinitionRowSchema,
+  WorkflowVersionRowSchema,
   AgentRowSchema,
   KnowledgeFindingRowSchema,
   StartWorkflowArgsSchema,
@@ -29,8 +30,10 @@ export {
   type WorkflowExecutionRow,
   type WorkflowStepRow,
   type WorkflowArtifactRow,
+  type WorkflowApprovalRow,
   type TelemetryEventRow,
   type WorkflowDefinitionRow,
+  type WorkflowVersionRow,
   type AgentRow,
   type KnowledgeFindingRow,
   type StartWorkflowArgs,
@@ -13,13 +13,16 @@ import { safeJsonParse } from './utils.js';
 export const WorkflowExecutionRowSchema = z.object({
   execution_id: z.string(),
   workflow_name: z.string(),
-  state: z.enum(['idle', 'running', 'paused', 'completed', 'failed', 'abandoned', 'diverged']),
+  state: z.enum(['idle', 'running', 'paused', 'awaiting_approval', 'completed', 'failed', 'abandoned', 'diverged']),
   current_step: z.string().nullable(),
   started_at: z.string(),
   updated_at: z.string(),
   completed_at: z.string().nullable(),
   duration_ms: z.number().int().nullable(),
   metadata: z.string().nullable(),
+  project_id: z.number().int().nullable(),
+  workflow_version_id: z.number().int().nullable(),
+  parent_execution_id: z.string().nullable(),
 });
 export type WorkflowExecutionRow = z.infer<typeof WorkflowExecutionRowSchema>;
 
@@ -28,12 +31,16 @@ export const WorkflowStepRowSchema = z.object({
   execution_id: z.string(),
   step_name: z.string(),
   agent_name: z.string(),
-  status: z.enum(['pending', 'running', 'completed', 'failed']),
+  status: z.enum(['pending', 'running', 'completed', 'failed', 'skipped']),
   started_at: z.string().nullable(),
   completed_at: z.string().nullable(),
   duration_ms: z.number().int().nullable(),
   output: z.string().nullable(),
   token: z.string().nullable(),
+  attempt: z.number().int(),
+  retry_at: z.string().nullable(),
+  child_execution_id: z.string().nullable(),
+  iteration: z.number().int(),
 });
 export type WorkflowStepRow = z.infer<typeof WorkflowStepRowSchema>;
 
@@ -51,6 +58,20 @@ export const WorkflowArtifactRowSchema = z.object({
 });
 export type WorkflowArtifactRow = z.infer<typeof WorkflowArtifactRowSchema>;
 
+export const WorkflowApprovalRowSchema = z.object({
+  id: z.number().int(),
+  execution_id: z.string(),
+  step_name: z.string(),
+  iteration: z.number().int(),
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().nullable(),
+  decided_by: z.string().nullable(),
+  source: z.enum(['mcp', 'cli', 'client']),
+  created_at: z.string(),
+  applied_at: z.string().nullable(),
+});
+export type WorkflowApprovalRow = z.infer<typeof WorkflowApprovalRowSchema>;
+
 export const TelemetryEventRowSchema = z.object({
   id: z.number().int(),
   event_type: z.string(),
@@ -72,6 +93,20 @@ export const WorkflowDefinitionRowSchema = z.object({
 });
 export type WorkflowDefinitionRow = z.infer<typeof WorkflowDefinitionRowSchema>;
 
+export const WorkflowVersionRowSchema = z.object({
+  id: z.number().int(),
+  workflow_name: z.string(),
+  version: z.number().int(),
+  content_hash: z.string(),
+  description: z.string(),
+  content: z.string(),
+  tags: z.string().nullable(),
+  complexity: z.string().nullable(),
+  phases: z.string().nullable(),
+  created_at: z.string(),
+});
+export type WorkflowVersionRow = z.infer<typeof WorkflowVersionRowSchema>;
+
 export const AgentRowSchema = z.object({
   name: z.string(),
   description: z.string().nullable(),
@@ -81,6 +116,7 @@ export type AgentRow = z.infer<typeof AgentRowSchema>;
 
 export const KnowledgeFindingRowSchema = z.object({
   id: z.number().int(),
+  uid: z.string(),
   scope: KnowledgeScopeSchema,
   project_id: z.number().int().nullable(),
   category: KnowledgeCategorySchema,
@@ -91,6 +127,11 @@ export const KnowledgeFindingRowSchema = z.object({
   tags: z.string().nullable(),
   source_execution_id: z.string().nullable(),
   source_agent: z.string().nullable(),
+  review_note: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  superseded_by: z.number().int().nullable(),
+  expires_at: z.string().nullable(),
+  review_by: z.string().nullable(),
   created_at: z.string(),
   updated_at: z.string(),
 });
@@ -98,10 +139,18 @@ export type KnowledgeFindingRow = z.infer<typeof KnowledgeFindingRowSchema>;
 
 // Tool Input Schemas
 
-export const StartWorkflowArgsSchema = z.object({
-  workflow_name: z.string().min(1, 'Workflow name is required'),
-  execution_id: z.string().min(1).optional(),
-});
+export const StartWorkflowArgsSchema = z
+  .object({
+    workflow_name: z.string().min(1, 'Workflow name is required'),
+    execution_id: z.string().min(1).optional(),
+    input: z.record(z.string(), z.unknown()).optional(),
+    project_path: z.string().min(1).optional(),
+    project_id: z.number().int().positive().optional(),
+  })
+  .refine((data) => !(data.project_path && data.project_id), {
+    message: 'Provide project_path or project_id, not both',
+    path: ['project_id'],
+  });
 export type StartWorkflowArgs = z.infer<typeof StartWorkflowArgsSchema>;
 
 // Row Transformers
@@ -140,7 +189,7 @@ export function transformWorkflowRow(row: unknown): {
   content?: string;
   tags: string[];
   complexity: string | null;
-  phases: Array<{ phase: string; agent: string; description: string; dependsOn?: string[] }>;
+  phases: Array<{ phase: string; agent: string; description: string; dependsOn?: string[]; allowParallel?: boolean }>;
 } {
   const parsed = WorkflowDefinitionRowSchema.parse(row);
   return {
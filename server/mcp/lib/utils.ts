@@ -1,6 +1,7 @@
 import type { Database } from 'better-sqlite3';
-import type { TelemetryEventType, TokenPayload } from '../types/index.js';
-import { TokenPayloadSchema } from '../types/index.js';
+import type { TelemetryEventType } from '../types/index.js';
+import type { ContractViolation } from '../../utils/json-contracts.js';
+import type { SyncResult } from '../../src/types.js';
 
 export function safeJsonParse<T>(json: string | null | undefined, fallback: T): T {
   if (!json) return fallback;
@@ -11,18 +12,6 @@ export function safeJsonParse<T>(json: string | null | undefined, fallback: T):
   }
 }
 
-export function decodeTokenPayload(token: string): TokenPayload | null {
-  try {
-    let base64 = token.replace(/-/g, '+').replace(/_/g, '/');
-    while (base64.length % 4 !== 0) base64 += '=';
-    const json = Buffer.from(base64, 'base64').toString('utf-8');
-    const result = TokenPayloadSchema.safeParse(JSON.parse(json));
-    return result.success ? result.data : null;
-  } catch {
-    return null;
-  }
-}
-
 export function extractErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
@@ -65,6 +54,10 @@ export class TelemetryService {
     this.record('workflow_failed', executionId, null, null, { error });
   }
 
+  workflowTimedOut(executionId: string, limitMs: number): void {
+    this.record('workflow_timed_out', executionId, null, null, { limit_ms: limitMs });
+  }
+
   stepStarted(executionId: string, stepName: string, agentName: string): void {
     this.record('step_started', executionId, stepName, agentName, null);
   }
@@ -77,6 +70,46 @@ export class TelemetryService {
     this.record('step_failed', executionId, stepName, agentName, { error });
   }
 
+  stepOutputRejected(executionId: string, stepName: string, agentName: string, contract: string, errors: ContractViolation[]): void {
+    this.record('step_output_rejected', executionId, stepName, agentName, { contract, errors });
+  }
+
+  stepTimedOut(executionId: string, stepName: string, agentName: string, limitMs: number): void {
+    this.record('step_timed_out', executionId, stepName, agentName, { limit_ms: limitMs });
+  }
+
+  stepRetryScheduled(executionId: string, stepName: string, agentName: string, attempt: number, retryAt: string): void {
+    this.record('step_retry_scheduled', executionId, stepName, agentName, { attempt, retry_at: retryAt });
+  }
+
+  stepEscalated(executionId: string, stepName: string, agentName: string, reason: string): void {
+    this.record('step_escalated', executionId, stepName, agentName, { reason });
+  }
+
+  stepSkipped(executionId: string, stepName: string, agentName: string, condition: Record<string, unknown>): void {
+    this.record('step_skipped', executionId, stepName, agentName, { condition });
+  }
+
+  phaseTransition(executionId: string, stepName: string, gotoPhase: string, iteration: number, verdict: unknown): void {
+    this.record('phase_transition', executionId, stepName, null, { goto: gotoPhase, iteration, verdict: verdict ?? null });
+  }
+
+  subworkflowStarted(executionId: string, stepName: string, workflowName: string, childExecutionId: string): void {
+    this.record('subworkflow_started', executionId, stepName, null, { workflow_name: workflowName, child_execution_id: childExecutionId });
+  }
+
+  subworkflowFinished(executionId: string, stepName: string, childExecutionId: string, state: string): void {
+    this.record('subworkflow_finished', executionId, stepName, null, { child_execution_id: childExecutionId, state });
+  }
+
+  approvalRequested(executionId: string, stepName: string, iteration: number, rejectTo: string): void {
+    this.record('approval_requested', executionId, stepName, null, { iteration, reject_to: rejectTo });
+  }
+
+  approvalDecided(executionId: string, stepName: string, decision: string, decidedBy: string | null, source: string): void {
+    this.record('approval_decided', executionId, stepName, null, { decision, decided_by: decidedBy, source });
+  }
+
   tokenGenerated(executionId: string, stepName: string): void {
     this.record('token_generated', executionId, stepName, null, { step_name: stepName });
   }
@@ -89,6 +122,10 @@ export class TelemetryService {
     this.record('token_expired', null, null, null, { error });
   }
 
+  tokenRevoked(executionId: string, stepName: string, reason: 'used' | 'superseded'): void {
+    this.record('token_revoked', executionId, stepName, null, { step_name: stepName, reason });
+  }
+
   tokenMismatch(executionId: string, tokenStep: string, currentStep: string): void {
     this.record('error', executionId, null, null, {
       type: 'token_step_mismatch',
@@ -101,17 +138,54 @@ export class TelemetryService {
     this.record('artifact_stored', executionId, stepName, null, { artifact_id: artifactId });
   }
 
+  findingProposed(executionId: string, stepName: string, agentName: string, findingId: number, title: string): void {
+    this.record('finding_proposed', executionId, stepName, agentName, { finding_id: findingId, title });
+  }
+
+  findingReviewed(executionId: string | null, findingId: number, decision: 'approved' | 'rejected', note: string | null): void {
+    this.record('finding_reviewed', executionId, null, null, { finding_id: findingId, decision, note });
+  }
+
+  findingInjected(executionId: string, stepName: string, agentName: string, findingId: number, rank: number, score: number, reasons: string[]): void {
+    this.record('finding_injected', executionId, stepName, agentName, { finding_id: findingId, rank, score, reasons });
+  }
+
+  findingDuplicate(executionId: string, stepName: string, agentName: string, duplicateOf: number, title: string, similarity: number): void {
+    this.record('finding_duplicate', executionId, stepName, agentName, { duplicate_of: duplicateOf, title, similarity });
+  }
+
+  findingMerged(targetId: number, sourceIds: number[]): void {
+    this.record('finding_merged', null, null, null, { finding_id: targetId, merged_ids: sourceIds });
+  }
+
+  findingExpired(findingId: number, expiresAt: string): void {
+    this.record('finding_expired', null, null, null, { finding_id: findingId, expires_at: expiresAt });
+  }
+
+  resourceSynced(plugin: string, paths: string[], result: SyncResult, durationMs: number): void {
+    this.record('resource_synced', null, null, null, {
+      plugin,
+      paths,
+      added: result.added,
+      updated: result.updated,
+      deleted: result.deleted,
+      conflicts: result.conflicts,
+      errors: result.errors,
+      duration_ms: durationMs,
+    });
+  }
+
   error(executionId: string | null, context: string, error: string): void {
     this.record('error', executionId, null, null, { context, error });
   }
 }
 
-export function buildToolError(error: string): {
+export function buildToolError(error: string, details?: Record<string, unknown>): {
   content: Array<{ type: 'text'; text: string }>;
   isError: true;
 } {
   return {
-    content: [{ type: 'text', text: JSON.stringify({ success: false, error }) }],
+    content: [{ type: 'text', text: JSON.stringify({ success: false, error, ...details }) }],
     isError: true,
   };
 }
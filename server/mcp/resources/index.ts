@@ -8,17 +8,40 @@ import {
   WorkflowArtifactRowSchema,
   TelemetryEventRowSchema,
   WorkflowDefinitionRowSchema,
-  AgentRowSchema,
   safeParseRow,
 } from '../lib/index.js';
 import { KnowledgeResourceHandlers } from './knowledge.js';
+import { ExecutionWatchdog } from '../core/execution-watchdog.js';
+import { StepContextBuilder } from '../core/step-context.js';
+import { PromptComposer } from '../core/prompt-composer.js';
+import { KnowledgeInjector } from '../core/knowledge-injector.js';
+import { WorkflowVersions } from '../core/workflow-versions.js';
 import type { ResourceContent } from './types.js';
+import { WorkflowDetailsQuerySchema } from '../types/index.js';
+
+interface ChildExecution {
+  execution_id: string;
+  workflow_name: string;
+  state: string;
+  step_name: string | null;
+  children: ChildExecution[];
+}
 
 export class ResourceHandlers {
   private knowledge: KnowledgeResourceHandlers;
+  private watchdog: ExecutionWatchdog;
+  private contextBuilder: StepContextBuilder;
+  private promptComposer: PromptComposer;
+  private knowledgeInjector: KnowledgeInjector;
+  private versions: WorkflowVersions;
 
   constructor(private db: Database) {
     this.knowledge = new KnowledgeResourceHandlers(db);
+    this.watchdog = new ExecutionWatchdog(db);
+    this.contextBuilder = new StepContextBuilder(db);
+    this.promptComposer = new PromptComposer(db);
+    this.knowledgeInjector = new KnowledgeInjector(db);
+    this.versions = new WorkflowVersions(db);
   }
 
   async getAvailableWorkflows(): Promise<ResourceContent> {
@@ -33,8 +56,27 @@ export class ResourceHandlers {
     return buildResourceSuccess('midex://workflow/available_workflows', workflows);
   }
 
-  async getWorkflowDetails(workflowName: string): Promise<ResourceContent> {
-    const uri = `midex://workflow/workflow_details/${workflowName}`;
+  /**
+   * The workflow's current definition with its version history; params select a stored
+   * version (?version=N) or a diff between two (?from=A&to=B) instead
+   */
+  async getWorkflowDetails(workflowName: string, params: URLSearchParams): Promise<ResourceContent> {
+    const search = params.toString();
+    const uri = `midex://workflow/workflow_details/${workflowName}${search ? `?${search}` : ''}`;
+    const numeric = (name: string) => (params.has(name) ? Number(params.get(name)) : undefined);
+    const query = WorkflowDetailsQuerySchema.safeParse({ version: numeric('version'), from: numeric('from'), to: numeric('to') });
+    if (!query.success) return buildResourceError(uri, `Invalid parameters: ${query.error.message}`);
+
+    const { version, from, to } = query.data;
+    if (from !== undefined && to !== undefined) {
+      const diff = this.versions.diff(workflowName, from, to);
+      return typeof diff === 'string' ? buildResourceError(uri, diff) : buildResourceSuccess(uri, diff);
+    }
+    if (version !== undefined) {
+      const stored = this.versions.get(workflowName, version);
+      return stored ? buildResourceSuccess(uri, stored) : buildResourceError(uri, `Version ${version} of workflow '${workflowName}' not found`);
+    }
+
     const row = this.db.prepare(`SELECT name, description, content, tags, complexity, phases FROM workflows WHERE name = ?`).get(workflowName);
     if (!row) return buildResourceError(uri, 'Workflow not found');
 
@@ -48,53 +90,151 @@ export class ResourceHandlers {
       tags: safeJsonParse(parsed.tags, []),
       complexity: parsed.complexity,
       phases: safeJsonParse(parsed.phases, []),
+      version: this.versions.current(workflowName)?.version ?? null,
+      versions: this.versions.list(workflowName),
     });
   }
 
   async getCurrentStep(executionId: string): Promise<ResourceContent> {
     const uri = `midex://workflow/current_step/${executionId}`;
+    this.watchdog.checkExecution(executionId);
     const executionRow = this.db.prepare(`SELECT * FROM workflow_executions_v2 WHERE execution_id = ?`).get(executionId);
     if (!executionRow) return buildResourceError(uri, 'Execution not found');
 
     const execution = safeParseRow(WorkflowExecutionRowSchema, executionRow);
     if (!execution) return buildResourceError(uri, 'Invalid execution data');
 
-    if (!execution.current_step) {
-      return buildResourceSuccess(uri, { execution_id: executionId, workflow_state: execution.state, message: 'No active step' });
+    const stepRows = this.db
+      .prepare(`SELECT * FROM workflow_steps_v2 WHERE execution_id = ? ORDER BY id ASC`)
+      .all(executionId) as unknown[];
+    const parsedSteps = stepRows.map((row) => safeParseRow(WorkflowStepRowSchema, row));
+    const steps = parsedSteps.filter((step): step is NonNullable<typeof step> => step !== null);
+    if (steps.length !== parsedSteps.length) return buildResourceError(uri, 'Invalid step data');
+
+    const binding = {
+      project: this.getProject(execution.project_id),
+      input: safeJsonParse<{ input?: Record<string, unknown> }>(execution.metadata, {}).input ?? null,
+    };
+
+    if (execution.state === 'paused') {
+      return buildResourceSuccess(uri, { execution_id: executionId, workflow_state: execution.state, ...binding, message: 'Execution paused. Call workflow.resume to get fresh tokens.' });
+    }
+
+    if (execution.state === 'awaiting_approval') {
+      const phases = this.versions.forExecution(executionId)?.phases ?? [];
+      const step = steps.find((s) => s.status === 'running' && s.step_name === execution.current_step);
+      const phase = phases.find((p) => p.phase === step?.step_name);
+      return buildResourceSuccess(uri, {
+        execution_id: executionId,
+        workflow_name: execution.workflow_name,
+        workflow_state: execution.state,
+        ...binding,
+        approval: step
+          ? {
+              step_name: step.step_name,
+              iteration: step.iteration,
+              description: phase?.description ?? null,
+              reject_to: phase?.approval?.onReject ?? null,
+              requested_at: step.started_at,
+              context: this.contextBuilder.build(executionId, step.step_name, phases),
+            }
+          : null,
+        message: 'Execution awaiting approval. Review context, then call workflow.approve, or workflow.reject with a comment.',
+      });
+    }
+
+    const runningSteps = steps.filter((step) => step.status === 'running' && step.child_execution_id === null);
+    const subWorkflows = steps
+      .filter((step) => step.status === 'running' && step.child_execution_id !== null)
+      .map((step) => {
+        const child = this.db
+          .prepare(`SELECT workflow_name, state FROM workflow_executions_v2 WHERE execution_id = ?`)
+          .get(step.child_execution_id) as { workflow_name: string; state: string } | undefined;
+        return { step_name: step.step_name, execution_id: step.child_execution_id!, workflow_name: child?.workflow_name ?? null, state: child?.state ?? null };
+      });
+
+    if (runningSteps.length === 0) {
+      const message =
+        subWorkflows.length > 0
+          ? `Waiting on sub-workflows; read midex://workflow/current_step/${subWorkflows[0]!.execution_id} for the active step.`
+          : 'No active step';
+      return buildResourceSuccess(uri, {
+        execution_id: executionId,
+        workflow_state: execution.state,
+        ...binding,
+        ...(subWorkflows.length > 0 ? { sub_workflows: subWorkflows } : {}),
+        message,
+      });
     }
 
-    const stepRow = this.db.prepare(`SELECT * FROM workflow_steps_v2 WHERE execution_id = ? AND step_name = ?`).get(executionId, execution.current_step);
-    if (!stepRow) return buildResourceError(uri, 'Current step not found');
+    const phases = this.versions.forExecution(executionId)?.phases ?? [];
 
-    const step = safeParseRow(WorkflowStepRowSchema, stepRow);
-    if (!step) return buildResourceError(uri, 'Invalid step data');
+    const scope = this.promptComposer.getExecutionScope(executionId);
+    const readySteps = [];
+    for (const step of runningSteps) {
+      const prompt = this.promptComposer.compose(step.agent_name, scope);
+      if (!prompt) return buildResourceError(uri, `Agent '${step.agent_name}' not found`);
 
-    const agentRow = this.db.prepare(`SELECT name, description, content FROM agents WHERE name = ?`).get(step.agent_name);
-    const agent = safeParseRow(AgentRowSchema, agentRow);
-    if (!agent) return buildResourceError(uri, `Agent '${step.agent_name}' not found`);
+      readySteps.push({
+        step_name: step.step_name,
+        step_status: step.status,
+        agent_name: step.agent_name,
+        iteration: step.iteration,
+        continuation_token: step.token,
+        agent_content: prompt.content,
+        applied_rules: prompt.applied_rules,
+        output_contract: this.getOutputContract(phases.find((p) => p.phase === step.step_name)?.outputContract),
+        context: this.contextBuilder.build(executionId, step.step_name, phases),
+        knowledge: this.knowledgeInjector.build(executionId, step.step_name, step.agent_name, phases),
+      });
+    }
 
-    const workflowRow = this.db.prepare(`SELECT name, description, phases FROM workflows WHERE name = ?`).get(execution.workflow_name);
-    const workflow = safeParseRow(WorkflowDefinitionRowSchema, workflowRow);
-    const phases = workflow ? safeJsonParse(workflow.phases, []) : [];
-    const currentIndex = phases.findIndex((p: { phase: string }) => p.phase === step.step_name);
+    // A reopened phase counts by its latest iteration; rows are in insertion order
+    const latest = new Map(steps.map((step) => [step.step_name, step.status]));
+    const completedCount = [...latest.values()].filter((status) => status === 'completed' || status === 'skipped').length;
+    const primary = readySteps[0]!;
 
     return buildResourceSuccess(uri, {
       execution_id: executionId,
       workflow_name: execution.workflow_name,
       workflow_state: execution.state,
-      current_step: step.step_name,
-      step_status: step.status,
-      agent_name: step.agent_name,
-      progress: phases.length > 0 ? `${currentIndex + 1}/${phases.length}` : 'unknown',
-      continuation_token: step.token,
-      agent_content: agent.content,
+      current_step: primary.step_name,
+      step_status: primary.step_status,
+      agent_name: primary.agent_name,
+      progress: phases.length > 0 ? `${completedCount}/${phases.length}` : 'unknown',
+      ...binding,
+      continuation_token: primary.continuation_token,
+      agent_content: primary.agent_content,
+      applied_rules: primary.applied_rules,
+      context: primary.context,
+      knowledge: primary.knowledge,
+      steps: readySteps,
+      ...(subWorkflows.length > 0 ? { sub_workflows: subWorkflows } : {}),
       instructions:
-        '1. Read agent_content carefully\n2. Execute the tasks\n3. Call workflow.next_step with token and output\n   - Include summary, artifacts, findings, suggested_findings (optional), and next_step_recommendation as needed\n\nIMPORTANT: Token is single-use.',
+        '1. Read agent_content carefully\n2. Execute the tasks, using context for what upstream phases produced and applying the findings in knowledge\n3. Call workflow.next_step with token and output\n   - Include summary, artifacts, findings, suggested_findings (optional), and next_step_recommendation as needed\n   - If output_contract is set, the output must validate against its schema or it is rejected\n\nWhen steps lists more than one entry they run in parallel: each has its own agent_content and continuation_token and may be completed in any order.\n\nIMPORTANT: Token is single-use.',
     });
   }
 
+  private getProject(projectId: number | null): { id: number; name: string; path: string } | null {
+    if (projectId === null) return null;
+    const row = this.db.prepare(`SELECT id, name, path FROM project_associations WHERE id = ?`).get(projectId) as
+      | { id: number; name: string; path: string }
+      | undefined;
+    return row ?? null;
+  }
+
+  /**
+   * The JSON Schema a step's output must satisfy, so agents can shape it before submitting
+   */
+  private getOutputContract(contractName: string | undefined): { name: string; schema: unknown } | undefined {
+    if (!contractName) return undefined;
+    const row = this.db.prepare(`SELECT content FROM contracts WHERE name = ?`).get(contractName) as { content: string } | undefined;
+    return { name: contractName, schema: row ? safeJsonParse<unknown>(row.content, null) : null };
+  }
+
   async getWorkflowStatus(executionId: string): Promise<ResourceContent> {
     const uri = `midex://workflow/workflow_status/${executionId}`;
+    this.watchdog.checkExecution(executionId);
     const executionRow = this.db.prepare(`SELECT * FROM workflow_executions_v2 WHERE execution_id = ?`).get(executionId);
     if (!executionRow) return buildResourceError(uri, 'Execution not found');
 
@@ -105,13 +245,16 @@ export class ResourceHandlers {
       .prepare(
         `SELECT COUNT(*) as total, SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed, SUM(CASE WHEN status = 'running' THEN 1 ELSE 0 END) as running,
-         SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending FROM workflow_steps_v2 WHERE execution_id = ?`
+         SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending, SUM(CASE WHEN status = 'skipped' THEN 1 ELSE 0 END) as skipped
+         FROM workflow_steps_v2 WHERE execution_id = ?`
       )
-      .get(executionId) as { total: number; completed: number; failed: number; running: number; pending: number };
+      .get(executionId) as { total: number; completed: number; failed: number; running: number; pending: number; skipped: number };
 
     return buildResourceSuccess(uri, {
       execution_id: executionId,
       workflow_name: execution.workflow_name,
+      workflow_version: this.versions.forExecution(executionId)?.version ?? null,
+      parent_execution_id: execution.parent_execution_id,
       state: execution.state,
       current_step: execution.current_step,
       started_at: execution.started_at,
@@ -119,9 +262,25 @@ export class ResourceHandlers {
       completed_at: execution.completed_at,
       duration_ms: execution.duration_ms,
       steps: stepStats,
+      children: this.getChildExecutions(executionId),
     });
   }
 
+  /**
+   * Sub-workflow executions started by this one, each with its own children
+   */
+  private getChildExecutions(executionId: string): ChildExecution[] {
+    const rows = this.db
+      .prepare(
+        `SELECT e.execution_id, e.workflow_name, e.state, s.step_name
+         FROM workflow_executions_v2 e
+         LEFT JOIN workflow_steps_v2 s ON s.execution_id = e.parent_execution_id AND s.child_execution_id = e.execution_id
+         WHERE e.parent_execution_id = ? ORDER BY e.started_at ASC, e.execution_id ASC`
+      )
+      .all(executionId) as Array<Omit<ChildExecution, 'children'>>;
+    return rows.map((row) => ({ ...row, children: this.getChildExecutions(row.execution_id) }));
+  }
+
   async getStepHistory(executionId: string): Promise<ResourceContent> {
     const uri = `midex://workflow/step_history/${executionId}`;
     const rows = this.db.prepare(`SELECT * FROM workflow_steps_v2 WHERE execution_id = ? ORDER BY id ASC`).all(executionId) as unknown[];
@@ -133,9 +292,11 @@ export class ResourceHandlers {
           step_name: step.step_name,
           agent_name: step.agent_name,
           status: step.status,
+          iteration: step.iteration,
           started_at: step.started_at,
           completed_at: step.completed_at,
           duration_ms: step.duration_ms,
+          child_execution_id: step.child_execution_id,
           output: safeJsonParse(step.output, null),
         };
       })
@@ -221,4 +382,12 @@ export class ResourceHandlers {
   async getGlobalKnowledge(): Promise<ResourceContent> {
     return this.knowledge.getGlobalFindings();
   }
+
+  async searchKnowledge(params: URLSearchParams): Promise<ResourceContent> {
+    return this.knowledge.search(params);
+  }
+
+  async getKnowledgeFinding(findingId: number): Promise<ResourceContent> {
+    return this.knowledge.getFinding(findingId);
+  }
 }
@@ -1,9 +1,66 @@
 import type { Database } from 'better-sqlite3';
 import { buildResourceError, buildResourceSuccess, transformKnowledgeFindingRow } from '../lib/index.js';
+import { KnowledgeSearchArgsSchema } from '../types/index.js';
+import { KnowledgeSearch } from '../core/knowledge-search.js';
+import { FindingLifecycle } from '../core/finding-lifecycle.js';
 import type { ResourceContent } from './types.js';
 
 export class KnowledgeResourceHandlers {
-  constructor(private db: Database) {}
+  private searcher: KnowledgeSearch;
+  private lifecycle: FindingLifecycle;
+
+  constructor(private db: Database) {
+    this.searcher = new KnowledgeSearch(db);
+    this.lifecycle = new FindingLifecycle(db);
+  }
+
+  /**
+   * One finding in any status, with its revisions and the findings it replaced or was replaced by
+   */
+  async getFinding(findingId: number): Promise<ResourceContent> {
+    const uri = `midex://knowledge/finding/${findingId}`;
+    if (!Number.isFinite(findingId) || findingId <= 0) return buildResourceError(uri, 'Invalid finding ID');
+
+    const row = this.db.prepare(`SELECT * FROM knowledge_findings WHERE id = ?`).get(findingId);
+    if (!row) return buildResourceError(uri, 'Finding not found');
+    const finding = transformKnowledgeFindingRow(row);
+
+    const summary = this.db.prepare(`SELECT id, title, status FROM knowledge_findings WHERE id = ?`);
+    const supersedes = this.db
+      .prepare(`SELECT id, title, status FROM knowledge_findings WHERE superseded_by = ? ORDER BY id ASC`)
+      .all(findingId);
+
+    return buildResourceSuccess(uri, {
+      finding,
+      superseded_by: finding.superseded_by === null ? null : (summary.get(finding.superseded_by) ?? null),
+      supersedes,
+      revisions: this.lifecycle.getRevisions(findingId),
+    });
+  }
+
+  /**
+   * Same search as knowledge.search; query parameters mirror its arguments, with tags comma-separated
+   */
+  async search(params: URLSearchParams): Promise<ResourceContent> {
+    const uri = `midex://knowledge/search?${params}`;
+    const numeric = (name: string) => (params.has(name) ? Number(params.get(name)) : undefined);
+    const parsed = KnowledgeSearchArgsSchema.safeParse({
+      q: params.get('q') ?? '',
+      match: params.get('match') ?? undefined,
+      scope: params.get('scope') ?? undefined,
+      project_id: numeric('project_id'),
+      category: params.get('category') ?? undefined,
+      min_severity: params.get('min_severity') ?? undefined,
+      tags: params.get('tags')?.split(',').map((tag) => tag.trim()).filter(Boolean),
+      status: params.get('status') ?? undefined,
+      limit: numeric('limit'),
+      offset: numeric('offset'),
+    });
+    if (!parsed.success) return buildResourceError(uri, `Invalid search parameters: ${parsed.error.message}`);
+
+    const result = this.searcher.search(parsed.data);
+    return typeof result === 'string' ? buildResourceError(uri, result) : buildResourceSuccess(uri, result);
+  }
 
   async getProjectFindings(projectId: number): Promise<ResourceContent> {
     if (!Number.isFinite(projectId) || projectId <= 0) {
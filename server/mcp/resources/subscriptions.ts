@@ -0,0 +1,97 @@
+import type { Database } from 'better-sqlite3';
+
+// Workflow resources that describe one execution, by the path segment naming them
+const EXECUTION_RESOURCES = new Set(['current_step', 'workflow_status', 'step_history', 'workflow_artifacts', 'telemetry']);
+
+/**
+ * Execution a resource URI describes, if any: midex://workflow/<resource>/<executionId>[...]
+ */
+export function executionIdOf(uri: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'midex:' || url.hostname !== 'workflow') return null;
+
+  const [resource, executionId] = url.pathname.split('/').filter((p) => p);
+  return resource && executionId && EXECUTION_RESOURCES.has(resource) ? decodeURIComponent(executionId) : null;
+}
+
+/**
+ * resources/subscribe for execution resources
+ *
+ * An execution's state, current step, running steps and sub-workflow states make up its
+ * fingerprint. check() compares each subscribed execution with the fingerprint last seen and
+ * notifies every URI subscribed for one that changed. The server calls it after each tool call
+ * and on a short interval, which also catches changes made by the CLI, the client or another
+ * server process
+ */
+export class ResourceSubscriptions {
+  private uris = new Map<string, string>(); // Subscribed URI to its execution
+  private fingerprints = new Map<string, string | null>(); // Execution to its last seen fingerprint
+
+  constructor(
+    private db: Database,
+    private notify: (uri: string) => Promise<void>
+  ) {}
+
+  get size(): number {
+    return this.uris.size;
+  }
+
+  /**
+   * @returns An error message, or null once subscribed
+   */
+  subscribe(uri: string): string | null {
+    const executionId = executionIdOf(uri);
+    if (!executionId) return `Only execution resources can be subscribed to (current_step, workflow_status, step_history, workflow_artifacts, telemetry): ${uri}`;
+
+    const fingerprint = this.fingerprint(executionId);
+    if (fingerprint === null) return `Execution ${executionId} not found`;
+
+    this.uris.set(uri, executionId);
+    if (!this.fingerprints.has(executionId)) this.fingerprints.set(executionId, fingerprint);
+    return null;
+  }
+
+  unsubscribe(uri: string): void {
+    const executionId = this.uris.get(uri);
+    this.uris.delete(uri);
+    if (executionId && ![...this.uris.values()].includes(executionId)) this.fingerprints.delete(executionId);
+  }
+
+  /**
+   * Notify the subscribers of every execution whose fingerprint changed since the last check
+   */
+  async check(): Promise<void> {
+    const changed: string[] = [];
+    for (const [executionId, seen] of this.fingerprints) {
+      const current = this.fingerprint(executionId);
+      if (current === seen) continue;
+      this.fingerprints.set(executionId, current);
+      changed.push(executionId);
+    }
+
+    const notifications = [...this.uris].filter(([, executionId]) => changed.includes(executionId)).map(([uri]) => this.notify(uri));
+    await Promise.all(notifications);
+  }
+
+  /**
+   * @returns null once the execution is gone
+   */
+  private fingerprint(executionId: string): string | null {
+    const row = this.db
+      .prepare(
+        `SELECT e.state, e.current_step,
+           (SELECT group_concat(step_name || ':' || iteration, ',') FROM
+             (SELECT step_name, iteration FROM workflow_steps_v2 WHERE execution_id = e.execution_id AND status = 'running' ORDER BY id)) AS running,
+           (SELECT group_concat(execution_id || ':' || state, ',') FROM
+             (SELECT execution_id, state FROM workflow_executions_v2 WHERE parent_execution_id = e.execution_id ORDER BY execution_id)) AS children
+         FROM workflow_executions_v2 e WHERE e.execution_id = ?`
+      )
+      .get(executionId) as { state: string; current_step: string | null; running: string | null; children: string | null } | undefined;
+    return row ? JSON.stringify([row.state, row.current_step, row.running, row.children]) : null;
+  }
+}
@@ -0,0 +1,95 @@
+import type { Database } from 'better-sqlite3';
+
+const MAX_COMPLETIONS = 100; // The most values a completion result may carry
+
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateEntry {
+  uriTemplate: string; // RFC 6570
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+interface CompletionRow {
+  value: string;
+}
+
+export interface CompletionValues {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Resources read as they are; everything with a parameter is a template
+ */
+export const RESOURCES: ResourceEntry[] = [
+  { uri: 'midex://workflow/available_workflows', name: 'Available Workflows', description: 'List all available workflow definitions', mimeType: 'application/json' },
+  { uri: 'midex://workflow/telemetry', name: 'Telemetry', description: 'Get the latest telemetry events', mimeType: 'application/json' },
+  { uri: 'midex://knowledge/global', name: 'Global Knowledge', description: 'Organization-wide findings', mimeType: 'application/json' },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplateEntry[] = [
+  { uriTemplate: 'midex://workflow/workflow_details/{workflowName}{?version,from,to}', name: 'Workflow Details', description: 'Get a workflow definition with its version history, one stored version, or a diff between two', mimeType: 'application/json' },
+  { uriTemplate: 'midex://workflow/current_step/{executionId}', name: 'Current Step (PRIMARY)', description: 'Get running step(s) with agent persona and continuation token', mimeType: 'application/json' },
+  { uriTemplate: 'midex://workflow/workflow_status/{executionId}', name: 'Workflow Status', description: 'Get workflow execution status', mimeType: 'application/json' },
+  { uriTemplate: 'midex://workflow/step_history/{executionId}', name: 'Step History', description: 'Get complete step history', mimeType: 'application/json' },
+  { uriTemplate: 'midex://workflow/workflow_artifacts/{executionId}{/stepName}', name: 'Workflow Artifacts', description: 'Get artifacts produced by workflow', mimeType: 'application/json' },
+  { uriTemplate: 'midex://workflow/telemetry/{executionId}{?event_type,limit}', name: 'Execution Telemetry', description: 'Get telemetry events of one execution', mimeType: 'application/json' },
+  { uriTemplate: 'midex://knowledge/project/{projectId}', name: 'Project Knowledge', description: 'Active findings scoped to a project', mimeType: 'application/json' },
+  { uriTemplate: 'midex://knowledge/finding/{findingId}', name: 'Knowledge Finding', description: 'One finding with its revision history and supersede links', mimeType: 'application/json' },
+  { uriTemplate: 'midex://knowledge/search{?q,scope,project_id,category,min_severity,tags,status,limit,offset}', name: 'Knowledge Search', description: 'BM25-ranked full-text search over findings, with highlighted snippets', mimeType: 'application/json' },
+];
+
+/**
+ * Values for template arguments, by prefix: workflow names, execution IDs (active ones first,
+ * then newest) and the step names of the execution given in the context
+ */
+export class ResourceCompletions {
+  constructor(private db: Database) {}
+
+  /**
+   * @param context Arguments already filled in for the same template
+   * @returns Matching values; none for a template or argument that has no completion
+   */
+  complete(uriTemplate: string, argument: string, value: string, context: Record<string, string> = {}): CompletionValues {
+    if (!RESOURCE_TEMPLATES.some((template) => template.uriTemplate === uriTemplate)) return toCompletion([]);
+
+    switch (argument) {
+      case 'workflowName':
+        return this.values(`SELECT name AS value FROM workflows WHERE substr(name, 1, length(?)) = ? ORDER BY name`, value, value);
+      case 'executionId':
+        return this.values(
+          `SELECT execution_id AS value FROM workflow_executions_v2 WHERE substr(execution_id, 1, length(?)) = ?
+           ORDER BY state IN ('running', 'paused', 'awaiting_approval') DESC, started_at DESC, execution_id`,
+          value,
+          value
+        );
+      case 'stepName':
+        if (!context.executionId) return toCompletion([]);
+        return this.values(
+          `SELECT step_name AS value FROM workflow_steps_v2 WHERE execution_id = ? AND substr(step_name, 1, length(?)) = ?
+           GROUP BY step_name ORDER BY MIN(id)`,
+          context.executionId,
+          value,
+          value
+        );
+      default:
+        return toCompletion([]);
+    }
+  }
+
+  private values(sql: string, ...params: string[]): CompletionValues {
+    return toCompletion((this.db.prepare(sql).all(...params) as CompletionRow[]).map((row) => row.value));
+  }
+}
+
+function toCompletion(values: string[]): CompletionValues {
+  return { values: values.slice(0, MAX_COMPLETIONS), total: values.length, hasMore: values.length > MAX_COMPLETIONS };
+}
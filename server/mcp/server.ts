@@ -1,49 +1,94 @@
 #!/usr/bin/env node
+import type { Database } from 'better-sqlite3';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   type CallToolRequest,
+  type CompleteRequest,
   type ListResourcesRequest,
   type ListToolsRequest,
   type ReadResourceRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { initDatabase } from '../database/index.js';
-import { getDatabasePath } from '../shared/config.js';
+import { getContentPath, getDatabasePath, getHttpTransportSettings, getSyncWatchSettings } from '../shared/config.js';
+import { ResourceManager } from '../src/manager.js';
+import type { ResourceWatcher } from '../src/lib/watcher.js';
 import { ResourceHandlers } from './resources/index.js';
+import { RESOURCES, RESOURCE_TEMPLATES, ResourceCompletions } from './resources/templates.js';
+import { ResourceSubscriptions } from './resources/subscriptions.js';
 import { ToolHandlers } from './tools/index.js';
-import { StartWorkflowArgsSchema, buildResourceError, buildToolError, extractErrorMessage } from './lib/index.js';
+import { McpHttpServer } from './http-transport.js';
+import { ExecutionWatchdog } from './core/execution-watchdog.js';
+import { FindingLifecycle } from './core/finding-lifecycle.js';
+import { StartWorkflowArgsSchema, TelemetryService, buildResourceError, buildToolError, extractErrorMessage } from './lib/index.js';
 
 const SERVER_NAME = 'midex-mcp';
 const SERVER_VERSION = '2.0.0';
+const POLICY_SWEEP_INTERVAL_MS = 60_000;
+const SUBSCRIPTION_CHECK_INTERVAL_MS = 2_000; // Picks up execution changes made outside this process
 
-async function main() {
-  const db = await initDatabase({ runMigrations: true, path: getDatabasePath() });
-  const resourceHandlers = new ResourceHandlers(db.connection);
-  const toolHandlers = new ToolHandlers(db.connection);
+/**
+ * Handlers shared by every MCP server instance: the one on stdio, or one per HTTP session
+ */
+interface ServerContext {
+  db: Database;
+  resourceHandlers: ResourceHandlers;
+  toolHandlers: ToolHandlers;
+  completions: ResourceCompletions;
+  subscriptions: Set<ResourceSubscriptions>; // One per connected server instance
+}
+
+/**
+ * Check the subscriptions of every connected client, so a tool call in one session reaches subscribers in all of them
+ */
+function notifySubscribers(context: ServerContext): Promise<void> {
+  return Promise.all([...context.subscriptions].map((subscriptions) => subscriptions.check()))
+    .then(() => undefined)
+    .catch((error) => console.error('Failed to notify resource subscribers:', error));
+}
+
+function buildServer(context: ServerContext): Server {
+  const { resourceHandlers, toolHandlers, completions } = context;
 
   const server = new Server(
     { name: SERVER_NAME, version: SERVER_VERSION },
-    { capabilities: { resources: {}, tools: {} } }
+    { capabilities: { resources: { subscribe: true }, tools: {}, completions: {} } }
   );
+  const subscriptions = new ResourceSubscriptions(context.db, (uri) => server.sendResourceUpdated({ uri }));
+  context.subscriptions.add(subscriptions);
+  server.onclose = () => context.subscriptions.delete(subscriptions);
 
-  server.setRequestHandler(ListResourcesRequestSchema, async (_request: ListResourcesRequest) => ({
-    resources: [
-      { uri: 'midex://workflow/available_workflows', name: 'Available Workflows', description: 'List all available workflow definitions', mimeType: 'application/json' },
-      { uri: 'midex://workflow/workflow_details/{workflowName}', name: 'Workflow Details', description: 'Get detailed workflow definition', mimeType: 'application/json' },
-      { uri: 'midex://workflow/current_step/{executionId}', name: 'Current Step (PRIMARY)', description: 'Get current step with agent persona and continuation token', mimeType: 'application/json' },
-      { uri: 'midex://workflow/workflow_status/{executionId}', name: 'Workflow Status', description: 'Get workflow execution status', mimeType: 'application/json' },
-      { uri: 'midex://workflow/step_history/{executionId}', name: 'Step History', description: 'Get complete step history', mimeType: 'application/json' },
-      { uri: 'midex://workflow/workflow_artifacts/{executionId}[/{stepName}]', name: 'Workflow Artifacts', description: 'Get artifacts produced by workflow', mimeType: 'application/json' },
-      { uri: 'midex://workflow/telemetry[/{executionId}][?event_type={eventType}]', name: 'Telemetry', description: 'Get telemetry events', mimeType: 'application/json' },
-      { uri: 'midex://knowledge/project/{projectId}', name: 'Project Knowledge', description: 'Active findings scoped to a project', mimeType: 'application/json' },
-      { uri: 'midex://knowledge/global', name: 'Global Knowledge', description: 'Organization-wide findings', mimeType: 'application/json' },
-    ],
-  }));
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request: ListResourcesRequest) => ({ resources: RESOURCES }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+
+  server.setRequestHandler(CompleteRequestSchema, async (request: CompleteRequest) => {
+    const { ref, argument, context: completionContext } = request.params;
+    if (ref.type !== 'ref/resource') return { completion: { values: [], total: 0, hasMore: false } };
+    return { completion: completions.complete(ref.uri, argument.name, argument.value, completionContext?.arguments) };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const error = subscriptions.subscribe(request.params.uri);
+    if (error) throw new McpError(ErrorCode.InvalidParams, error);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
 
   server.setRequestHandler(ReadResourceRequestSchema, async (request: ReadResourceRequest) => {
     const { uri } = request.params;
@@ -63,7 +108,7 @@ async function main() {
             break;
           case 'workflow_details':
             if (!pathParts[1]) throw new Error('Missing workflow name');
-            result = await resourceHandlers.getWorkflowDetails(pathParts[1]);
+            result = await resourceHandlers.getWorkflowDetails(pathParts[1], url.searchParams);
             break;
           case 'current_step':
             if (!pathParts[1]) throw new Error('Missing execution ID');
@@ -103,6 +148,14 @@ async function main() {
           case 'global':
             result = await resourceHandlers.getGlobalKnowledge();
             break;
+          case 'search':
+            result = await resourceHandlers.searchKnowledge(url.searchParams);
+            break;
+          case 'finding': {
+            if (!pathParts[1]) throw new Error('Missing finding ID');
+            result = await resourceHandlers.getKnowledgeFinding(Number(pathParts[1]));
+            break;
+          }
           default:
             throw new Error(`Unknown knowledge resource: ${resourceType}`);
         }
@@ -119,7 +172,7 @@ async function main() {
     tools: [
       {
         name: 'workflow.next_step',
-        description: 'Continue workflow to next step. Submit step output and receive next agent persona.',
+        description: 'Complete a running step. Submit its output and receive every step that became ready, each with its own agent persona and token.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -146,6 +199,11 @@ async function main() {
                 },
                 findings: { type: 'array', items: { type: 'string' }, description: 'Optional finding IDs' },
                 next_step_recommendation: { type: 'string', description: 'Optional recommendation' },
+                verdict: {
+                  type: 'string',
+                  description: "Optional outcome, e.g. 'approved' or 'changes_requested'; phase `onOutcome` transitions and `when` conditions read it",
+                },
+                data: { type: 'object', description: 'Optional structured fields for phase conditions, read by dot path' },
                 suggested_findings: {
                   type: 'array',
                   items: {
@@ -172,21 +230,129 @@ async function main() {
           required: ['token', 'output'],
         },
       },
+      {
+        name: 'workflow.fail_step',
+        description: 'Report that a running step could not be completed. The step is retried under the execution policy, or the workflow fails.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', description: 'Continuation token of the step that failed' },
+            error: { type: 'string', description: 'Why the step could not be completed' },
+            artifacts: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['file', 'data', 'report', 'finding'] },
+                  title: { type: 'string' },
+                  name: { type: 'string' },
+                  content: { type: 'string' },
+                  content_type: { type: 'string' },
+                  metadata: { type: 'object' },
+                },
+                required: ['type', 'content'],
+              },
+              description: 'Optional partial artifacts produced before the failure',
+            },
+          },
+          required: ['token', 'error'],
+        },
+      },
+      {
+        name: 'workflow.pause',
+        description: 'Pause a running execution. Outstanding continuation tokens are revoked until it is resumed.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            execution_id: { type: 'string', description: 'Execution ID' },
+            reason: { type: 'string', description: 'Why; recorded in telemetry with the state transition' },
+          },
+          required: ['execution_id', 'reason'],
+        },
+      },
+      {
+        name: 'workflow.resume',
+        description: 'Resume a paused execution. Returns fresh tokens for the steps that were running.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            execution_id: { type: 'string', description: 'Execution ID' },
+            reason: { type: 'string', description: 'Why; recorded in telemetry with the state transition' },
+          },
+          required: ['execution_id', 'reason'],
+        },
+      },
+      {
+        name: 'workflow.abandon',
+        description: 'Abandon a running, paused or awaiting_approval execution for good.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            execution_id: { type: 'string', description: 'Execution ID' },
+            reason: { type: 'string', description: 'Why; recorded in telemetry with the state transition' },
+          },
+          required: ['execution_id', 'reason'],
+        },
+      },
+      {
+        name: 'workflow.approve',
+        description: 'Approve the approval phase an execution is waiting on. Returns the steps that become ready.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            execution_id: { type: 'string', description: 'Execution awaiting approval' },
+            comment: { type: 'string', description: 'Note recorded with the approval' },
+            decided_by: { type: 'string', description: 'Who approved' },
+          },
+          required: ['execution_id'],
+        },
+      },
+      {
+        name: 'workflow.reject',
+        description: "Reject the approval phase an execution is waiting on. The workflow goes back to the phase's onReject, which receives the comment in its context.",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            execution_id: { type: 'string', description: 'Execution awaiting approval' },
+            comment: { type: 'string', description: 'What to change; required' },
+            decided_by: { type: 'string', description: 'Who rejected' },
+          },
+          required: ['execution_id', 'comment'],
+        },
+      },
       {
         name: 'workflow.start',
-        description: 'Start a new workflow execution.',
+        description: 'Start a new workflow execution. Returns every initially ready step; independent phases run in parallel.',
         inputSchema: {
           type: 'object',
           properties: {
             workflow_name: { type: 'string', description: 'Name of workflow to start' },
             execution_id: { type: 'string', description: 'Optional custom execution ID' },
+            input: {
+              type: 'object',
+              description: 'Task input validated against the WorkflowInput contract (name, reason, triggers, files)',
+            },
+            project_path: { type: 'string', description: 'Repository the workflow targets; associated as a project on first use' },
+            project_id: { type: 'integer', description: 'Existing project association ID (alternative to project_path)' },
           },
           required: ['workflow_name'],
         },
       },
+      {
+        name: 'workflow.recommend',
+        description: 'Rank workflows for a task description by trigger keywords, tags, full-text relevance and past success rate. Use it to pick the workflow_name for workflow.start.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            description: { type: 'string', description: 'Free-text description of the task' },
+            limit: { type: 'integer', minimum: 1, maximum: 20, description: 'Number of workflows to return (default 5)' },
+          },
+          required: ['description'],
+        },
+      },
       {
         name: 'knowledge.add_finding',
-        description: 'Store a long-lived finding with optional project scope.',
+        description: 'Store a long-lived finding with optional project scope. Refused when it duplicates an active or proposed finding.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -199,13 +365,16 @@ async function main() {
             tags: { type: 'array', items: { type: 'string' } },
             source_execution_id: { type: 'string' },
             source_agent: { type: 'string' },
+            expires_at: { type: 'string', description: 'ISO date or timestamp after which the finding is deprecated' },
+            review_by: { type: 'string', description: 'ISO date or timestamp by which the finding should be re-checked' },
+            allow_duplicate: { type: 'boolean', description: 'Store it even if a near-identical finding exists' },
           },
           required: ['scope', 'category', 'severity', 'title', 'content'],
         },
       },
       {
         name: 'knowledge.update_finding',
-        description: 'Update or deprecate an existing finding.',
+        description: 'Update, deprecate or supersede an existing finding. Every change is kept as a revision.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -216,10 +385,117 @@ async function main() {
             severity: { type: 'string', enum: ['info', 'low', 'medium', 'high', 'critical'] },
             category: { type: 'string', enum: ['security', 'architecture', 'performance', 'constraint', 'pattern'] },
             status: { type: 'string', enum: ['active', 'deprecated'] },
+            superseded_by: { type: 'integer', description: 'Active finding that replaces this one; deprecates it' },
+            expires_at: { type: ['string', 'null'], description: 'ISO date or timestamp; null clears it' },
+            review_by: { type: ['string', 'null'], description: 'ISO date or timestamp; null clears it' },
+            note: { type: 'string', description: 'Why it changed, kept with the revision' },
           },
           required: ['id'],
         },
       },
+      {
+        name: 'knowledge.search',
+        description: 'Full-text search over knowledge findings, ranked by BM25, with highlighted snippets and pagination.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            q: { type: 'string', description: 'Free-text query' },
+            match: { type: 'string', enum: ['all', 'any'], description: "'all' (default) requires every word; 'any' ranks partial matches" },
+            scope: { type: 'string', enum: ['global', 'project', 'system'] },
+            project_id: { type: 'integer', description: 'Findings of this project plus global and system findings' },
+            category: { type: 'string', enum: ['security', 'architecture', 'performance', 'constraint', 'pattern'] },
+            min_severity: { type: 'string', enum: ['info', 'low', 'medium', 'high', 'critical'] },
+            tags: { type: 'array', items: { type: 'string' }, description: 'Findings must carry every listed tag' },
+            status: { type: 'string', enum: ['proposed', 'active', 'deprecated', 'rejected'], description: 'Defaults to active' },
+            limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Page size (default 20)' },
+            offset: { type: 'integer', minimum: 0, description: 'Use next_offset from the previous page' },
+          },
+          required: ['q'],
+        },
+      },
+      {
+        name: 'knowledge.approve_finding',
+        description: 'Accept a proposed finding from the review queue, optionally editing it first. It becomes active.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            title: { type: 'string' },
+            content: { type: 'string' },
+            tags: { type: 'array', items: { type: 'string' } },
+            severity: { type: 'string', enum: ['info', 'low', 'medium', 'high', 'critical'] },
+            category: { type: 'string', enum: ['security', 'architecture', 'performance', 'constraint', 'pattern'] },
+            note: { type: 'string', description: 'Optional review note' },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'knowledge.reject_finding',
+        description: 'Decline a proposed finding from the review queue.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            reason: { type: 'string', description: 'Why the finding was declined' },
+          },
+          required: ['id', 'reason'],
+        },
+      },
+      {
+        name: 'knowledge.merge_findings',
+        description: 'Merge duplicate findings into one active finding. The sources are deprecated and point to it via superseded_by.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target_id: { type: 'integer', description: 'Active finding that absorbs the others' },
+            source_ids: { type: 'array', items: { type: 'integer' }, description: 'Active or proposed findings to merge in' },
+            title: { type: 'string', description: "Defaults to the target's title" },
+            content: { type: 'string', description: "Defaults to the target's content" },
+            severity: { type: 'string', enum: ['info', 'low', 'medium', 'high', 'critical'], description: 'Defaults to the highest severity among them' },
+            note: { type: 'string' },
+          },
+          required: ['target_id', 'source_ids'],
+        },
+      },
+      {
+        name: 'knowledge.export',
+        description: 'Export findings as a versioned JSON bundle or as markdown files with frontmatter, for sharing or backup.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: ['json', 'markdown'], description: "'json' (default) returns one bundle; 'markdown' one file per finding" },
+            scope: { type: 'string', enum: ['global', 'project', 'system'] },
+            project_id: { type: 'integer', description: 'Only findings of this project' },
+            project_path: { type: 'string', description: 'Only findings of the project at this path' },
+            category: { type: 'string', enum: ['security', 'architecture', 'performance', 'constraint', 'pattern'] },
+            tags: { type: 'array', items: { type: 'string' }, description: 'Findings must carry every listed tag' },
+            status: { type: 'string', enum: ['proposed', 'active', 'deprecated', 'rejected'], description: 'Defaults to active' },
+          },
+        },
+      },
+      {
+        name: 'knowledge.import',
+        description:
+          'Import findings exported by knowledge.export. Findings are upserted by uid; project findings are matched to local projects by path, then name.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bundle: { type: 'object', description: 'JSON bundle (or its text); give either bundle or files' },
+            files: {
+              type: 'array',
+              items: { type: 'object', properties: { name: { type: 'string' }, content: { type: 'string' } }, required: ['name', 'content'] },
+              description: 'Markdown files with frontmatter',
+            },
+            strategy: {
+              type: 'string',
+              enum: ['keep-newest', 'keep-filesystem', 'keep-database', 'manual'],
+              description: "When a finding changed on both sides: newest updated_at wins (default), the bundle wins, the local finding wins, or report a conflict",
+            },
+            dry_run: { type: 'boolean', description: 'Report what would change without writing' },
+          },
+        },
+      },
     ],
   }));
 
@@ -229,30 +505,139 @@ async function main() {
       switch (name) {
         case 'workflow.next_step':
           return await toolHandlers.nextStep(args);
+        case 'workflow.fail_step':
+          return await toolHandlers.failStep(args);
+        case 'workflow.pause':
+          return await toolHandlers.pauseWorkflow(args);
+        case 'workflow.resume':
+          return await toolHandlers.resumeWorkflow(args);
+        case 'workflow.abandon':
+          return await toolHandlers.abandonWorkflow(args);
+        case 'workflow.approve':
+          return await toolHandlers.approveWorkflow(args);
+        case 'workflow.reject':
+          return await toolHandlers.rejectWorkflow(args);
         case 'workflow.start': {
           const validation = StartWorkflowArgsSchema.safeParse(args);
           if (!validation.success) return buildToolError(`Invalid arguments: ${validation.error.message}`);
           const execId = validation.data.execution_id || `exec_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-          return await toolHandlers.startWorkflow(validation.data.workflow_name, execId);
+          const { workflow_name, input, project_path, project_id } = validation.data;
+          return await toolHandlers.startWorkflow(workflow_name, execId, { input, project_path, project_id });
         }
+        case 'workflow.recommend':
+          return await toolHandlers.recommendWorkflows(args);
         case 'knowledge.add_finding':
           return await toolHandlers.addKnowledgeFinding(args);
         case 'knowledge.update_finding':
           return await toolHandlers.updateKnowledgeFinding(args);
+        case 'knowledge.search':
+          return await toolHandlers.searchKnowledge(args);
+        case 'knowledge.approve_finding':
+          return await toolHandlers.approveKnowledgeFinding(args);
+        case 'knowledge.reject_finding':
+          return await toolHandlers.rejectKnowledgeFinding(args);
+        case 'knowledge.merge_findings':
+          return await toolHandlers.mergeKnowledgeFindings(args);
+        case 'knowledge.export':
+          return await toolHandlers.exportKnowledge(args);
+        case 'knowledge.import':
+          return await toolHandlers.importKnowledge(args);
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
     } catch (error) {
       return buildToolError(error instanceof Error ? error.message : String(error));
+    } finally {
+      void notifySubscribers(context);
     }
   });
 
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error(`${SERVER_NAME} v${SERVER_VERSION} running on stdio`);
+  return server;
+}
+
+async function main() {
+  const httpSettings = getHttpTransportSettings();
+  const useHttp = selectHttpTransport(process.argv.slice(2), httpSettings.enabled);
+  const { token } = httpSettings;
+  if (useHttp && !token) {
+    throw new Error('The HTTP transport requires a bearer token: set mcp.http.token in midex.config.yaml or MIDEX_HTTP_TOKEN');
+  }
+
+  const db = await initDatabase({ runMigrations: true, path: getDatabasePath() });
+  const context: ServerContext = {
+    db: db.connection,
+    resourceHandlers: new ResourceHandlers(db.connection),
+    toolHandlers: new ToolHandlers(db.connection),
+    completions: new ResourceCompletions(db.connection),
+    subscriptions: new Set(),
+  };
+
+  // Timeouts, retry backoff and finding expiry are time-driven, so they need a periodic check
+  const watchdog = new ExecutionWatchdog(db.connection);
+  const findingLifecycle = new FindingLifecycle(db.connection);
+  findingLifecycle.expire();
+  const sweepTimer = setInterval(() => {
+    watchdog.sweep();
+    findingLifecycle.expire();
+  }, POLICY_SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  const subscriptionTimer = setInterval(() => void notifySubscribers(context), SUBSCRIPTION_CHECK_INTERVAL_MS);
+  subscriptionTimer.unref();
 
-  process.on('SIGINT', () => { db.close(); process.exit(0); });
-  process.on('SIGTERM', () => { db.close(); process.exit(0); });
+  // Content and tool-config edits reach the database while the server runs, without a re-setup
+  const watcher = await startResourceWatch(db.connection, useHttp);
+
+  let httpServer: McpHttpServer | null = null;
+  if (useHttp && token) {
+    httpServer = new McpHttpServer({ ...httpSettings, token }, () => buildServer(context));
+    await httpServer.listen();
+    console.error(`${SERVER_NAME} v${SERVER_VERSION} running on ${httpServer.url}`);
+  } else {
+    await buildServer(context).connect(new StdioServerTransport());
+    console.error(`${SERVER_NAME} v${SERVER_VERSION} running on stdio`);
+  }
+
+  // Sessions end before the database closes; a second signal while shutting down is ignored
+  let stopping = false;
+  const shutdown = async () => {
+    if (stopping) return;
+    stopping = true;
+    clearInterval(sweepTimer);
+    clearInterval(subscriptionTimer);
+    await httpServer?.close().catch((error) => console.error('Failed to close the HTTP transport:', error));
+    await watcher?.close();
+    db.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown());
+  process.on('SIGTERM', () => void shutdown());
+}
+
+/**
+ * --http or --stdio on the command line, else the configured default (stdio unless mcp.http.enabled)
+ */
+function selectHttpTransport(args: string[], enabled: boolean): boolean {
+  if (args.includes('--http')) return true;
+  if (args.includes('--stdio')) return false;
+  return enabled;
+}
+
+/**
+ * Resync content and tool configs as files change, recording a resource_synced event per run
+ */
+async function startResourceWatch(database: Database, http: boolean): Promise<ResourceWatcher | null> {
+  const settings = getSyncWatchSettings(http);
+  if (!settings.enabled) return null;
+
+  const telemetry = new TelemetryService(database);
+  const manager = await ResourceManager.init({ database, basePath: getContentPath() });
+  const watcher = manager.watch({
+    debounceMs: settings.debounceMs,
+    onSynced: ({ plugin, paths, result, durationMs }) => telemetry.resourceSynced(plugin, paths, result, durationMs),
+    onError: (plugin, error) => telemetry.error(null, `watch:${plugin}`, extractErrorMessage(error)),
+  });
+  console.error(`Watching ${watcher.size} director${watcher.size === 1 ? 'y' : 'ies'} for content and tool-config changes`);
+  return watcher;
 }
 
 main().catch((error) => { console.error('Server error:', error); process.exit(1); });
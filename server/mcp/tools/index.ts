@@ -1,9 +1,24 @@
 import type { Database } from 'better-sqlite3';
-import type { NextStepResult, WorkflowPhase, WorkflowState } from '../types/index.js';
-import { NextStepArgsSchema } from '../types/index.js';
-import { StepExecutor } from '../core/step-executor.js';
+import type { NextStepResult, ReadyStep, WorkflowPhase, WorkflowState } from '../types/index.js';
+import {
+  ApproveArgsSchema,
+  ExecutionControlArgsSchema,
+  FailStepArgsSchema,
+  NextStepArgsSchema,
+  RejectArgsSchema,
+  WorkflowRecommendArgsSchema,
+} from '../types/index.js';
+import { StepExecutor, type ApprovalInput, type ScheduledStep } from '../core/step-executor.js';
+import { TokenService, loadTokenSigningKeys } from '../core/token-service.js';
+import { StepContextBuilder } from '../core/step-context.js';
+import { PromptComposer } from '../core/prompt-composer.js';
+import { KnowledgeInjector } from '../core/knowledge-injector.js';
+import { WorkflowRecommender } from '../core/workflow-recommender.js';
+import { ExecutionWatchdog, loadExecutionPlan, loadWorkflowPlan } from '../core/execution-watchdog.js';
 import { KnowledgeToolService } from './knowledge.js';
-import { safeJsonParse, decodeTokenPayload, buildToolError, buildToolSuccess, AgentRowSchema, safeParseRow } from '../lib/index.js';
+import { getReadyPhases } from '../../utils/phase-graph.js';
+import { ProjectAssociationManager, type ProjectAssociation } from '../../src/lib/project-association.js';
+import { safeJsonParse, buildToolError, buildToolSuccess, AgentRowSchema, safeParseRow, type StartWorkflowArgs } from '../lib/index.js';
 
 export interface ToolResult {
   content: Array<{ type: 'text'; text: string }>;
@@ -13,11 +28,25 @@ export interface ToolResult {
 
 export class ToolHandlers {
   private stepExecutor: StepExecutor;
+  private tokenService: TokenService;
+  private contextBuilder: StepContextBuilder;
+  private promptComposer: PromptComposer;
+  private knowledgeInjector: KnowledgeInjector;
+  private watchdog: ExecutionWatchdog;
+  private recommender: WorkflowRecommender;
   private knowledgeTools: KnowledgeToolService;
+  private projectManager: ProjectAssociationManager;
 
   constructor(private db: Database) {
     this.stepExecutor = new StepExecutor(db);
+    this.tokenService = new TokenService(loadTokenSigningKeys(db));
+    this.contextBuilder = new StepContextBuilder(db);
+    this.promptComposer = new PromptComposer(db);
+    this.knowledgeInjector = new KnowledgeInjector(db);
+    this.watchdog = new ExecutionWatchdog(db);
+    this.recommender = new WorkflowRecommender(db);
     this.knowledgeTools = new KnowledgeToolService(db);
+    this.projectManager = new ProjectAssociationManager(db);
   }
 
   async nextStep(args: unknown): Promise<ToolResult> {
@@ -25,38 +54,45 @@ export class ToolHandlers {
     if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
 
     const { token, output } = parsed.data;
-    const payload = decodeTokenPayload(token);
-    if (!payload) return buildToolError('Invalid or malformed token');
-
-    const execution = this.db
-      .prepare(`SELECT workflow_name FROM workflow_executions_v2 WHERE execution_id = ?`)
-      .get(payload.execution_id) as { workflow_name: string } | undefined;
+    const validation = this.tokenService.validateToken(token);
+    if (!validation.valid) return buildToolError(`Invalid token: ${validation.error}`);
+    const { payload } = validation;
 
+    const execution = this.db.prepare(`SELECT execution_id FROM workflow_executions_v2 WHERE execution_id = ?`).get(payload.execution_id);
     if (!execution) return buildToolError('Execution not found');
 
-    const workflow = this.db.prepare(`SELECT phases FROM workflows WHERE name = ?`).get(execution.workflow_name) as { phases: string } | undefined;
-    if (!workflow?.phases) return buildToolError('Workflow phases not found');
+    const workflow = loadExecutionPlan(this.db, payload.execution_id);
+    if (!workflow) return buildToolError('Workflow phases not found');
 
-    const phases: WorkflowPhase[] = safeJsonParse(workflow.phases, []);
-    const result = this.stepExecutor.continueWorkflow(token, output, phases);
+    // Apply overdue timeouts first so a late submission for a timed-out step is rejected
+    this.watchdog.checkExecution(payload.execution_id);
 
-    if (!result.success) return buildToolError(result.error || 'Unknown error');
+    const result = this.stepExecutor.continueWorkflow(token, output, workflow.phases, workflow.policy);
+
+    if (!result.success) {
+      return buildToolError(
+        result.error || 'Unknown error',
+        result.validation_errors ? { validation_errors: result.validation_errors, hint: 'The token is still valid; fix the output and resubmit.' } : undefined
+      );
+    }
 
-    if (result.step_name && result.agent_name) {
-      const agentRow = this.db.prepare(`SELECT name, description, content FROM agents WHERE name = ?`).get(result.agent_name);
-      const agent = safeParseRow(AgentRowSchema, agentRow);
-      if (!agent) {
-        return buildToolError(`Agent '${result.agent_name}' not found. The workflow cannot continue without a valid agent persona.`);
+    if (result.steps && result.steps.length > 0) {
+      const readySteps = this.toReadySteps(result.steps);
+      if (typeof readySteps === 'string') {
+        return buildToolError(`${readySteps} The workflow cannot continue without a valid agent persona.`);
       }
 
+      const [first] = readySteps;
       const response: NextStepResult = {
         success: true,
         execution_id: result.execution_id,
-        step_name: result.step_name,
-        agent_content: agent.content,
+        step_name: first?.step_name,
+        agent_content: first?.agent_content,
         workflow_state: result.workflow_state as WorkflowState,
-        new_token: result.new_token,
-        message: `Step '${result.step_name}' ready. Review agent_content and continue.`,
+        new_token: first?.token,
+        steps: readySteps,
+        // A finished sub-workflow reports its completion ahead of the parent's next steps
+        message: `${result.workflow_state === 'completed' && result.message ? `${result.message}. ` : ''}${describeReadySteps(readySteps)} Review agent_content and continue.`,
       };
       return buildToolSuccess(response);
     }
@@ -65,39 +101,197 @@ export class ToolHandlers {
       success: true,
       execution_id: result.execution_id,
       workflow_state: result.workflow_state,
-      message: result.message || 'Workflow completed',
+      message: result.message || result.error || 'Workflow completed',
     } as NextStepResult);
   }
 
-  async startWorkflow(workflowName: string, executionId: string): Promise<ToolResult> {
-    const workflow = this.db.prepare(`SELECT phases FROM workflows WHERE name = ?`).get(workflowName) as { phases: string } | undefined;
-    if (!workflow?.phases) return buildToolError(`Workflow '${workflowName}' not found`);
+  async failStep(args: unknown): Promise<ToolResult> {
+    const parsed = FailStepArgsSchema.safeParse(args);
+    if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+
+    const { token, error, artifacts } = parsed.data;
+    const validation = this.tokenService.validateToken(token);
+    if (!validation.valid) return buildToolError(`Invalid token: ${validation.error}`);
+    const { payload } = validation;
+
+    const execution = this.db.prepare(`SELECT execution_id FROM workflow_executions_v2 WHERE execution_id = ?`).get(payload.execution_id);
+    if (!execution) return buildToolError('Execution not found');
+
+    const workflow = loadExecutionPlan(this.db, payload.execution_id);
+    if (!workflow) return buildToolError('Workflow phases not found');
+
+    this.watchdog.checkExecution(payload.execution_id);
+    const result = this.stepExecutor.failStep(token, error, workflow.phases, workflow.policy, artifacts ?? []);
+    if (!result.success) return buildToolError(result.error || 'Unknown error');
+
+    const readySteps = this.toReadySteps(result.steps ?? []);
+    if (typeof readySteps === 'string') return buildToolError(readySteps);
+
+    let message = result.message ?? `Step '${payload.step_name}' failed.`;
+    if (result.workflow_state === 'failed') message = `Workflow failed: ${result.error}`;
+    else if (result.retry) message = `Step '${result.retry.step_name}' will be retried (attempt ${result.retry.attempt}) at ${result.retry.retry_at}.`;
+
+    return buildToolSuccess({
+      success: true,
+      execution_id: result.execution_id,
+      workflow_state: result.workflow_state,
+      retry: result.retry,
+      steps: readySteps,
+      error: result.error,
+      message,
+    });
+  }
+
+  async pauseWorkflow(args: unknown): Promise<ToolResult> {
+    const parsed = ExecutionControlArgsSchema.safeParse(args);
+    if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+
+    const { execution_id, reason } = parsed.data;
+    this.watchdog.checkExecution(execution_id);
+    const result = this.stepExecutor.pauseExecution(execution_id, reason);
+    if (!result.success) return buildToolError(result.error || 'Failed to pause workflow');
+
+    return buildToolSuccess({
+      success: true,
+      execution_id,
+      workflow_state: result.workflow_state,
+      message: `${result.message}. Outstanding tokens are revoked; call workflow.resume to continue.`,
+    });
+  }
+
+  async resumeWorkflow(args: unknown): Promise<ToolResult> {
+    const parsed = ExecutionControlArgsSchema.safeParse(args);
+    if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+
+    const { execution_id, reason } = parsed.data;
+    const execution = this.db.prepare(`SELECT execution_id FROM workflow_executions_v2 WHERE execution_id = ?`).get(execution_id);
+    if (!execution) return buildToolError('Execution not found');
+
+    const workflow = loadExecutionPlan(this.db, execution_id);
+    if (!workflow) return buildToolError('Workflow phases not found');
+
+    const result = this.stepExecutor.resumeExecution(execution_id, reason, workflow.phases, workflow.policy);
+    if (!result.success) return buildToolError(result.error || 'Failed to resume workflow');
+
+    const readySteps = this.toReadySteps(result.steps ?? []);
+    if (typeof readySteps === 'string') return buildToolError(readySteps);
+    const [first] = readySteps;
+
+    return buildToolSuccess({
+      success: true,
+      execution_id,
+      step_name: first?.step_name,
+      agent_content: first?.agent_content,
+      workflow_state: result.workflow_state,
+      new_token: first?.token,
+      steps: readySteps,
+      message: readySteps.length > 0 ? `Execution resumed. ${describeReadySteps(readySteps)}` : result.message || result.error || 'Execution resumed',
+    });
+  }
+
+  async abandonWorkflow(args: unknown): Promise<ToolResult> {
+    const parsed = ExecutionControlArgsSchema.safeParse(args);
+    if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+
+    const result = this.stepExecutor.abandonExecution(parsed.data.execution_id, parsed.data.reason);
+    if (!result.success) return buildToolError(result.error || 'Failed to abandon workflow');
+
+    return buildToolSuccess({
+      success: true,
+      execution_id: result.execution_id,
+      workflow_state: result.workflow_state,
+      message: result.message,
+    });
+  }
+
+  async approveWorkflow(args: unknown): Promise<ToolResult> {
+    const parsed = ApproveArgsSchema.safeParse(args);
+    if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
 
-    const phases: WorkflowPhase[] = safeJsonParse(workflow.phases, []);
+    const { execution_id, comment, decided_by } = parsed.data;
+    return this.decideApproval(execution_id, { decision: 'approved', comment: comment ?? null, decided_by: decided_by ?? null, source: 'mcp' });
+  }
+
+  async rejectWorkflow(args: unknown): Promise<ToolResult> {
+    const parsed = RejectArgsSchema.safeParse(args);
+    if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+
+    const { execution_id, comment, decided_by } = parsed.data;
+    return this.decideApproval(execution_id, { decision: 'rejected', comment, decided_by: decided_by ?? null, source: 'mcp' });
+  }
+
+  async startWorkflow(
+    workflowName: string,
+    executionId: string,
+    options: Pick<StartWorkflowArgs, 'input' | 'project_path' | 'project_id'> = {}
+  ): Promise<ToolResult> {
+    const workflow = loadWorkflowPlan(this.db, workflowName);
+    if (!workflow) return buildToolError(`Workflow '${workflowName}' not found`);
+
+    const { phases, policy } = workflow;
     if (phases.length === 0) return buildToolError(`Workflow '${workflowName}' has no phases defined`);
 
-    const firstPhase = phases.find((p) => !p.dependsOn || p.dependsOn.length === 0);
-    if (!firstPhase) return buildToolError(`Workflow '${workflowName}' has no starting phase`);
+    const initialPhases = getReadyPhases(phases, new Set(), new Set());
+    if (initialPhases.length === 0) return buildToolError(`Workflow '${workflowName}' has no starting phase`);
 
-    const agentRow = this.db.prepare(`SELECT name, description, content FROM agents WHERE name = ?`).get(firstPhase.agent);
-    const agent = safeParseRow(AgentRowSchema, agentRow);
-    if (!agent) {
-      return buildToolError(`Agent '${firstPhase.agent}' not found. The workflow cannot start without a valid agent persona.`);
+    const missingAgent = initialPhases.find((phase) => phase.agent !== undefined && this.getAgentContent(phase.agent) === null);
+    if (missingAgent) {
+      return buildToolError(`Agent '${missingAgent.agent}' not found. The workflow cannot start without a valid agent persona.`);
     }
+    const missingWorkflow = phases.find((phase) => phase.workflow !== undefined && !loadWorkflowPlan(this.db, phase.workflow));
+    if (missingWorkflow) {
+      return buildToolError(`Sub-workflow '${missingWorkflow.workflow}' of phase '${missingWorkflow.phase}' not found`);
+    }
+
+    const project = this.resolveProject(options);
+    if (typeof project === 'string') return buildToolError(project);
 
-    const result = this.stepExecutor.startWorkflow(workflowName, executionId, phases);
-    if (!result.success) return buildToolError(result.error || 'Failed to start workflow');
+    const result = this.stepExecutor.startWorkflow(workflowName, executionId, phases, policy, {
+      projectId: project?.id ?? null,
+      input: options.input,
+      workflowVersionId: workflow.versionId,
+    });
+    if (!result.success) {
+      return buildToolError(result.error || 'Failed to start workflow', result.validation_errors ? { validation_errors: result.validation_errors } : undefined);
+    }
+
+    const readySteps = this.toReadySteps(result.steps ?? []);
+    if (typeof readySteps === 'string') return buildToolError(readySteps);
+    const [first] = readySteps;
 
     return buildToolSuccess({
       success: true,
       execution_id: result.execution_id,
       step_name: result.step_name,
       agent_name: result.agent_name,
-      agent_content: agent.content,
+      agent_content: first?.agent_content,
       workflow_state: result.workflow_state,
+      workflow_version: workflow.version,
       new_token: result.new_token,
-      message: `Workflow '${workflowName}' started. Step '${result.step_name}' ready.`,
-      instructions: '1. Read agent_content carefully\n2. Execute the tasks described\n3. Call workflow.next_step with token and output',
+      project: project ? { id: project.id, name: project.name, path: project.path } : null,
+      input: options.input ?? null,
+      steps: readySteps,
+      message: `Workflow '${workflowName}' started. ${readySteps.length > 0 ? describeReadySteps(readySteps) : (result.message ?? '')}`,
+      instructions:
+        '1. Read agent_content carefully\n2. Execute the tasks described\n3. Call workflow.next_step with token and output\n\nWhen several steps are returned they are independent: run each with its own agent_content and token, in any order.',
+    });
+  }
+
+  async recommendWorkflows(args: unknown): Promise<ToolResult> {
+    const parsed = WorkflowRecommendArgsSchema.safeParse(args);
+    if (!parsed.success) return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+
+    const recommendations = this.recommender.recommend(parsed.data);
+    if (typeof recommendations === 'string') return buildToolError(recommendations);
+
+    return buildToolSuccess({
+      success: true,
+      description: parsed.data.description,
+      recommendations,
+      message:
+        recommendations.length > 0
+          ? `Best match: '${recommendations[0]!.name}'. Start it with workflow.start.`
+          : 'No workflow matches the description; list them with the available_workflows resource.',
     });
   }
 
@@ -108,4 +302,107 @@ export class ToolHandlers {
   async updateKnowledgeFinding(args: unknown): Promise<ToolResult> {
     return this.knowledgeTools.updateFinding(args);
   }
+
+  async searchKnowledge(args: unknown): Promise<ToolResult> {
+    return this.knowledgeTools.search(args);
+  }
+
+  async approveKnowledgeFinding(args: unknown): Promise<ToolResult> {
+    return this.knowledgeTools.approveFinding(args);
+  }
+
+  async rejectKnowledgeFinding(args: unknown): Promise<ToolResult> {
+    return this.knowledgeTools.rejectFinding(args);
+  }
+
+  async mergeKnowledgeFindings(args: unknown): Promise<ToolResult> {
+    return this.knowledgeTools.mergeFindings(args);
+  }
+
+  async exportKnowledge(args: unknown): Promise<ToolResult> {
+    return this.knowledgeTools.exportFindings(args);
+  }
+
+  async importKnowledge(args: unknown): Promise<ToolResult> {
+    return this.knowledgeTools.importFindings(args);
+  }
+
+  private decideApproval(executionId: string, input: ApprovalInput): ToolResult {
+    const workflow = loadExecutionPlan(this.db, executionId);
+    if (!workflow) return buildToolError('Execution or workflow phases not found');
+
+    // A decision the client already recorded is applied first and wins
+    this.watchdog.checkExecution(executionId);
+    const result = this.stepExecutor.decideApproval(executionId, input, workflow.phases, workflow.policy);
+    if (!result.success) return buildToolError(result.error || 'Failed to record the decision');
+
+    const readySteps = this.toReadySteps(result.steps ?? []);
+    if (typeof readySteps === 'string') return buildToolError(readySteps);
+    const [first] = readySteps;
+
+    return buildToolSuccess({
+      success: true,
+      execution_id: executionId,
+      step_name: first?.step_name,
+      agent_content: first?.agent_content,
+      workflow_state: result.workflow_state,
+      new_token: first?.token,
+      steps: readySteps,
+      message: readySteps.length > 0 ? `Decision recorded. ${describeReadySteps(readySteps)}` : result.message || result.error || 'Decision recorded',
+    });
+  }
+
+  /**
+   * @returns The project an execution targets, null when none was given, or an error message
+   */
+  private resolveProject(options: Pick<StartWorkflowArgs, 'project_path' | 'project_id'>): ProjectAssociation | null | string {
+    if (options.project_id !== undefined) {
+      return this.projectManager.getProjectById(options.project_id) ?? `Project ${options.project_id} not found`;
+    }
+    return options.project_path ? this.projectManager.associateProject(options.project_path) : null;
+  }
+
+  private getAgentContent(agentName: string): string | null {
+    const agentRow = this.db.prepare(`SELECT name, description, content FROM agents WHERE name = ?`).get(agentName);
+    return safeParseRow(AgentRowSchema, agentRow)?.content ?? null;
+  }
+
+  /**
+   * Pair each scheduled step with its composed agent prompt, the output of its dependsOn phases
+   * and the findings that apply to it. Steps may belong to sub-workflows of the execution that
+   * scheduled them, so each is resolved against its own execution's plan and project
+   * @returns Ready steps, or an error message naming the first missing agent
+   */
+  private toReadySteps(steps: ScheduledStep[]): ReadyStep[] | string {
+    const plans = new Map<string, WorkflowPhase[]>();
+    const ready: ReadyStep[] = [];
+    for (const step of steps) {
+      const executionId = step.execution_id;
+      let phases = plans.get(executionId);
+      if (!phases) {
+        phases = loadExecutionPlan(this.db, executionId)?.phases ?? [];
+        plans.set(executionId, phases);
+      }
+
+      const prompt = this.promptComposer.compose(step.agent_name, this.promptComposer.getExecutionScope(executionId));
+      if (prompt === null) return `Agent '${step.agent_name}' not found.`;
+      ready.push({
+        execution_id: executionId,
+        step_name: step.step_name,
+        agent_name: step.agent_name,
+        iteration: step.iteration,
+        agent_content: prompt.content,
+        applied_rules: prompt.applied_rules,
+        token: step.token,
+        context: this.contextBuilder.build(executionId, step.step_name, phases),
+        knowledge: this.knowledgeInjector.build(executionId, step.step_name, step.agent_name, phases),
+      });
+    }
+    return ready;
+  }
+}
+
+function describeReadySteps(steps: ReadyStep[]): string {
+  if (steps.length === 1) return `Step '${steps[0]!.step_name}' ready.`;
+  return `${steps.length} steps ready in parallel: ${steps.map((s) => `'${s.step_name}'`).join(', ')}.`;
 }
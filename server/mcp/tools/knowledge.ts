@@ -2,14 +2,47 @@ import type { Database } from 'better-sqlite3';
 import {
   KnowledgeFindingInputSchema,
   KnowledgeFindingUpdateSchema,
+  KnowledgeFindingApprovalSchema,
+  KnowledgeFindingRejectionSchema,
+  KnowledgeFindingMergeSchema,
+  KnowledgeSearchArgsSchema,
+  KnowledgeExportArgsSchema,
+  KnowledgeImportArgsSchema,
+  KnowledgeSeveritySchema,
   type KnowledgeFinding,
   type KnowledgeFindingInput,
   type KnowledgeFindingUpdate,
+  type KnowledgeFindingApproval,
+  type KnowledgeFindingRejection,
+  type KnowledgeFindingMerge,
 } from '../types/index.js';
-import { buildToolError, buildToolSuccess, extractErrorMessage, transformKnowledgeFindingRow } from '../lib/index.js';
+import { KnowledgeSearch } from '../core/knowledge-search.js';
+import { FindingLifecycle } from '../core/finding-lifecycle.js';
+import { KnowledgeBundles, parseKnowledgeBundle, parseKnowledgeMarkdown } from '../core/knowledge-bundle.js';
+import { TelemetryService, buildToolError, buildToolSuccess, extractErrorMessage, transformKnowledgeFindingRow } from '../lib/index.js';
 
 export class KnowledgeToolService {
-  constructor(private db: Database) {}
+  private telemetry: TelemetryService;
+  private searcher: KnowledgeSearch;
+  private lifecycle: FindingLifecycle;
+  private bundles: KnowledgeBundles;
+
+  constructor(private db: Database) {
+    this.telemetry = new TelemetryService(db);
+    this.searcher = new KnowledgeSearch(db);
+    this.lifecycle = new FindingLifecycle(db);
+    this.bundles = new KnowledgeBundles(db);
+  }
+
+  search(args: unknown) {
+    const parsed = KnowledgeSearchArgsSchema.safeParse(args);
+    if (!parsed.success) {
+      return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+    }
+
+    const result = this.searcher.search(parsed.data);
+    return typeof result === 'string' ? buildToolError(result) : buildToolSuccess({ success: true, ...result });
+  }
 
   addFinding(args: unknown) {
     const parsed = KnowledgeFindingInputSchema.safeParse(args);
@@ -17,8 +50,18 @@ export class KnowledgeToolService {
       return buildToolError(`Invalid arguments: ${parsed.error.message}`);
     }
 
+    if (!parsed.data.allow_duplicate) {
+      const duplicates = this.lifecycle.findDuplicates({ ...parsed.data, project_id: parsed.data.project_id ?? null });
+      if (duplicates.length > 0) {
+        return buildToolError(
+          `Finding duplicates ${duplicates.map((d) => `#${d.id} '${d.title}'`).join(', ')}. Update or merge it with knowledge.merge_findings, or pass allow_duplicate`,
+          { duplicates }
+        );
+      }
+    }
+
     try {
-      const finding = this.insertFinding(parsed.data);
+      const finding = this.db.transaction(() => this.insertFinding(parsed.data))();
       return buildToolSuccess({ success: true, finding });
     } catch (error) {
       return buildToolError(extractErrorMessage(error));
@@ -32,13 +75,96 @@ export class KnowledgeToolService {
     }
 
     try {
-      const finding = this.updateFindingRecord(parsed.data);
+      const finding = this.db.transaction(() => this.updateFindingRecord(parsed.data))();
+      return buildToolSuccess({ success: true, finding });
+    } catch (error) {
+      return buildToolError(extractErrorMessage(error));
+    }
+  }
+
+  approveFinding(args: unknown) {
+    const parsed = KnowledgeFindingApprovalSchema.safeParse(args);
+    if (!parsed.success) {
+      return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+    }
+
+    try {
+      const finding = this.db.transaction(() => this.approveProposal(parsed.data))();
       return buildToolSuccess({ success: true, finding });
     } catch (error) {
       return buildToolError(extractErrorMessage(error));
     }
   }
 
+  rejectFinding(args: unknown) {
+    const parsed = KnowledgeFindingRejectionSchema.safeParse(args);
+    if (!parsed.success) {
+      return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+    }
+
+    try {
+      const finding = this.db.transaction(() => this.rejectProposal(parsed.data))();
+      return buildToolSuccess({ success: true, finding });
+    } catch (error) {
+      return buildToolError(extractErrorMessage(error));
+    }
+  }
+
+  mergeFindings(args: unknown) {
+    const parsed = KnowledgeFindingMergeSchema.safeParse(args);
+    if (!parsed.success) {
+      return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+    }
+
+    try {
+      const finding = this.db.transaction(() => this.mergeIntoTarget(parsed.data))();
+      return buildToolSuccess({ success: true, finding, merged_ids: parsed.data.source_ids });
+    } catch (error) {
+      return buildToolError(extractErrorMessage(error));
+    }
+  }
+
+  exportFindings(args: unknown) {
+    const parsed = KnowledgeExportArgsSchema.safeParse(args);
+    if (!parsed.success) {
+      return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+    }
+
+    const { format, ...filters } = parsed.data;
+    if (format === 'markdown') {
+      const files = this.bundles.exportMarkdown(filters);
+      return typeof files === 'string' ? buildToolError(files) : buildToolSuccess({ success: true, format, count: files.length, files });
+    }
+    const bundle = this.bundles.exportBundle(filters);
+    return typeof bundle === 'string'
+      ? buildToolError(bundle)
+      : buildToolSuccess({ success: true, format, count: bundle.findings.length, bundle });
+  }
+
+  importFindings(args: unknown) {
+    const parsed = KnowledgeImportArgsSchema.safeParse(args);
+    if (!parsed.success) {
+      return buildToolError(`Invalid arguments: ${parsed.error.message}`);
+    }
+
+    const { bundle, files, strategy, dry_run } = parsed.data;
+    let entries: unknown[];
+    if (files) {
+      entries = files.map((file) => parseKnowledgeMarkdown(file.name, file.content));
+    } else {
+      const parsedBundle = parseKnowledgeBundle(bundle);
+      if (typeof parsedBundle === 'string') return buildToolError(parsedBundle);
+      entries = parsedBundle.findings;
+    }
+
+    try {
+      const report = this.bundles.importEntries(entries, { strategy, dryRun: dry_run, source: 'knowledge.import' });
+      return buildToolSuccess({ success: true, ...report });
+    } catch (error) {
+      return buildToolError(extractErrorMessage(error));
+    }
+  }
+
   private insertFinding(input: KnowledgeFindingInput): KnowledgeFinding {
     if (input.project_id) {
       this.assertProjectExists(input.project_id);
@@ -60,10 +186,12 @@ export class KnowledgeToolService {
         tags,
         source_execution_id,
         source_agent,
+        expires_at,
+        review_by,
         created_at,
         updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -76,17 +204,26 @@ export class KnowledgeToolService {
       tagsJson,
       input.source_execution_id ?? null,
       input.source_agent ?? null,
+      input.expires_at ?? null,
+      input.review_by ?? null,
       now,
       now
     );
 
-    return this.getFindingById(Number(result.lastInsertRowid));
+    const id = Number(result.lastInsertRowid);
+    this.lifecycle.recordRevision(id, 'created');
+    return this.getFindingById(id);
   }
 
   private updateFindingRecord(input: KnowledgeFindingUpdate): KnowledgeFinding {
-    const existing = this.db.prepare(`SELECT * FROM knowledge_findings WHERE id = ?`).get(input.id);
-    if (!existing) {
-      throw new Error(`Finding ${input.id} not found`);
+    const existing = this.getFindingById(input.id);
+    // Leaving the review queue goes through approve/reject, which record the review
+    if ((input.status || input.superseded_by) && (existing.status === 'proposed' || existing.status === 'rejected')) {
+      throw new Error(
+        existing.status === 'proposed'
+          ? `Finding ${input.id} is proposed; approve it with knowledge.approve_finding to change its status`
+          : `Finding ${input.id} was rejected in review; its status cannot be changed`
+      );
     }
 
     const updates: string[] = [];
@@ -112,9 +249,23 @@ export class KnowledgeToolService {
       updates.push('category = ?');
       params.push(input.category);
     }
-    if (input.status) {
+    if (input.superseded_by) {
+      this.assertCanSupersede(input.superseded_by);
+      updates.push(`status = 'deprecated'`, 'superseded_by = ?');
+      params.push(input.superseded_by);
+    } else if (input.status) {
       updates.push('status = ?');
       params.push(input.status);
+      // Reactivating a replaced finding detaches it from its replacement
+      if (input.status === 'active') updates.push('superseded_by = NULL');
+    }
+    if (input.expires_at !== undefined) {
+      updates.push('expires_at = ?');
+      params.push(input.expires_at);
+    }
+    if (input.review_by !== undefined) {
+      updates.push('review_by = ?');
+      params.push(input.review_by);
     }
 
     const now = new Date().toISOString();
@@ -122,9 +273,104 @@ export class KnowledgeToolService {
     params.push(now, input.id);
 
     this.db.prepare(`UPDATE knowledge_findings SET ${updates.join(', ')} WHERE id = ?`).run(...params);
+    this.lifecycle.recordRevision(input.id, input.superseded_by ? 'superseded' : 'updated', input.note ?? null);
     return this.getFindingById(input.id);
   }
 
+  /**
+   * Fold source findings into an active target: the target takes the union of their tags and,
+   * unless given, the highest severity; each source is deprecated with superseded_by = target
+   */
+  private mergeIntoTarget(input: KnowledgeFindingMerge): KnowledgeFinding {
+    const target = this.getFindingById(input.target_id);
+    if (target.status !== 'active') {
+      throw new Error(`Finding ${target.id} is ${target.status}; only active findings can absorb others`);
+    }
+
+    const sources = input.source_ids.map((id) => this.getFindingById(id));
+    const unmergeable = sources.find((source) => source.status !== 'active' && source.status !== 'proposed');
+    if (unmergeable) {
+      throw new Error(`Finding ${unmergeable.id} is ${unmergeable.status}; only active or proposed findings can be merged`);
+    }
+
+    const all = [target, ...sources];
+    const severityRank = (severity: KnowledgeFinding['severity']) => KnowledgeSeveritySchema.options.indexOf(severity);
+    const severity = input.severity ?? all.map((f) => f.severity).reduce((a, b) => (severityRank(b) > severityRank(a) ? b : a));
+    const tags = [...new Set(all.flatMap((f) => f.tags))];
+
+    this.db
+      .prepare(`UPDATE knowledge_findings SET title = ?, content = ?, severity = ?, tags = ?, updated_at = ? WHERE id = ?`)
+      .run(input.title ?? target.title, input.content ?? target.content, severity, JSON.stringify(tags), new Date().toISOString(), target.id);
+    const sourceList = input.source_ids.map((id) => `#${id}`).join(', ');
+    this.lifecycle.recordRevision(target.id, 'merged', input.note ? `Merged ${sourceList}: ${input.note}` : `Merged ${sourceList}`);
+
+    const supersede = this.db.prepare(
+      `UPDATE knowledge_findings SET status = 'deprecated', superseded_by = ?, updated_at = ? WHERE id = ?`
+    );
+    for (const source of sources) {
+      supersede.run(target.id, new Date().toISOString(), source.id);
+      this.lifecycle.recordRevision(source.id, 'superseded', `Merged into #${target.id}`);
+    }
+
+    this.telemetry.findingMerged(target.id, input.source_ids);
+    return this.getFindingById(target.id);
+  }
+
+  /**
+   * Accept a proposed finding, applying any reviewer edits, and make it active
+   */
+  private approveProposal(input: KnowledgeFindingApproval): KnowledgeFinding {
+    const proposal = this.getProposal(input.id);
+
+    const updates = [`status = 'active'`, 'review_note = ?', 'reviewed_at = ?'];
+    const params: unknown[] = [input.note ?? null, new Date().toISOString()];
+
+    if (input.title) {
+      updates.push('title = ?');
+      params.push(input.title);
+    }
+    if (input.content) {
+      updates.push('content = ?');
+      params.push(input.content);
+    }
+    if (input.tags) {
+      updates.push('tags = ?');
+      params.push(JSON.stringify(input.tags));
+    }
+    if (input.severity) {
+      updates.push('severity = ?');
+      params.push(input.severity);
+    }
+    if (input.category) {
+      updates.push('category = ?');
+      params.push(input.category);
+    }
+
+    this.db.prepare(`UPDATE knowledge_findings SET ${updates.join(', ')} WHERE id = ?`).run(...params, input.id);
+    this.lifecycle.recordRevision(input.id, 'approved', input.note ?? null);
+    this.telemetry.findingReviewed(proposal.source_execution_id, input.id, 'approved', input.note ?? null);
+    return this.getFindingById(input.id);
+  }
+
+  private rejectProposal(input: KnowledgeFindingRejection): KnowledgeFinding {
+    const proposal = this.getProposal(input.id);
+
+    this.db
+      .prepare(`UPDATE knowledge_findings SET status = 'rejected', review_note = ?, reviewed_at = ? WHERE id = ?`)
+      .run(input.reason, new Date().toISOString(), input.id);
+    this.lifecycle.recordRevision(input.id, 'rejected', input.reason);
+    this.telemetry.findingReviewed(proposal.source_execution_id, input.id, 'rejected', input.reason);
+    return this.getFindingById(input.id);
+  }
+
+  private getProposal(id: number): KnowledgeFinding {
+    const finding = this.getFindingById(id);
+    if (finding.status !== 'proposed') {
+      throw new Error(`Finding ${id} is ${finding.status}; only proposed findings can be reviewed`);
+    }
+    return finding;
+  }
+
   private getFindingById(id: number): KnowledgeFinding {
     const row = this.db.prepare(`SELECT * FROM knowledge_findings WHERE id = ?`).get(id);
     if (!row) {
@@ -133,6 +379,13 @@ export class KnowledgeToolService {
     return transformKnowledgeFindingRow(row);
   }
 
+  private assertCanSupersede(replacementId: number): void {
+    const replacement = this.getFindingById(replacementId);
+    if (replacement.status !== 'active') {
+      throw new Error(`Finding ${replacementId} is ${replacement.status}; a finding can only be superseded by an active one`);
+    }
+  }
+
   private assertProjectExists(projectId: number): void {
     const project = this.db.prepare(`SELECT id FROM project_associations WHERE id = ?`).get(projectId);
     if (!project) {
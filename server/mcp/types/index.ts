@@ -1,24 +1,23 @@
 import { z } from 'zod';
+import {
+  FindingChangeSchema,
+  FindingDateSchema,
+  KnowledgeCategorySchema,
+  KnowledgeScopeSchema,
+  KnowledgeSeveritySchema,
+  KnowledgeStatusSchema,
+} from '../../utils/knowledge-schemas.js';
+
+export * from '../../utils/knowledge-schemas.js';
 
 // Artifact Types (Hoisted)
 export const ArtifactTypeSchema = z.enum(['file', 'data', 'report', 'finding']);
 export type ArtifactType = z.infer<typeof ArtifactTypeSchema>;
 
-// Knowledge Base Types
-export const KnowledgeScopeSchema = z.enum(['global', 'project', 'system']);
-export type KnowledgeScope = z.infer<typeof KnowledgeScopeSchema>;
-
-export const KnowledgeCategorySchema = z.enum(['security', 'architecture', 'performance', 'constraint', 'pattern']);
-export type KnowledgeCategory = z.infer<typeof KnowledgeCategorySchema>;
-
-export const KnowledgeSeveritySchema = z.enum(['info', 'low', 'medium', 'high', 'critical']);
-export type KnowledgeSeverity = z.infer<typeof KnowledgeSeveritySchema>;
-
-export const KnowledgeStatusSchema = z.enum(['active', 'deprecated']);
-export type KnowledgeStatus = z.infer<typeof KnowledgeStatusSchema>;
-
+// Knowledge Base Types (scope, category, severity, status and bundles live in utils/knowledge-schemas)
 export const KnowledgeFindingSchema = z.object({
   id: z.number().int(),
+  uid: z.string(), // Stable across databases; exported bundles upsert by it
   scope: KnowledgeScopeSchema,
   project_id: z.number().int().nullable(),
   category: KnowledgeCategorySchema,
@@ -29,6 +28,11 @@ export const KnowledgeFindingSchema = z.object({
   tags: z.array(z.string()).optional().default([]),
   source_execution_id: z.string().nullable(),
   source_agent: z.string().nullable(),
+  review_note: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  superseded_by: z.number().int().nullable(),
+  expires_at: z.string().nullable(),
+  review_by: z.string().nullable(),
   created_at: z.string(),
   updated_at: z.string(),
 });
@@ -45,6 +49,9 @@ export const KnowledgeFindingInputSchema = z
     tags: z.array(z.string()).optional(),
     source_execution_id: z.string().min(1).optional(),
     source_agent: z.string().min(1).optional(),
+    expires_at: FindingDateSchema.optional().describe('Deprecate the finding automatically after this date'),
+    review_by: FindingDateSchema.optional().describe('Date by which the finding should be re-checked'),
+    allow_duplicate: z.boolean().optional().describe('Store the finding even when it duplicates an existing one'),
   })
   .superRefine((data, ctx) => {
     if (data.scope === 'project' && !data.project_id) {
@@ -65,19 +72,130 @@ export const KnowledgeFindingUpdateSchema = z
     tags: z.array(z.string()).optional(),
     severity: KnowledgeSeveritySchema.optional(),
     category: KnowledgeCategorySchema.optional(),
-    status: KnowledgeStatusSchema.optional(),
+    // proposed/rejected are set through the review tools, not by direct edits
+    status: KnowledgeStatusSchema.extract(['active', 'deprecated']).optional(),
+    superseded_by: z.number().int().positive().optional().describe('Active finding that replaces this one; deprecates it'),
+    expires_at: FindingDateSchema.nullable().optional().describe('null clears the expiry'),
+    review_by: FindingDateSchema.nullable().optional().describe('null clears the review date'),
+    note: z.string().min(1).max(1000).optional().describe('Why the finding changed, kept with its revision'),
   })
   .refine((data) => {
-    const { title, content, tags, severity, category, status } = data;
-    return Boolean(title || content || tags || severity || category || status);
-  }, 'At least one field besides id must be provided');
+    const { title, content, tags, severity, category, status, superseded_by, expires_at, review_by } = data;
+    return Boolean(title || content || tags || severity || category || status || superseded_by) || expires_at !== undefined || review_by !== undefined;
+  }, 'At least one field besides id and note must be provided')
+  .refine((data) => !(data.superseded_by && data.status === 'active'), 'A superseded finding cannot stay active')
+  .refine((data) => data.superseded_by !== data.id, 'A finding cannot supersede itself');
 export type KnowledgeFindingUpdate = z.infer<typeof KnowledgeFindingUpdateSchema>;
 
+export const KnowledgeFindingApprovalSchema = z.object({
+  id: z.number().int().positive(),
+  title: z.string().min(1).optional(),
+  content: z.string().min(1).optional(),
+  tags: z.array(z.string()).optional(),
+  severity: KnowledgeSeveritySchema.optional(),
+  category: KnowledgeCategorySchema.optional(),
+  note: z.string().min(1).max(1000).optional().describe('Why the finding was accepted, or what was changed'),
+});
+export type KnowledgeFindingApproval = z.infer<typeof KnowledgeFindingApprovalSchema>;
+
+export const KnowledgeFindingRejectionSchema = z.object({
+  id: z.number().int().positive(),
+  reason: z.string().min(1).max(1000).describe('Why the finding was declined'),
+});
+export type KnowledgeFindingRejection = z.infer<typeof KnowledgeFindingRejectionSchema>;
+
+export const KnowledgeFindingMergeSchema = z
+  .object({
+    target_id: z.number().int().positive().describe('Active finding that absorbs the others'),
+    source_ids: z.array(z.number().int().positive()).min(1).max(50).describe('Findings merged into the target; they are deprecated'),
+    title: z.string().min(1).optional(),
+    content: z.string().min(1).optional(),
+    severity: KnowledgeSeveritySchema.optional().describe('Defaults to the highest severity among the merged findings'),
+    note: z.string().min(1).max(1000).optional(),
+  })
+  .refine((data) => !data.source_ids.includes(data.target_id), 'target_id cannot also be a source')
+  .refine((data) => new Set(data.source_ids).size === data.source_ids.length, 'source_ids must be unique');
+export type KnowledgeFindingMerge = z.infer<typeof KnowledgeFindingMergeSchema>;
+
+export const KnowledgeFindingRevisionSchema = z.object({
+  revision: z.number().int(),
+  change: FindingChangeSchema,
+  note: z.string().nullable(),
+  snapshot: z.record(z.string(), z.unknown()), // The finding's fields after the change
+  created_at: z.string(),
+});
+export type KnowledgeFindingRevision = z.infer<typeof KnowledgeFindingRevisionSchema>;
+
+export const KnowledgeSearchArgsSchema = z.object({
+  q: z.string().min(1).max(500).describe('Free-text query; words are matched against title, content and tags'),
+  match: z.enum(['all', 'any']).default('all').describe("'all' requires every word, 'any' ranks findings matching some of them"),
+  scope: KnowledgeScopeSchema.optional(),
+  project_id: z.number().int().positive().optional().describe('Findings of this project plus global and system findings'),
+  category: KnowledgeCategorySchema.optional(),
+  min_severity: KnowledgeSeveritySchema.optional(),
+  tags: z.array(z.string().min(1)).optional().describe('Findings must carry every listed tag'),
+  status: KnowledgeStatusSchema.default('active'),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+export type KnowledgeSearchArgs = z.infer<typeof KnowledgeSearchArgsSchema>;
+
+export const KnowledgeSearchHitSchema = z.object({
+  finding: KnowledgeFindingSchema,
+  score: z.number(), // Negated BM25: higher is more relevant
+  title_highlight: z.string(),
+  snippet: z.string(),
+});
+export type KnowledgeSearchHit = z.infer<typeof KnowledgeSearchHitSchema>;
+
+export const KnowledgeSearchResultSchema = z.object({
+  query: z.string(),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+  next_offset: z.number().int().nullable(),
+  results: z.array(KnowledgeSearchHitSchema),
+});
+export type KnowledgeSearchResult = z.infer<typeof KnowledgeSearchResultSchema>;
+
+export const KnowledgeExportArgsSchema = z.object({
+  format: z.enum(['json', 'markdown']).default('json').describe("'markdown' returns one file per finding"),
+  scope: KnowledgeScopeSchema.optional(),
+  project_id: z.number().int().positive().optional().describe('Only findings of this project'),
+  project_path: z.string().min(1).optional().describe('Only findings of the project at this path'),
+  category: KnowledgeCategorySchema.optional(),
+  tags: z.array(z.string().min(1)).optional().describe('Findings must carry every listed tag'),
+  status: KnowledgeStatusSchema.default('active'),
+});
+export type KnowledgeExportArgs = z.infer<typeof KnowledgeExportArgsSchema>;
+
+// Same strategies as the content sync; the bundle plays the part of the filesystem
+export const KnowledgeConflictStrategySchema = z.enum(['keep-newest', 'keep-filesystem', 'keep-database', 'manual']);
+
+export const KnowledgeBundleFileSchema = z.object({
+  name: z.string().min(1).describe('File name; its stem is the uid when the frontmatter has none'),
+  content: z.string(),
+});
+export type KnowledgeBundleFile = z.infer<typeof KnowledgeBundleFileSchema>;
+
+export const KnowledgeImportArgsSchema = z
+  .object({
+    bundle: z.unknown().optional().describe('JSON bundle from knowledge.export, as an object or a string'),
+    files: z.array(KnowledgeBundleFileSchema).min(1).max(500).optional().describe('Markdown files from knowledge.export'),
+    strategy: KnowledgeConflictStrategySchema.default('keep-newest').describe(
+      "When a finding changed on both sides: 'keep-newest' compares updated_at, 'keep-filesystem' takes the bundle, 'keep-database' keeps the local finding, 'manual' reports it"
+    ),
+    dry_run: z.boolean().default(false).describe('Report what would change without writing'),
+  })
+  .refine((data) => (data.bundle === undefined) !== (data.files === undefined), 'Provide either bundle or files');
+export type KnowledgeImportArgs = z.infer<typeof KnowledgeImportArgsSchema>;
+
 // Workflow States
 export const WorkflowStateSchema = z.enum([
   'idle',
   'running',
   'paused',
+  'awaiting_approval',
   'completed',
   'failed',
   'abandoned',
@@ -85,7 +203,7 @@ export const WorkflowStateSchema = z.enum([
 ]);
 export type WorkflowState = z.infer<typeof WorkflowStateSchema>;
 
-export const StepStatusSchema = z.enum(['pending', 'running', 'completed', 'failed']);
+export const StepStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'skipped']);
 export type StepStatus = z.infer<typeof StepStatusSchema>;
 
 // Token Types
@@ -94,6 +212,7 @@ export const TokenPayloadSchema = z.object({
   step_name: z.string().min(1),
   issued_at: z.string().datetime(),
   nonce: z.string().min(1),
+  kid: z.string().min(1),
 });
 export type TokenPayload = z.infer<typeof TokenPayloadSchema>;
 
@@ -112,6 +231,9 @@ export const WorkflowExecutionSchema = z.object({
   completed_at: z.string().datetime().nullable(),
   duration_ms: z.number().int().nullable(),
   metadata: z.record(z.string(), z.unknown()).nullable(),
+  project_id: z.number().int().nullable(),
+  workflow_version_id: z.number().int().nullable(),
+  parent_execution_id: z.string().nullable(),
 });
 export type WorkflowExecution = z.infer<typeof WorkflowExecutionSchema>;
 
@@ -126,6 +248,10 @@ export const WorkflowStepSchema = z.object({
   duration_ms: z.number().int().nullable(),
   output: z.record(z.string(), z.unknown()).nullable(),
   token: z.string().nullable(),
+  attempt: z.number().int().min(1),
+  retry_at: z.string().datetime().nullable(),
+  child_execution_id: z.string().nullable(), // Sub-workflow steps: the child execution they wait on
+  iteration: z.number().int().min(1), // Bumped each time an onOutcome transition reopens the phase
 });
 export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
 
@@ -144,6 +270,8 @@ export type StepArtifact = z.infer<typeof StepArtifactSchema>;
 
 export const StepOutputSchema = z.object({
   summary: z.string(),
+  verdict: z.string().min(1).max(100).optional(), // Read by phase `when` conditions and `onOutcome` transitions
+  data: z.record(z.string(), z.unknown()).optional(),
   artifacts: z.array(StepArtifactSchema).optional(),
   findings: z.array(z.string()).optional(),
   next_step_recommendation: z.string().optional(),
@@ -157,6 +285,21 @@ export const StepOutputSchema = z.object({
 });
 export type StepOutput = z.infer<typeof StepOutputSchema>;
 
+export const ExecutionErrorCodeSchema = z.enum(['step_failed', 'workflow_timeout', 'unmet_dependencies', 'max_iterations']);
+export type ExecutionErrorCode = z.infer<typeof ExecutionErrorCodeSchema>;
+
+// Recorded under workflow_executions_v2.metadata.error when an execution fails
+export const ExecutionErrorSchema = z.object({
+  code: ExecutionErrorCodeSchema,
+  message: z.string(),
+  step_name: z.string().optional(),
+  agent_name: z.string().optional(),
+  reason: z.string().optional(),
+  attempts: z.number().int().optional(),
+  failed_at: z.string().datetime(),
+});
+export type ExecutionError = z.infer<typeof ExecutionErrorSchema>;
+
 export const WorkflowArtifactSchema = z.object({
   id: z.number().int(),
   execution_id: z.string().min(1),
@@ -177,14 +320,33 @@ export const TelemetryEventTypeSchema = z.enum([
   'workflow_started',
   'workflow_completed',
   'workflow_failed',
+  'workflow_timed_out',
   'workflow_state_transition',
   'step_started',
   'step_completed',
   'step_failed',
+  'step_timed_out',
+  'step_output_rejected',
+  'step_retry_scheduled',
+  'step_escalated',
+  'step_skipped',
+  'phase_transition',
+  'subworkflow_started',
+  'subworkflow_finished',
+  'approval_requested',
+  'approval_decided',
   'token_generated',
   'token_validated',
   'token_expired',
+  'token_revoked',
   'artifact_stored',
+  'finding_proposed',
+  'finding_reviewed',
+  'finding_injected',
+  'finding_duplicate',
+  'finding_merged',
+  'finding_expired',
+  'resource_synced',
   'error',
 ]);
 export type TelemetryEventType = z.infer<typeof TelemetryEventTypeSchema>;
@@ -217,6 +379,123 @@ export const NextStepArgsSchema = z.object({
 });
 export type NextStepArgs = z.infer<typeof NextStepArgsSchema>;
 
+// What a step's dependsOn phases produced, trimmed to the configured size budget
+export const UpstreamArtifactSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  artifact_type: z.string(),
+  content_type: z.string(),
+  size_bytes: z.number().int(),
+  uri: z.string(),
+  content: z.string().optional(), // Omitted once the budget is spent; read uri for the full artifact
+  truncated: z.boolean().optional(),
+});
+export type UpstreamArtifact = z.infer<typeof UpstreamArtifactSchema>;
+
+export const UpstreamStepSchema = z.object({
+  step_name: z.string(),
+  agent_name: z.string(),
+  summary: z.string().nullable(),
+  verdict: z.string().nullable(),
+  next_step_recommendation: z.string().nullable(),
+  artifacts: z.array(UpstreamArtifactSchema),
+});
+export type UpstreamStep = z.infer<typeof UpstreamStepSchema>;
+
+export const StepContextSchema = z.object({
+  upstream: z.array(UpstreamStepSchema),
+  budget_chars: z.number().int(),
+  truncated: z.boolean(),
+});
+export type StepContext = z.infer<typeof StepContextSchema>;
+
+export const InjectedFindingSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  content: z.string(),
+  scope: KnowledgeScopeSchema,
+  category: KnowledgeCategorySchema,
+  severity: KnowledgeSeveritySchema,
+  tags: z.array(z.string()),
+  score: z.number(),
+  reasons: z.array(z.string()), // Signals that ranked it: severity:<level>, project, tag:<name>, agent, relevance
+});
+export type InjectedFinding = z.infer<typeof InjectedFindingSchema>;
+
+export const StepKnowledgeSchema = z.object({
+  findings: z.array(InjectedFindingSchema),
+  budget_chars: z.number().int(),
+  truncated: z.boolean(),
+});
+export type StepKnowledge = z.infer<typeof StepKnowledgeSchema>;
+
+export const ReadyStepSchema = z.object({
+  execution_id: z.string(), // Differs from the call's execution when the step belongs to a sub-workflow
+  step_name: z.string(),
+  agent_name: z.string(),
+  iteration: z.number().int().min(1),
+  agent_content: z.string(),
+  applied_rules: z.array(z.string()),
+  token: z.string(),
+  context: StepContextSchema,
+  knowledge: StepKnowledgeSchema,
+});
+export type ReadyStep = z.infer<typeof ReadyStepSchema>;
+
+export const FailStepArgsSchema = z.object({
+  token: z.string().min(1).describe('Continuation token of the step that could not be finished'),
+  error: z.string().min(1).max(2000).describe('Why the step could not be completed'),
+  artifacts: z.array(StepArtifactSchema).optional().describe('Partial artifacts produced before the failure'),
+});
+export type FailStepArgs = z.infer<typeof FailStepArgsSchema>;
+
+export const ExecutionControlArgsSchema = z.object({
+  execution_id: z.string().min(1).describe('Execution to pause, resume or abandon'),
+  reason: z.string().min(1).max(500).describe('Why; recorded with the state transition'),
+});
+export type ExecutionControlArgs = z.infer<typeof ExecutionControlArgsSchema>;
+
+export const ApprovalDecisionSchema = z.enum(['approved', 'rejected']);
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
+
+// Where a decision was made; client decisions are recorded by the client and applied by the server
+export const ApprovalSourceSchema = z.enum(['mcp', 'cli', 'client']);
+export type ApprovalSource = z.infer<typeof ApprovalSourceSchema>;
+
+export const ApproveArgsSchema = z.object({
+  execution_id: z.string().min(1).describe('Execution awaiting approval'),
+  comment: z.string().min(1).max(2000).optional().describe('Note recorded with the approval'),
+  decided_by: z.string().min(1).max(200).optional().describe('Who approved'),
+});
+export type ApproveArgs = z.infer<typeof ApproveArgsSchema>;
+
+export const RejectArgsSchema = z.object({
+  execution_id: z.string().min(1).describe('Execution awaiting approval'),
+  comment: z.string().min(1).max(2000).describe('Why; passed to the phase the workflow returns to'),
+  decided_by: z.string().min(1).max(200).optional().describe('Who rejected'),
+});
+export type RejectArgs = z.infer<typeof RejectArgsSchema>;
+
+export const WorkflowRecommendArgsSchema = z.object({
+  description: z.string().min(1).max(2000).describe('Free-text description of the task'),
+  limit: z.number().int().min(1).max(20).default(5),
+});
+export type WorkflowRecommendArgs = z.infer<typeof WorkflowRecommendArgsSchema>;
+
+export const WorkflowRecommendationSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  score: z.number(),
+  matched_keywords: z.array(z.string()), // Trigger keywords whose every word is in the description
+  matched_tags: z.array(z.string()),
+  relevance: z.number(), // FTS relevance of name, description, content and tags, 1 for the best match
+  success_rate: z.number().nullable(), // Completed share of finished executions; null before any finished
+  finished_executions: z.number().int(),
+  complexity: z.string().nullable(),
+  complexity_hint: z.string().nullable(), // From the workflow registry
+});
+export type WorkflowRecommendation = z.infer<typeof WorkflowRecommendationSchema>;
+
 export const NextStepResultSchema = z.object({
   success: z.boolean(),
   execution_id: z.string(),
@@ -225,18 +504,58 @@ export const NextStepResultSchema = z.object({
   workflow_state: WorkflowStateSchema,
   message: z.string().optional(),
   new_token: z.string().optional(),
+  steps: z.array(ReadyStepSchema).optional(),
 });
 export type NextStepResult = z.infer<typeof NextStepResultSchema>;
 
 // Workflow Definition
+// A test on one field of a step output (dot path, e.g. 'verdict' or 'data.risk'); one operator is set
+export const OutcomeConditionSchema = z.object({
+  field: z.string(),
+  equals: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(),
+  in: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  exists: z.boolean().optional(),
+});
+export type OutcomeCondition = z.infer<typeof OutcomeConditionSchema>;
+
+export const PhaseConditionSchema = OutcomeConditionSchema.extend({
+  phase: z.string().optional(), // Whose output is read; defaults to the last dependsOn phase
+});
+export type PhaseCondition = z.infer<typeof PhaseConditionSchema>;
+
+export const PhaseTransitionSchema = z.object({
+  when: OutcomeConditionSchema,
+  goto: z.string(), // This phase or one upstream of it; it and everything downstream run again
+});
+export type PhaseTransition = z.infer<typeof PhaseTransitionSchema>;
+
+export const PhaseApprovalSchema = z.object({
+  onReject: z.string(), // Upstream phase a rejection sends the workflow back to
+});
+export type PhaseApproval = z.infer<typeof PhaseApprovalSchema>;
+
 export const WorkflowPhaseSchema = z.object({
   phase: z.string(),
-  agent: z.string(),
+  agent: z.string().optional(),
+  workflow: z.string().optional(), // Sub-workflow phase: runs this workflow as a child execution instead of an agent
+  approval: PhaseApprovalSchema.optional(), // Approval phase: waits for workflow.approve or workflow.reject
   description: z.string(),
   dependsOn: z.array(z.string()).optional(),
+  allowParallel: z.boolean().optional(),
+  outputContract: z.string().optional(),
+  when: PhaseConditionSchema.optional(), // Skipped unless this holds
+  onOutcome: z.array(PhaseTransitionSchema).optional(), // First match wins, checked when the phase completes
+  maxIterations: z.number().int().min(1).optional(), // How often transitions may run this phase
 });
 export type WorkflowPhase = z.infer<typeof WorkflowPhaseSchema>;
 
+// Kept in workflow_executions_v2.metadata.iterations for phases reopened by a transition
+export const PhaseIterationSchema = z.object({
+  iteration: z.number().int().min(1),
+  reopened_by: z.string().optional(), // Phase whose outcome sent the workflow back here
+});
+export type PhaseIteration = z.infer<typeof PhaseIterationSchema>;
+
 export const WorkflowDefinitionSchema = z.object({
   name: z.string(),
   description: z.string(),
@@ -245,3 +564,50 @@ export const WorkflowDefinitionSchema = z.object({
   complexity: z.enum(['simple', 'moderate', 'high']).optional(),
 });
 export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+
+// Workflow Versions - immutable definitions executions are pinned to
+export const WorkflowVersionSchema = z.object({
+  id: z.number().int(),
+  workflow_name: z.string(),
+  version: z.number().int().min(1),
+  content_hash: z.string(),
+  description: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()),
+  complexity: z.string().nullable(),
+  phases: z.array(WorkflowPhaseSchema),
+  created_at: z.string(),
+});
+export type WorkflowVersion = z.infer<typeof WorkflowVersionSchema>;
+
+export const WorkflowFieldChangeSchema = z.object({
+  field: z.string(),
+  from: z.unknown(),
+  to: z.unknown(),
+});
+export type WorkflowFieldChange = z.infer<typeof WorkflowFieldChangeSchema>;
+
+export const WorkflowVersionDiffSchema = z.object({
+  workflow_name: z.string(),
+  from: z.number().int(),
+  to: z.number().int(),
+  fields: z.array(WorkflowFieldChangeSchema), // description, complexity, tags
+  phases: z.object({
+    added: z.array(z.string()),
+    removed: z.array(z.string()),
+    changed: z.array(z.object({ phase: z.string(), changes: z.array(WorkflowFieldChangeSchema) })),
+    reordered: z.boolean(), // Phases present in both versions appear in a different order
+  }),
+  content: z.array(z.string()), // Line diff of the markdown body: '+ ' added, '- ' removed; empty when unchanged
+});
+export type WorkflowVersionDiff = z.infer<typeof WorkflowVersionDiffSchema>;
+
+export const WorkflowDetailsQuerySchema = z
+  .object({
+    version: z.number().int().min(1).optional().describe('Return this version instead of the current definition'),
+    from: z.number().int().min(1).optional().describe('Diff from this version (with to)'),
+    to: z.number().int().min(1).optional().describe('Diff to this version (with from)'),
+  })
+  .refine((data) => (data.from === undefined) === (data.to === undefined), 'from and to must be given together')
+  .refine((data) => data.version === undefined || data.from === undefined, 'Use version or from/to, not both');
+export type WorkflowDetailsQuery = z.infer<typeof WorkflowDetailsQuerySchema>;
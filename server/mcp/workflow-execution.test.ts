@@ -3,15 +3,38 @@
  * Tests the complete workflow lifecycle from start to completion
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import Database from 'better-sqlite3';
-import { mkdtempSync, rmSync } from 'fs';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import type { WorkflowPhase } from './types/index.js';
-import { TokenService } from './core/token-service.js';
+import { TokenService, loadTokenSigningKeys } from './core/token-service.js';
 import { WorkflowStateMachine } from './core/workflow-state-machine.js';
 import { StepExecutor } from './core/step-executor.js';
+import { StepContextBuilder } from './core/step-context.js';
+import { PromptComposer } from './core/prompt-composer.js';
+import { KnowledgeToolService } from './tools/knowledge.js';
+import { KnowledgeResourceHandlers } from './resources/knowledge.js';
+import { KnowledgeSearch } from './core/knowledge-search.js';
+import { KnowledgeInjector } from './core/knowledge-injector.js';
+import { FindingLifecycle } from './core/finding-lifecycle.js';
+import { KnowledgeBundles } from './core/knowledge-bundle.js';
+import { WorkflowVersions } from './core/workflow-versions.js';
+import { WorkflowRecommender } from './core/workflow-recommender.js';
+import { loadExecutionPlan, loadWorkflowPlan } from './core/execution-watchdog.js';
+import { ResourceHandlers } from './resources/index.js';
+import { RESOURCE_TEMPLATES, ResourceCompletions } from './resources/templates.js';
+import { ResourceSubscriptions, executionIdOf } from './resources/subscriptions.js';
+import { KnowledgeSearchArgsSchema, WorkflowRecommendArgsSchema } from './types/index.js';
+import { McpHttpServer } from './http-transport.js';
+import { getExecutionPolicy } from '../utils/execution-policies.js';
+import { discoverMigrations } from '../database/migrations/discovery.js';
+import { MigrationRunner } from '../database/migrations/runner.js';
 
 describe('Workflow Execution Integration', () => {
   let db: Database.Database;
@@ -20,6 +43,9 @@ describe('Workflow Execution Integration', () => {
   let stateMachine: WorkflowStateMachine;
   let stepExecutor: StepExecutor;
 
+  // Tool handlers return their JSON payload as the first text block
+  const toolResult = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text);
+
   beforeEach(() => {
     // Create temporary database
     tmpDir = mkdtempSync(join(tmpdir(), 'midex-test-'));
@@ -36,7 +62,25 @@ describe('Workflow Execution Integration', () => {
         updated_at TEXT NOT NULL,
         completed_at TEXT,
         duration_ms INTEGER,
-        metadata TEXT
+        metadata TEXT,
+        project_id INTEGER,
+        workflow_version_id INTEGER,
+        parent_execution_id TEXT
+      );
+
+      CREATE TABLE workflow_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workflow_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        content_hash TEXT NOT NULL,
+        description TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tags TEXT,
+        complexity TEXT,
+        phases TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(workflow_name, version),
+        UNIQUE(workflow_name, content_hash)
       );
 
       CREATE TABLE workflow_steps_v2 (
@@ -50,7 +94,25 @@ describe('Workflow Execution Integration', () => {
         duration_ms INTEGER,
         output TEXT,
         token TEXT,
-        UNIQUE(execution_id, step_name)
+        attempt INTEGER NOT NULL DEFAULT 1,
+        retry_at TEXT,
+        child_execution_id TEXT,
+        iteration INTEGER NOT NULL DEFAULT 1,
+        UNIQUE(execution_id, step_name, iteration)
+      );
+
+      CREATE TABLE workflow_approvals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        execution_id TEXT NOT NULL,
+        step_name TEXT NOT NULL,
+        iteration INTEGER NOT NULL DEFAULT 1,
+        decision TEXT NOT NULL,
+        comment TEXT,
+        decided_by TEXT,
+        source TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        applied_at TEXT,
+        UNIQUE(execution_id, step_name, iteration)
       );
 
       CREATE TABLE workflow_artifacts_v2 (
@@ -66,6 +128,67 @@ describe('Workflow Execution Integration', () => {
         created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
       );
 
+      CREATE TABLE contracts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        schema_id TEXT,
+        content TEXT NOT NULL,
+        path TEXT,
+        file_hash TEXT
+      );
+
+      CREATE TABLE knowledge_findings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scope TEXT NOT NULL,
+        project_id INTEGER,
+        category TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('proposed', 'active', 'deprecated', 'rejected')),
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tags TEXT,
+        source_execution_id TEXT,
+        source_agent TEXT,
+        review_note TEXT,
+        reviewed_at TEXT,
+        superseded_by INTEGER,
+        expires_at TEXT,
+        review_by TEXT,
+        uid TEXT UNIQUE,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        CHECK(scope != 'project' OR project_id IS NOT NULL)
+      );
+      CREATE TRIGGER trg_knowledge_findings_uid AFTER INSERT ON knowledge_findings WHEN new.uid IS NULL BEGIN
+        UPDATE knowledge_findings SET uid = lower(hex(randomblob(16))) WHERE id = new.id;
+      END;
+
+      CREATE VIRTUAL TABLE knowledge_findings_fts USING fts5(
+        title, content, tags, category, scope, content='knowledge_findings', content_rowid='id'
+      );
+      CREATE TRIGGER trg_knowledge_findings_insert AFTER INSERT ON knowledge_findings BEGIN
+        INSERT INTO knowledge_findings_fts(rowid, title, content, tags, category, scope)
+        VALUES (new.id, new.title, new.content, new.tags, new.category, new.scope);
+      END;
+      CREATE TRIGGER trg_knowledge_findings_update AFTER UPDATE ON knowledge_findings BEGIN
+        INSERT INTO knowledge_findings_fts(knowledge_findings_fts, rowid, title, content, tags, category, scope)
+        VALUES ('delete', old.id, old.title, old.content, old.tags, old.category, old.scope);
+        INSERT INTO knowledge_findings_fts(rowid, title, content, tags, category, scope)
+        VALUES (new.id, new.title, new.content, new.tags, new.category, new.scope);
+      END;
+
+      CREATE TABLE knowledge_finding_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        finding_id INTEGER NOT NULL,
+        revision INTEGER NOT NULL,
+        change TEXT NOT NULL,
+        note TEXT,
+        snapshot TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(finding_id, revision)
+      );
+
       CREATE TABLE telemetry_events_v2 (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         event_type TEXT NOT NULL,
@@ -75,10 +198,17 @@ describe('Workflow Execution Integration', () => {
         metadata TEXT,
         created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
       );
+
+      CREATE TABLE token_signing_keys (
+        id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO token_signing_keys (id, secret) VALUES ('local', 'test-secret');
     `);
 
     // Initialize services
-    tokenService = new TokenService();
+    tokenService = new TokenService(loadTokenSigningKeys(db));
     stateMachine = new WorkflowStateMachine(db);
     stepExecutor = new StepExecutor(db);
   });
@@ -113,23 +243,47 @@ describe('Workflow Execution Integration', () => {
     });
 
     it('should reject expired tokens', () => {
-      // Create token with old timestamp
-      const oldDate = new Date(Date.now() - 25 * 60 * 60 * 1000); // 25 hours ago
-      const payload = {
-        execution_id: 'exec_123',
-        step_name: 'step_1',
-        issued_at: oldDate.toISOString(),
-        nonce: 'test_nonce',
-      };
-
-      const json = JSON.stringify(payload);
-      const base64 = Buffer.from(json, 'utf-8').toString('base64');
-      const base64url = base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+      // Issue the token 25 hours ago
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(Date.now() - 25 * 60 * 60 * 1000));
+      const token = tokenService.generateToken('exec_123', 'step_1');
+      vi.useRealTimers();
 
-      const validation = tokenService.validateToken(base64url);
+      const validation = tokenService.validateToken(token);
       expect(validation.valid).toBe(false);
       expect(validation.error).toContain('expired');
     });
+
+    it('should reject forged and tampered tokens', () => {
+      const payload = { execution_id: 'exec_123', step_name: 'step_1', issued_at: new Date().toISOString(), nonce: 'forged', kid: 'local' };
+      const unsigned = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+      expect(tokenService.validateToken(unsigned).valid).toBe(false);
+
+      const [, signature] = tokenService.generateToken('exec_123', 'step_1').split('.');
+      const tampered = tokenService.validateToken(`${unsigned}.${signature}`);
+      expect(tampered.valid).toBe(false);
+      expect(tampered.error).toContain('signature');
+    });
+
+    it('should sign with the key stored in the database, so every process verifies the same tokens', () => {
+      const token = new TokenService(loadTokenSigningKeys(db)).generateToken('exec_123', 'step_1');
+      expect(new TokenService(loadTokenSigningKeys(db)).validateToken(token).valid).toBe(true);
+
+      db.exec(`DELETE FROM token_signing_keys`);
+      expect(() => loadTokenSigningKeys(db)).toThrow(/No token signing key/);
+    });
+
+    it('should keep verifying tokens signed with a rotated-out key', () => {
+      const previous = { id: 'k1', secret: 'previous-secret' };
+      const current = { id: 'k2', secret: 'current-secret' };
+      const token = new TokenService([previous]).generateToken('exec_123', 'step_1');
+
+      expect(new TokenService([current, previous]).validateToken(token).valid).toBe(true);
+
+      const retired = new TokenService([current]).validateToken(token);
+      expect(retired.valid).toBe(false);
+      expect(retired.error).toContain("unknown key 'k1'");
+    });
   });
 
   describe('Workflow State Machine', () => {
@@ -201,8 +355,8 @@ describe('Workflow Execution Integration', () => {
   describe('Step Executor', () => {
     const testPhases: WorkflowPhase[] = [
       { phase: 'design', agent: 'architect', description: 'Design phase' },
-      { phase: 'implement', agent: 'implementer', description: 'Implementation phase' },
-      { phase: 'review', agent: 'reviewer', description: 'Review phase' },
+      { phase: 'implement', agent: 'implementer', description: 'Implementation phase', dependsOn: ['design'] },
+      { phase: 'review', agent: 'reviewer', description: 'Review phase', dependsOn: ['implement'] },
     ];
 
     it('should start workflow and create first step', () => {
@@ -324,93 +478,1924 @@ describe('Workflow Execution Integration', () => {
       expect(eventTypes).toContain('workflow_started');
       expect(eventTypes).toContain('token_generated');
     });
-  });
 
-  describe('Error Handling', () => {
-    it('should handle missing execution gracefully', () => {
-      const execution = stateMachine.getExecution('nonexistent');
-      expect(execution).toBeNull();
+    it('should schedule phases by dependsOn rather than declaration order', () => {
+      const dagPhases: WorkflowPhase[] = [
+        { phase: 'review', agent: 'reviewer', description: 'Review phase', dependsOn: ['implement'] },
+        { phase: 'implement', agent: 'implementer', description: 'Implementation phase', dependsOn: ['design'] },
+        { phase: 'design', agent: 'architect', description: 'Design phase' },
+      ];
+
+      const startResult = stepExecutor.startWorkflow('test-workflow', 'exec_011', dagPhases);
+      expect(startResult.step_name).toBe('design');
+
+      const step1Result = stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Design completed' }, dagPhases);
+      expect(step1Result.step_name).toBe('implement');
+
+      const step2Result = stepExecutor.continueWorkflow(step1Result.new_token!, { summary: 'Implementation completed' }, dagPhases);
+      expect(step2Result.step_name).toBe('review');
+
+      const step3Result = stepExecutor.continueWorkflow(step2Result.new_token!, { summary: 'Review completed' }, dagPhases);
+      expect(step3Result.workflow_state).toBe('completed');
     });
 
-    it('should reject transition on nonexistent execution', () => {
-      expect(() => {
-        stateMachine.transitionState('nonexistent', 'running');
-      }).toThrow('not found');
+    it('should wait for every dependency before starting a joining phase', () => {
+      const joinPhases: WorkflowPhase[] = [
+        { phase: 'design', agent: 'architect', description: 'Design phase' },
+        { phase: 'review', agent: 'reviewer', description: 'Review phase', dependsOn: ['design', 'security'] },
+        { phase: 'security', agent: 'security-specialist', description: 'Security phase', dependsOn: ['design'] },
+      ];
+
+      const startResult = stepExecutor.startWorkflow('test-workflow', 'exec_012', joinPhases);
+      const step1Result = stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Design completed' }, joinPhases);
+      expect(step1Result.step_name).toBe('security');
+
+      const step2Result = stepExecutor.continueWorkflow(step1Result.new_token!, { summary: 'Security completed' }, joinPhases);
+      expect(step2Result.step_name).toBe('review');
+
+      const step3Result = stepExecutor.continueWorkflow(step2Result.new_token!, { summary: 'Review completed' }, joinPhases);
+      expect(step3Result.workflow_state).toBe('completed');
+      expect(stepExecutor.getSteps('exec_012').length).toBe(3);
     });
 
-    it('should handle workflow with no phases', () => {
-      const result = stepExecutor.startWorkflow('test-workflow', 'exec_010', []);
+    it('should reject workflows with dependency cycles', () => {
+      const cyclicPhases: WorkflowPhase[] = [
+        { phase: 'design', agent: 'architect', description: 'Design phase' },
+        { phase: 'implement', agent: 'implementer', description: 'Implementation phase', dependsOn: ['design', 'review'] },
+        { phase: 'review', agent: 'reviewer', description: 'Review phase', dependsOn: ['implement'] },
+      ];
+
+      const result = stepExecutor.startWorkflow('test-workflow', 'exec_013', cyclicPhases);
 
       expect(result.success).toBe(false);
-      expect(result.error).toContain('No phases');
+      expect(result.error).toContain('cycle');
+      expect(stateMachine.getExecution('exec_013')).toBeNull();
     });
   });
 
-  describe('Transactional Guarantees', () => {
-    const testPhases: WorkflowPhase[] = [
-      { phase: 'step1', agent: 'agent1', description: 'Step 1' },
-      { phase: 'step2', agent: 'agent2', description: 'Step 2' },
+  describe('Parallel Phases', () => {
+    const reviewPhases: WorkflowPhase[] = [
+      { phase: 'quality-review', agent: 'reviewer', description: 'Quality review' },
+      { phase: 'security-review', agent: 'security-specialist', description: 'Security review' },
+      { phase: 'performance-review', agent: 'performance-engineer', description: 'Performance review' },
+      {
+        phase: 'review-synthesis',
+        agent: 'supervisor',
+        description: 'Aggregate findings',
+        dependsOn: ['quality-review', 'security-review', 'performance-review'],
+        allowParallel: false,
+      },
     ];
 
-    it('should maintain consistency on step completion', () => {
-      const startResult = stepExecutor.startWorkflow('test-workflow', 'exec_011', testPhases);
-      const token = startResult.new_token!;
+    it('should start every independent phase with its own token', () => {
+      const result = stepExecutor.startWorkflow('parallel-review', 'exec_p1', reviewPhases);
 
-      // Get steps before
-      const stepsBefore = stepExecutor.getSteps('exec_011');
-      expect(stepsBefore.length).toBe(1);
+      expect(result.success).toBe(true);
+      expect(result.steps?.map((s) => s.step_name)).toEqual(['quality-review', 'security-review', 'performance-review']);
+      expect(new Set(result.steps?.map((s) => s.token)).size).toBe(3);
 
-      // Continue workflow
-      stepExecutor.continueWorkflow(
-        token,
-        { summary: 'Completed' },
-        testPhases
-      );
+      const running = stepExecutor.getSteps('exec_p1').filter((s) => s.status === 'running');
+      expect(running.length).toBe(3);
+    });
 
-      // Get steps after
-      const stepsAfter = stepExecutor.getSteps('exec_011');
-      expect(stepsAfter.length).toBe(2);
-      expect(stepsAfter[0].status).toBe('completed');
-      expect(stepsAfter[1].status).toBe('running'); // Next step starts in 'running' state
+    it('should accept tokens in any order and join once all dependencies complete', () => {
+      const startResult = stepExecutor.startWorkflow('parallel-review', 'exec_p2', reviewPhases);
+      const [quality, security, performance] = startResult.steps!;
+
+      const afterPerformance = stepExecutor.continueWorkflow(performance.token, { summary: 'Perf done' }, reviewPhases);
+      expect(afterPerformance.success).toBe(true);
+      expect(afterPerformance.workflow_state).toBe('running');
+      expect(afterPerformance.steps).toEqual([]);
+      expect(afterPerformance.message).toContain('quality-review');
+
+      stepExecutor.continueWorkflow(quality.token, { summary: 'Quality done' }, reviewPhases);
+      const afterSecurity = stepExecutor.continueWorkflow(security.token, { summary: 'Security done' }, reviewPhases);
+      expect(afterSecurity.steps?.map((s) => s.step_name)).toEqual(['review-synthesis']);
+      expect(stateMachine.getExecution('exec_p2')?.current_step).toBe('review-synthesis');
+
+      const finalResult = stepExecutor.continueWorkflow(afterSecurity.new_token!, { summary: 'Synthesis done' }, reviewPhases);
+      expect(finalResult.workflow_state).toBe('completed');
     });
 
-    it('should persist suggested findings in step output', () => {
+    it('should reject a token that was already used', () => {
+      const startResult = stepExecutor.startWorkflow('parallel-review', 'exec_p3', reviewPhases);
+      const token = startResult.steps![0].token;
+
+      expect(stepExecutor.continueWorkflow(token, { summary: 'Done' }, reviewPhases).success).toBe(true);
+
+      const replay = stepExecutor.continueWorkflow(token, { summary: 'Again' }, reviewPhases);
+      expect(replay.success).toBe(false);
+      expect(replay.error).toContain('revoked');
+
+      const revoked = db
+        .prepare(`SELECT metadata FROM telemetry_events_v2 WHERE execution_id = ? AND event_type = 'token_revoked'`)
+        .get('exec_p3') as { metadata: string };
+      expect(JSON.parse(revoked.metadata)).toMatchObject({ reason: 'used' });
+    });
+
+    it('should settle a step once when two processes claim its token at the same time', () => {
+      const startResult = stepExecutor.startWorkflow('parallel-review', 'exec_p5', reviewPhases);
+      const token = startResult.steps![0].token;
+
+      // Both processes checked the token before either settled the step
+      const other = new StepExecutor(db);
+      const staleClaim = other['claimStep'](token);
+      expect(stepExecutor.continueWorkflow(token, { summary: 'Done' }, reviewPhases).success).toBe(true);
+      vi.spyOn(other as unknown as { claimStep: () => typeof staleClaim }, 'claimStep').mockReturnValue(staleClaim);
+
+      const late = other.failStep(token, 'Timed out', reviewPhases);
+      expect(late.success).toBe(false);
+      expect(late.workflow_state).toBe('running');
+      expect(late.error).toContain('already been settled');
+
+      const step = db.prepare(`SELECT status, attempt FROM workflow_steps_v2 WHERE execution_id = ? AND step_name = ?`).get('exec_p5', startResult.steps![0].step_name);
+      expect(step).toEqual({ status: 'completed', attempt: 1 });
+    });
+
+    it('should bound fan-out by the policy maxConcurrent', () => {
+      const startResult = stepExecutor.startWorkflow('parallel-review', 'exec_p4', reviewPhases, getExecutionPolicy('simple'));
+      expect(startResult.steps?.map((s) => s.step_name)).toEqual(['quality-review', 'security-review']);
+
+      const next = stepExecutor.continueWorkflow(startResult.steps![1].token, { summary: 'Done' }, reviewPhases, getExecutionPolicy('simple'));
+      expect(next.steps?.map((s) => s.step_name)).toEqual(['performance-review']);
+    });
+
+    it('should not start other phases next to one that disallows parallelism', () => {
       const phases: WorkflowPhase[] = [
-        { phase: 'discover', agent: 'architect', description: 'Discovery' },
-        { phase: 'implement', agent: 'implementer', description: 'Implementation' },
+        { phase: 'migrate', agent: 'devops-engineer', description: 'Run migration', allowParallel: false },
+        { phase: 'docs', agent: 'documentation-specialist', description: 'Write docs' },
       ];
 
-      const startResult = stepExecutor.startWorkflow('kb-workflow', 'exec_sf', phases);
-      const token = startResult.new_token!;
+      const startResult = stepExecutor.startWorkflow('exclusive', 'exec_p5', phases);
+      expect(startResult.steps?.map((s) => s.step_name)).toEqual(['migrate']);
 
-      const suggested = [
-        {
-          scope: 'global',
-          category: 'architecture',
-          severity: 'medium',
-          title: 'Document RBAC edge cases',
-          content: 'Capture delete/update permission nuances in shared KB.',
-          tags: ['rbac', 'permissions'],
+      const next = stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Migrated' }, phases);
+      expect(next.steps?.map((s) => s.step_name)).toEqual(['docs']);
+    });
+
+    it('should cancel running siblings and fail the execution when failFast is set', () => {
+      const policy = getExecutionPolicy('simple');
+      const startResult = stepExecutor.startWorkflow('parallel-review', 'exec_p6', reviewPhases, policy);
+
+      const result = stepExecutor.failStep(startResult.steps![0].token, 'Linter crashed', reviewPhases, policy);
+
+      expect(result.workflow_state).toBe('failed');
+      expect(stateMachine.getExecution('exec_p6')?.state).toBe('failed');
+      const steps = stepExecutor.getSteps('exec_p6');
+      expect(steps.every((s) => s.status === 'failed' && s.token === null)).toBe(true);
+    });
+
+    it('should let independent steps finish before failing when failFast is off', () => {
+      const policy = { ...getExecutionPolicy('moderate'), retryPolicy: { maxAttempts: 1, backoffMs: 0, escalateOnFailure: false } };
+      const startResult = stepExecutor.startWorkflow('parallel-review', 'exec_p7', reviewPhases, policy);
+      const [quality, security, performance] = startResult.steps!;
+
+      const failResult = stepExecutor.failStep(quality.token, 'Linter crashed', reviewPhases, policy);
+      expect(failResult.workflow_state).toBe('running');
+
+      stepExecutor.continueWorkflow(security.token, { summary: 'Security done' }, reviewPhases, policy);
+      const lastResult = stepExecutor.continueWorkflow(performance.token, { summary: 'Perf done' }, reviewPhases, policy);
+
+      expect(lastResult.workflow_state).toBe('failed');
+      expect(lastResult.error).toContain('quality-review');
+      expect(stepExecutor.getSteps('exec_p7').some((s) => s.step_name === 'review-synthesis')).toBe(false);
+    });
+  });
+
+  describe('Execution Policies', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'build', agent: 'implementer', description: 'Build' },
+      { phase: 'verify', agent: 'reviewer', description: 'Verify', dependsOn: ['build'] },
+    ];
+
+    const eventTypes = (executionId: string) =>
+      (db.prepare('SELECT event_type FROM telemetry_events_v2 WHERE execution_id = ?').all(executionId) as { event_type: string }[]).map(
+        (e) => e.event_type
+      );
+
+    it('should retry a failed step after its backoff', () => {
+      const policy = getExecutionPolicy('moderate');
+      const startResult = stepExecutor.startWorkflow('policy-test', 'exec_r1', phases, policy);
+
+      const failedAt = Date.now();
+      const failResult = stepExecutor.failStep(startResult.new_token!, 'Build broke', phases, policy);
+      expect(failResult.workflow_state).toBe('running');
+      expect(failResult.message).toContain('attempt 1/2');
+
+      const pending = stepExecutor.getSteps('exec_r1')[0];
+      expect(pending.status).toBe('pending');
+      expect(pending.attempt).toBe(2);
+      expect(pending.token).toBeNull();
+      expect(eventTypes('exec_r1')).toContain('step_retry_scheduled');
+
+      expect(stepExecutor.enforcePolicies('exec_r1', phases, policy, new Date(failedAt + 100))).toBe(false);
+      expect(stepExecutor.enforcePolicies('exec_r1', phases, policy, new Date(failedAt + policy.retryPolicy.backoffMs + 1000))).toBe(true);
+
+      const retried = stepExecutor.getSteps('exec_r1')[0];
+      expect(retried.status).toBe('running');
+      expect(retried.token).toBeTruthy();
+
+      const next = stepExecutor.continueWorkflow(retried.token!, { summary: 'Built on retry' }, phases, policy);
+      expect(next.step_name).toBe('verify');
+    });
+
+    it('should fail the workflow and escalate once attempts are exhausted', () => {
+      const policy = { ...getExecutionPolicy('moderate'), retryPolicy: { maxAttempts: 2, backoffMs: 0, escalateOnFailure: true } };
+      const startResult = stepExecutor.startWorkflow('policy-test', 'exec_r2', phases, policy);
+
+      const firstFailure = stepExecutor.failStep(startResult.new_token!, 'Build broke', phases, policy);
+      expect(firstFailure.step_name).toBe('build');
+
+      const secondFailure = stepExecutor.failStep(firstFailure.new_token!, 'Build broke again', phases, policy);
+      expect(secondFailure.workflow_state).toBe('failed');
+      expect(stateMachine.getExecution('exec_r2')?.state).toBe('failed');
+      expect(eventTypes('exec_r2')).toContain('step_escalated');
+    });
+
+    it('should time out a step that runs past perStepMs', () => {
+      const policy = getExecutionPolicy('simple');
+      const startResult = stepExecutor.startWorkflow('policy-test', 'exec_t1', phases, policy);
+
+      const later = new Date(Date.now() + policy.timeout.perStepMs + 1000);
+      expect(stepExecutor.enforcePolicies('exec_t1', phases, policy, later)).toBe(true);
+
+      expect(stateMachine.getExecution('exec_t1')?.state).toBe('failed');
+      expect(eventTypes('exec_t1')).toContain('step_timed_out');
+
+      const lateSubmission = stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Too late' }, phases, policy);
+      expect(lateSubmission.success).toBe(false);
+    });
+
+    it('should fail an execution that runs past totalWorkflowMs', () => {
+      const policy = getExecutionPolicy('simple');
+      stepExecutor.startWorkflow('policy-test', 'exec_t2', phases, policy);
+
+      const later = new Date(Date.now() + policy.timeout.totalWorkflowMs + 1000);
+      stepExecutor.enforcePolicies('exec_t2', phases, policy, later);
+
+      expect(stateMachine.getExecution('exec_t2')?.state).toBe('failed');
+      expect(eventTypes('exec_t2')).toContain('workflow_timed_out');
+      expect(stepExecutor.getSteps('exec_t2').every((s) => s.status === 'failed')).toBe(true);
+    });
+  });
+
+  describe('Step Failure', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'build', agent: 'implementer', description: 'Build' },
+      { phase: 'verify', agent: 'reviewer', description: 'Verify', dependsOn: ['build'] },
+    ];
+    const noRetry = { ...getExecutionPolicy('simple'), retryPolicy: { maxAttempts: 1, backoffMs: 0, escalateOnFailure: false } };
+
+    it('should keep partial artifacts from a failed step', () => {
+      const startResult = stepExecutor.startWorkflow('failure-test', 'exec_f1', phases, noRetry);
+
+      stepExecutor.failStep(startResult.new_token!, 'Compiler crashed', phases, noRetry, [
+        { type: 'report', name: 'build-log', content: 'error TS2345', content_type: 'text/plain' },
+      ]);
+
+      const artifact = db.prepare('SELECT * FROM workflow_artifacts_v2 WHERE execution_id = ?').get('exec_f1') as {
+        step_name: string;
+        metadata: string;
+      };
+      expect(artifact.step_name).toBe('build');
+      expect(JSON.parse(artifact.metadata)).toEqual({ partial: true, attempt: 1 });
+    });
+
+    it('should record a structured error in execution metadata', () => {
+      const startResult = stepExecutor.startWorkflow('failure-test', 'exec_f2', phases, noRetry);
+
+      const result = stepExecutor.failStep(startResult.new_token!, 'Compiler crashed', phases, noRetry);
+
+      expect(result.workflow_state).toBe('failed');
+      const execution = stateMachine.getExecution('exec_f2');
+      expect(execution?.state).toBe('failed');
+      expect(execution?.metadata?.error).toMatchObject({
+        code: 'step_failed',
+        step_name: 'build',
+        agent_name: 'implementer',
+        reason: 'Compiler crashed',
+        attempts: 1,
+      });
+
+      const step = stepExecutor.getSteps('exec_f2')[0];
+      expect(step.status).toBe('failed');
+      expect(step.output).toEqual({ error: 'Compiler crashed' });
+    });
+
+    it('should report the scheduled retry while attempts remain', () => {
+      const policy = getExecutionPolicy('high');
+      const startResult = stepExecutor.startWorkflow('failure-test', 'exec_f3', phases, policy);
+
+      const result = stepExecutor.failStep(startResult.new_token!, 'Flaky dependency', phases, policy);
+
+      expect(result.workflow_state).toBe('running');
+      expect(result.retry).toMatchObject({ step_name: 'build', attempt: 2 });
+      expect(stateMachine.getExecution('exec_f3')?.metadata).toBeNull();
+    });
+
+    it('should reject failing a step with a spent token', () => {
+      const startResult = stepExecutor.startWorkflow('failure-test', 'exec_f4', phases, noRetry);
+      stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Built' }, phases, noRetry);
+
+      const result = stepExecutor.failStep(startResult.new_token!, 'Too late', phases, noRetry);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Output Contracts', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'build', agent: 'implementer', description: 'Build', outputContract: 'BuildOutput' },
+      { phase: 'verify', agent: 'reviewer', description: 'Verify', dependsOn: ['build'] },
+    ];
+
+    beforeEach(() => {
+      const schema = {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: {
+          summary: { type: 'string', minLength: 10 },
+          artifacts: { type: 'array', items: { type: 'object', required: ['type', 'content'] }, minItems: 1 },
         },
-      ];
+        required: ['summary', 'artifacts'],
+      };
+      db.prepare('INSERT INTO contracts (name, content) VALUES (?, ?)').run('BuildOutput', JSON.stringify(schema));
+    });
+
+    it('should reject output that breaks the contract with JSON pointer errors', () => {
+      const startResult = stepExecutor.startWorkflow('contract-test', 'exec_o1', phases);
+
+      const result = stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Short' }, phases);
+
+      expect(result.success).toBe(false);
+      expect(result.validation_errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ pointer: '/summary' }),
+          expect.objectContaining({ pointer: '/artifacts', message: "must have required property 'artifacts'" }),
+        ])
+      );
+      expect(result.error).toContain("contract 'BuildOutput'");
+
+      const rejected = db
+        .prepare(`SELECT step_name FROM telemetry_events_v2 WHERE execution_id = ? AND event_type = 'step_output_rejected'`)
+        .get('exec_o1') as { step_name: string };
+      expect(rejected.step_name).toBe('build');
+    });
+
+    it('should keep the token live so a corrected output can be resubmitted', () => {
+      const startResult = stepExecutor.startWorkflow('contract-test', 'exec_o2', phases);
+      stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Short' }, phases);
+
+      expect(stepExecutor.getSteps('exec_o2')[0].status).toBe('running');
 
       const result = stepExecutor.continueWorkflow(
-        token,
-        { summary: 'Discovery complete', suggested_findings: suggested },
+        startResult.new_token!,
+        { summary: 'Build finished cleanly', artifacts: [{ type: 'report', name: 'log', content: 'ok', content_type: 'text/plain' }] },
         phases
       );
+      expect(result.success).toBe(true);
+      expect(result.step_name).toBe('verify');
+    });
+  });
+
+  describe('Step Context', () => {
+    const bugFixPhases: WorkflowPhase[] = [
+      { phase: 'diagnose', agent: 'debugger', description: 'Root cause analysis' },
+      { phase: 'fix', agent: 'implementer', description: 'Implement fix', dependsOn: ['diagnose'] },
+      { phase: 'verify', agent: 'reviewer', description: 'Verify fix', dependsOn: ['fix'] },
+    ];
+
+    const diagnose = (executionId: string, rootCause: string) => {
+      const startResult = stepExecutor.startWorkflow('bug-fix', executionId, bugFixPhases);
+      return stepExecutor.continueWorkflow(
+        startResult.new_token!,
+        {
+          summary: 'Found the race in the cache layer',
+          next_step_recommendation: 'Guard the cache refresh with a lock',
+          artifacts: [
+            { type: 'report', name: 'root-cause', content: rootCause, content_type: 'text/markdown' },
+            { type: 'data', name: 'trace', content: 'x'.repeat(500), content_type: 'text/plain' },
+          ],
+        },
+        bugFixPhases
+      );
+    };
+
+    it("should give the fix phase the diagnose phase's summary and root-cause artifact", () => {
+      diagnose('exec_x1', 'Two writers refresh the cache concurrently');
+
+      const context = new StepContextBuilder(db).build('exec_x1', 'fix', bugFixPhases);
+
+      expect(context.truncated).toBe(false);
+      expect(context.upstream).toHaveLength(1);
+      expect(context.upstream[0]).toMatchObject({
+        step_name: 'diagnose',
+        agent_name: 'debugger',
+        summary: 'Found the race in the cache layer',
+        next_step_recommendation: 'Guard the cache refresh with a lock',
+      });
+      expect(context.upstream[0]!.artifacts[0]).toMatchObject({
+        name: 'root-cause',
+        content: 'Two writers refresh the cache concurrently',
+        uri: 'midex://workflow/workflow_artifacts/exec_x1/diagnose',
+      });
+    });
+
+    it('should only include direct dependsOn phases', () => {
+      const afterDiagnose = diagnose('exec_x2', 'Root cause');
+      stepExecutor.continueWorkflow(afterDiagnose.new_token!, { summary: 'Added a lock' }, bugFixPhases);
+
+      const context = new StepContextBuilder(db).build('exec_x2', 'verify', bugFixPhases);
+
+      expect(context.upstream.map((u) => u.step_name)).toEqual(['fix']);
+      expect(new StepContextBuilder(db).build('exec_x2', 'diagnose', bugFixPhases).upstream).toEqual([]);
+    });
+
+    it('should trim artifact content to the budget and keep references', () => {
+      diagnose('exec_x3', 'r'.repeat(2000));
+
+      const budget = 1200;
+      const context = new StepContextBuilder(db, budget).build('exec_x3', 'fix', bugFixPhases);
+      const [rootCause, trace] = context.upstream[0]!.artifacts;
+
+      expect(context.truncated).toBe(true);
+      expect(context.upstream[0]!.summary).toBe('Found the race in the cache layer');
+      expect(rootCause!.truncated).toBe(true);
+      expect(rootCause!.content!.endsWith('[truncated]')).toBe(true);
+      expect(trace).toMatchObject({ name: 'trace', truncated: true });
+      expect(trace!.content).toBeUndefined();
+      expect(JSON.stringify(context).length).toBeLessThanOrEqual(budget);
+    });
+  });
+
+  describe('Pause, Resume and Abandon', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'build', agent: 'implementer', description: 'Build' },
+      { phase: 'verify', agent: 'reviewer', description: 'Verify', dependsOn: ['build'] },
+    ];
+
+    const transitionReasons = (executionId: string) =>
+      (
+        db
+          .prepare(`SELECT metadata FROM telemetry_events_v2 WHERE execution_id = ? AND event_type = 'workflow_state_transition' ORDER BY id`)
+          .all(executionId) as { metadata: string }[]
+      ).map((e) => JSON.parse(e.metadata).reason);
+
+    it('should revoke outstanding tokens while paused', () => {
+      const startResult = stepExecutor.startWorkflow('control-test', 'exec_c1', phases);
+
+      const paused = stepExecutor.pauseExecution('exec_c1', 'Waiting on credentials');
+      expect(paused.workflow_state).toBe('paused');
+      expect(stepExecutor.getSteps('exec_c1')[0].token).toBeNull();
+
+      const result = stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Built' }, phases);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('workflow.resume');
+    });
+
+    it('should issue a fresh token for the same step on resume', () => {
+      const startResult = stepExecutor.startWorkflow('control-test', 'exec_c2', phases);
+      stepExecutor.pauseExecution('exec_c2', 'Lunch');
+
+      const resumed = stepExecutor.resumeExecution('exec_c2', 'Back', phases);
+      expect(resumed.success).toBe(true);
+      expect(resumed.workflow_state).toBe('running');
+      expect(resumed.step_name).toBe('build');
+      expect(resumed.new_token).toBeTruthy();
+      expect(resumed.new_token).not.toBe(startResult.new_token);
+
+      const next = stepExecutor.continueWorkflow(resumed.new_token!, { summary: 'Built' }, phases);
+      expect(next.step_name).toBe('verify');
+    });
+
+    it('should revoke tokens superseded by a resume', () => {
+      const startResult = stepExecutor.startWorkflow('control-test', 'exec_c6', phases);
+      stepExecutor.pauseExecution('exec_c6', 'Lunch');
+      stepExecutor.resumeExecution('exec_c6', 'Back', phases);
+
+      const stale = stepExecutor.continueWorkflow(startResult.new_token!, { summary: 'Built' }, phases);
+      expect(stale.success).toBe(false);
+      expect(stale.error).toContain('revoked');
+
+      const revoked = db
+        .prepare(`SELECT metadata FROM telemetry_events_v2 WHERE execution_id = ? AND event_type = 'token_revoked'`)
+        .get('exec_c6') as { metadata: string };
+      expect(JSON.parse(revoked.metadata)).toMatchObject({ step_name: 'build', reason: 'superseded' });
+    });
+
+    it('should abandon a paused execution and close out its steps', () => {
+      stepExecutor.startWorkflow('control-test', 'exec_c3', phases);
+      stepExecutor.pauseExecution('exec_c3', 'Reprioritised');
+
+      const result = stepExecutor.abandonExecution('exec_c3', 'No longer needed');
+      expect(result.workflow_state).toBe('abandoned');
+      expect(stateMachine.getExecution('exec_c3')?.state).toBe('abandoned');
+      expect(stepExecutor.getSteps('exec_c3')[0].status).toBe('failed');
+
+      expect(stepExecutor.resumeExecution('exec_c3', 'Changed my mind', phases).success).toBe(false);
+    });
+
+    it('should record the reason with each state transition', () => {
+      stepExecutor.startWorkflow('control-test', 'exec_c4', phases);
+      stepExecutor.pauseExecution('exec_c4', 'Waiting on review');
+      stepExecutor.resumeExecution('exec_c4', 'Review done', phases);
+      stepExecutor.abandonExecution('exec_c4', 'Superseded');
+
+      expect(transitionReasons('exec_c4')).toEqual(expect.arrayContaining(['Waiting on review', 'Review done', 'Superseded']));
+    });
+
+    it('should not count paused time towards totalWorkflowMs', () => {
+      const simple = getExecutionPolicy('simple');
+      const totalMs = simple.timeout.totalWorkflowMs;
+      const policy = { ...simple, timeout: { perStepMs: totalMs * 4, totalWorkflowMs: totalMs } };
+
+      stepExecutor.startWorkflow('control-test', 'exec_c5', phases, policy);
+      stepExecutor.pauseExecution('exec_c5', 'Overnight');
+      stateMachine.mergeMetadata('exec_c5', { paused_at: new Date(Date.now() - totalMs).toISOString() });
+      stepExecutor.resumeExecution('exec_c5', 'Morning', phases, policy);
+
+      const later = new Date(Date.now() + totalMs * 1.5);
+      expect(stepExecutor.enforcePolicies('exec_c5', phases, policy, later)).toBe(false);
+      expect(stateMachine.getExecution('exec_c5')?.state).toBe('running');
+    });
+  });
+
+  describe('Finding Review', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'review', agent: 'security-specialist', description: 'Review' },
+      { phase: 'report', agent: 'architect', description: 'Report', dependsOn: ['review'] },
+    ];
+    const suggestion = {
+      scope: 'global' as const,
+      category: 'security' as const,
+      severity: 'high' as const,
+      title: 'Sanitize redirect targets',
+      content: 'Open redirects in the login flow allow phishing.',
+      tags: ['auth'],
+    };
+
+    const findings = () =>
+      db.prepare(`SELECT * FROM knowledge_findings ORDER BY id`).all() as Array<Record<string, unknown>>;
+
+    it('should queue suggested findings as proposed with their source', () => {
+      const start = stepExecutor.startWorkflow('review-wf', 'exec_f1', phases);
+      stepExecutor.continueWorkflow(start.new_token!, { summary: 'Reviewed', suggested_findings: [suggestion] }, phases);
+
+      expect(findings()).toEqual([
+        expect.objectContaining({
+          status: 'proposed',
+          title: 'Sanitize redirect targets',
+          source_execution_id: 'exec_f1',
+          source_agent: 'security-specialist',
+        }),
+      ]);
+      const event = db.prepare(`SELECT * FROM telemetry_events_v2 WHERE event_type = 'finding_proposed'`).get() as { step_name: string };
+      expect(event.step_name).toBe('review');
+    });
+
+    it('should scope project findings to the execution project, dropping them when there is none', () => {
+      const projectSuggestion = { ...suggestion, scope: 'project' as const };
+
+      const bound = stepExecutor.startWorkflow('review-wf', 'exec_f2', phases, undefined, { projectId: 4 });
+      stepExecutor.continueWorkflow(bound.new_token!, { summary: 'Reviewed', suggested_findings: [projectSuggestion] }, phases);
+      const unbound = stepExecutor.startWorkflow('review-wf', 'exec_f3', phases);
+      const result = stepExecutor.continueWorkflow(unbound.new_token!, { summary: 'Reviewed', suggested_findings: [projectSuggestion] }, phases);
 
       expect(result.success).toBe(true);
+      expect(findings()).toEqual([expect.objectContaining({ scope: 'project', project_id: 4, source_execution_id: 'exec_f2' })]);
+    });
 
-      const steps = stepExecutor.getSteps('exec_sf');
-      const stored = steps.find((s) => s.step_name === 'discover');
-      expect(stored?.output).toBeTruthy();
+    it('should approve a proposal with reviewer edits and reject another with a reason', () => {
+      const start = stepExecutor.startWorkflow('review-wf', 'exec_f4', phases);
+      stepExecutor.continueWorkflow(
+        start.new_token!,
+        { summary: 'Reviewed', suggested_findings: [suggestion, { ...suggestion, title: 'Use tabs', content: 'Indent with tabs everywhere.' }] },
+        phases
+      );
+      const knowledge = new KnowledgeToolService(db);
 
-      const storedOutput = stored?.output as Record<string, unknown>;
-      const storedSuggestions = storedOutput?.suggested_findings as Array<Record<string, unknown>>;
-      expect(storedSuggestions).toBeTruthy();
-      expect(storedSuggestions?.[0]?.title).toBe('Document RBAC edge cases');
+      const approved = toolResult(knowledge.approveFinding({ id: 1, severity: 'critical', note: 'Confirmed exploitable' }));
+      expect(approved.finding).toMatchObject({ status: 'active', severity: 'critical', review_note: 'Confirmed exploitable' });
+      expect(approved.finding.reviewed_at).toBeTruthy();
+
+      const rejected = toolResult(knowledge.rejectFinding({ id: 2, reason: 'Style preference, not a finding' }));
+      expect(rejected.finding).toMatchObject({ status: 'rejected', review_note: 'Style preference, not a finding' });
+
+      const decisions = (
+        db.prepare(`SELECT metadata FROM telemetry_events_v2 WHERE event_type = 'finding_reviewed' ORDER BY id`).all() as { metadata: string }[]
+      ).map((e) => JSON.parse(e.metadata).decision);
+      expect(decisions).toEqual(['approved', 'rejected']);
+    });
+
+    it('should only review findings that are still proposed', () => {
+      const knowledge = new KnowledgeToolService(db);
+      db.prepare(`INSERT INTO knowledge_findings (scope, category, severity, title, content) VALUES ('global', 'pattern', 'low', 'Active', 'Already active')`).run();
+
+      const result = knowledge.rejectFinding({ id: 1, reason: 'Too late' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0]!.text).toContain('only proposed findings can be reviewed');
+      expect(knowledge.updateFinding({ id: 1, status: 'proposed' }).isError).toBe(true);
+    });
+
+    it('should keep proposed and rejected findings out of direct status changes', () => {
+      const start = stepExecutor.startWorkflow('review-wf', 'exec_f5', phases);
+      stepExecutor.continueWorkflow(
+        start.new_token!,
+        { summary: 'Reviewed', suggested_findings: [suggestion, { ...suggestion, title: 'Use tabs', content: 'Indent with tabs everywhere.' }] },
+        phases
+      );
+      const knowledge = new KnowledgeToolService(db);
+      knowledge.rejectFinding({ id: 2, reason: 'Style preference, not a finding' });
+      db.prepare(`INSERT INTO knowledge_findings (scope, category, severity, title, content) VALUES ('global', 'pattern', 'low', 'Active', 'Already active')`).run();
+
+      const activated = knowledge.updateFinding({ id: 1, status: 'active' });
+      expect(activated.isError).toBe(true);
+      expect(activated.content[0]!.text).toContain('knowledge.approve_finding');
+      expect(knowledge.updateFinding({ id: 1, superseded_by: 3 }).isError).toBe(true);
+      expect(knowledge.updateFinding({ id: 2, status: 'active' }).isError).toBe(true);
+      expect(findings().map((f) => f.status)).toEqual(['proposed', 'rejected', 'active']);
+
+      expect(knowledge.updateFinding({ id: 1, content: 'Validate redirect targets against an allowlist.' }).isError).toBeFalsy();
+    });
+  });
+
+  describe('Finding Lifecycle', () => {
+    let knowledge: KnowledgeToolService;
+    const add = (fields: Record<string, unknown>) =>
+      toolResult(knowledge.addFinding({ scope: 'global', category: 'pattern', severity: 'medium', ...fields })).finding as { id: number };
+    const revisions = (id: number) => new FindingLifecycle(db).getRevisions(id);
+
+    beforeEach(() => {
+      knowledge = new KnowledgeToolService(db);
+    });
+
+    it('should keep a revision for every change', () => {
+      const { id } = add({ title: 'Pin dependencies', content: 'Lockfiles must be committed.', review_by: '2027-01-01' });
+      knowledge.updateFinding({ id, severity: 'high', note: 'Broke the build twice' });
+      knowledge.updateFinding({ id, expires_at: null, review_by: null });
+
+      expect(revisions(id).map((r) => [r.revision, r.change, r.note])).toEqual([
+        [1, 'created', null],
+        [2, 'updated', 'Broke the build twice'],
+        [3, 'updated', null],
+      ]);
+      expect(revisions(id)[0]?.snapshot).toMatchObject({ severity: 'medium', review_by: '2027-01-01T00:00:00.000Z', tags: [] });
+      expect(revisions(id)[1]?.snapshot).toMatchObject({ severity: 'high' });
+      expect(revisions(id)[2]?.snapshot).toMatchObject({ review_by: null });
+    });
+
+    it('should refuse near-duplicate findings unless allowed', () => {
+      add({ title: 'Validate webhook signatures', content: 'Every webhook handler must verify the HMAC signature header.' });
+
+      const duplicate = knowledge.addFinding({
+        scope: 'global', category: 'security', severity: 'high',
+        title: 'Validate webhook signature', content: 'Every webhook handler must verify the HMAC signature header first.',
+      });
+      expect(duplicate.isError).toBe(true);
+      expect(duplicate.content[0]!.text).toContain("#1 'Validate webhook signatures'");
+
+      const allowed = knowledge.addFinding({
+        scope: 'global', category: 'security', severity: 'high', allow_duplicate: true,
+        title: 'Validate webhook signature', content: 'Every webhook handler must verify the HMAC signature header first.',
+      });
+      expect(allowed.isError).toBeUndefined();
+      expect(add({ title: 'Rate limit webhooks', content: 'Throttle inbound webhook bursts per sender.' }).id).toBe(3);
+    });
+
+    it('should drop suggested findings that duplicate existing ones', () => {
+      const phases: WorkflowPhase[] = [{ phase: 'review', agent: 'reviewer', description: 'Review' }];
+      const suggestion = { scope: 'global' as const, category: 'pattern' as const, severity: 'low' as const, title: 'Prefer early returns', content: 'Nested conditionals hide the happy path.' };
+      for (const id of ['exec_d1', 'exec_d2']) {
+        const start = stepExecutor.startWorkflow('review-wf', id, phases);
+        stepExecutor.continueWorkflow(start.new_token!, { summary: 'Reviewed', suggested_findings: [suggestion] }, phases);
+      }
+
+      expect(db.prepare(`SELECT COUNT(*) AS n FROM knowledge_findings`).get()).toEqual({ n: 1 });
+      expect(revisions(1).map((r) => r.change)).toEqual(['proposed']);
+      const event = db.prepare(`SELECT execution_id, metadata FROM telemetry_events_v2 WHERE event_type = 'finding_duplicate'`).get() as {
+        execution_id: string;
+        metadata: string;
+      };
+      expect(event.execution_id).toBe('exec_d2');
+      expect(JSON.parse(event.metadata)).toMatchObject({ duplicate_of: 1, similarity: 1 });
+    });
+
+    it('should merge findings into a target and link the sources to it', async () => {
+      const target = add({ title: 'Review checklist', content: 'Check error handling.', tags: ['review'], severity: 'low' });
+      const first = add({ title: 'Errors swallowed', content: 'Catch blocks drop exceptions.', tags: ['errors'], severity: 'high' });
+      const second = add({ title: 'Missing logging', content: 'Failures are not logged.', tags: ['review', 'logging'] });
+
+      const merged = toolResult(knowledge.mergeFindings({ target_id: target.id, source_ids: [first.id, second.id], note: 'Same review theme' }));
+      expect(merged.finding).toMatchObject({ status: 'active', severity: 'high', tags: ['review', 'errors', 'logging'] });
+      expect(revisions(target.id).at(-1)).toMatchObject({ change: 'merged', note: `Merged #${first.id}, #${second.id}: Same review theme` });
+
+      const resource = JSON.parse((await new KnowledgeResourceHandlers(db).getFinding(first.id)).text);
+      expect(resource.finding).toMatchObject({ status: 'deprecated', superseded_by: target.id });
+      expect(resource.superseded_by).toMatchObject({ id: target.id, status: 'active' });
+      expect(resource.revisions.map((r: { change: string }) => r.change)).toEqual(['created', 'superseded']);
+
+      const targetResource = JSON.parse((await new KnowledgeResourceHandlers(db).getFinding(target.id)).text);
+      expect(targetResource.supersedes.map((f: { id: number }) => f.id)).toEqual([first.id, second.id]);
+      expect(db.prepare(`SELECT COUNT(*) AS n FROM telemetry_events_v2 WHERE event_type = 'finding_merged'`).get()).toEqual({ n: 1 });
+
+      expect(knowledge.mergeFindings({ target_id: first.id, source_ids: [second.id] }).content[0]!.text).toContain('only active findings can absorb');
+      expect(knowledge.mergeFindings({ target_id: target.id, source_ids: [target.id] }).isError).toBe(true);
+    });
+
+    it('should supersede a finding with an active replacement and detach it when reactivated', () => {
+      const old = add({ title: 'Use bcrypt', content: 'Hash passwords with bcrypt.' });
+      const replacement = add({ title: 'Use argon2id', content: 'Argon2id is the default password hash.' });
+
+      const superseded = toolResult(knowledge.updateFinding({ id: old.id, superseded_by: replacement.id, note: 'Policy change' }));
+      expect(superseded.finding).toMatchObject({ status: 'deprecated', superseded_by: replacement.id });
+      expect(revisions(old.id).at(-1)).toMatchObject({ change: 'superseded', note: 'Policy change' });
+
+      expect(knowledge.updateFinding({ id: replacement.id, superseded_by: old.id }).content[0]!.text).toContain('only be superseded by an active one');
+      expect(knowledge.updateFinding({ id: old.id, superseded_by: replacement.id, status: 'active' }).isError).toBe(true);
+
+      const reactivated = toolResult(knowledge.updateFinding({ id: old.id, status: 'active' }));
+      expect(reactivated.finding).toMatchObject({ status: 'active', superseded_by: null });
+    });
+
+    it('should deprecate findings once they expire', () => {
+      const expiring = add({ title: 'Feature freeze', content: 'No schema changes until the release.', expires_at: '2026-03-01' });
+      const lasting = add({ title: 'Code owners', content: 'Auth changes need a security reviewer.', expires_at: '2026-09-01T12:00:00+02:00' });
+
+      const lifecycle = new FindingLifecycle(db);
+      expect(lifecycle.expire(new Date('2026-02-28T23:59:59Z'))).toEqual([]);
+      expect(lifecycle.expire(new Date('2026-03-01T00:00:00Z'))).toEqual([expiring.id]);
+      expect(lifecycle.expire(new Date('2026-03-02T00:00:00Z'))).toEqual([]);
+
+      const statuses = db.prepare(`SELECT id, status, expires_at FROM knowledge_findings ORDER BY id`).all();
+      expect(statuses).toEqual([
+        { id: expiring.id, status: 'deprecated', expires_at: '2026-03-01T00:00:00.000Z' },
+        { id: lasting.id, status: 'active', expires_at: '2026-09-01T10:00:00.000Z' },
+      ]);
+      expect(revisions(expiring.id).at(-1)?.change).toBe('expired');
+    });
+  });
+
+  describe('Knowledge Search', () => {
+    let searcher: KnowledgeSearch;
+    const search = (args: Record<string, unknown>) => {
+      const result = searcher.search(KnowledgeSearchArgsSchema.parse(args));
+      if (typeof result === 'string') throw new Error(result);
+      return result;
+    };
+    const titles = (args: Record<string, unknown>) => search(args).results.map((hit) => hit.finding.title);
+
+    beforeEach(() => {
+      const insert = db.prepare(
+        `INSERT INTO knowledge_findings (scope, project_id, category, severity, status, title, content, tags) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      insert.run('global', null, 'security', 'critical', 'active', 'Token replay', 'Continuation tokens must be single use.', '["tokens"]');
+      insert.run('global', null, 'architecture', 'low', 'active', 'Cache layering', 'Session tokens are cached per request.', '["cache"]');
+      insert.run('project', 3, 'security', 'high', 'active', 'Rotate signing keys', 'Token signing keys rotate quarterly.', '["tokens", "keys"]');
+      insert.run('project', 4, 'security', 'high', 'active', 'Other project tokens', 'Tokens live in the vault.', '["tokens"]');
+      insert.run('global', null, 'security', 'medium', 'proposed', 'Proposed token idea', 'Tokens could carry scopes.', '[]');
+
+      searcher = new KnowledgeSearch(db);
+    });
+
+    it('should rank title matches above content-only matches and highlight them', () => {
+      const result = search({ q: 'tokens' });
+
+      expect(result.results[0]?.finding.title).toBe('Other project tokens');
+      expect(result.results[0]?.title_highlight).toBe('Other project <mark>tokens</mark>');
+      expect(result.results.at(-1)?.finding.title).toBe('Cache layering');
+      expect(result.results.at(-1)?.snippet).toContain('<mark>tokens</mark>');
+      expect(result.results.every((hit, i, hits) => i === 0 || hits[i - 1]!.score >= hit.score)).toBe(true);
+    });
+
+    it('should require every word unless match is any', () => {
+      expect(titles({ q: 'token signing' })).toEqual(['Rotate signing keys']);
+      expect(titles({ q: 'replay vault', match: 'any' })).toEqual(expect.arrayContaining(['Token replay', 'Other project tokens']));
+    });
+
+    it('should filter by project, category, severity, tags and status', () => {
+      expect(titles({ q: 'tokens', project_id: 3 })).not.toContain('Other project tokens');
+      expect(titles({ q: 'tokens', project_id: 3 })).toEqual(expect.arrayContaining(['Rotate signing keys', 'Token replay']));
+      expect(titles({ q: 'tokens', category: 'architecture' })).toEqual(['Cache layering']);
+      expect(titles({ q: 'tokens', min_severity: 'critical' })).toEqual(['Token replay']);
+      expect(titles({ q: 'tokens', tags: ['tokens', 'keys'] })).toEqual(['Rotate signing keys']);
+      expect(titles({ q: 'tokens', status: 'proposed' })).toEqual(['Proposed token idea']);
+    });
+
+    it('should paginate with next_offset', () => {
+      const first = search({ q: 'tokens', limit: 3 });
+      expect(first).toMatchObject({ total: 4, offset: 0, next_offset: 3 });
+
+      const second = search({ q: 'tokens', limit: 3, offset: first.next_offset });
+      expect(second.results).toHaveLength(1);
+      expect(second.next_offset).toBeNull();
+    });
+
+    it('should treat FTS5 syntax in queries as plain words', () => {
+      expect(titles({ q: 'replay" OR NEAR(keys', match: 'any' })).toEqual(expect.arrayContaining(['Token replay', 'Rotate signing keys']));
+      expect(searcher.search(KnowledgeSearchArgsSchema.parse({ q: '*** -- ""' }))).toContain('no searchable words');
+    });
+
+    it('should serve the same search as a resource', async () => {
+      const resource = await new KnowledgeResourceHandlers(db).search(new URLSearchParams('q=tokens&tags=tokens,keys&limit=5'));
+      const body = JSON.parse(resource.text);
+      expect(body.results.map((hit: { finding: { title: string } }) => hit.finding.title)).toEqual(['Rotate signing keys']);
+
+      const invalid = await new KnowledgeResourceHandlers(db).search(new URLSearchParams('q=tokens&limit=500'));
+      expect(JSON.parse(invalid.text).error).toContain('Invalid search parameters');
+    });
+  });
+
+  describe('Knowledge Injection', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'design', agent: 'architect', description: 'Design the session refresh flow' },
+      { phase: 'build', agent: 'implementer', description: 'Implement the change', dependsOn: ['design'] },
+    ];
+    const limits = { maxFindings: 5, maxChars: 4000 };
+    const titles = (knowledge: { findings: Array<{ title: string }> }) => knowledge.findings.map((f) => f.title);
+
+    beforeEach(() => {
+      db.exec(`CREATE TABLE workflows (name TEXT PRIMARY KEY, description TEXT NOT NULL, tags TEXT, phases TEXT)`);
+      db.prepare(`INSERT INTO workflows (name, description, tags, phases) VALUES (?, ?, ?, ?)`).run('auth-change', 'Auth change', '["auth"]', '[]');
+      const contract = readFileSync(new URL('../content/contracts/WorkflowInput.schema.json', import.meta.url), 'utf-8');
+      db.prepare(`INSERT INTO contracts (name, content) VALUES (?, ?)`).run('WorkflowInput', contract);
+      const insert = db.prepare(
+        `INSERT INTO knowledge_findings (scope, project_id, category, severity, status, title, content, tags, source_agent) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      insert.run('project', 7, 'security', 'critical', 'active', 'Never log session cookies', 'Cookies leaked into logs once.', '[]', null);
+      insert.run('project', 8, 'security', 'critical', 'active', 'Other project secret', 'Not for project 7.', '[]', null);
+      insert.run('global', null, 'pattern', 'low', 'active', 'Auth helpers', 'Use the shared auth helpers.', '["auth"]', null);
+      insert.run('global', null, 'architecture', 'medium', 'active', 'Refresh tokens', 'Session refresh goes through the gateway.', '[]', null);
+      insert.run('global', null, 'pattern', 'medium', 'active', 'Diagram first', 'Sketch before designing.', '[]', 'architect');
+      insert.run('global', null, 'performance', 'high', 'active', 'Unrelated caching', 'Batch cache writes.', '[]', null);
+      insert.run('global', null, 'security', 'critical', 'deprecated', 'Old rule', 'Superseded.', '["auth"]', null);
+      insert.run('global', null, 'security', 'high', 'proposed', 'Unreviewed', 'Session idea.', '["auth"]', null);
+
+      stepExecutor.startWorkflow('auth-change', 'exec_k1', phases, undefined, {
+        projectId: 7,
+        input: { name: 'session-refresh', reason: 'Users lose their session on refresh' },
+      });
+    });
+
+    it('should rank active findings for the project, workflow tags, agent and task input', () => {
+      const knowledge = new KnowledgeInjector(db, limits).build('exec_k1', 'design', 'architect', phases);
+
+      expect(titles(knowledge)[0]).toBe('Never log session cookies');
+      expect(titles(knowledge)).toEqual(expect.arrayContaining(['Auth helpers', 'Refresh tokens', 'Diagram first']));
+      expect(titles(knowledge)).not.toEqual(expect.arrayContaining(['Other project secret']));
+      expect(titles(knowledge)).not.toContain('Old rule');
+      expect(titles(knowledge)).not.toContain('Unreviewed');
+      expect(titles(knowledge)).not.toContain('Unrelated caching');
+      expect(knowledge.truncated).toBe(false);
+
+      const byTitle = new Map(knowledge.findings.map((f) => [f.title, f]));
+      expect(byTitle.get('Never log session cookies')?.reasons).toEqual(['severity:critical', 'project', 'relevance']);
+      expect(byTitle.get('Auth helpers')?.reasons).toEqual(['severity:low', 'tag:auth']);
+      expect(byTitle.get('Diagram first')?.reasons).toEqual(['severity:medium', 'agent']);
+      expect(knowledge.findings.every((f, i, all) => i === 0 || all[i - 1]!.score >= f.score)).toBe(true);
+    });
+
+    it('should only count the agent signal for the phase that runs that agent', () => {
+      const knowledge = new KnowledgeInjector(db, limits).build('exec_k1', 'build', 'implementer', phases);
+      expect(knowledge.findings.find((f) => f.title === 'Diagram first')?.reasons ?? []).not.toContain('agent');
+    });
+
+    it('should stay within the finding count and character budget', () => {
+      expect(new KnowledgeInjector(db, { ...limits, maxFindings: 2 }).build('exec_k1', 'design', 'architect', phases).findings).toHaveLength(2);
+      expect(new KnowledgeInjector(db, { ...limits, maxFindings: 0 }).build('exec_k1', 'design', 'architect', phases).findings).toEqual([]);
+
+      const tight = new KnowledgeInjector(db, { maxFindings: 5, maxChars: 600 }).build('exec_k1', 'design', 'architect', phases);
+      expect(tight.truncated).toBe(true);
+      expect(tight.findings.length).toBeGreaterThan(0);
+      expect(JSON.stringify(tight).length).toBeLessThanOrEqual(600);
+    });
+
+    it('should record each injected finding once per step', () => {
+      const injector = new KnowledgeInjector(db, { ...limits, maxFindings: 2 });
+      const knowledge = injector.build('exec_k1', 'design', 'architect', phases);
+      injector.build('exec_k1', 'design', 'architect', phases);
+
+      const events = db
+        .prepare(`SELECT step_name, agent_name, metadata FROM telemetry_events_v2 WHERE event_type = 'finding_injected' ORDER BY id`)
+        .all() as Array<{ step_name: string; agent_name: string; metadata: string }>;
+      expect(events).toHaveLength(2);
+      expect(events.map((e) => JSON.parse(e.metadata))).toEqual(
+        knowledge.findings.map((f, i) => ({ finding_id: f.id, rank: i + 1, score: f.score, reasons: f.reasons }))
+      );
+      expect(events[0]).toMatchObject({ step_name: 'design', agent_name: 'architect' });
+    });
+  });
+
+  describe('Knowledge Bundles', () => {
+    let knowledge: KnowledgeToolService;
+    let bundles: KnowledgeBundles;
+    const exportBundle = (filters: Record<string, unknown> = {}) => {
+      const bundle = bundles.exportBundle({ status: 'active', ...filters });
+      if (typeof bundle === 'string') throw new Error(bundle);
+      return bundle;
+    };
+
+    beforeEach(() => {
+      db.exec(`
+        CREATE TABLE project_associations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          path TEXT UNIQUE NOT NULL,
+          is_git_repo INTEGER DEFAULT 0,
+          metadata TEXT,
+          discovered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      db.prepare(`INSERT INTO project_associations (name, path) VALUES ('shop', '/work/shop')`).run();
+      knowledge = new KnowledgeToolService(db);
+      bundles = new KnowledgeBundles(db);
+
+      const insert = db.prepare(
+        `INSERT INTO knowledge_findings (uid, scope, project_id, category, severity, status, title, content, tags, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, '2026-01-01T00:00:00.000Z')`
+      );
+      insert.run('pin-deps', 'global', null, 'pattern', 'medium', 'active', 'Pin dependencies', 'Lockfiles must be committed.', '["deps"]');
+      insert.run('shop-money', 'project', 1, 'constraint', 'high', 'active', 'Money is integer cents', 'Never store prices as floats.', '["money"]');
+      insert.run('old-cache', 'global', null, 'performance', 'low', 'deprecated', 'Cache everything', 'Superseded advice.', '[]');
+    });
+
+    it('should export filtered findings with the project as a path', () => {
+      const bundle = exportBundle();
+      expect(bundle).toMatchObject({ format: 'midex-knowledge', version: 1 });
+      expect(bundle.findings.map((f) => f.uid)).toEqual(['pin-deps', 'shop-money']);
+      expect(bundle.findings[1]).toMatchObject({ project: { name: 'shop', path: '/work/shop' }, tags: ['money'] });
+
+      expect(exportBundle({ project_path: '/work/shop' }).findings.map((f) => f.uid)).toEqual(['shop-money']);
+      expect(exportBundle({ tags: ['deps'], category: 'pattern' }).findings.map((f) => f.uid)).toEqual(['pin-deps']);
+      expect(exportBundle({ status: 'deprecated' }).findings.map((f) => f.uid)).toEqual(['old-cache']);
+      expect(bundles.exportBundle({ status: 'active', project_id: 9 })).toBe('Project 9 not found');
+    });
+
+    it('should round-trip a JSON bundle into another database by uid and project', () => {
+      const bundle = toolResult(knowledge.exportFindings({})).bundle;
+      db.exec(`DELETE FROM knowledge_findings; DELETE FROM project_associations;`);
+      // Same project under another checkout path is matched by name
+      db.prepare(`INSERT INTO project_associations (name, path) VALUES ('shop', '/home/dev/shop')`).run();
+      db.prepare(`INSERT INTO project_associations (name, path) VALUES ('unrelated', '/work/unrelated')`).run();
+
+      const imported = toolResult(knowledge.importFindings({ bundle: JSON.stringify(bundle) }));
+      expect(imported).toMatchObject({ added: 2, updated: 0, errors: 0 });
+      const row = db
+        .prepare(`SELECT p.path, f.content FROM knowledge_findings f JOIN project_associations p ON p.id = f.project_id WHERE f.uid = 'shop-money'`)
+        .get();
+      expect(row).toEqual({ path: '/home/dev/shop', content: 'Never store prices as floats.' });
+      expect(new FindingLifecycle(db).getRevisions(imported.findings[0].id)[0]).toMatchObject({
+        change: 'created',
+        note: 'Imported from knowledge.import',
+      });
+
+      expect(toolResult(knowledge.importFindings({ bundle }))).toMatchObject({ added: 0, unchanged: 2 });
+    });
+
+    it('should report entries whose project is unknown without stopping the import', () => {
+      const bundle = exportBundle();
+      bundle.findings[1]!.project = { name: 'elsewhere', path: '/no/such/project' };
+      bundle.findings.push({ ...bundle.findings[0]!, uid: 'new-one', title: 'Document env vars', content: 'List every variable.' });
+
+      const report = bundles.importEntries(bundle.findings, { strategy: 'keep-newest', source: 'test' });
+      expect(report).toMatchObject({ added: 1, unchanged: 1, errors: 1 });
+      expect(report.findings[1]).toMatchObject({ uid: 'shop-money', action: 'error' });
+      expect(report.findings[1]!.reason).toContain("Project 'elsewhere' (/no/such/project) is not known here");
+    });
+
+    it('should settle changed findings by the conflict strategy', () => {
+      const [entry] = exportBundle({ tags: ['deps'] }).findings;
+      const older = { ...entry!, content: 'Commit lockfiles.', updated_at: '2025-06-01T00:00:00.000Z' };
+      const newer = { ...older, updated_at: '2026-06-01T00:00:00.000Z' };
+      const content = () => (db.prepare(`SELECT content FROM knowledge_findings WHERE uid = 'pin-deps'`).get() as { content: string }).content;
+      const run = (value: unknown, strategy: 'keep-newest' | 'keep-filesystem' | 'keep-database' | 'manual', dryRun = false) =>
+        bundles.importEntries([value], { strategy, dryRun, source: 'test' }).findings[0]!.action;
+
+      expect(run(older, 'keep-newest')).toBe('kept');
+      expect(run(older, 'keep-database')).toBe('kept');
+      expect(run(older, 'manual')).toBe('conflict');
+      expect(run(newer, 'keep-newest', true)).toBe('updated');
+      expect(content()).toBe('Lockfiles must be committed.');
+
+      expect(run(older, 'keep-filesystem')).toBe('updated');
+      expect(content()).toBe('Commit lockfiles.');
+      expect(run(older, 'keep-filesystem')).toBe('unchanged');
+    });
+
+    it('should round-trip markdown files with frontmatter', () => {
+      const { files } = toolResult(knowledge.exportFindings({ format: 'markdown' })) as { files: Array<{ name: string; content: string }> };
+      expect(files.map((f) => f.name)).toEqual(['pin-dependencies.md', 'money-is-integer-cents.md']);
+      expect(files[0]!.content).toMatch(/^---\nuid: pin-deps\n/);
+      expect(files[0]!.content).toContain('\n---\nLockfiles must be committed.\n');
+
+      expect(toolResult(knowledge.importFindings({ files }))).toMatchObject({ unchanged: 2 });
+
+      // Hand-written file: the name is the uid and an unquoted YAML date becomes a timestamp
+      const handWritten = {
+        name: 'no-secrets-in-logs.md',
+        content: '---\nscope: global\ncategory: security\nseverity: critical\ntitle: No secrets in logs\nreview_by: 2027-03-01\n---\nRedact tokens before logging.\n',
+      };
+      const report = toolResult(knowledge.importFindings({ files: [handWritten] }));
+      expect(report.findings[0]).toMatchObject({ uid: 'no-secrets-in-logs', action: 'added' });
+      expect(db.prepare(`SELECT content, review_by FROM knowledge_findings WHERE uid = 'no-secrets-in-logs'`).get()).toEqual({
+        content: 'Redact tokens before logging.',
+        review_by: '2027-03-01T00:00:00.000Z',
+      });
+    });
+
+    it('should reject malformed bundles', () => {
+      expect(knowledge.importFindings({ bundle: '{not json' }).content[0]!.text).toContain('Bundle is not valid JSON');
+      expect(knowledge.importFindings({ bundle: { format: 'midex-knowledge', version: 2, exported_at: '', findings: [] } }).isError).toBe(true);
+      expect(knowledge.importFindings({}).content[0]!.text).toContain('Provide either bundle or files');
+    });
+  });
+
+  describe('Workflow Input', () => {
+    const phases: WorkflowPhase[] = [{ phase: 'build', agent: 'implementer', description: 'Build' }];
+    const input = { name: 'fix-login', reason: 'Users are logged out on refresh', files: ['src/auth/session.ts'] };
+
+    beforeEach(() => {
+      const contract = readFileSync(new URL('../content/contracts/WorkflowInput.schema.json', import.meta.url), 'utf-8');
+      db.prepare(`INSERT INTO contracts (name, content) VALUES (?, ?)`).run('WorkflowInput', contract);
+    });
+
+    it('should store the input and project on the execution', () => {
+      const result = stepExecutor.startWorkflow('input-test', 'exec_i1', phases, undefined, { input, projectId: 7 });
+      expect(result.success).toBe(true);
+
+      const execution = stateMachine.getExecution('exec_i1');
+      expect(execution?.metadata).toEqual({ input });
+      expect(execution?.project_id).toBe(7);
+    });
+
+    it('should reject input that does not satisfy WorkflowInput', () => {
+      const result = stepExecutor.startWorkflow('input-test', 'exec_i2', phases, undefined, { input: { name: 'no-reason', ticket: 42 } });
+
+      expect(result.success).toBe(false);
+      expect(result.validation_errors?.map((v) => v.message).join(' ')).toMatch(/reason/);
+      expect(stateMachine.getExecution('exec_i2')).toBeNull();
+    });
+
+    it('should start without input or project', () => {
+      const result = stepExecutor.startWorkflow('input-test', 'exec_i3', phases);
+      expect(result.success).toBe(true);
+      expect(stateMachine.getExecution('exec_i3')).toMatchObject({ metadata: null, project_id: null });
+    });
+  });
+
+  describe('Prompt Composition', () => {
+    let composer: PromptComposer;
+
+    beforeEach(() => {
+      db.exec(`
+        CREATE TABLE agents (name TEXT PRIMARY KEY, description TEXT NOT NULL, content TEXT NOT NULL);
+        CREATE TABLE shared_content (name TEXT PRIMARY KEY, description TEXT NOT NULL DEFAULT '', content TEXT NOT NULL);
+        CREATE TABLE rules (name TEXT PRIMARY KEY, description TEXT NOT NULL, content TEXT NOT NULL, globs TEXT, always_apply INTEGER, tags TEXT);
+        CREATE TABLE workflows (name TEXT PRIMARY KEY, description TEXT NOT NULL, tags TEXT, phases TEXT);
+      `);
+      db.prepare(`INSERT INTO agents (name, description, content) VALUES (?, ?, ?)`).run('implementer', 'Implements', '# Implementer');
+      db.prepare(`INSERT INTO shared_content (name, content) VALUES (?, ?)`).run('shared_context', '# Shared Context');
+      const insertRule = db.prepare(`INSERT INTO rules (name, description, content, globs, always_apply, tags) VALUES (?, ?, ?, ?, ?, ?)`);
+      insertRule.run('base_rules', 'Base', '# Base Rules', null, 1, '["global"]');
+      insertRule.run('security', 'Security', '# Security', null, 0, '["security"]');
+      insertRule.run('typescript', 'TypeScript', '# TypeScript', '["**/*.{ts,tsx}"]', 0, '["typescript"]');
+      insertRule.run('python', 'Python', '# Python', '["**/*.py"]', 0, '["python"]');
+      db.prepare(`INSERT INTO workflows (name, description, tags, phases) VALUES (?, ?, ?, ?)`).run('secure-change', 'Secure change', '["security"]', '[]');
+
+      composer = new PromptComposer(db);
+    });
+
+    it('should compose agent content, shared context and applicable rules in order', () => {
+      const prompt = composer.compose('implementer', { workflowTags: ['security'], files: ['src/app.ts'] });
+
+      expect(prompt?.applied_rules).toEqual(['base_rules', 'security', 'typescript']);
+      expect(prompt?.content).toBe(['# Implementer', '# Shared Context', '# Base Rules', '# Security', '# TypeScript'].join('\n\n---\n\n'));
+    });
+
+    it('should only apply always-apply rules when nothing else matches', () => {
+      const prompt = composer.compose('implementer', { workflowTags: ['docs'], files: ['README.md'] });
+      expect(prompt?.applied_rules).toEqual(['base_rules']);
+    });
+
+    it('should return null for an unknown agent', () => {
+      expect(composer.compose('ghost', { workflowTags: [], files: [] })).toBeNull();
+    });
+
+    it('should scope an execution by its workflow tags and input files', () => {
+      stepExecutor.startWorkflow('secure-change', 'exec_p1', [{ phase: 'build', agent: 'implementer', description: 'Build' }]);
+      stateMachine.mergeMetadata('exec_p1', { input: { name: 'change', reason: 'test', files: ['scripts/migrate.py'] } });
+
+      const scope = composer.getExecutionScope('exec_p1');
+      expect(scope).toEqual({ workflowTags: ['security'], files: ['scripts/migrate.py'] });
+      expect(composer.compose('implementer', scope)?.applied_rules).toEqual(['base_rules', 'security', 'python']);
+    });
+  });
+
+  describe('Workflow Versions', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'design', agent: 'architect', description: 'Design it' },
+      { phase: 'build', agent: 'implementer', description: 'Build it', dependsOn: ['design'] },
+    ];
+    const editWorkflow = (fields: { phases?: WorkflowPhase[]; content?: string; description?: string }) =>
+      db
+        .prepare(`UPDATE workflows SET phases = COALESCE(?, phases), content = COALESCE(?, content), description = COALESCE(?, description) WHERE name = ?`)
+        .run(fields.phases ? JSON.stringify(fields.phases) : null, fields.content ?? null, fields.description ?? null, 'feature');
+
+    beforeEach(() => {
+      db.exec(`CREATE TABLE workflows (name TEXT PRIMARY KEY, description TEXT NOT NULL, content TEXT NOT NULL, tags TEXT, complexity TEXT, phases TEXT)`);
+      db.prepare(`INSERT INTO workflows (name, description, content, tags, complexity, phases) VALUES (?, ?, ?, ?, ?, ?)`).run(
+        'feature',
+        'Ship a feature',
+        '# Feature\n\nDesign, then build.',
+        '["feature"]',
+        'moderate',
+        JSON.stringify(phases)
+      );
+    });
+
+    it('should record one version per distinct definition', () => {
+      const versions = new WorkflowVersions(db);
+
+      expect(versions.record('feature')?.version).toBe(1);
+      expect(versions.record('feature')?.version).toBe(1);
+      editWorkflow({ description: 'Ship a feature safely' });
+      expect(versions.record('feature')?.version).toBe(2);
+      expect(versions.list('feature').map((v) => v.version)).toEqual([1, 2]);
+      expect(versions.current('feature')?.version).toBe(2);
+      expect(versions.record('missing')).toBeNull();
+    });
+
+    it('should keep an execution on the version it started with when the workflow is edited', () => {
+      const plan = loadWorkflowPlan(db, 'feature')!;
+      stepExecutor.startWorkflow('feature', 'exec_v1', plan.phases, plan.policy, { workflowVersionId: plan.versionId });
+
+      editWorkflow({ phases: [{ phase: 'build', agent: 'implementer', description: 'Just build it' }] });
+
+      const pinned = loadExecutionPlan(db, 'exec_v1');
+      expect(pinned?.version).toBe(1);
+      expect(pinned?.phases).toEqual(phases);
+      expect(stateMachine.getExecution('exec_v1')?.workflow_version_id).toBe(plan.versionId);
+      expect(loadWorkflowPlan(db, 'feature')?.version).toBe(2);
+    });
+
+    it('should pin an execution started without a version the first time it is loaded', () => {
+      stepExecutor.startWorkflow('feature', 'exec_v2', phases);
+      expect(stateMachine.getExecution('exec_v2')?.workflow_version_id).toBeNull();
+
+      expect(loadExecutionPlan(db, 'exec_v2')?.version).toBe(1);
+      editWorkflow({ description: 'Edited after the pin' });
+      expect(loadExecutionPlan(db, 'exec_v2')?.version).toBe(1);
+      expect(stateMachine.getExecution('exec_v2')?.workflow_version_id).not.toBeNull();
+    });
+
+    it('should diff fields, phases and content between versions', () => {
+      const versions = new WorkflowVersions(db);
+      versions.record('feature');
+      editWorkflow({
+        description: 'Ship a feature safely',
+        content: '# Feature\n\nDesign, review, then build.',
+        phases: [
+          { phase: 'build', agent: 'implementer', description: 'Build it carefully', dependsOn: ['review'] },
+          { phase: 'review', agent: 'reviewer', description: 'Review the design' },
+        ],
+      });
+      versions.record('feature');
+
+      const diff = versions.diff('feature', 1, 2);
+      expect(typeof diff).not.toBe('string');
+      if (typeof diff === 'string') return;
+
+      expect(diff.fields).toEqual([{ field: 'description', from: 'Ship a feature', to: 'Ship a feature safely' }]);
+      expect(diff.phases.added).toEqual(['review']);
+      expect(diff.phases.removed).toEqual(['design']);
+      expect(diff.phases.changed).toEqual([
+        {
+          phase: 'build',
+          changes: [
+            { field: 'description', from: 'Build it', to: 'Build it carefully' },
+            { field: 'dependsOn', from: ['design'], to: ['review'] },
+          ],
+        },
+      ]);
+      expect(diff.phases.reordered).toBe(false);
+      expect(diff.content).toEqual(['- Design, then build.', '+ Design, review, then build.']);
+      expect(versions.diff('feature', 1, 3)).toBe("Version 3 of workflow 'feature' not found");
+    });
+
+    it('should serve a stored version or a diff from workflow_details', async () => {
+      const versions = new WorkflowVersions(db);
+      versions.record('feature');
+      editWorkflow({ description: 'Ship a feature safely' });
+      versions.record('feature');
+      const resources = new ResourceHandlers(db);
+      const read = async (query: string) => JSON.parse((await resources.getWorkflowDetails('feature', new URLSearchParams(query))).text);
+
+      const current = await read('');
+      expect(current.version).toBe(2);
+      expect(current.versions.map((v: { version: number }) => v.version)).toEqual([1, 2]);
+      expect((await read('version=1')).description).toBe('Ship a feature');
+      expect((await read('from=1&to=2')).fields).toEqual([{ field: 'description', from: 'Ship a feature', to: 'Ship a feature safely' }]);
+      expect((await read('from=1')).error).toContain('from and to must be given together');
+      expect((await read('version=9')).error).toBe("Version 9 of workflow 'feature' not found");
+    });
+  });
+
+  describe('Sub-workflows', () => {
+    const releasePhases: WorkflowPhase[] = [
+      { phase: 'plan', agent: 'planner', description: 'Plan the release' },
+      { phase: 'audit', workflow: 'security-audit', description: 'Audit the release', dependsOn: ['plan'] },
+      { phase: 'ship', agent: 'shipper', description: 'Ship it', dependsOn: ['audit'] },
+    ];
+    const auditPhases: WorkflowPhase[] = [
+      { phase: 'scan', agent: 'scanner', description: 'Scan dependencies' },
+      { phase: 'report', agent: 'writer', description: 'Write the report', dependsOn: ['scan'] },
+    ];
+    const addWorkflow = (name: string, phases: WorkflowPhase[], complexity = 'simple') =>
+      db
+        .prepare(`INSERT INTO workflows (name, description, content, tags, complexity, phases) VALUES (?, ?, ?, ?, ?, ?)`)
+        .run(name, name, `# ${name}`, null, complexity, JSON.stringify(phases));
+
+    const startRelease = (executionId: string) => {
+      const plan = loadWorkflowPlan(db, 'release')!;
+      const started = stepExecutor.startWorkflow('release', executionId, plan.phases, plan.policy, { workflowVersionId: plan.versionId });
+      return stepExecutor.continueWorkflow(started.new_token!, { summary: 'Planned' }, plan.phases, plan.policy);
+    };
+
+    beforeEach(() => {
+      db.exec(`CREATE TABLE workflows (name TEXT PRIMARY KEY, description TEXT NOT NULL, content TEXT NOT NULL, tags TEXT, complexity TEXT, phases TEXT)`);
+      addWorkflow('release', releasePhases);
+      addWorkflow('security-audit', auditPhases);
+    });
+
+    it("should block the parent phase on a child execution and return the child's steps", () => {
+      const result = startRelease('exec_s1');
+
+      expect(result.steps).toEqual([expect.objectContaining({ execution_id: 'exec_s1.audit', step_name: 'scan', agent_name: 'scanner' })]);
+      const step = stepExecutor.getStep('exec_s1', 'audit');
+      expect(step).toMatchObject({ status: 'running', agent_name: 'workflow:security-audit', token: null, child_execution_id: 'exec_s1.audit' });
+      expect(stateMachine.getExecution('exec_s1.audit')).toMatchObject({ workflow_name: 'security-audit', state: 'running', parent_execution_id: 'exec_s1' });
+      expect(stateMachine.getLineage('exec_s1.audit').map((e) => e.execution_id)).toEqual(['exec_s1.audit', 'exec_s1']);
+    });
+
+    it("should complete the parent phase with the child's WorkflowOutput and advance the parent", () => {
+      const scan = startRelease('exec_s2').steps![0]!;
+      const report = stepExecutor.continueWorkflow(scan.token, { summary: 'No vulnerable packages', findings: ['lodash pinned'] }, auditPhases);
+      const result = stepExecutor.continueWorkflow(report.new_token!, { summary: 'Audit clean' }, auditPhases);
+
+      expect(result.workflow_state).toBe('completed');
+      expect(result.steps).toEqual([expect.objectContaining({ execution_id: 'exec_s2', step_name: 'ship' })]);
+      expect(stepExecutor.getStep('exec_s2', 'audit')?.output).toMatchObject({
+        summary: 'Audit clean',
+        workflow: { name: 'security-audit' },
+        steps: [expect.objectContaining({ step_name: 'scan' }), expect.objectContaining({ step_name: 'report' })],
+        findings: ['lodash pinned'],
+        references: ['midex://workflow/step_history/exec_s2.audit'],
+      });
+
+      const events = db
+        .prepare(`SELECT event_type FROM telemetry_events_v2 WHERE execution_id = 'exec_s2' AND event_type LIKE 'subworkflow_%' ORDER BY id`)
+        .all() as { event_type: string }[];
+      expect(events.map((e) => e.event_type)).toEqual(['subworkflow_started', 'subworkflow_finished']);
+    });
+
+    it('should fail the parent phase when the child is abandoned', () => {
+      startRelease('exec_s3');
+
+      stepExecutor.abandonExecution('exec_s3.audit', 'Auditor unavailable');
+      expect(stepExecutor.getStep('exec_s3', 'audit')?.status).toBe('failed');
+      expect(stateMachine.getExecution('exec_s3')?.state).toBe('failed');
+    });
+
+    it('should abandon running children when the parent is abandoned', () => {
+      startRelease('exec_s4');
+
+      stepExecutor.abandonExecution('exec_s4', 'Release cancelled');
+      expect(stateMachine.getExecution('exec_s4.audit')?.state).toBe('abandoned');
+      expect(stepExecutor.getStep('exec_s4', 'audit')?.status).toBe('failed');
+    });
+
+    it('should pause and resume children with their parent', () => {
+      const scan = startRelease('exec_s5').steps![0]!;
+
+      stepExecutor.pauseExecution('exec_s5', 'Freeze');
+      expect(stateMachine.getExecution('exec_s5.audit')?.state).toBe('paused');
+      expect(stepExecutor.resumeExecution('exec_s5.audit', 'Thaw', auditPhases).success).toBe(false);
+
+      const resumed = stepExecutor.resumeExecution('exec_s5', 'Thaw', releasePhases);
+      expect(stateMachine.getExecution('exec_s5.audit')?.state).toBe('running');
+      expect(resumed.steps).toEqual([expect.objectContaining({ execution_id: 'exec_s5.audit', step_name: 'scan' })]);
+      expect(resumed.steps![0]!.token).not.toBe(scan.token);
+    });
+
+    it('should fail a sub-workflow phase that would run a workflow already in its lineage', () => {
+      db.prepare(`UPDATE workflows SET phases = ? WHERE name = 'security-audit'`).run(
+        JSON.stringify([{ phase: 'again', workflow: 'release', description: 'Release again' }])
+      );
+
+      const result = startRelease('exec_s6');
+      expect(result.steps ?? []).toEqual([]);
+      expect(stepExecutor.getStep('exec_s6', 'audit')).toMatchObject({ status: 'failed' });
+      expect(stepExecutor.getStep('exec_s6.audit', 'again')?.output).toEqual({ error: 'Sub-workflow cycle: release -> security-audit -> release' });
+      expect(stateMachine.getExecution('exec_s6')?.state).toBe('failed');
+    });
+  });
+
+  describe('Rework Loops', () => {
+    const featurePhases: WorkflowPhase[] = [
+      { phase: 'implement', agent: 'implementer', description: 'Implement the change', maxIterations: 2 },
+      {
+        phase: 'review',
+        agent: 'reviewer',
+        description: 'Review the change',
+        dependsOn: ['implement'],
+        onOutcome: [{ when: { field: 'verdict', equals: 'changes_requested' }, goto: 'implement' }],
+      },
+      {
+        phase: 'document',
+        agent: 'writer',
+        description: 'Update user docs',
+        dependsOn: ['review'],
+        when: { field: 'data.user_facing', equals: true },
+      },
+      { phase: 'release', agent: 'shipper', description: 'Release', dependsOn: ['document'] },
+    ];
+    const review = (executionId: string) => {
+      const started = stepExecutor.startWorkflow('feature', executionId, featurePhases);
+      return stepExecutor.continueWorkflow(started.new_token!, { summary: 'Implemented' }, featurePhases).new_token!;
+    };
+    const rows = (executionId: string) => stepExecutor.getSteps(executionId).map((s) => [s.step_name, s.iteration, s.status]);
+
+    it('should send the workflow back to the goto phase as a new iteration', () => {
+      const result = stepExecutor.continueWorkflow(
+        review('exec_r1'),
+        { summary: 'Missing tests', verdict: 'changes_requested' },
+        featurePhases
+      );
+
+      expect(result.workflow_state).toBe('running');
+      expect(result.steps).toEqual([expect.objectContaining({ step_name: 'implement', iteration: 2 })]);
+      expect(rows('exec_r1')).toEqual([
+        ['implement', 1, 'completed'],
+        ['review', 1, 'completed'],
+        ['implement', 2, 'running'],
+      ]);
+
+      const context = new StepContextBuilder(db).build('exec_r1', 'implement', featurePhases);
+      expect(context.upstream).toEqual([expect.objectContaining({ step_name: 'review', summary: 'Missing tests', verdict: 'changes_requested' })]);
+
+      const transition = db
+        .prepare(`SELECT step_name, metadata FROM telemetry_events_v2 WHERE execution_id = 'exec_r1' AND event_type = 'phase_transition'`)
+        .get() as { step_name: string; metadata: string };
+      expect(transition.step_name).toBe('review');
+      expect(JSON.parse(transition.metadata)).toMatchObject({ goto: 'implement', iteration: 2, verdict: 'changes_requested' });
+    });
+
+    it('should run the next iteration of downstream phases and continue once approved', () => {
+      const rework = stepExecutor.continueWorkflow(review('exec_r2'), { summary: 'Rename it', verdict: 'changes_requested' }, featurePhases);
+      const secondReview = stepExecutor.continueWorkflow(rework.new_token!, { summary: 'Renamed' }, featurePhases);
+      expect(secondReview.steps).toEqual([expect.objectContaining({ step_name: 'review', iteration: 2 })]);
+
+      const approved = stepExecutor.continueWorkflow(
+        secondReview.new_token!,
+        { summary: 'Looks good', verdict: 'approved', data: { user_facing: true } },
+        featurePhases
+      );
+      expect(approved.steps?.map((s) => s.step_name)).toEqual(['document']);
+      const released = stepExecutor.continueWorkflow(approved.new_token!, { summary: 'Documented' }, featurePhases);
+      const done = stepExecutor.continueWorkflow(released.new_token!, { summary: 'Released' }, featurePhases);
+
+      expect(done.workflow_state).toBe('completed');
+      expect(stepExecutor.getStep('exec_r2', 'review')).toMatchObject({ iteration: 2, output: expect.objectContaining({ verdict: 'approved' }) });
+    });
+
+    it('should skip a phase whose when condition does not hold', () => {
+      const result = stepExecutor.continueWorkflow(
+        review('exec_r3'),
+        { summary: 'Internal refactor', verdict: 'approved', data: { user_facing: false } },
+        featurePhases
+      );
+
+      expect(result.steps?.map((s) => s.step_name)).toEqual(['release']);
+      expect(stepExecutor.getStep('exec_r3', 'document')).toMatchObject({ status: 'skipped', token: null });
+      expect(stepExecutor.continueWorkflow(result.new_token!, { summary: 'Released' }, featurePhases).workflow_state).toBe('completed');
+    });
+
+    it('should fail the execution once the goto phase reaches maxIterations', () => {
+      const rework = stepExecutor.continueWorkflow(review('exec_r4'), { summary: 'No', verdict: 'changes_requested' }, featurePhases);
+      const secondReview = stepExecutor.continueWorkflow(rework.new_token!, { summary: 'Tried again' }, featurePhases);
+      const result = stepExecutor.continueWorkflow(secondReview.new_token!, { summary: 'Still no', verdict: 'changes_requested' }, featurePhases);
+
+      expect(result.workflow_state).toBe('failed');
+      expect(stateMachine.getExecution('exec_r4')?.metadata?.error).toMatchObject({ code: 'max_iterations', step_name: 'review' });
+      expect(rows('exec_r4')).toHaveLength(4);
+    });
+
+    it('should reject transitions that do not go back upstream', () => {
+      const forward = featurePhases.map((p) =>
+        p.phase === 'review' ? { ...p, onOutcome: [{ when: { field: 'verdict', equals: 'approved' }, goto: 'release' }] } : p
+      );
+
+      const result = stepExecutor.startWorkflow('feature', 'exec_r5', forward);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("transitions to 'release', which is not upstream of it");
+    });
+  });
+
+  describe('Approval Gates', () => {
+    const gatedPhases: WorkflowPhase[] = [
+      { phase: 'design', agent: 'architect', description: 'Design the change' },
+      { phase: 'design-approval', approval: { onReject: 'design' }, description: 'Sign off the design', dependsOn: ['design'] },
+      { phase: 'implement', agent: 'implementer', description: 'Implement the design', dependsOn: ['design-approval'] },
+    ];
+    const awaitApproval = (executionId: string) => {
+      const started = stepExecutor.startWorkflow('feature', executionId, gatedPhases);
+      return stepExecutor.continueWorkflow(started.new_token!, { summary: 'Designed' }, gatedPhases);
+    };
+    const events = (executionId: string, type: string) =>
+      (db.prepare(`SELECT metadata FROM telemetry_events_v2 WHERE execution_id = ? AND event_type = ?`).all(executionId, type) as Array<{ metadata: string }>).map(
+        (e) => JSON.parse(e.metadata)
+      );
+
+    it('should park the execution on an approval phase and continue once approved', () => {
+      const parked = awaitApproval('exec_a1');
+
+      expect(parked.workflow_state).toBe('awaiting_approval');
+      expect(parked.steps).toEqual([]);
+      expect(parked.message).toContain('workflow.approve');
+      expect(stateMachine.getExecution('exec_a1')).toMatchObject({ state: 'awaiting_approval', current_step: 'design-approval' });
+      expect(stepExecutor.getStep('exec_a1', 'design-approval')).toMatchObject({ status: 'running', agent_name: 'approval', token: null });
+      expect(events('exec_a1', 'approval_requested')).toEqual([{ iteration: 1, reject_to: 'design' }]);
+
+      const approved = stepExecutor.decideApproval(
+        'exec_a1',
+        { decision: 'approved', comment: null, decided_by: 'lead', source: 'mcp' },
+        gatedPhases
+      );
+
+      expect(approved).toMatchObject({ success: true, workflow_state: 'running', step_name: 'implement' });
+      expect(stepExecutor.getStep('exec_a1', 'design-approval')).toMatchObject({
+        status: 'completed',
+        output: { summary: 'Approved by lead', verdict: 'approved', data: { comment: null, decided_by: 'lead', source: 'mcp' } },
+      });
+      expect(db.prepare(`SELECT decision, source, applied_at IS NOT NULL as applied FROM workflow_approvals`).get()).toEqual({
+        decision: 'approved',
+        source: 'mcp',
+        applied: 1,
+      });
+      expect(events('exec_a1', 'approval_decided')).toEqual([{ decision: 'approved', decided_by: 'lead', source: 'mcp' }]);
+      expect(stepExecutor.continueWorkflow(approved.new_token!, { summary: 'Implemented' }, gatedPhases).workflow_state).toBe('completed');
+    });
+
+    it('should send a rejection back to onReject with the comment in its context', () => {
+      awaitApproval('exec_a2');
+
+      const uncommented = stepExecutor.decideApproval('exec_a2', { decision: 'rejected', comment: ' ', decided_by: null, source: 'cli' }, gatedPhases);
+      expect(uncommented.success).toBe(false);
+      expect(uncommented.error).toContain('needs a comment');
+
+      const rejected = stepExecutor.decideApproval(
+        'exec_a2',
+        { decision: 'rejected', comment: 'Split the migration', decided_by: null, source: 'cli' },
+        gatedPhases
+      );
+      expect(rejected.steps).toEqual([expect.objectContaining({ step_name: 'design', iteration: 2 })]);
+
+      const context = new StepContextBuilder(db).build('exec_a2', 'design', gatedPhases);
+      expect(context.upstream).toEqual([
+        expect.objectContaining({ step_name: 'design-approval', summary: 'Rejected: Split the migration', verdict: 'rejected' }),
+      ]);
+
+      const parkedAgain = stepExecutor.continueWorkflow(rejected.new_token!, { summary: 'Redesigned' }, gatedPhases);
+      expect(parkedAgain.workflow_state).toBe('awaiting_approval');
+      expect(stepExecutor.getStep('exec_a2', 'design-approval')).toMatchObject({ iteration: 2, status: 'running' });
+    });
+
+    it('should apply a decision recorded by the client and refuse a second one', () => {
+      awaitApproval('exec_a3');
+      db.prepare(
+        `INSERT INTO workflow_approvals (execution_id, step_name, iteration, decision, comment, decided_by, source) VALUES ('exec_a3', 'design-approval', 1, 'approved', 'Ship it', 'pat', 'client')`
+      ).run();
+
+      const second = stepExecutor.decideApproval('exec_a3', { decision: 'rejected', comment: 'Wait', decided_by: null, source: 'mcp' }, gatedPhases);
+      expect(second.success).toBe(false);
+      expect(second.error).toContain('already approved (via client)');
+
+      const applied = stepExecutor.applyPendingApproval('exec_a3', gatedPhases);
+      expect(applied).toMatchObject({ success: true, workflow_state: 'running', step_name: 'implement' });
+      expect(stepExecutor.applyPendingApproval('exec_a3', gatedPhases)).toBeNull();
+      expect(stepExecutor.getStep('exec_a3', 'design-approval')?.output).toMatchObject({ verdict: 'approved', data: { source: 'client' } });
+    });
+
+    it('should allow abandoning while awaiting approval and reject onReject targets that are not upstream', () => {
+      awaitApproval('exec_a4');
+      expect(stepExecutor.abandonExecution('exec_a4', 'Dropped').workflow_state).toBe('abandoned');
+      expect(stepExecutor.getStep('exec_a4', 'design-approval')?.status).toBe('failed');
+
+      const forward = gatedPhases.map((p) => (p.approval ? { ...p, approval: { onReject: 'implement' } } : p));
+      const result = stepExecutor.startWorkflow('feature', 'exec_a5', forward);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("rejects to 'implement', which is not upstream of it");
+    });
+  });
+
+  describe('Workflow Recommendations', () => {
+    const recommend = (description: string) => {
+      const result = new WorkflowRecommender(db).recommend(WorkflowRecommendArgsSchema.parse({ description }));
+      if (typeof result === 'string') throw new Error(result);
+      return result;
+    };
+    const finish = (workflowName: string, states: string[]) => {
+      const insert = db.prepare(
+        `INSERT INTO workflow_executions_v2 (execution_id, workflow_name, state, started_at, updated_at) VALUES (?, ?, ?, datetime('now'), datetime('now'))`
+      );
+      states.forEach((state, i) => insert.run(`${workflowName}_${i}`, workflowName, state));
+    };
+
+    beforeEach(() => {
+      db.exec(`
+        CREATE TABLE workflows (
+          id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE NOT NULL, description TEXT NOT NULL, content TEXT NOT NULL,
+          tags TEXT, triggers TEXT, complexity TEXT, phases TEXT
+        );
+        CREATE VIRTUAL TABLE workflows_fts USING fts5(name, description, content, tags, content='workflows', content_rowid='id', tokenize='porter unicode61');
+      `);
+      const insert = db.prepare(`INSERT INTO workflows (name, description, content, tags, triggers, complexity) VALUES (?, ?, ?, ?, ?, ?)`);
+      insert.run('bug-fix', 'Systematic bug fixing with diagnosis', '# Bug Fix', '["bugfix", "debugging"]', '{"keywords":["fix bug","debug"],"complexity_hint":"simple"}', 'moderate');
+      insert.run('root-cause', 'Parallel root cause analysis of failures', '# Root cause\n\nDebug production errors.', '["debugging", "analysis"]', '{"keywords":["root cause"]}', 'high');
+      insert.run('docs-review', 'Documentation review', '# Docs', '["documentation"]', null, 'moderate');
+      db.exec(`INSERT INTO workflows_fts(workflows_fts) VALUES ('rebuild')`);
+    });
+
+    it('should rank trigger keywords and tags above text relevance', () => {
+      const [first, second] = recommend('Fix the bug where login fails, needs some debugging');
+
+      expect(first).toMatchObject({ name: 'bug-fix', matched_keywords: ['fix bug'], matched_tags: ['debugging'], complexity_hint: 'simple' });
+      expect(second).toMatchObject({ name: 'root-cause', matched_keywords: [], matched_tags: ['debugging'], complexity_hint: null });
+      expect(first!.score).toBeGreaterThan(second!.score);
+    });
+
+    it('should leave out workflows with no relevance and report a description with no searchable words', () => {
+      expect(recommend('debug it').map((r) => r.name)).not.toContain('docs-review');
+      expect(recommend('quantum entanglement')).toEqual([]);
+      expect(new WorkflowRecommender(db).recommend(WorkflowRecommendArgsSchema.parse({ description: 'the, and!' }))).toMatch(/no searchable words/);
+    });
+
+    it('should scale relevance by the success rate of finished executions', () => {
+      expect(recommend('debugging').map((r) => r.name)).toEqual(['root-cause', 'bug-fix']);
+
+      finish('root-cause', ['failed', 'abandoned', 'failed', 'running']);
+      finish('bug-fix', ['completed', 'completed']);
+      const [first, second] = recommend('debugging');
+
+      expect(first).toMatchObject({ name: 'bug-fix', success_rate: 1, finished_executions: 2 });
+      expect(second).toMatchObject({ name: 'root-cause', success_rate: 0, finished_executions: 3 });
+    });
+  });
+
+  describe('Resource Subscriptions', () => {
+    const phases: WorkflowPhase[] = [
+      { phase: 'design', agent: 'architect', description: 'Design it' },
+      { phase: 'build', agent: 'implementer', description: 'Build it', dependsOn: ['design'] },
+    ];
+    let notified: string[];
+    let subscriptions: ResourceSubscriptions;
+
+    beforeEach(() => {
+      notified = [];
+      subscriptions = new ResourceSubscriptions(db, async (uri) => {
+        notified.push(uri);
+      });
+    });
+
+    it('should map execution resource URIs to their execution', () => {
+      expect(executionIdOf('midex://workflow/current_step/exec_1')).toBe('exec_1');
+      expect(executionIdOf('midex://workflow/workflow_artifacts/exec_1/design')).toBe('exec_1');
+      expect(executionIdOf('midex://workflow/telemetry/exec_1?event_type=step_started')).toBe('exec_1');
+      expect(executionIdOf('midex://workflow/available_workflows')).toBeNull();
+      expect(executionIdOf('midex://knowledge/finding/3')).toBeNull();
+    });
+
+    it('should notify subscribers when the state or current step changes, and only then', async () => {
+      const started = stepExecutor.startWorkflow('feature', 'exec_sub', phases);
+      expect(subscriptions.subscribe('midex://workflow/current_step/exec_sub')).toBeNull();
+      expect(subscriptions.subscribe('midex://workflow/workflow_status/exec_sub')).toBeNull();
+
+      await subscriptions.check();
+      expect(notified).toEqual([]);
+
+      stateMachine.mergeMetadata('exec_sub', { note: 'not a state change' });
+      await subscriptions.check();
+      expect(notified).toEqual([]);
+
+      const next = stepExecutor.continueWorkflow(started.new_token!, { summary: 'Designed' }, phases);
+      await subscriptions.check();
+      expect(notified).toEqual(['midex://workflow/current_step/exec_sub', 'midex://workflow/workflow_status/exec_sub']);
+
+      subscriptions.unsubscribe('midex://workflow/workflow_status/exec_sub');
+      stepExecutor.continueWorkflow(next.new_token!, { summary: 'Built' }, phases);
+      await subscriptions.check();
+      expect(notified.slice(2)).toEqual(['midex://workflow/current_step/exec_sub']);
+    });
+
+    it('should refuse resources that are not about a known execution', () => {
+      expect(subscriptions.subscribe('midex://workflow/available_workflows')).toMatch(/Only execution resources/);
+      expect(subscriptions.subscribe('midex://workflow/current_step/ghost')).toBe('Execution ghost not found');
+      expect(subscriptions.size).toBe(0);
+    });
+  });
+
+  describe('Resource Completion', () => {
+    const template = (name: string) => RESOURCE_TEMPLATES.find((t) => t.name === name)!.uriTemplate;
+    let completions: ResourceCompletions;
+
+    beforeEach(() => {
+      db.exec(`CREATE TABLE workflows (name TEXT PRIMARY KEY, description TEXT NOT NULL, tags TEXT, phases TEXT)`);
+      const insert = db.prepare(`INSERT INTO workflows (name, description) VALUES (?, 'Workflow')`);
+      for (const name of ['bug-fix', 'feature-development', 'feature-flags']) insert.run(name);
+      completions = new ResourceCompletions(db);
+    });
+
+    it('should complete workflow names by prefix', () => {
+      expect(completions.complete(template('Workflow Details'), 'workflowName', 'feat')).toEqual({
+        values: ['feature-development', 'feature-flags'],
+        total: 2,
+        hasMore: false,
+      });
+      expect(completions.complete('midex://unknown/{workflowName}', 'workflowName', 'feat').values).toEqual([]);
+    });
+
+    it('should complete execution IDs with active executions first, and step names of the chosen execution', () => {
+      const phases: WorkflowPhase[] = [{ phase: 'design', agent: 'architect', description: 'Design it' }];
+      const done = stepExecutor.startWorkflow('bug-fix', 'exec_done', phases);
+      stepExecutor.continueWorkflow(done.new_token!, { summary: 'Done' }, phases);
+      stepExecutor.startWorkflow('bug-fix', 'exec_live', phases);
+      stepExecutor.startWorkflow('bug-fix', 'other_live', phases);
+
+      expect(completions.complete(template('Current Step (PRIMARY)'), 'executionId', 'exec_').values).toEqual(['exec_live', 'exec_done']);
+      expect(completions.complete(template('Workflow Artifacts'), 'stepName', 'd', { executionId: 'exec_done' }).values).toEqual(['design']);
+      expect(completions.complete(template('Workflow Artifacts'), 'stepName', 'd').values).toEqual([]);
+    });
+  });
+
+  describe('HTTP Transport', () => {
+    const token = 'test-token';
+    let http: McpHttpServer;
+
+    beforeEach(async () => {
+      http = new McpHttpServer({ enabled: true, host: '127.0.0.1', port: 0, path: '/mcp', token }, () => {
+        const server = new Server({ name: 'midex-test', version: '0.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [{ name: 'ping', inputSchema: { type: 'object' } }] }));
+        return server;
+      });
+      await http.listen();
+    });
+
+    afterEach(async () => {
+      await http.close();
+    });
+
+    it('should refuse requests without the bearer token, off the endpoint path, or outside a session', async () => {
+      const initialize = JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+      });
+      const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+      const unauthorized = await fetch(http.url, { method: 'POST', headers: { ...headers, Authorization: 'Bearer wrong' }, body: initialize });
+      expect(unauthorized.status).toBe(401);
+      expect(unauthorized.headers.get('www-authenticate')).toBe('Bearer');
+
+      const authorized = { ...headers, Authorization: `Bearer ${token}` };
+      expect((await fetch(http.url.replace('/mcp', '/other'), { method: 'POST', headers: authorized, body: initialize })).status).toBe(404);
+      expect((await fetch(http.url, { method: 'POST', headers: authorized, body: '{"jsonrpc":"2.0","id":2,"method":"tools/list"}' })).status).toBe(400);
+      expect((await fetch(http.url, { method: 'POST', headers: { ...authorized, 'Mcp-Session-Id': 'ghost' }, body: initialize })).status).toBe(404);
+      expect(http.sessionCount).toBe(0);
+    });
+
+    it('should serve each client its own session until it disconnects', async () => {
+      const connect = async () => {
+        const client = new Client({ name: 'test', version: '0.0.0' });
+        const transport = new StreamableHTTPClientTransport(new URL(http.url), { requestInit: { headers: { Authorization: `Bearer ${token}` } } });
+        await client.connect(transport);
+        return { client, transport };
+      };
+
+      const first = await connect();
+      const second = await connect();
+      expect(http.sessionCount).toBe(2);
+      expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+      expect((await second.client.listTools()).tools.map((tool) => tool.name)).toEqual(['ping']);
+
+      await first.transport.terminateSession();
+      await first.client.close();
+      expect(http.sessionCount).toBe(1);
+      await second.client.close();
+    });
+
+    it('should answer with a 500 when a session server fails to connect', async () => {
+      const failing = new McpHttpServer({ enabled: true, host: '127.0.0.1', port: 0, path: '/mcp', token }, () => {
+        const server = new Server({ name: 'midex-test', version: '0.0.0' }, { capabilities: { tools: {} } });
+        vi.spyOn(server, 'connect').mockRejectedValue(new Error('Transport already started'));
+        return server;
+      });
+      await failing.listen();
+      const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const response = await fetch(failing.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+        }),
+      });
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.message).toBe('Transport already started');
+      expect(failing.sessionCount).toBe(0);
+      logged.mockRestore();
+      await failing.close();
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('should handle missing execution gracefully', () => {
+      const execution = stateMachine.getExecution('nonexistent');
+      expect(execution).toBeNull();
+    });
+
+    it('should reject transition on nonexistent execution', () => {
+      expect(() => {
+        stateMachine.transitionState('nonexistent', 'running');
+      }).toThrow('not found');
+    });
+
+    it('should handle workflow with no phases', () => {
+      const result = stepExecutor.startWorkflow('test-workflow', 'exec_010', []);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No phases');
+    });
+  });
+
+  describe('Transactional Guarantees', () => {
+    const testPhases: WorkflowPhase[] = [
+      { phase: 'step1', agent: 'agent1', description: 'Step 1' },
+      { phase: 'step2', agent: 'agent2', description: 'Step 2', dependsOn: ['step1'] },
+    ];
+
+    it('should maintain consistency on step completion', () => {
+      const startResult = stepExecutor.startWorkflow('test-workflow', 'exec_011', testPhases);
+      const token = startResult.new_token!;
+
+      // Get steps before
+      const stepsBefore = stepExecutor.getSteps('exec_011');
+      expect(stepsBefore.length).toBe(1);
+
+      // Continue workflow
+      stepExecutor.continueWorkflow(
+        token,
+        { summary: 'Completed' },
+        testPhases
+      );
+
+      // Get steps after
+      const stepsAfter = stepExecutor.getSteps('exec_011');
+      expect(stepsAfter.length).toBe(2);
+      expect(stepsAfter[0].status).toBe('completed');
+      expect(stepsAfter[1].status).toBe('running'); // Next step starts in 'running' state
+    });
+
+    it('should report the execution state left by a rolled-back step failure', () => {
+      const startResult = stepExecutor.startWorkflow('test-workflow', 'exec_rollback', testPhases);
+      const token = startResult.new_token!;
+      vi.spyOn(stepExecutor as unknown as { handleStepFailure: () => never }, 'handleStepFailure').mockImplementation(() => {
+        throw new Error('disk I/O error');
+      });
+
+      const result = stepExecutor.failStep(token, 'Linter crashed', testPhases);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('disk I/O error');
+      expect(result.workflow_state).toBe('running');
+      expect(stepExecutor.getSteps('exec_rollback')[0].status).toBe('running');
+    });
+
+    it('should persist suggested findings in step output', () => {
+      const phases: WorkflowPhase[] = [
+        { phase: 'discover', agent: 'architect', description: 'Discovery' },
+        { phase: 'implement', agent: 'implementer', description: 'Implementation', dependsOn: ['discover'] },
+      ];
+
+      const startResult = stepExecutor.startWorkflow('kb-workflow', 'exec_sf', phases);
+      const token = startResult.new_token!;
+
+      const suggested = [
+        {
+          scope: 'global',
+          category: 'architecture',
+          severity: 'medium',
+          title: 'Document RBAC edge cases',
+          content: 'Capture delete/update permission nuances in shared KB.',
+          tags: ['rbac', 'permissions'],
+        },
+      ];
+
+      const result = stepExecutor.continueWorkflow(
+        token,
+        { summary: 'Discovery complete', suggested_findings: suggested },
+        phases
+      );
+
+      expect(result.success).toBe(true);
+
+      const steps = stepExecutor.getSteps('exec_sf');
+      const stored = steps.find((s) => s.step_name === 'discover');
+      expect(stored?.output).toBeTruthy();
+
+      const storedOutput = stored?.output as Record<string, unknown>;
+      const storedSuggestions = storedOutput?.suggested_findings as Array<Record<string, unknown>>;
+      expect(storedSuggestions).toBeTruthy();
+      expect(storedSuggestions?.[0]?.title).toBe('Document RBAC edge cases');
       expect(storedSuggestions?.[0]?.scope).toBe('global');
     });
   });
+
+  /**
+   * The schema above is written by hand; these run against the one the migrations build, where
+   * trigger order depends on the order migrations created them
+   */
+  describe('Migrated Schema', () => {
+    let migrated: Database.Database;
+
+    beforeEach(async () => {
+      migrated = new Database(join(tmpDir, 'migrated.db'));
+      migrated.pragma('foreign_keys = ON');
+      new MigrationRunner(migrated);
+      for (const migration of await discoverMigrations()) migrated.transaction(() => migration.up(migrated))();
+    });
+
+    afterEach(() => {
+      migrated.close();
+    });
+
+    const checkSearchIndex = () =>
+      migrated.prepare(`INSERT INTO knowledge_findings_fts(knowledge_findings_fts) VALUES ('integrity-check')`).run();
+
+    it('should add findings and keep them searchable', () => {
+      const knowledge = new KnowledgeToolService(migrated);
+      for (const title of ['Pin dependencies', 'Sanitize redirect targets']) {
+        const result = knowledge.addFinding({ scope: 'global', category: 'pattern', severity: 'medium', title, content: `${title} everywhere.` });
+        expect(result.isError).toBeFalsy();
+      }
+
+      expect(() => checkSearchIndex()).not.toThrow();
+      expect(toolResult(knowledge.search({ q: 'redirect' })).results).toEqual([
+        expect.objectContaining({ finding: expect.objectContaining({ title: 'Sanitize redirect targets', uid: expect.any(String) }) }),
+      ]);
+    });
+
+    it('should queue suggested findings without blocking the workflow', () => {
+      const phases: WorkflowPhase[] = [
+        { phase: 'review', agent: 'security-specialist', description: 'Review' },
+        { phase: 'fix', agent: 'implementer', description: 'Fix', dependsOn: ['review'] },
+      ];
+      const executor = new StepExecutor(migrated);
+      const suggestion = { scope: 'global', category: 'security', severity: 'high', title: 'Sanitize redirect targets', content: 'Open redirects.' };
+
+      const start = executor.startWorkflow('review-wf', 'exec_migrated', phases);
+      const result = executor.continueWorkflow(start.new_token!, { summary: 'Reviewed', suggested_findings: [suggestion, { ...suggestion, title: 'Rotate keys' }] }, phases);
+
+      expect(result.success).toBe(true);
+      expect(migrated.prepare(`SELECT COUNT(*) AS count FROM knowledge_findings WHERE status = 'proposed'`).get()).toEqual({ count: 2 });
+      expect(() => checkSearchIndex()).not.toThrow();
+    });
+
+    it('should keep findings searchable through updates that leave updated_at to the trigger', () => {
+      const knowledge = new KnowledgeToolService(migrated);
+      const { id } = toolResult(knowledge.addFinding({ scope: 'global', category: 'pattern', severity: 'medium', title: 'Pin dependencies', content: 'Commit lockfiles.' })).finding as { id: number };
+
+      migrated.prepare(`UPDATE knowledge_findings SET content = 'Commit and review lockfiles.' WHERE id = ?`).run(id);
+
+      expect(() => checkSearchIndex()).not.toThrow();
+      expect(toolResult(knowledge.search({ q: 'review' })).results).toHaveLength(1);
+    });
+
+    it('should compare later imports with the imported content time, not the import time', () => {
+      const bundles = new KnowledgeBundles(migrated);
+      const entry = { uid: 'u-1', scope: 'global', category: 'pattern', severity: 'medium', title: 'Pin dependencies' };
+      const run = (content: string, updatedAt: string) =>
+        bundles.importEntries([{ ...entry, content, updated_at: updatedAt }], { strategy: 'keep-newest', source: 'test' }).findings[0]!.action;
+
+      expect(run('Commit lockfiles.', '2020-01-01T00:00:00.000Z')).toBe('added');
+      expect(run('Commit lockfiles, always.', '2021-01-01T00:00:00.000Z')).toBe('updated');
+      expect(run('Commit and review lockfiles.', '2022-01-01T00:00:00.000Z')).toBe('updated');
+      expect(migrated.prepare(`SELECT content, updated_at FROM knowledge_findings WHERE uid = 'u-1'`).get()).toEqual({
+        content: 'Commit and review lockfiles.',
+        updated_at: '2022-01-01T00:00:00.000Z',
+      });
+    });
+  });
 });
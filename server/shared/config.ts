@@ -23,6 +23,11 @@ const PROJECT_ROOT = resolve(SERVER_ROOT, '..');
 // YAML Config Loading
 // ============================================================================
 
+export interface TokenSigningKey {
+  id: string;
+  secret: string;
+}
+
 interface MidexConfig {
   paths?: {
     database?: string;
@@ -32,11 +37,28 @@ interface MidexConfig {
   mcp?: {
     name?: string;
     version?: string;
+    tokens?: {
+      keys?: TokenSigningKey[];
+    };
+    stepContext?: {
+      maxChars?: number;
+    };
+    stepKnowledge?: {
+      maxFindings?: number;
+      maxChars?: number;
+    };
     server?: {
       command?: string;
       args?: string[];
       env?: Record<string, string>;
     };
+    http?: {
+      enabled?: boolean;
+      host?: string;
+      port?: number;
+      path?: string;
+      token?: string;
+    };
     autoRegister?: {
       enabled?: boolean;
       tools?: Record<string, boolean>;
@@ -44,6 +66,11 @@ interface MidexConfig {
       createBackups?: boolean;
     };
   };
+  sync?: {
+    conflictStrategy?: string;
+    watch?: boolean;
+    debounceMs?: number;
+  };
   tools?: any;
 }
 
@@ -140,3 +167,157 @@ export function getDatabasePath(): string {
   return resolve(PROJECT_ROOT, 'shared', 'database', 'app.db');
 }
 
+/**
+ * Get the configured keys used to sign continuation tokens
+ * The first key signs new tokens; the rest are only accepted for verification so keys can be rotated
+ *
+ * Priority: 1. MIDEX_TOKEN_KEYS env ("id:secret,id:secret"), 2. YAML config (mcp.tokens.keys)
+ * @returns No keys when none are configured; the key setup stored in the database is used then
+ */
+export function getTokenSigningKeys(): TokenSigningKey[] {
+  const override = process.env.MIDEX_TOKEN_KEYS;
+  if (override) {
+    const keys = override
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .map((entry) => {
+        const separator = entry.indexOf(':');
+        return separator > 0 ? { id: entry.slice(0, separator), secret: entry.slice(separator + 1) } : { id: '', secret: '' };
+      })
+      .filter((key) => key.id.length > 0 && key.secret.length > 0);
+    if (keys.length > 0) return keys;
+  }
+
+  return (loadMidexConfig().mcp?.tokens?.keys ?? []).filter(
+    (key) => typeof key?.id === 'string' && key.id.length > 0 && typeof key.secret === 'string' && key.secret.length > 0
+  );
+}
+
+const DEFAULT_STEP_CONTEXT_MAX_CHARS = 16000;
+
+/**
+ * Size budget (in characters of JSON) for the upstream context attached to each ready step
+ * Priority: 1. MIDEX_STEP_CONTEXT_MAX_CHARS env, 2. YAML config (mcp.stepContext.maxChars), 3. Default
+ */
+export function getStepContextBudget(): number {
+  const configured = loadMidexConfig().mcp?.stepContext?.maxChars;
+  const fallback = typeof configured === 'number' && configured > 0 ? configured : DEFAULT_STEP_CONTEXT_MAX_CHARS;
+  const budget = getEnvNumber('MIDEX_STEP_CONTEXT_MAX_CHARS', fallback);
+  return budget > 0 ? Math.floor(budget) : fallback;
+}
+
+export interface StepKnowledgeLimits {
+  maxFindings: number;
+  maxChars: number;
+}
+
+const DEFAULT_STEP_KNOWLEDGE_MAX_FINDINGS = 5;
+const DEFAULT_STEP_KNOWLEDGE_MAX_CHARS = 4000;
+
+/**
+ * How many active findings (and how many characters of JSON) are injected into each ready step
+ * Priority: 1. MIDEX_STEP_KNOWLEDGE_MAX_FINDINGS / MIDEX_STEP_KNOWLEDGE_MAX_CHARS env,
+ * 2. YAML config (mcp.stepKnowledge.maxFindings / maxChars), 3. Defaults. 0 findings disables injection
+ */
+export function getStepKnowledgeLimits(): StepKnowledgeLimits {
+  const configured = loadMidexConfig().mcp?.stepKnowledge;
+  const findingsFallback =
+    typeof configured?.maxFindings === 'number' && configured.maxFindings >= 0 ? configured.maxFindings : DEFAULT_STEP_KNOWLEDGE_MAX_FINDINGS;
+  const charsFallback =
+    typeof configured?.maxChars === 'number' && configured.maxChars > 0 ? configured.maxChars : DEFAULT_STEP_KNOWLEDGE_MAX_CHARS;
+  const maxFindings = getEnvNumber('MIDEX_STEP_KNOWLEDGE_MAX_FINDINGS', findingsFallback);
+  const maxChars = getEnvNumber('MIDEX_STEP_KNOWLEDGE_MAX_CHARS', charsFallback);
+  return {
+    maxFindings: maxFindings >= 0 ? Math.floor(maxFindings) : findingsFallback,
+    maxChars: maxChars > 0 ? Math.floor(maxChars) : charsFallback,
+  };
+}
+
+const SYNC_CONFLICT_STRATEGIES = ['keep-newest', 'keep-filesystem', 'keep-database', 'manual'] as const;
+export type SyncConflictStrategy = (typeof SYNC_CONFLICT_STRATEGIES)[number];
+
+/**
+ * How the content sync settles a file that changed since it was last synced
+ * Priority: 1. MIDEX_SYNC_CONFLICT_STRATEGY env, 2. YAML config (sync.conflictStrategy), 3. keep-newest.
+ * Unknown values fall through to the next source
+ */
+export function getSyncConflictStrategy(): SyncConflictStrategy {
+  const isStrategy = (value: unknown): value is SyncConflictStrategy =>
+    typeof value === 'string' && (SYNC_CONFLICT_STRATEGIES as readonly string[]).includes(value);
+
+  const override = process.env.MIDEX_SYNC_CONFLICT_STRATEGY;
+  if (isStrategy(override)) return override;
+
+  const configured = loadMidexConfig().sync?.conflictStrategy;
+  return isStrategy(configured) ? configured : 'keep-newest';
+}
+
+export interface SyncWatchSettings {
+  enabled: boolean;
+  debounceMs: number;
+}
+
+const DEFAULT_SYNC_WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Whether the MCP server watches content and tool configs for live resync, and how long events
+ * must settle before a plugin resyncs
+ * Priority: 1. MIDEX_SYNC_WATCH / MIDEX_SYNC_DEBOUNCE_MS env, 2. YAML config (sync.watch / sync.debounceMs),
+ * 3. Defaults (on for the shared HTTP server, off for stdio, 300ms)
+ * Every tool spawns its own stdio server on the same database, so watching there would resync it once per server
+ */
+export function getSyncWatchSettings(http: boolean): SyncWatchSettings {
+  const configured = loadMidexConfig().sync;
+  const debounceFallback =
+    typeof configured?.debounceMs === 'number' && configured.debounceMs >= 0 ? configured.debounceMs : DEFAULT_SYNC_WATCH_DEBOUNCE_MS;
+  const debounceMs = getEnvNumber('MIDEX_SYNC_DEBOUNCE_MS', debounceFallback);
+  return {
+    enabled: getEnvBoolean('MIDEX_SYNC_WATCH', configured?.watch ?? http),
+    debounceMs: debounceMs >= 0 ? Math.floor(debounceMs) : debounceFallback,
+  };
+}
+
+export interface HttpTransportSettings {
+  enabled: boolean;
+  host: string;
+  port: number;
+  path: string;
+  token: string | null; // Bearer token clients must send; the transport does not start without one
+}
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3838;
+const DEFAULT_HTTP_PATH = '/mcp';
+
+/**
+ * Streamable HTTP transport of the MCP server, which lets several tools share one server process
+ * Priority: 1. MIDEX_HTTP / MIDEX_HTTP_HOST / MIDEX_HTTP_PORT / MIDEX_HTTP_TOKEN env, 2. YAML config
+ * (mcp.http.enabled / host / port / path / token), 3. Defaults (off, 127.0.0.1:3838/mcp, no token)
+ */
+export function getHttpTransportSettings(): HttpTransportSettings {
+  const configured = loadMidexConfig().mcp?.http;
+  const portFallback =
+    typeof configured?.port === 'number' && Number.isInteger(configured.port) && configured.port > 0 && configured.port < 65536
+      ? configured.port
+      : DEFAULT_HTTP_PORT;
+  const port = getEnvNumber('MIDEX_HTTP_PORT', portFallback);
+  const path = typeof configured?.path === 'string' && configured.path.startsWith('/') ? configured.path : DEFAULT_HTTP_PATH;
+  const token = process.env.MIDEX_HTTP_TOKEN || (typeof configured?.token === 'string' ? configured.token : '');
+
+  return {
+    enabled: getEnvBoolean('MIDEX_HTTP', configured?.enabled === true),
+    host: env('MIDEX_HTTP_HOST', typeof configured?.host === 'string' && configured.host.length > 0 ? configured.host : DEFAULT_HTTP_HOST),
+    port: Number.isInteger(port) && port > 0 && port < 65536 ? port : portFallback,
+    path,
+    token: token.length > 0 ? token : null,
+  };
+}
+
+/**
+ * URL clients reach the HTTP transport at; a wildcard host is reached over loopback
+ */
+export function getHttpTransportUrl(settings: HttpTransportSettings): string {
+  const host = settings.host === '0.0.0.0' || settings.host === '::' ? '127.0.0.1' : settings.host;
+  return `http://${host.includes(':') ? `[${host}]` : host}:${settings.port}${settings.path}`;
+}
@@ -166,6 +166,25 @@ describe('Conflict Resolution Integration', () => {
       expect(resolution.reason).toBe('Database version is newer');
     });
 
+    it('should read SQLite CURRENT_TIMESTAMP values as UTC with keep-newest strategy', () => {
+      const fsResource = {
+        metadata: {
+          hash: 'fs-hash',
+          path: 'test.md',
+          lastModified: new Date('2026-03-01T12:00:30Z'),
+        },
+      };
+
+      const dbResource = {
+        hash: 'db-hash',
+        updated_at: '2026-03-01 12:00:00',
+      };
+
+      const resolution = resolveConflict(fsResource, dbResource, 'keep-newest');
+
+      expect(resolution.action).toBe('keep-filesystem');
+    });
+
     it('should skip with manual strategy', () => {
       const fsResource = {
         metadata: {
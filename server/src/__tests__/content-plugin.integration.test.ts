@@ -4,8 +4,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rmSync } from 'fs';
 import { ContentPlugin } from '../plugins/content.js';
-import { createTestDatabase, createTempDir, cleanupTempDir, createTestMarkdownFile } from './test-utils.js';
+import { createTestDatabase, createTempDir, cleanupTempDir, createTestMarkdownFile, createTestStructure } from './test-utils.js';
 import type { Database as DB } from 'better-sqlite3';
 import type { ExtractOptions, LoadOptions, PipelineContext } from '../types.js';
 
@@ -259,6 +260,370 @@ describe('ContentPlugin Integration', () => {
     });
   });
 
+  describe('Workflow Phases', () => {
+    const workflowWithPhases = (phases: string) =>
+      `---\nname: phased-workflow\ndescription: Phased workflow\nphases:\n${phases}---\n\nWorkflow content`;
+
+    beforeEach(() => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'debugger.md', { name: 'debugger', description: 'Debugger' }, 'Debug');
+      createTestMarkdownFile(`${tempDir}/agents`, 'implementer.md', { name: 'implementer', description: 'Implementer' }, 'Implement');
+    });
+
+    it('should persist phases from frontmatter', async () => {
+      createTestStructure(tempDir, {
+        'workflows/phased-workflow.md': workflowWithPhases(
+          [
+            '  - phase: diagnose',
+            '    agent: debugger',
+            '    description: Find the root cause',
+            '  - phase: fix',
+            '    agent: implementer',
+            '    description: Fix it',
+            '    dependsOn: [diagnose]',
+            '    allowParallel: false',
+            '',
+          ].join('\n')
+        ),
+      });
+
+      const result = await plugin.sync?.(context);
+      expect(result?.errors).toEqual([]);
+
+      const row = db.prepare('SELECT phases FROM workflows WHERE name = ?').get('phased-workflow') as { phases: string };
+      expect(JSON.parse(row.phases)).toEqual([
+        { phase: 'diagnose', agent: 'debugger', description: 'Find the root cause' },
+        { phase: 'fix', agent: 'implementer', description: 'Fix it', dependsOn: ['diagnose'], allowParallel: false },
+      ]);
+    });
+
+    it('should persist complexity so execution policies can be selected', async () => {
+      createTestMarkdownFile(`${tempDir}/workflows`, 'complex.md', { name: 'complex', description: 'Complex', complexity: 'high' }, 'Content');
+
+      await plugin.sync?.(context);
+
+      const row = db.prepare('SELECT complexity FROM workflows WHERE name = ?').get('complex') as { complexity: string | null };
+      expect(row.complexity).toBe('high');
+    });
+
+    it('should store frontmatter keywords and registry triggers, and re-sync when only the registry changes', async () => {
+      const registry = (keywords: string) =>
+        `workflows:\n  - name: triaged\n    path: workflows/triaged.md\n    triggers:\n      keywords: [${keywords}]\n    complexity_hint: simple\n`;
+      createTestStructure(tempDir, {
+        'workflows/triaged.md': `---\nname: triaged\ndescription: Triaged\nkeywords: [triage]\n---\n\nContent`,
+        'workflows/index.yaml': registry('"fix bug", triage'),
+      });
+
+      expect((await plugin.sync?.(context))?.errors).toEqual([]);
+      const triggers = () => JSON.parse((db.prepare('SELECT triggers FROM workflows WHERE name = ?').get('triaged') as { triggers: string }).triggers);
+      expect(triggers()).toEqual({ keywords: ['triage', 'fix bug'], complexity_hint: 'simple' });
+      expect(await plugin.sync?.(context)).toMatchObject({ updated: 0, errors: [] });
+
+      db.prepare(`UPDATE workflows SET updated_at = '2000-01-01 00:00:00'`).run();
+      createTestStructure(tempDir, { 'workflows/index.yaml': registry('"debug"') });
+      const result = await plugin.sync?.({ ...context, changedPaths: [`${tempDir}/workflows/index.yaml`] });
+
+      expect(result).toMatchObject({ updated: 1, errors: [] });
+      expect(triggers()).toEqual({ keywords: ['triage', 'debug'], complexity_hint: 'simple' });
+      expect(plugin.watchTargets(tempDir)[0]?.filter?.(`${tempDir}/workflows/index.yaml`)).toBe(true);
+    });
+
+    it('should record a new workflow version only when the definition changes', async () => {
+      createTestMarkdownFile(`${tempDir}/workflows`, 'versioned.md', { name: 'versioned', description: 'First' }, 'Content');
+      await plugin.sync?.(context);
+      await plugin.sync?.(context);
+      db.prepare(`UPDATE workflows SET updated_at = '2000-01-01 00:00:00'`).run();
+
+      createTestMarkdownFile(`${tempDir}/workflows`, 'versioned.md', { name: 'versioned', description: 'Second' }, 'Content');
+      await plugin.sync?.(context);
+
+      const versions = db
+        .prepare('SELECT version, description FROM workflow_versions WHERE workflow_name = ? ORDER BY version')
+        .all('versioned');
+      expect(versions).toEqual([
+        { version: 1, description: 'First' },
+        { version: 2, description: 'Second' },
+      ]);
+    });
+
+    it('should store an empty phase list when none are declared', async () => {
+      createTestMarkdownFile(`${tempDir}/workflows`, 'no-phases.md', { name: 'no-phases', description: 'No phases' }, 'Content');
+
+      await plugin.sync?.(context);
+
+      const row = db.prepare('SELECT phases FROM workflows WHERE name = ?').get('no-phases') as { phases: string };
+      expect(JSON.parse(row.phases)).toEqual([]);
+    });
+
+    it('should reject phases depending on unknown phases', async () => {
+      createTestStructure(tempDir, {
+        'workflows/phased-workflow.md': workflowWithPhases(
+          ['  - phase: fix', '    agent: implementer', '    description: Fix it', '    dependsOn: [diagnose]', ''].join('\n')
+        ),
+      });
+
+      const result = await plugin.sync?.(context);
+
+      expect(result?.errors.some((e) => e.includes("depends on unknown phase 'diagnose'"))).toBe(true);
+      expect(db.prepare('SELECT 1 FROM workflows WHERE name = ?').get('phased-workflow')).toBeUndefined();
+    });
+
+    it('should reject phases with dependency cycles', async () => {
+      createTestStructure(tempDir, {
+        'workflows/phased-workflow.md': workflowWithPhases(
+          [
+            '  - phase: diagnose',
+            '    agent: debugger',
+            '    description: Find the root cause',
+            '    dependsOn: [fix]',
+            '  - phase: fix',
+            '    agent: implementer',
+            '    description: Fix it',
+            '    dependsOn: [diagnose]',
+            '',
+          ].join('\n')
+        ),
+      });
+
+      const result = await plugin.sync?.(context);
+
+      expect(result?.errors.some((e) => e.includes('cycle detected: diagnose -> fix -> diagnose'))).toBe(true);
+      expect(db.prepare('SELECT 1 FROM workflows WHERE name = ?').get('phased-workflow')).toBeUndefined();
+    });
+
+    it('should reject phases naming unknown agents', async () => {
+      createTestStructure(tempDir, {
+        'workflows/phased-workflow.md': workflowWithPhases(
+          ['  - phase: review', '    agent: ghost-reviewer', '    description: Review', ''].join('\n')
+        ),
+      });
+
+      const result = await plugin.sync?.(context);
+
+      expect(result?.errors.some((e) => e.includes("'review' -> 'ghost-reviewer'"))).toBe(true);
+      expect(db.prepare('SELECT 1 FROM workflows WHERE name = ?').get('phased-workflow')).toBeUndefined();
+    });
+
+    it('should persist sub-workflow phases and reject phases naming both or neither', async () => {
+      createTestStructure(tempDir, {
+        'workflows/phased-workflow.md': workflowWithPhases(
+          ['  - phase: audit', '    workflow: security-audit', '    description: Audit', ''].join('\n')
+        ),
+        'workflows/self.md': `---\nname: self\ndescription: Self\nphases:\n  - phase: again\n    workflow: self\n    description: Again\n---\n\nContent`,
+        'workflows/both.md': `---\nname: both\ndescription: Both\nphases:\n  - phase: audit\n    agent: debugger\n    workflow: security-audit\n    description: Audit\n---\n\nContent`,
+      });
+
+      const result = await plugin.sync?.(context);
+
+      const row = db.prepare('SELECT phases FROM workflows WHERE name = ?').get('phased-workflow') as { phases: string };
+      expect(JSON.parse(row.phases)).toEqual([{ phase: 'audit', workflow: 'security-audit', description: 'Audit' }]);
+      expect(result?.errors.some((e) => e.includes("Phase 'again' runs its own workflow"))).toBe(true);
+      expect(result?.errors.some((e) => e.includes('A phase names exactly one of an agent, a workflow and an approval'))).toBe(true);
+      expect(db.prepare("SELECT 1 FROM workflows WHERE name IN ('self', 'both')").get()).toBeUndefined();
+    });
+
+    it('should persist when conditions and onOutcome transitions and reject forward transitions', async () => {
+      createTestStructure(tempDir, {
+        'workflows/phased-workflow.md': workflowWithPhases(
+          [
+            '  - phase: fix',
+            '    agent: implementer',
+            '    description: Fix it',
+            '    maxIterations: 4',
+            '  - phase: verify',
+            '    agent: debugger',
+            '    description: Verify',
+            '    dependsOn: [fix]',
+            '    when: { field: data.risk, in: [medium, high] }',
+            '    onOutcome:',
+            '      - when: { field: verdict, equals: changes_requested }',
+            '        goto: fix',
+            '',
+          ].join('\n')
+        ),
+        'workflows/forward.md': `---\nname: forward\ndescription: Forward\nphases:\n  - phase: fix\n    agent: implementer\n    description: Fix\n    onOutcome: [{ when: { field: verdict, exists: true }, goto: verify }]\n  - phase: verify\n    agent: debugger\n    description: Verify\n    dependsOn: [fix]\n---\n\nContent`,
+      });
+
+      const result = await plugin.sync?.(context);
+
+      const row = db.prepare('SELECT phases FROM workflows WHERE name = ?').get('phased-workflow') as { phases: string };
+      expect(JSON.parse(row.phases)).toEqual([
+        { phase: 'fix', agent: 'implementer', description: 'Fix it', maxIterations: 4 },
+        {
+          phase: 'verify',
+          agent: 'debugger',
+          description: 'Verify',
+          dependsOn: ['fix'],
+          when: { field: 'data.risk', in: ['medium', 'high'] },
+          onOutcome: [{ when: { field: 'verdict', equals: 'changes_requested' }, goto: 'fix' }],
+        },
+      ]);
+      expect(result?.errors.some((e) => e.includes("transitions to 'verify', which is not upstream of it"))).toBe(true);
+      expect(db.prepare("SELECT 1 FROM workflows WHERE name = 'forward'").get()).toBeUndefined();
+    });
+
+    it('should persist approval phases and reject onReject targets that are not upstream', async () => {
+      createTestStructure(tempDir, {
+        'workflows/phased-workflow.md': workflowWithPhases(
+          [
+            '  - phase: fix',
+            '    agent: implementer',
+            '    description: Fix it',
+            '  - phase: sign-off',
+            '    approval: { onReject: fix }',
+            '    description: Owner signs off',
+            '    dependsOn: [fix]',
+            '',
+          ].join('\n')
+        ),
+        'workflows/self-reject.md': `---\nname: self-reject\ndescription: Self\nphases:\n  - phase: fix\n    agent: implementer\n    description: Fix\n  - phase: sign-off\n    approval: { onReject: sign-off }\n    description: Sign off\n    dependsOn: [fix]\n---\n\nContent`,
+      });
+
+      const result = await plugin.sync?.(context);
+
+      const row = db.prepare('SELECT phases FROM workflows WHERE name = ?').get('phased-workflow') as { phases: string };
+      expect(JSON.parse(row.phases)).toEqual([
+        { phase: 'fix', agent: 'implementer', description: 'Fix it' },
+        { phase: 'sign-off', approval: { onReject: 'fix' }, description: 'Owner signs off', dependsOn: ['fix'] },
+      ]);
+      expect(result?.errors.some((e) => e.includes("Approval phase 'sign-off' rejects to 'sign-off', which is not upstream of it"))).toBe(true);
+      expect(db.prepare("SELECT 1 FROM workflows WHERE name = 'self-reject'").get()).toBeUndefined();
+    });
+  });
+
+  describe('Contracts', () => {
+    const stepOutputContract = JSON.stringify({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'midex://contracts/workflow/StepOutput.schema.json',
+      title: 'StepOutput',
+      description: 'Step output',
+      type: 'object',
+      properties: { summary: { type: 'string' } },
+      required: ['summary'],
+    });
+
+    beforeEach(() => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'implementer.md', { name: 'implementer', description: 'Implementer' }, 'Implement');
+    });
+
+    it('should persist contracts named after their file', async () => {
+      createTestStructure(tempDir, { 'contracts/StepOutput.schema.json': stepOutputContract });
+
+      const result = await plugin.sync?.(context);
+      expect(result?.errors).toEqual([]);
+
+      const row = db.prepare('SELECT * FROM contracts WHERE name = ?').get('StepOutput') as {
+        description: string;
+        schema_id: string;
+        content: string;
+        file_hash: string | null;
+      };
+      expect(row.description).toBe('Step output');
+      expect(row.schema_id).toBe('midex://contracts/workflow/StepOutput.schema.json');
+      expect(JSON.parse(row.content)).toEqual(JSON.parse(stepOutputContract));
+      expect(row.file_hash).toBeTruthy();
+    });
+
+    it('should reject contracts that are not valid JSON Schema', async () => {
+      createTestStructure(tempDir, { 'contracts/Broken.schema.json': JSON.stringify({ type: 'not-a-type' }) });
+
+      const result = await plugin.sync?.(context);
+
+      expect(result?.errors.some((e) => e.includes('Invalid JSON Schema'))).toBe(true);
+      expect(db.prepare('SELECT 1 FROM contracts WHERE name = ?').get('Broken')).toBeUndefined();
+    });
+
+    it('should persist a phase outputContract that names a known contract', async () => {
+      createTestStructure(tempDir, {
+        'contracts/StepOutput.schema.json': stepOutputContract,
+        'workflows/contracted.md': `---\nname: contracted\ndescription: Contracted\nphases:\n  - phase: build\n    agent: implementer\n    description: Build\n    outputContract: StepOutput\n---\n\nContent`,
+      });
+
+      const result = await plugin.sync?.(context);
+      expect(result?.errors).toEqual([]);
+
+      const row = db.prepare('SELECT phases FROM workflows WHERE name = ?').get('contracted') as { phases: string };
+      expect(JSON.parse(row.phases)[0].outputContract).toBe('StepOutput');
+    });
+
+    it('should reject phases naming unknown contracts', async () => {
+      createTestStructure(tempDir, {
+        'workflows/contracted.md': `---\nname: contracted\ndescription: Contracted\nphases:\n  - phase: build\n    agent: implementer\n    description: Build\n    outputContract: Missing\n---\n\nContent`,
+      });
+
+      const result = await plugin.sync?.(context);
+
+      expect(result?.errors.some((e) => e.includes("'build' -> 'Missing'"))).toBe(true);
+      expect(db.prepare('SELECT 1 FROM workflows WHERE name = ?').get('contracted')).toBeUndefined();
+    });
+  });
+
+  describe('Prompt Composition Content', () => {
+    it('should persist alwaysApply from rule frontmatter', async () => {
+      createTestMarkdownFile(`${tempDir}/rules`, 'base.md', { name: 'base', description: 'Base', alwaysApply: true }, 'Base');
+
+      const result = await plugin.sync?.(context);
+      expect(result?.errors).toEqual([]);
+
+      const row = db.prepare('SELECT always_apply FROM rules WHERE name = ?').get('base') as { always_apply: number };
+      expect(row.always_apply).toBe(1);
+    });
+
+    it('should sync the shared agent context without treating it as an agent', async () => {
+      createTestStructure(tempDir, { 'agents/_shared_context.md': '# Shared\n\nKeep it minimal.' });
+      createTestMarkdownFile(`${tempDir}/agents`, 'implementer.md', { name: 'implementer', description: 'Implementer' }, 'Implement');
+
+      const result = await plugin.sync?.(context);
+      expect(result?.errors).toEqual([]);
+
+      const shared = db.prepare('SELECT content FROM shared_content WHERE name = ?').get('shared_context') as { content: string };
+      expect(shared.content).toContain('Keep it minimal.');
+      expect(db.prepare('SELECT name FROM agents').all()).toEqual([{ name: 'implementer' }]);
+    });
+  });
+
+  describe('Knowledge', () => {
+    const finding = (body: string, extra = '') =>
+      `---\nscope: project\nproject:\n  name: shop\n  path: /work/shop\ncategory: constraint\nseverity: high\ntitle: Money is integer cents\ntags: [money]\n${extra}---\n\n${body}\n`;
+
+    beforeEach(() => {
+      db.prepare(`INSERT INTO project_associations (name, path) VALUES ('shop', '/work/shop')`).run();
+    });
+
+    it('should load findings keyed by file name and mapped to the local project', async () => {
+      createTestStructure(tempDir, { 'knowledge/money-in-cents.md': finding('Never store prices as floats.') });
+
+      const result = await plugin.sync?.(context);
+      expect(result?.errors).toEqual([]);
+
+      const row = db.prepare('SELECT uid, project_id, content, tags FROM knowledge_findings').get();
+      expect(row).toEqual({ uid: 'money-in-cents', project_id: 1, content: 'Never store prices as floats.', tags: '["money"]' });
+      expect(db.prepare('SELECT change FROM knowledge_finding_revisions').all()).toEqual([{ change: 'created' }]);
+    });
+
+    it('should keep findings edited in the database since the file changed', async () => {
+      createTestStructure(tempDir, { 'knowledge/money-in-cents.md': finding('Never store prices as floats.', 'updated_at: 2026-01-01\n') });
+      await plugin.sync?.(context);
+      db.prepare(`UPDATE knowledge_findings SET content = 'Use Decimal or cents.', updated_at = '2026-02-01T00:00:00.000Z'`).run();
+
+      createTestStructure(tempDir, { 'knowledge/money-in-cents.md': finding('Prices are floats.', 'updated_at: 2026-01-15\n') });
+      const result = await plugin.sync?.(context);
+
+      expect(result?.errors).toEqual([]);
+      expect(db.prepare('SELECT content FROM knowledge_findings').get()).toEqual({ content: 'Use Decimal or cents.' });
+    });
+
+    it('should report findings naming an unknown project', async () => {
+      createTestStructure(tempDir, {
+        'knowledge/elsewhere.md': finding('Body').replace('/work/shop', '/no/such/project').replace('name: shop', 'name: other'),
+      });
+
+      const result = await plugin.sync?.(context);
+
+      expect(result?.errors.some((e) => e.includes("Project 'other' (/no/such/project) is not known here"))).toBe(true);
+      expect(db.prepare('SELECT COUNT(*) AS n FROM knowledge_findings').get()).toEqual({ n: 0 });
+    });
+  });
+
   describe('Sync Integration', () => {
     it('should sync all content types and return aggregated results', async () => {
       const agentsDir = `${tempDir}/agents`;
@@ -298,6 +663,111 @@ describe('ContentPlugin Integration', () => {
       expect(workflows.count).toBeGreaterThan(0);
     });
 
+    it('should skip files unchanged since the last sync', async () => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'steady.md', { name: 'steady', description: 'Steady' }, 'Content');
+      createTestMarkdownFile(`${tempDir}/rules`, 'steady-rule.md', { name: 'steady-rule', description: 'Steady' }, 'Content');
+
+      const first = await plugin.sync?.(context);
+      const second = await plugin.sync?.(context);
+
+      expect(first).toMatchObject({ added: 2, updated: 0, deleted: 0, conflicts: 0, errors: [] });
+      expect(second).toMatchObject({ added: 0, updated: 0, deleted: 0, conflicts: 0, errors: [] });
+    });
+
+    it('should count a changed file as updated', async () => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'edited.md', { name: 'edited', description: 'First' }, 'Content');
+      await plugin.sync?.(context);
+      db.prepare(`UPDATE agents SET updated_at = '2000-01-01 00:00:00'`).run();
+
+      createTestMarkdownFile(`${tempDir}/agents`, 'edited.md', { name: 'edited', description: 'Second' }, 'Content');
+      const result = await plugin.sync?.(context);
+
+      expect(result).toMatchObject({ added: 0, updated: 1, conflicts: 0, errors: [] });
+      expect(db.prepare('SELECT description FROM agents WHERE name = ?').get('edited')).toEqual({ description: 'Second' });
+    });
+
+    it('should keep the database version when it changed after the file', async () => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'edited.md', { name: 'edited', description: 'First' }, 'Content');
+      await plugin.sync?.(context);
+      db.prepare(`UPDATE agents SET description = 'Edited in place', updated_at = '2999-01-01 00:00:00'`).run();
+
+      createTestMarkdownFile(`${tempDir}/agents`, 'edited.md', { name: 'edited', description: 'Second' }, 'Content');
+      const result = await plugin.sync?.(context);
+
+      expect(result).toMatchObject({ updated: 0, conflicts: 1, errors: [] });
+      expect(db.prepare('SELECT description FROM agents WHERE name = ?').get('edited')).toEqual({ description: 'Edited in place' });
+    });
+
+    it('should delete rows whose file was removed', async () => {
+      createTestMarkdownFile(`${tempDir}/rules`, 'kept.md', { name: 'kept', description: 'Kept' }, 'Content');
+      createTestMarkdownFile(`${tempDir}/rules`, 'removed.md', { name: 'removed', description: 'Removed' }, 'Content');
+      await plugin.sync?.(context);
+
+      rmSync(`${tempDir}/rules/removed.md`);
+      const result = await plugin.sync?.(context);
+
+      expect(result).toMatchObject({ deleted: 1, errors: [] });
+      expect(db.prepare('SELECT name FROM rules').all()).toEqual([{ name: 'kept' }]);
+    });
+
+    it('should keep a removed agent that a workflow still uses', async () => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'implementer.md', { name: 'implementer', description: 'Implementer' }, 'Implement');
+      createTestStructure(tempDir, {
+        'workflows/build.md': `---\nname: build\ndescription: Build\nphases:\n  - phase: build\n    agent: implementer\n    description: Build\n---\n\nContent`,
+      });
+      await plugin.sync?.(context);
+
+      rmSync(`${tempDir}/agents/implementer.md`);
+      const result = await plugin.sync?.(context);
+
+      expect(result?.deleted).toBe(0);
+      expect(result?.errors).toEqual(['Kept agent implementer: its file is gone but workflow build still references it']);
+      expect(db.prepare('SELECT 1 AS found FROM agents WHERE name = ?').get('implementer')).toEqual({ found: 1 });
+    });
+
+    it('should record conflicts instead of applying changes under the manual strategy', async () => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'edited.md', { name: 'edited', description: 'First' }, 'Content');
+      createTestMarkdownFile(`${tempDir}/agents`, 'removed.md', { name: 'removed', description: 'Removed' }, 'Content');
+      await plugin.sync?.(context);
+
+      createTestMarkdownFile(`${tempDir}/agents`, 'edited.md', { name: 'edited', description: 'Second' }, 'Content');
+      rmSync(`${tempDir}/agents/removed.md`);
+      const manual = await plugin.sync?.({ ...context, conflictStrategy: 'manual' });
+
+      expect(manual).toMatchObject({ updated: 0, deleted: 0, conflicts: 2, errors: [] });
+      expect(db.prepare('SELECT description FROM agents WHERE name = ?').get('edited')).toEqual({ description: 'First' });
+      expect(db.prepare('SELECT name, reason, resolution FROM content_sync_conflicts ORDER BY name').all()).toEqual([
+        { name: 'edited', reason: 'File changed since the last sync', resolution: null },
+        { name: 'removed', reason: 'File deleted', resolution: null },
+      ]);
+
+      const settled = await plugin.sync?.({ ...context, conflictStrategy: 'keep-filesystem' });
+
+      expect(settled).toMatchObject({ updated: 1, deleted: 1, conflicts: 0, errors: [] });
+      expect(db.prepare('SELECT name, resolution FROM content_sync_conflicts ORDER BY name').all()).toEqual([
+        { name: 'edited', resolution: 'keep-filesystem' },
+        { name: 'removed', resolution: 'deleted' },
+      ]);
+    });
+
+    it('should limit the sync to changedPaths', async () => {
+      createTestMarkdownFile(`${tempDir}/rules`, 'touched.md', { name: 'touched', description: 'Touched' }, 'Content');
+      createTestMarkdownFile(`${tempDir}/rules`, 'untouched.md', { name: 'untouched', description: 'Untouched' }, 'Content');
+      createTestMarkdownFile(`${tempDir}/rules`, 'removed.md', { name: 'removed', description: 'Removed' }, 'Content');
+      await plugin.sync?.(context);
+      db.prepare(`DELETE FROM rules WHERE name = 'untouched'`).run();
+
+      rmSync(`${tempDir}/rules/removed.md`);
+      createTestMarkdownFile(`${tempDir}/rules`, 'added.md', { name: 'added', description: 'Added' }, 'Content');
+      const result = await plugin.sync?.({
+        ...context,
+        changedPaths: [`${tempDir}/rules/added.md`, `${tempDir}/rules/removed.md`],
+      });
+
+      expect(result).toMatchObject({ added: 1, deleted: 1, errors: [] });
+      expect(db.prepare('SELECT name FROM rules ORDER BY name').all()).toEqual([{ name: 'added' }, { name: 'touched' }]);
+    });
+
     it('should handle sync errors gracefully', async () => {
       // Create invalid content that will fail validation
       const agentsDir = `${tempDir}/agents`;
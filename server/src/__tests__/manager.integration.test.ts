@@ -4,7 +4,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
 import { ResourceManager } from '../manager.js';
+import type { ResourceSyncedEvent } from '../lib/watcher.js';
 import { createTestDatabase, createTempDir, cleanupTempDir, createTestMarkdownFile } from './test-utils.js';
 import type { Database as DB } from 'better-sqlite3';
 import type { ResourcePlugin, SyncResult } from '../types.js';
@@ -135,6 +138,73 @@ describe('ResourceManager Integration', () => {
     });
   });
 
+  describe('Watch Mode', () => {
+    const nextSync = (events: ResourceSyncedEvent[]) =>
+      new Promise<ResourceSyncedEvent>((resolve, reject) => {
+        const started = events.length;
+        const timeout = setTimeout(() => reject(new Error('No resync within 5s')), 5000);
+        const poll = setInterval(() => {
+          if (events.length > started) {
+            clearTimeout(timeout);
+            clearInterval(poll);
+            resolve(events[started]!);
+          }
+        }, 20);
+      });
+
+    it('should resync only the changed content files after events settle', async () => {
+      createTestMarkdownFile(`${tempDir}/agents`, 'steady.md', { name: 'steady', description: 'Steady' }, 'Content');
+      await manager.sync('content');
+
+      const events: ResourceSyncedEvent[] = [];
+      const watcher = manager.watch({ plugins: ['content'], debounceMs: 50, onSynced: (event) => events.push(event) });
+      try {
+        const synced = nextSync(events);
+        createTestMarkdownFile(`${tempDir}/agents`, 'fresh.md', { name: 'fresh', description: 'First' }, 'Content');
+        createTestMarkdownFile(`${tempDir}/agents`, 'fresh.md', { name: 'fresh', description: 'Second' }, 'Content');
+        const event = await synced;
+
+        expect(event.plugin).toBe('content');
+        expect(event.paths).toEqual([join(tempDir, 'agents', 'fresh.md')]);
+        expect(event.result).toMatchObject({ added: 1, updated: 0, deleted: 0, errors: [] });
+        expect(db.prepare('SELECT description FROM agents WHERE name = ?').get('fresh')).toEqual({ description: 'Second' });
+      } finally {
+        await watcher.close();
+      }
+      expect(events).toHaveLength(1);
+    });
+
+    it('should delete the row of a removed file', async () => {
+      createTestMarkdownFile(`${tempDir}/rules`, 'gone.md', { name: 'gone', description: 'Gone' }, 'Content');
+      await manager.sync('content');
+
+      const events: ResourceSyncedEvent[] = [];
+      const watcher = manager.watch({ plugins: ['content'], debounceMs: 50, onSynced: (event) => events.push(event) });
+      try {
+        const synced = nextSync(events);
+        rmSync(`${tempDir}/rules/gone.md`);
+        const event = await synced;
+
+        expect(event.result).toMatchObject({ deleted: 1, errors: [] });
+        expect(db.prepare('SELECT 1 FROM rules WHERE name = ?').get('gone')).toBeUndefined();
+      } finally {
+        await watcher.close();
+      }
+    });
+
+    it('should ignore files the plugin does not read', async () => {
+      const events: ResourceSyncedEvent[] = [];
+      const watcher = manager.watch({ plugins: ['content'], debounceMs: 20, onSynced: (event) => events.push(event) });
+      try {
+        writeFileSync(`${tempDir}/notes.txt`, 'scratch');
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      } finally {
+        await watcher.close();
+      }
+      expect(events).toEqual([]);
+    });
+  });
+
   describe('Query Integration', () => {
     beforeEach(async () => {
       // Seed database with test data
@@ -44,6 +44,29 @@ export function createTestDatabase(): DB {
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
+    CREATE TABLE shared_content (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      content TEXT NOT NULL,
+      path TEXT,
+      file_hash TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE contracts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      schema_id TEXT,
+      content TEXT NOT NULL,
+      path TEXT,
+      file_hash TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
     CREATE TABLE workflows (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       name TEXT UNIQUE NOT NULL,
@@ -59,6 +82,21 @@ export function createTestDatabase(): DB {
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
+    CREATE TABLE workflow_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workflow_name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      content_hash TEXT NOT NULL,
+      description TEXT NOT NULL,
+      content TEXT NOT NULL,
+      tags TEXT,
+      complexity TEXT,
+      phases TEXT,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(workflow_name, version),
+      UNIQUE(workflow_name, content_hash)
+    );
+
     CREATE TABLE project_associations (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       name TEXT UNIQUE NOT NULL,
@@ -83,6 +121,53 @@ export function createTestDatabase(): DB {
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
+
+    CREATE TABLE knowledge_findings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      uid TEXT UNIQUE,
+      scope TEXT NOT NULL,
+      project_id INTEGER,
+      category TEXT NOT NULL,
+      severity TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'active',
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      tags TEXT,
+      source_execution_id TEXT,
+      source_agent TEXT,
+      review_note TEXT,
+      reviewed_at TEXT,
+      superseded_by INTEGER,
+      expires_at TEXT,
+      review_by TEXT,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE knowledge_finding_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      finding_id INTEGER NOT NULL,
+      revision INTEGER NOT NULL,
+      change TEXT NOT NULL,
+      note TEXT,
+      snapshot TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(finding_id, revision)
+    );
+
+    CREATE TABLE content_sync_conflicts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      content_type TEXT NOT NULL,
+      name TEXT NOT NULL,
+      path TEXT,
+      file_hash TEXT,
+      db_hash TEXT,
+      reason TEXT NOT NULL,
+      detected_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      resolved_at TEXT,
+      resolution TEXT,
+      UNIQUE(content_type, name)
+    );
   `);
 
   return db;
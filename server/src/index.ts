@@ -4,7 +4,9 @@
  */
 
 export { ResourceManager } from './manager.js';
-export type { ResourceManagerOptions } from './manager.js';
+export type { ResourceManagerOptions, SyncOptions } from './manager.js';
+export { ResourceWatcher } from './lib/watcher.js';
+export type { WatchOptions, ResourceSyncedEvent } from './lib/watcher.js';
 
 export { Pipeline } from './pipeline.js';
 
@@ -23,6 +25,7 @@ export type {
   LoadOptions,
   PipelineContext,
   QueryOptions,
+  WatchTarget,
 } from './types.js';
 
 // Re-export useful utilities
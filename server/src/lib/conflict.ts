@@ -53,7 +53,7 @@ export function resolveConflict(
 
     case 'keep-newest': {
       const fsTime = fsResource.metadata.lastModified?.getTime() || 0;
-      const dbTime = dbResource.updated_at ? new Date(dbResource.updated_at).getTime() : 0;
+      const dbTime = dbResource.updated_at ? new Date(toIsoTimestamp(dbResource.updated_at)).getTime() || 0 : 0;
 
       if (fsTime > dbTime) {
         return {
@@ -81,3 +81,11 @@ export function resolveConflict(
       };
   }
 }
+
+/**
+ * SQLite CURRENT_TIMESTAMP ('YYYY-MM-DD HH:MM:SS') is UTC but carries no zone, so Date would
+ * read it as local time and skew keep-newest by the machine's offset; other values pass through
+ */
+export function toIsoTimestamp(value: string): string {
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+}
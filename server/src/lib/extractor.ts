@@ -5,7 +5,7 @@
 
 import { readdir, readFile, stat, access } from 'fs/promises';
 import { constants } from 'fs';
-import { join, relative } from 'path';
+import { join, relative, resolve } from 'path';
 import type { ExtractOptions, RawResource, ResourceMetadata } from '../types.js';
 import { computeHash } from './hash.js';
 
@@ -17,7 +17,7 @@ export class FilesystemExtractor {
    * Extract resources from filesystem matching patterns
    */
   async extract(resourceType: string, options: ExtractOptions): Promise<RawResource[]> {
-    const { basePath, patterns = ['**/*.md'], exclude = [] } = options;
+    const { basePath, patterns = ['**/*.md'], exclude = [], includePartials = false, only } = options;
     const resources: RawResource[] = [];
 
     // Check if basePath exists before attempting to extract
@@ -29,7 +29,10 @@ export class FilesystemExtractor {
     }
 
     try {
-      const files = await this.findFiles(basePath, patterns, exclude);
+      const wanted = only ? new Set(only.map((path) => resolve(path))) : null;
+      const files = (await this.findFiles(basePath, patterns, exclude, includePartials)).filter(
+        (filePath) => !wanted || wanted.has(resolve(filePath))
+      );
 
       for (const filePath of files) {
         try {
@@ -67,7 +70,7 @@ export class FilesystemExtractor {
   /**
    * Find files matching patterns
    */
-  private async findFiles(basePath: string, patterns: string[], exclude: string[]): Promise<string[]> {
+  private async findFiles(basePath: string, patterns: string[], exclude: string[], includePartials: boolean): Promise<string[]> {
     const files: string[] = [];
 
     const walk = async (dir: string): Promise<void> => {
@@ -86,7 +89,7 @@ export class FilesystemExtractor {
           const fullPath = join(dir, entry.name);
 
           // Skip excluded patterns
-          if (this.shouldExclude(entry.name, exclude)) {
+          if (this.shouldExclude(entry.name, exclude, includePartials && entry.isFile())) {
             continue;
           }
 
@@ -124,9 +127,9 @@ export class FilesystemExtractor {
   /**
    * Check if should exclude based on patterns
    */
-  private shouldExclude(name: string, exclude: string[]): boolean {
+  private shouldExclude(name: string, exclude: string[], allowPartial = false): boolean {
     return (
-      name.startsWith('_') ||
+      (name.startsWith('_') && !allowPartial) ||
       name.startsWith('.') ||
       exclude.some((pattern) => name.includes(pattern))
     );
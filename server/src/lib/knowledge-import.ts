@@ -0,0 +1,324 @@
+/**
+ * Knowledge finding import
+ * Upserts findings by uid, for knowledge.import and for the content sync of knowledge markdown
+ */
+
+import type { Database } from 'better-sqlite3';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { KnowledgeBundleEntrySchema, type FindingChange, type KnowledgeBundleEntry } from '../../utils/knowledge-schemas.js';
+import type { ConflictStrategy } from '../types.js';
+import { resolveConflict } from './conflict.js';
+import { computeHash, hashesMatch } from './hash.js';
+import { ProjectAssociationManager } from './project-association.js';
+
+export type ImportAction = 'added' | 'updated' | 'unchanged' | 'kept' | 'conflict' | 'error';
+
+export interface ImportedFinding {
+  uid: string;
+  title: string;
+  action: ImportAction;
+  id: number | null; // Local finding id; null when nothing was stored
+  reason?: string;
+}
+
+export interface KnowledgeImportReport {
+  dry_run: boolean;
+  added: number;
+  updated: number;
+  unchanged: number;
+  kept: number; // Changed on both sides; the local finding was kept
+  conflicts: number; // Changed on both sides under 'manual'; left for a person to resolve
+  errors: number;
+  findings: ImportedFinding[];
+}
+
+export interface KnowledgeImportOptions {
+  strategy: ConflictStrategy;
+  dryRun?: boolean;
+  source: string; // Recorded in the note of each revision the import writes
+  lastModified?: Date; // Stands in for updated_at on entries without one (e.g. a file's mtime)
+}
+
+export interface FindingRow {
+  id: number;
+  uid: string;
+  scope: KnowledgeBundleEntry['scope'];
+  project_id: number | null;
+  project_name: string | null;
+  project_path: string | null;
+  category: KnowledgeBundleEntry['category'];
+  severity: KnowledgeBundleEntry['severity'];
+  status: KnowledgeBundleEntry['status'];
+  title: string;
+  content: string;
+  tags: string | null;
+  source_agent: string | null;
+  expires_at: string | null;
+  review_by: string | null;
+  updated_at: string;
+}
+
+type StoredFields = Pick<
+  FindingRow,
+  'scope' | 'project_id' | 'category' | 'severity' | 'status' | 'title' | 'content' | 'source_agent' | 'expires_at' | 'review_by'
+> & { tags: string[] };
+
+export const SELECT_FINDINGS = `SELECT f.*, p.name AS project_name, p.path AS project_path
+  FROM knowledge_findings f LEFT JOIN project_associations p ON p.id = f.project_id`;
+
+class DryRunRollback extends Error {
+  constructor(readonly report: KnowledgeImportReport) {
+    super('Dry run');
+  }
+}
+
+/**
+ * Snapshot a finding as it now stands as its next revision; every write to a finding is
+ * followed by one, and revisions are numbered per finding from 1
+ */
+export function recordFindingRevision(db: Database, findingId: number, change: FindingChange, note: string | null = null): void {
+  db.prepare(
+    `INSERT INTO knowledge_finding_revisions (finding_id, revision, change, note, snapshot)
+     SELECT f.id, COALESCE((SELECT MAX(revision) FROM knowledge_finding_revisions WHERE finding_id = f.id), 0) + 1, ?, ?,
+       json_object(
+         'scope', f.scope, 'project_id', f.project_id, 'category', f.category, 'severity', f.severity, 'status', f.status,
+         'title', f.title, 'content', f.content, 'tags', json(COALESCE(f.tags, '[]')),
+         'superseded_by', f.superseded_by, 'expires_at', f.expires_at, 'review_by', f.review_by, 'review_note', f.review_note
+       )
+     FROM knowledge_findings f WHERE f.id = ?`
+  ).run(change, note, findingId);
+}
+
+/**
+ * Findings are matched across databases by uid. Project findings carry their project's name
+ * and path instead of a row id; the path is looked up in project_associations, then the name,
+ * and a path that exists on this machine is associated on the spot. Conflicts are settled as in
+ * the content sync: a content hash decides whether anything changed, and the strategy decides
+ * which side wins when both did
+ */
+export class KnowledgeImporter {
+  private projects: ProjectAssociationManager;
+
+  constructor(private db: Database) {
+    this.projects = new ProjectAssociationManager(db);
+  }
+
+  /**
+   * Upsert findings by uid. Entries are validated one by one, so a bad entry is reported
+   * without stopping the rest; a dry run does all the work and rolls it back
+   */
+  importEntries(entries: unknown[], options: KnowledgeImportOptions): KnowledgeImportReport {
+    const run = this.db.transaction(() => {
+      const report: KnowledgeImportReport = {
+        dry_run: options.dryRun ?? false,
+        added: 0,
+        updated: 0,
+        unchanged: 0,
+        kept: 0,
+        conflicts: 0,
+        errors: 0,
+        findings: [],
+      };
+
+      // Nested transactions are savepoints: an entry that fails leaves nothing behind
+      const importOne = this.db.transaction((entry: unknown, index: number) => this.importEntry(entry, index, options));
+      entries.forEach((entry, index) => {
+        let result: ImportedFinding;
+        try {
+          result = importOne(entry, index);
+        } catch (error) {
+          const uid = (entry as { uid?: unknown } | null)?.uid;
+          result = { uid: typeof uid === 'string' ? uid : `#${index + 1}`, title: '', action: 'error', id: null, reason: error instanceof Error ? error.message : String(error) };
+        }
+        // Rows added by a dry run are rolled back with everything else
+        report.findings.push(report.dry_run && result.action === 'added' ? { ...result, id: null } : result);
+        report[result.action === 'error' ? 'errors' : result.action === 'conflict' ? 'conflicts' : result.action]++;
+      });
+
+      if (report.dry_run) throw new DryRunRollback(report);
+      return report;
+    });
+
+    try {
+      return run();
+    } catch (error) {
+      if (error instanceof DryRunRollback) return error.report;
+      throw error;
+    }
+  }
+
+  private importEntry(value: unknown, index: number, options: KnowledgeImportOptions): ImportedFinding {
+    const parsed = KnowledgeBundleEntrySchema.safeParse(value);
+    if (!parsed.success) {
+      const uid = (value as { uid?: unknown } | null)?.uid;
+      return {
+        uid: typeof uid === 'string' ? uid : `#${index + 1}`,
+        title: '',
+        action: 'error',
+        id: null,
+        reason: `Invalid entry: ${parsed.error.message}`,
+      };
+    }
+
+    const entry = parsed.data;
+    const outcome = (action: ImportAction, id: number | null, reason?: string): ImportedFinding => ({
+      uid: entry.uid,
+      title: entry.title,
+      action,
+      id,
+      ...(reason ? { reason } : {}),
+    });
+
+    const projectId = this.resolveProject(entry);
+    if (typeof projectId === 'string') return outcome('error', null, projectId);
+
+    const fields: StoredFields = {
+      scope: entry.scope,
+      project_id: projectId,
+      category: entry.category,
+      severity: entry.severity,
+      status: entry.status,
+      title: entry.title,
+      content: entry.content.trim(),
+      tags: entry.tags,
+      source_agent: entry.source_agent ?? null,
+      expires_at: entry.expires_at ?? null,
+      review_by: entry.review_by ?? null,
+    };
+    const updatedAt = entry.updated_at ?? options.lastModified?.toISOString() ?? new Date().toISOString();
+    const note = `Imported from ${options.source}`;
+
+    const existing = this.db.prepare(`${SELECT_FINDINGS} WHERE f.uid = ?`).get(entry.uid) as FindingRow | undefined;
+    if (!existing) {
+      return outcome('added', this.insertFinding(entry.uid, fields, updatedAt, note));
+    }
+
+    const hash = hashFields(fields);
+    const localHash = hashFields(toStoredFields(existing));
+    const resolution = resolveConflict(
+      { metadata: { path: options.source, hash, lastModified: new Date(updatedAt) } },
+      { hash: localHash, updated_at: existing.updated_at },
+      options.strategy
+    );
+    switch (resolution.action) {
+      case 'update':
+      case 'keep-filesystem':
+        this.updateFinding(existing.id, fields, updatedAt, note);
+        return outcome('updated', existing.id);
+      case 'keep-database':
+        return outcome('kept', existing.id, resolution.reason);
+      case 'skip':
+        return hashesMatch(hash, localHash) ? outcome('unchanged', existing.id) : outcome('conflict', existing.id, resolution.reason);
+    }
+  }
+
+  /**
+   * Local project id for a project-scoped entry: by path, then by name, then by associating
+   * a path that exists here
+   */
+  private resolveProject(entry: KnowledgeBundleEntry): number | null | string {
+    if (entry.scope !== 'project') return null;
+    if (!entry.project) return `Finding '${entry.uid}' is project-scoped but names no project`;
+
+    const byPath = this.projects.getProjectByPath(resolve(entry.project.path));
+    if (byPath) return byPath.id;
+
+    const byName = this.db.prepare(`SELECT id FROM project_associations WHERE name = ?`).get(entry.project.name) as { id: number } | undefined;
+    if (byName) return byName.id;
+
+    if (existsSync(resolve(entry.project.path))) return this.projects.associateProject(entry.project.path).id;
+    return `Project '${entry.project.name}' (${entry.project.path}) is not known here; associate it first`;
+  }
+
+  private insertFinding(uid: string, fields: StoredFields, updatedAt: string, note: string): number {
+    const result = this.db
+      .prepare(
+        `INSERT INTO knowledge_findings (
+           uid, scope, project_id, category, severity, status, title, content, tags, source_agent, expires_at, review_by, created_at, updated_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        uid,
+        fields.scope,
+        fields.project_id,
+        fields.category,
+        fields.severity,
+        fields.status,
+        fields.title,
+        fields.content,
+        JSON.stringify(fields.tags),
+        fields.source_agent,
+        fields.expires_at,
+        fields.review_by,
+        new Date().toISOString(),
+        updatedAt
+      );
+
+    const id = Number(result.lastInsertRowid);
+    recordFindingRevision(this.db, id, 'created', note);
+    return id;
+  }
+
+  private updateFinding(id: number, fields: StoredFields, updatedAt: string, note: string): void {
+    this.db
+      .prepare(
+        `UPDATE knowledge_findings SET
+           scope = ?, project_id = ?, category = ?, severity = ?, status = ?, title = ?, content = ?, tags = ?,
+           source_agent = ?, expires_at = ?, review_by = ?, updated_at = ?,
+           superseded_by = CASE WHEN ? = 'active' THEN NULL ELSE superseded_by END
+         WHERE id = ?`
+      )
+      .run(
+        fields.scope,
+        fields.project_id,
+        fields.category,
+        fields.severity,
+        fields.status,
+        fields.title,
+        fields.content,
+        JSON.stringify(fields.tags),
+        fields.source_agent,
+        fields.expires_at,
+        fields.review_by,
+        updatedAt,
+        fields.status,
+        id
+      );
+    recordFindingRevision(this.db, id, 'updated', note);
+  }
+}
+
+function toStoredFields(row: FindingRow): StoredFields {
+  return {
+    scope: row.scope,
+    project_id: row.project_id,
+    category: row.category,
+    severity: row.severity,
+    status: row.status,
+    title: row.title,
+    content: row.content.trim(),
+    tags: parseTags(row.tags),
+    source_agent: row.source_agent,
+    expires_at: row.expires_at,
+    review_by: row.review_by,
+  };
+}
+
+function parseTags(tags: string | null): string[] {
+  try {
+    const parsed: unknown = JSON.parse(tags ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Hash of the fields an import can change; equal hashes mean there is nothing to do
+ */
+function hashFields(fields: StoredFields): string {
+  const { tags, ...rest } = fields;
+  return computeHash(JSON.stringify({ ...rest, tags: [...tags].sort() }));
+}
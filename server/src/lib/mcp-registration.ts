@@ -7,6 +7,7 @@ import type { Database as DB } from 'better-sqlite3';
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { dirname, join, resolve } from 'path';
 import { computeHash } from './hash.js';
+import { getHttpTransportSettings, getHttpTransportUrl } from '../../shared/config.js';
 import type { ToolType } from '../schemas/tool-config-schemas.js';
 
 /**
@@ -168,8 +169,11 @@ export class McpServerRegistrar {
         };
       }
 
-      // Check if midex already registered
-      if (mcpConfig.mcpServers && mcpConfig.mcpServers[this.SERVER_NAME]) {
+      // Check if midex already registered over the same transport; switching between stdio
+      // and HTTP replaces the entry
+      const serverConfig = this.getMidexServerConfig(config.tool_type);
+      const existing = mcpConfig.mcpServers?.[this.SERVER_NAME];
+      if (existing && isHttpConfig(existing) === isHttpConfig(serverConfig)) {
         return {
           ...baseResult,
           action: 'already_registered',
@@ -182,7 +186,7 @@ export class McpServerRegistrar {
       }
 
       // Add midex server configuration
-      mcpConfig.mcpServers[this.SERVER_NAME] = this.getMidexServerConfig();
+      mcpConfig.mcpServers[this.SERVER_NAME] = serverConfig;
 
       // Write back to file
       const newContent = JSON.stringify(mcpConfig, null, 2) + '\n';
@@ -210,8 +214,20 @@ export class McpServerRegistrar {
 
   /**
    * Get midex MCP server configuration
+   * With the HTTP transport enabled tools connect to the shared server over HTTP; otherwise each
+   * one spawns its own on stdio. The bearer token is never written: config files get committed,
+   * so the header references MIDEX_HTTP_TOKEN, which the tool expands from its environment
    */
-  private getMidexServerConfig(): McpServerConfig {
+  private getMidexServerConfig(toolType: ToolType): McpServerConfig {
+    const http = getHttpTransportSettings();
+    if (http.enabled) {
+      return {
+        type: 'http',
+        url: getHttpTransportUrl(http),
+        headers: { Authorization: `Bearer ${envReference(toolType, 'MIDEX_HTTP_TOKEN')}` },
+      };
+    }
+
     // Resolve absolute paths
     const serverScriptPath = resolve(this.projectRoot, 'server/dist/mcp/server.js');
 
@@ -253,7 +269,7 @@ export class McpServerRegistrar {
       // Create default config with midex server
       const defaultConfig: McpConfigFile = {
         mcpServers: {
-          [this.SERVER_NAME]: this.getMidexServerConfig(),
+          [this.SERVER_NAME]: this.getMidexServerConfig(toolType),
         },
       };
 
@@ -287,3 +303,15 @@ export class McpServerRegistrar {
     }
   }
 }
+
+/**
+ * Environment variable reference as the tool expands it in MCP configs: Claude Code reads ${VAR},
+ * Cursor and the VS Code-based tools ${env:VAR}
+ */
+function envReference(toolType: ToolType, name: string): string {
+  return toolType === 'claude-code' ? `\${${name}}` : `\${env:${name}}`;
+}
+
+function isHttpConfig(config: McpServerConfig): boolean {
+  return config.type === 'http' || (config.command === undefined && (config.url ?? config.serverUrl) !== undefined);
+}
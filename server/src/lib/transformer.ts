@@ -53,3 +53,41 @@ export class MarkdownTransformer<T = unknown> {
     };
   }
 }
+
+/**
+ * Base transformer for JSON resources (e.g. JSON Schema contracts)
+ */
+export class JsonTransformer<T = unknown> {
+  constructor(
+    private readonly documentSchema: ZodSchema<T>,
+    private readonly buildData: (document: T, metadata: RawResource['metadata']) => unknown
+  ) {}
+
+  /**
+   * Transform raw resource into validated structure
+   */
+  async transform(raw: RawResource, options?: TransformOptions): Promise<TransformedResource<unknown>> {
+    const { validate = true, strict = true } = options || {};
+
+    let document: T;
+    try {
+      document = JSON.parse(raw.content) as T;
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${raw.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (validate) {
+      const validation = validateSchema(this.documentSchema, document, strict);
+      if (!validation.success) {
+        throw new Error(`Validation failed for ${raw.name}: ${validation.errors.join(', ')}`);
+      }
+    }
+
+    return {
+      type: raw.type,
+      name: raw.name,
+      data: this.buildData(document, raw.metadata),
+      metadata: raw.metadata,
+    };
+  }
+}
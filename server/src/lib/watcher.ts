@@ -0,0 +1,140 @@
+/**
+ * Watcher - watch mode for the resource pipeline
+ * Collects filesystem events per plugin, debounces them and re-runs only that plugin's sync
+ * with the paths that changed
+ */
+
+import { existsSync, statSync, watch, type FSWatcher } from 'fs';
+import { join, resolve } from 'path';
+import type { SyncResult, WatchTarget } from '../types.js';
+
+export interface ResourceSyncedEvent {
+  plugin: string;
+  paths: string[]; // Changed files the sync was limited to; empty when it was a full sync
+  result: SyncResult;
+  durationMs: number;
+}
+
+export interface WatchOptions {
+  debounceMs?: number; // Quiet period after the last event before a plugin resyncs (default: 300)
+  plugins?: string[]; // Limit to these plugins (default: every plugin with watch targets)
+  onSynced?: (event: ResourceSyncedEvent) => void;
+  onError?: (plugin: string, error: unknown) => void;
+}
+
+/**
+ * Runs one plugin's sync; changedPaths undefined means a full sync
+ */
+export type WatchSyncRunner = (plugin: string, changedPaths: string[] | undefined) => Promise<SyncResult>;
+
+interface PendingSync {
+  paths: Set<string>;
+  full: boolean; // An event without a file name: the platform could not say what changed
+  timer: NodeJS.Timeout | null;
+  running: Promise<void>;
+}
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+export class ResourceWatcher {
+  private watchers: FSWatcher[] = [];
+  private pending = new Map<string, PendingSync>();
+  private debounceMs: number;
+  private closed = false;
+
+  constructor(
+    private runSync: WatchSyncRunner,
+    private options: WatchOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+  }
+
+  /**
+   * Start watching a plugin's directories. Targets that do not exist (yet) are skipped
+   */
+  add(plugin: string, targets: WatchTarget[]): void {
+    for (const target of targets) {
+      const directory = resolve(target.path);
+      if (!existsSync(directory) || !statSync(directory).isDirectory()) continue;
+
+      try {
+        const watcher = watch(directory, { recursive: target.recursive ?? false }, (_event, filename) => {
+          if (!filename) {
+            this.schedule(plugin, null);
+            return;
+          }
+          const changed = join(directory, filename.toString());
+          if (!target.filter || target.filter(changed)) this.schedule(plugin, changed);
+        });
+        watcher.on('error', (error) => this.options.onError?.(plugin, error));
+        this.watchers.push(watcher);
+      } catch (error) {
+        this.options.onError?.(plugin, error);
+      }
+    }
+  }
+
+  /**
+   * Directories currently watched
+   */
+  get size(): number {
+    return this.watchers.length;
+  }
+
+  /**
+   * Stop watching and wait for syncs already running; pending ones are dropped
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers = [];
+
+    for (const entry of this.pending.values()) {
+      if (entry.timer) clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    await Promise.all([...this.pending.values()].map((entry) => entry.running));
+  }
+
+  private schedule(plugin: string, path: string | null): void {
+    if (this.closed) return;
+
+    let entry = this.pending.get(plugin);
+    if (!entry) {
+      entry = { paths: new Set(), full: false, timer: null, running: Promise.resolve() };
+      this.pending.set(plugin, entry);
+    }
+
+    if (path === null) entry.full = true;
+    else entry.paths.add(path);
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => this.flush(plugin), this.debounceMs);
+  }
+
+  /**
+   * Hand the collected paths to a sync, queued behind any sync of the same plugin still running
+   */
+  private flush(plugin: string): void {
+    const entry = this.pending.get(plugin);
+    if (!entry || this.closed) return;
+
+    const paths = entry.full ? [] : [...entry.paths].sort();
+    entry.paths = new Set();
+    entry.full = false;
+    entry.timer = null;
+    entry.running = entry.running.then(() => this.run(plugin, paths));
+  }
+
+  private async run(plugin: string, paths: string[]): Promise<void> {
+    if (this.closed) return;
+
+    const startedAt = Date.now();
+    try {
+      const result = await this.runSync(plugin, paths.length > 0 ? paths : undefined);
+      this.options.onSynced?.({ plugin, paths, result, durationMs: Date.now() - startedAt });
+    } catch (error) {
+      this.options.onError?.(plugin, error);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Workflow version recording
+ * Snapshots a workflow's definition into workflow_versions, from the content sync and the MCP server
+ */
+
+import type { Database } from 'better-sqlite3';
+import { computeHash } from './hash.js';
+
+export interface WorkflowDefinitionFields {
+  description: string;
+  content: string;
+  tags: string | null;
+  complexity: string | null;
+  phases: string | null;
+}
+
+export function readWorkflowDefinition(db: Database, workflowName: string): WorkflowDefinitionFields | null {
+  const row = db
+    .prepare(`SELECT description, content, tags, complexity, phases FROM workflows WHERE name = ?`)
+    .get(workflowName) as WorkflowDefinitionFields | undefined;
+  return row ?? null;
+}
+
+/**
+ * Hash of everything an execution depends on; the file's own hash also covers formatting
+ * that changes nothing once parsed
+ */
+export function hashWorkflowDefinition(row: WorkflowDefinitionFields): string {
+  return computeHash(JSON.stringify([row.description, row.content, row.tags, row.complexity, row.phases]));
+}
+
+/**
+ * Store the workflow's current definition as its next version, unless that definition (same
+ * content hash) is already stored, so re-syncing an unchanged file never adds one
+ * @returns The definition's content hash, or null for an unknown workflow
+ */
+export function recordWorkflowVersion(db: Database, workflowName: string): string | null {
+  const row = readWorkflowDefinition(db, workflowName);
+  if (!row) return null;
+
+  const hash = hashWorkflowDefinition(row);
+  db.prepare(
+    `INSERT OR IGNORE INTO workflow_versions (workflow_name, version, content_hash, description, content, tags, complexity, phases)
+     SELECT ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ?, ?, ? FROM workflow_versions WHERE workflow_name = ?`
+  ).run(workflowName, hash, row.description, row.content, row.tags, row.complexity, row.phases, workflowName);
+  return hash;
+}
@@ -10,6 +10,7 @@ import type {
   PipelineContext,
   SyncResult,
   QueryOptions,
+  ConflictStrategy,
 } from './types.js';
 import { ContentPlugin } from './plugins/content.js';
 import { ProjectsPlugin } from './plugins/projects.js';
@@ -23,10 +24,18 @@ import {
 } from '../utils/database-schemas.js';
 import type { ZodSchema } from 'zod';
 import { validateDatabaseRow, validateDatabaseRows } from '../utils/validation.js';
+import { getSyncConflictStrategy } from '../shared/config.js';
+import { ResourceWatcher, type WatchOptions } from './lib/watcher.js';
 
 export interface ResourceManagerOptions {
   database: DB;
   basePath: string;
+  conflictStrategy?: ConflictStrategy; // Defaults to sync.conflictStrategy from config
+}
+
+export interface SyncOptions {
+  conflictStrategy?: ConflictStrategy; // Override for this run, e.g. to settle recorded manual conflicts
+  changedPaths?: string[]; // Limit the sync to these files (absolute paths), where the plugin supports it
 }
 
 /**
@@ -37,10 +46,12 @@ export class ResourceManager {
   private plugins: Map<string, ResourcePlugin>;
   private database: DB;
   private basePath: string;
+  private conflictStrategy: ConflictStrategy;
 
   private constructor(options: ResourceManagerOptions) {
     this.database = options.database;
     this.basePath = options.basePath;
+    this.conflictStrategy = options.conflictStrategy ?? getSyncConflictStrategy();
     this.pipeline = new Pipeline();
     this.plugins = new Map();
 
@@ -74,7 +85,7 @@ export class ResourceManager {
   /**
    * Sync all plugins
    */
-  async syncAll(): Promise<Record<string, SyncResult>> {
+  async syncAll(options?: SyncOptions): Promise<Record<string, SyncResult>> {
     const results: Record<string, SyncResult> = {};
 
     for (const [name, plugin] of this.plugins) {
@@ -82,6 +93,7 @@ export class ResourceManager {
         resourceType: plugin.resourceType,
         basePath: this.basePath,
         database: this.database,
+        conflictStrategy: options?.conflictStrategy ?? this.conflictStrategy,
       };
 
       results[name] = await this.pipeline.sync(plugin, context);
@@ -93,7 +105,7 @@ export class ResourceManager {
   /**
    * Sync specific plugin
    */
-  async sync(pluginName: string): Promise<SyncResult> {
+  async sync(pluginName: string, options?: SyncOptions): Promise<SyncResult> {
     const plugin = this.plugins.get(pluginName);
     if (!plugin) {
       throw new Error(`Plugin not found: ${pluginName}`);
@@ -103,11 +115,29 @@ export class ResourceManager {
       resourceType: plugin.resourceType,
       basePath: this.basePath,
       database: this.database,
+      conflictStrategy: options?.conflictStrategy ?? this.conflictStrategy,
+      changedPaths: options?.changedPaths,
     };
 
     return await this.pipeline.sync(plugin, context);
   }
 
+  /**
+   * Watch the directories each plugin reads from and resync a plugin, limited to the changed
+   * files, once its events settle. Call close() on the returned watcher to stop
+   */
+  watch(options: WatchOptions = {}): ResourceWatcher {
+    const watcher = new ResourceWatcher((name, changedPaths) => this.sync(name, { changedPaths }), options);
+
+    for (const [name, plugin] of this.plugins) {
+      if (!plugin.watchTargets) continue;
+      if (options.plugins && !options.plugins.includes(name)) continue;
+      watcher.add(name, plugin.watchTargets(this.basePath));
+    }
+
+    return watcher;
+  }
+
   /**
    * Query resources from database with validation
    */
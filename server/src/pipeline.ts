@@ -60,7 +60,7 @@ export class Pipeline {
       const loadOptions: LoadOptions = {
         database: context.database,
         upsert: true,
-        conflictStrategy: 'keep-newest',
+        conflictStrategy: context.conflictStrategy ?? 'keep-newest',
       };
 
       for (const t of transformed) {
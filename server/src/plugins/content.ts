@@ -1,9 +1,13 @@
 /**
  * Content Plugin
- * Handles agents, rules, and workflows as unified content resources
+ * Handles agents, shared context, rules, contracts, workflows, and knowledge findings as unified content resources
  */
 
 import { z } from 'zod';
+import { existsSync } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
 import type {
   ResourcePlugin,
   RawResource,
@@ -13,22 +17,78 @@ import type {
   LoadOptions,
   PipelineContext,
   SyncResult,
+  ConflictStrategy,
+  WatchTarget,
 } from '../types.js';
 import { FilesystemExtractor } from '../lib/extractor.js';
-import { MarkdownTransformer } from '../lib/transformer.js';
+import { JsonTransformer, MarkdownTransformer } from '../lib/transformer.js';
 import { DatabaseLoader } from '../lib/loader.js';
+import { resolveConflict } from '../lib/conflict.js';
+import { computeHash, hashesMatch } from '../lib/hash.js';
+import { KnowledgeImporter, type ImportedFinding } from '../lib/knowledge-import.js';
+import { recordWorkflowVersion } from '../lib/workflow-versions.js';
 
 // Import schemas
 import {
   AgentFrontmatterSchema,
   RuleFrontmatterSchema,
+  SharedContentFrontmatterSchema,
+  ContractDocumentSchema,
   WorkflowFrontmatterSchema,
+  KnowledgeFrontmatterSchema,
+  WorkflowRegistrySchema,
+  type WorkflowPhaseFrontmatter,
+  type WorkflowRegistryEntry,
 } from '../schemas/content-schemas.js';
 
 /**
  * Content types supported
  */
-type ContentType = 'agent' | 'rule' | 'workflow';
+type ContentType = 'agent' | 'shared' | 'rule' | 'contract' | 'workflow' | 'knowledge';
+
+/**
+ * Content types stored one row per file, keyed by name. Knowledge findings are keyed by uid
+ * and go through the knowledge importer instead
+ */
+type TableContentType = Exclude<ContentType, 'knowledge'>;
+
+/**
+ * Directory (under the content base path) each type is read from
+ */
+const CONTENT_DIRECTORIES: Record<ContentType, string> = {
+  agent: 'agents',
+  shared: 'agents',
+  rule: 'rules',
+  contract: 'contracts',
+  workflow: 'workflows',
+  knowledge: 'knowledge',
+};
+
+/**
+ * Order orphaned rows are removed in: workflows first, so the agents and contracts only they
+ * referenced are free to go in the same sync
+ */
+const ORPHAN_DELETE_ORDER: TableContentType[] = ['workflow', 'rule', 'shared', 'contract', 'agent'];
+
+/**
+ * Workflow registry file in the workflows directory, holding the discovery triggers of each workflow
+ */
+const WORKFLOW_REGISTRY = 'index.yaml';
+
+/**
+ * Stored in the workflows.triggers column: frontmatter keywords plus those of the registry entry
+ */
+interface WorkflowTriggers {
+  keywords: string[];
+  complexity_hint: string | null;
+}
+
+/**
+ * Settled state of one resource after a sync; 'unchanged' is not counted
+ */
+type SyncOutcome = 'added' | 'updated' | 'unchanged' | 'conflict';
+
+type ConflictResolutionKind = 'keep-filesystem' | 'keep-database' | 'in-sync' | 'deleted';
 
 interface ContentData {
   name: string;
@@ -39,7 +99,7 @@ interface ContentData {
 }
 
 /**
- * Content plugin for agents, rules, and workflows
+ * Content plugin for agents, rules, contracts, workflows, and knowledge findings
  */
 export class ContentPlugin implements ResourcePlugin<ContentData> {
   readonly name = 'content';
@@ -59,28 +119,66 @@ export class ContentPlugin implements ResourcePlugin<ContentData> {
         fileHash: metadata.hash,
       })
     ),
+    shared: new MarkdownTransformer(
+      SharedContentFrontmatterSchema,
+      (frontmatter, content, metadata) => ({
+        description: frontmatter.description ?? '',
+        content,
+        path: metadata.path,
+        fileHash: metadata.hash,
+      })
+    ),
     rule: new MarkdownTransformer(
       RuleFrontmatterSchema,
       (frontmatter, content, metadata) => ({
         ...frontmatter,
+        // Frontmatter says alwaysApply; the column is always_apply (older files use the column name)
+        always_apply: frontmatter.alwaysApply ?? (frontmatter as { always_apply?: boolean }).always_apply ?? false,
         content,
         path: metadata.path,
         fileHash: metadata.hash,
       })
     ),
+    contract: new JsonTransformer(
+      ContractDocumentSchema,
+      (document, metadata) => ({
+        description: document.description ?? '',
+        schema_id: document.$id ?? null,
+        content: JSON.stringify(document),
+        path: metadata.path,
+        fileHash: metadata.hash,
+      })
+    ),
     workflow: new MarkdownTransformer(
       WorkflowFrontmatterSchema,
       (frontmatter, content, metadata) => {
-        const { complexityHint, ...rest } = frontmatter;
+        const { complexityHint, keywords, ...rest } = frontmatter;
+        const registered = metadata.registryEntry as WorkflowRegistryEntry | undefined;
+        const triggers: WorkflowTriggers = {
+          keywords: [...new Set([...(keywords ?? []), ...(registered?.triggers.keywords ?? [])])],
+          complexity_hint: registered?.complexity_hint ?? null,
+        };
         return {
           ...rest,
-          complexity: complexityHint,  // Map complexityHint → complexity for DB column
+          complexity: complexityHint ?? rest.complexity,  // Map complexityHint → complexity for DB column; drives the execution policy
+          triggers,
+          phases: rest.phases ?? [],
           content,
           path: metadata.path,
           fileHash: metadata.hash,
         };
       }
     ),
+    knowledge: new MarkdownTransformer(
+      KnowledgeFrontmatterSchema,
+      (frontmatter, content, metadata) => ({
+        ...frontmatter,
+        uid: frontmatter.uid ?? basename(metadata.path, '.md'),
+        content,
+        path: metadata.path,
+        fileHash: metadata.hash,
+      })
+    ),
   };
 
   /**
@@ -92,26 +190,57 @@ export class ContentPlugin implements ResourcePlugin<ContentData> {
     // Extract agents
     const agents = await this.extractor.extract('agent', {
       ...options,
-      basePath: `${options.basePath}/agents`,
+      basePath: `${options.basePath}/${CONTENT_DIRECTORIES.agent}`,
       patterns: ['*.md'],
     });
     resources.push(...agents);
 
+    // Extract shared context: a `_` partial next to the agents, prepended to every persona
+    const shared = await this.extractor.extract('shared', {
+      ...options,
+      basePath: `${options.basePath}/${CONTENT_DIRECTORIES.shared}`,
+      patterns: ['_shared_context.md'],
+      includePartials: true,
+    });
+    resources.push(...shared.map((resource) => ({ ...resource, name: resource.name.replace(/^_/, '') })));
+
     // Extract rules
     const rules = await this.extractor.extract('rule', {
       ...options,
-      basePath: `${options.basePath}/rules`,
+      basePath: `${options.basePath}/${CONTENT_DIRECTORIES.rule}`,
       patterns: ['*.md'],
     });
     resources.push(...rules);
 
-    // Extract workflows
+    // Extract contracts before workflows, whose phases reference them by name
+    // (StepOutput.schema.json -> StepOutput)
+    const contracts = await this.extractor.extract('contract', {
+      ...options,
+      basePath: `${options.basePath}/${CONTENT_DIRECTORIES.contract}`,
+      patterns: ['*.schema.json'],
+    });
+    resources.push(...contracts.map((contract) => ({ ...contract, name: contract.name.replace(/\.schema$/, '') })));
+
+    // Extract workflows with their registry entries. An edited registry re-reads every workflow
+    const workflowDirectory = `${options.basePath}/${CONTENT_DIRECTORIES.workflow}`;
+    const registryPath = resolve(workflowDirectory, WORKFLOW_REGISTRY);
+    const registryChanged = options.only?.some((path) => resolve(path) === registryPath) ?? false;
     const workflows = await this.extractor.extract('workflow', {
       ...options,
-      basePath: `${options.basePath}/workflows`,
+      basePath: workflowDirectory,
+      patterns: ['*.md'],
+      only: registryChanged ? undefined : options.only,
+    });
+    const registry = await this.readWorkflowRegistry(registryPath);
+    resources.push(...workflows.map((workflow) => this.withRegistryEntry(workflow, registry)));
+
+    // Extract knowledge findings: markdown bundles from knowledge.export, keyed by uid rather than name
+    const knowledge = await this.extractor.extract('knowledge', {
+      ...options,
+      basePath: `${options.basePath}/${CONTENT_DIRECTORIES.knowledge}`,
       patterns: ['*.md'],
     });
-    resources.push(...workflows);
+    resources.push(...knowledge);
 
     return resources;
   }
@@ -143,6 +272,19 @@ export class ContentPlugin implements ResourcePlugin<ContentData> {
   ): Promise<void> {
     const contentType = transformed.type as ContentType;
 
+    if (contentType === 'knowledge') {
+      const finding = this.loadFinding(transformed, options.database, options.conflictStrategy ?? 'keep-newest');
+      if (finding.action === 'error') {
+        throw new Error(`Finding ${transformed.name}: ${finding.reason}`);
+      }
+      return;
+    }
+
+    if (contentType === 'workflow') {
+      this.assertPhaseAgentsExist(transformed, options.database);
+      this.assertPhaseContractsExist(transformed, options.database);
+    }
+
     // Determine table and columns based on content type
     const config = this.getTableConfig(contentType);
 
@@ -152,14 +294,20 @@ export class ContentPlugin implements ResourcePlugin<ContentData> {
       config.table,
       config.columns
     );
+
+    // Executions stay pinned to the version they started on; this edit becomes the next one
+    if (contentType === 'workflow') {
+      recordWorkflowVersion(options.database, transformed.name);
+    }
   }
 
   /**
-   * Sync content between filesystem and database
+   * Incremental sync: files whose hash matches the row they were last synced into are skipped,
+   * changed files are settled by the context's conflict strategy, and rows whose file is gone
+   * are deleted. Conflicts left open under 'manual' are recorded in content_sync_conflicts.
+   * With changedPaths (watch mode) only those files are read and only their rows can be deleted
    */
   async sync(context: PipelineContext): Promise<SyncResult> {
-    // For now, just run the full ETL pipeline
-    // TODO: Implement incremental sync with conflict resolution
     const result: SyncResult = {
       added: 0,
       updated: 0,
@@ -167,26 +315,29 @@ export class ContentPlugin implements ResourcePlugin<ContentData> {
       conflicts: 0,
       errors: [],
     };
+    const strategy = context.conflictStrategy ?? 'keep-newest';
 
     try {
       const extractOptions: ExtractOptions = {
         basePath: context.basePath,
+        only: context.changedPaths,
       };
       const resources = await this.extract(extractOptions);
 
       for (const resource of resources) {
         try {
-          const transformed = await this.transform(resource, { validate: true, strict: false });
-          await this.load(transformed, {
-            database: context.database,
-            upsert: true,
-            conflictStrategy: 'keep-newest',
-          });
-          result.added++;
+          const outcome = resource.type === 'knowledge'
+            ? await this.syncFinding(resource, context.database, strategy)
+            : await this.syncResource(resource, context.database, strategy);
+
+          if (outcome === 'conflict') result.conflicts++;
+          else if (outcome !== 'unchanged') result[outcome]++;
         } catch (error) {
           result.errors.push(`Failed to sync ${resource.name}: ${error}`);
         }
       }
+
+      this.syncOrphans(context, resources, strategy, result);
     } catch (error) {
       result.errors.push(`Sync failed: ${error}`);
     }
@@ -194,6 +345,307 @@ export class ContentPlugin implements ResourcePlugin<ContentData> {
     return result;
   }
 
+  /**
+   * The whole content tree; contract and markdown files are the ones that concern the plugin
+   */
+  watchTargets(basePath: string): WatchTarget[] {
+    const registryPath = resolve(basePath, CONTENT_DIRECTORIES.workflow, WORKFLOW_REGISTRY);
+    return [
+      {
+        path: basePath,
+        recursive: true,
+        filter: (path) => /\.(md|schema\.json)$/.test(path) || resolve(path) === registryPath,
+      },
+    ];
+  }
+
+  /**
+   * Entries of the workflow registry by workflow name, with the registry's modification time.
+   * A missing registry is no registry; an unreadable one is reported and ignored, as a broken
+   * content file is by the extractor
+   */
+  private async readWorkflowRegistry(path: string): Promise<{ entries: Map<string, WorkflowRegistryEntry>; lastModified: Date } | null> {
+    if (!existsSync(path)) return null;
+    try {
+      const registry = WorkflowRegistrySchema.parse(parseYaml(await readFile(path, 'utf-8')) ?? {});
+      return {
+        entries: new Map(registry.workflows.map((entry) => [entry.name, entry])),
+        lastModified: (await stat(path)).mtime,
+      };
+    } catch (error) {
+      console.error(`Failed to read workflow registry ${path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Attach a workflow's registry entry. The entry counts as part of the workflow: it is folded into
+   * the hash so editing it alone re-syncs the row, and the newer of the two files dates the change
+   */
+  private withRegistryEntry(
+    workflow: RawResource,
+    registry: { entries: Map<string, WorkflowRegistryEntry>; lastModified: Date } | null
+  ): RawResource {
+    const entry = registry?.entries.get(workflow.name);
+    if (!registry || !entry) return workflow;
+
+    const fileModified = workflow.metadata.lastModified?.getTime() ?? 0;
+    return {
+      ...workflow,
+      metadata: {
+        ...workflow.metadata,
+        hash: computeHash(`${workflow.metadata.hash ?? ''}\n${JSON.stringify(entry)}`),
+        lastModified: registry.lastModified.getTime() > fileModified ? registry.lastModified : workflow.metadata.lastModified,
+        registryEntry: entry,
+      },
+    };
+  }
+
+  /**
+   * Compare one file with its row by hash and apply what the strategy decides. Only files that
+   * changed are transformed, so an invalid file that was never edited again is not re-reported
+   */
+  private async syncResource(raw: RawResource, database: LoadOptions['database'], strategy: ConflictStrategy): Promise<SyncOutcome> {
+    const contentType = raw.type as TableContentType;
+    const { table } = this.getTableConfig(contentType);
+    const existing = database
+      .prepare(`SELECT file_hash, updated_at FROM ${table} WHERE name = ?`)
+      .get(raw.name) as { file_hash: string | null; updated_at: string | null } | undefined;
+
+    const resolution = resolveConflict(
+      raw,
+      existing ? { hash: existing.file_hash ?? undefined, updated_at: existing.updated_at ?? undefined } : null,
+      strategy
+    );
+
+    switch (resolution.action) {
+      case 'update':
+      case 'keep-filesystem': {
+        const transformed = await this.transform(raw, { validate: true, strict: false });
+        await this.load(transformed, { database, upsert: true, conflictStrategy: strategy });
+        this.resolveRecordedConflict(database, contentType, raw.name, 'keep-filesystem');
+        return existing ? 'updated' : 'added';
+      }
+      case 'keep-database':
+        this.resolveRecordedConflict(database, contentType, raw.name, 'keep-database');
+        return 'conflict';
+      case 'skip':
+        // Skipped either because nothing changed or because the strategy is manual
+        if (hashesMatch(raw.metadata.hash, existing?.file_hash ?? undefined)) {
+          this.resolveRecordedConflict(database, contentType, raw.name, 'in-sync');
+          return 'unchanged';
+        }
+        this.recordConflict(database, contentType, raw.name, {
+          path: raw.metadata.path,
+          fileHash: raw.metadata.hash ?? null,
+          dbHash: existing?.file_hash ?? null,
+          reason: 'File changed since the last sync',
+        });
+        return 'conflict';
+    }
+  }
+
+  /**
+   * Sync one finding through the knowledge importer, which compares it with the row by uid and
+   * applies the strategy itself
+   */
+  private async syncFinding(raw: RawResource, database: LoadOptions['database'], strategy: ConflictStrategy): Promise<SyncOutcome> {
+    const transformed = await this.transform(raw, { validate: true, strict: false });
+    const finding = this.loadFinding(transformed, database, strategy);
+
+    switch (finding.action) {
+      case 'added':
+      case 'updated':
+        this.resolveRecordedConflict(database, 'knowledge', raw.name, 'keep-filesystem');
+        return finding.action;
+      case 'unchanged':
+        this.resolveRecordedConflict(database, 'knowledge', raw.name, 'in-sync');
+        return 'unchanged';
+      case 'kept':
+        this.resolveRecordedConflict(database, 'knowledge', raw.name, 'keep-database');
+        return 'conflict';
+      case 'conflict':
+        this.recordConflict(database, 'knowledge', raw.name, {
+          path: raw.metadata.path,
+          fileHash: raw.metadata.hash ?? null,
+          dbHash: null,
+          reason: finding.reason ?? 'Finding changed since the last sync',
+        });
+        return 'conflict';
+      case 'error':
+        throw new Error(`Finding ${transformed.name}: ${finding.reason}`);
+    }
+  }
+
+  /**
+   * Handle rows whose file is gone, for each type whose directory exists (a missing directory
+   * is more likely a wrong base path than a deliberate wipe). A file that fails validation still
+   * protects its row. Knowledge findings are never deleted here: they may have been suggested or
+   * edited in the database and are retired through knowledge.update_finding,
+   * knowledge.reject_finding or knowledge.merge_findings instead
+   */
+  private syncOrphans(context: PipelineContext, resources: RawResource[], strategy: ConflictStrategy, result: SyncResult): void {
+    const { database } = context;
+    const present = new Set(resources.map((resource) => `${resource.type}:${resource.name}`));
+    const changed = context.changedPaths ? new Set(context.changedPaths.map((path) => resolve(path))) : null;
+
+    for (const contentType of ORPHAN_DELETE_ORDER) {
+      const directory = `${context.basePath}/${CONTENT_DIRECTORIES[contentType]}`;
+      if (!existsSync(directory)) continue;
+
+      const { table } = this.getTableConfig(contentType);
+      const rows = database.prepare(`SELECT name, path, file_hash FROM ${table}`).all() as Array<{
+        name: string;
+        path: string | null;
+        file_hash: string | null;
+      }>;
+      const orphans = rows.filter(
+        (row) =>
+          !present.has(`${contentType}:${row.name}`) &&
+          (!changed || (row.path !== null && changed.has(resolve(directory, row.path))))
+      );
+
+      for (const row of orphans) {
+        if (strategy === 'keep-database') {
+          result.conflicts++;
+          continue;
+        }
+        if (strategy === 'manual') {
+          this.recordConflict(database, contentType, row.name, {
+            path: row.path,
+            fileHash: null,
+            dbHash: row.file_hash,
+            reason: 'File deleted',
+          });
+          result.conflicts++;
+          continue;
+        }
+
+        const user = this.findReferencingWorkflow(database, contentType, row.name);
+        if (user) {
+          result.errors.push(`Kept ${contentType} ${row.name}: its file is gone but workflow ${user} still references it`);
+          continue;
+        }
+
+        database.prepare(`DELETE FROM ${table} WHERE name = ?`).run(row.name);
+        this.resolveRecordedConflict(database, contentType, row.name, 'deleted');
+        result.deleted++;
+      }
+    }
+  }
+
+  /**
+   * Name of a workflow whose phases use this agent or output contract, if any
+   */
+  private findReferencingWorkflow(database: LoadOptions['database'], contentType: TableContentType, name: string): string | null {
+    const field = contentType === 'agent' ? '$.agent' : contentType === 'contract' ? '$.outputContract' : null;
+    if (!field) return null;
+
+    const row = database
+      .prepare(
+        `SELECT w.name FROM workflows w, json_each(COALESCE(w.phases, '[]')) phase
+         WHERE json_extract(phase.value, ?) = ? LIMIT 1`
+      )
+      .get(field, name) as { name: string } | undefined;
+    return row?.name ?? null;
+  }
+
+  /**
+   * Record (or reopen) a conflict for a person to settle, e.g. by re-syncing with another strategy
+   */
+  private recordConflict(
+    database: LoadOptions['database'],
+    contentType: ContentType,
+    name: string,
+    conflict: { path: string | null; fileHash: string | null; dbHash: string | null; reason: string }
+  ): void {
+    database
+      .prepare(
+        `INSERT INTO content_sync_conflicts (content_type, name, path, file_hash, db_hash, reason)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(content_type, name) DO UPDATE SET
+           path = excluded.path,
+           file_hash = excluded.file_hash,
+           db_hash = excluded.db_hash,
+           reason = excluded.reason,
+           detected_at = CASE WHEN resolved_at IS NULL THEN detected_at ELSE CURRENT_TIMESTAMP END,
+           resolved_at = NULL,
+           resolution = NULL`
+      )
+      .run(contentType, name, conflict.path, conflict.fileHash, conflict.dbHash, conflict.reason);
+  }
+
+  /**
+   * Close an open conflict once a sync has settled the resource
+   */
+  private resolveRecordedConflict(
+    database: LoadOptions['database'],
+    contentType: ContentType,
+    name: string,
+    resolution: ConflictResolutionKind
+  ): void {
+    database
+      .prepare(
+        `UPDATE content_sync_conflicts SET resolved_at = ?, resolution = ?
+         WHERE content_type = ? AND name = ? AND resolved_at IS NULL`
+      )
+      .run(new Date().toISOString(), resolution, contentType, name);
+  }
+
+  /**
+   * Upsert a finding through the knowledge importer, which owns uid matching, project mapping
+   * and revisions. A finding changed on both sides is left as the strategy decides, not an error
+   */
+  private loadFinding(
+    transformed: TransformedResource<ContentData>,
+    database: LoadOptions['database'],
+    strategy: ConflictStrategy
+  ): ImportedFinding {
+    const { path: _path, fileHash: _fileHash, ...entry } = transformed.data;
+    const report = new KnowledgeImporter(database).importEntries([entry], {
+      strategy,
+      source: transformed.metadata.path,
+      lastModified: transformed.metadata.lastModified,
+    });
+
+    const [finding] = report.findings;
+    if (!finding) throw new Error(`Finding ${transformed.name}: importer returned no result`);
+    return finding;
+  }
+
+  /**
+   * Ensure every workflow phase references an agent that exists in the database.
+   * Agents are extracted and loaded before workflows, so a miss here is a real error.
+   * Sub-workflow phases are checked when they start instead: workflows load in no set order
+   */
+  private assertPhaseAgentsExist(transformed: TransformedResource<ContentData>, database: LoadOptions['database']): void {
+    const phases = ((transformed.data.phases as WorkflowPhaseFrontmatter[] | undefined) ?? []).filter((phase) => phase.agent);
+    const stmt = database.prepare(`SELECT 1 FROM agents WHERE name = ?`);
+    const unknown = phases.filter((phase) => !stmt.get(phase.agent));
+
+    if (unknown.length > 0) {
+      const details = unknown.map((phase) => `'${phase.phase}' -> '${phase.agent}'`).join(', ');
+      throw new Error(`Workflow ${transformed.name} references unknown agent(s): ${details}`);
+    }
+  }
+
+  /**
+   * Ensure every phase outputContract names a loaded contract, so a typo fails at sync
+   * rather than rejecting every output of that step at run time
+   */
+  private assertPhaseContractsExist(transformed: TransformedResource<ContentData>, database: LoadOptions['database']): void {
+    const phases = ((transformed.data.phases as WorkflowPhaseFrontmatter[] | undefined) ?? []).filter((phase) => phase.outputContract);
+    if (phases.length === 0) return;
+
+    const stmt = database.prepare(`SELECT 1 FROM contracts WHERE name = ?`);
+    const unknown = phases.filter((phase) => !stmt.get(phase.outputContract));
+
+    if (unknown.length > 0) {
+      const details = unknown.map((phase) => `'${phase.phase}' -> '${phase.outputContract}'`).join(', ');
+      throw new Error(`Workflow ${transformed.name} references unknown contract(s): ${details}`);
+    }
+  }
+
   /**
    * Get table configuration for content type
    */
@@ -204,15 +656,25 @@ export class ContentPlugin implements ResourcePlugin<ContentData> {
           table: 'agents',
           columns: ['name', 'description', 'content', 'tags', 'version', 'path', 'file_hash'],
         };
+      case 'shared':
+        return {
+          table: 'shared_content',
+          columns: ['name', 'description', 'content', 'path', 'file_hash'],
+        };
       case 'rule':
         return {
           table: 'rules',
           columns: ['name', 'description', 'content', 'globs', 'always_apply', 'tags', 'path', 'file_hash'],
         };
+      case 'contract':
+        return {
+          table: 'contracts',
+          columns: ['name', 'description', 'schema_id', 'content', 'path', 'file_hash'],
+        };
       case 'workflow':
         return {
           table: 'workflows',
-          columns: ['name', 'description', 'content', 'tags', 'complexity', 'path', 'file_hash'],
+          columns: ['name', 'description', 'content', 'tags', 'triggers', 'complexity', 'phases', 'path', 'file_hash'],
         };
       default:
         throw new Error(`Unknown content type: ${contentType}`);
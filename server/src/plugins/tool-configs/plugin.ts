@@ -4,6 +4,7 @@
  */
 
 import type { Database as DB } from 'better-sqlite3';
+import { basename, dirname, extname, join, resolve } from 'path';
 import type {
   ResourcePlugin,
   RawResource,
@@ -13,10 +14,18 @@ import type {
   LoadOptions,
   PipelineContext,
   SyncResult,
+  WatchTarget,
 } from '../../types.js';
 import type { ToolType, ConfigLevel } from '../../schemas/tool-config-schemas.js';
 import type { PluginConfig, ToolConfigData, ToolExtractor, ExtractedConfig } from './types.js';
-import { detectTools, findGitRoot } from './utils.js';
+import {
+  detectTools,
+  findGitRoot,
+  getUserConfigPath,
+  isToolConfigFile,
+  PROJECT_CONFIG_DIRS,
+  PROJECT_CONFIG_FILES,
+} from './utils.js';
 import { ToolConfigTransformer } from './transformer.js';
 import { ProjectAssociationManager } from '../../lib/project-association.js';
 import { ClaudeCodeExtractor } from './extractors/claude-code.js';
@@ -286,8 +295,11 @@ export class ToolConfigPlugin implements ResourcePlugin<ToolConfigData> {
     };
 
     try {
-      // Extract
-      const rawResources = await this.extract({ basePath: context.basePath });
+      // Extract, keeping only the changed files in watch mode
+      const changed = context.changedPaths ? new Set(context.changedPaths.map((path) => resolve(path))) : null;
+      const rawResources = (await this.extract({ basePath: context.basePath })).filter(
+        (raw) => !changed || changed.has(resolve(raw.metadata.path))
+      );
 
       // Transform and load
       for (const raw of rawResources) {
@@ -317,4 +329,39 @@ export class ToolConfigPlugin implements ResourcePlugin<ToolConfigData> {
 
     return result;
   }
+
+  /**
+   * Project root (for its loose config files), the tool directories inside it, and each
+   * enabled tool's user-level config location
+   */
+  watchTargets(basePath: string): WatchTarget[] {
+    if (!this.config.enabled) return [];
+
+    const projectPath = findGitRoot(basePath) || basePath;
+    const targets: WatchTarget[] = [];
+
+    if (this.config.discovery.projectLevel) {
+      targets.push({ path: projectPath, filter: (path) => PROJECT_CONFIG_FILES.includes(basename(path)) });
+      for (const dir of PROJECT_CONFIG_DIRS) {
+        targets.push({ path: join(projectPath, dir), recursive: true, filter: isToolConfigFile });
+      }
+    }
+
+    if (this.config.discovery.userLevel) {
+      for (const [toolType, toolConfig] of Object.entries(this.config.extraction.tools)) {
+        if (!toolConfig?.enabled) continue;
+        const userPath = getUserConfigPath(toolType as ToolType);
+        if (!userPath) continue;
+
+        // Some tools keep a single config file; watch its directory so atomic saves are seen
+        targets.push(
+          extname(userPath)
+            ? { path: dirname(userPath), filter: (path) => resolve(path) === resolve(userPath) }
+            : { path: userPath, filter: isToolConfigFile }
+        );
+      }
+    }
+
+    return targets;
+  }
 }
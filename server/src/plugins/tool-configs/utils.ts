@@ -3,7 +3,7 @@
  */
 
 import { existsSync, statSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, basename } from 'path';
 import type { ToolType } from '../../schemas/tool-config-schemas.js';
 
 /**
@@ -104,6 +104,24 @@ export function detectTools(projectPath: string): ToolType[] {
   return detected;
 }
 
+/**
+ * Project-root files the extractors read
+ */
+export const PROJECT_CONFIG_FILES = ['.mcp.json', 'CLAUDE.md', '.cursorrules', '.windsurfrules', '.codeiumignore'];
+
+/**
+ * Project directories the extractors read from
+ */
+export const PROJECT_CONFIG_DIRS = ['.claude', '.cursor', '.windsurf', '.vscode', '.github', '.junie'];
+
+/**
+ * Whether a changed file could be a tool config, judged by name only; watch mode uses it
+ * to ignore unrelated churn in the directories it watches
+ */
+export function isToolConfigFile(filePath: string): boolean {
+  return PROJECT_CONFIG_FILES.includes(basename(filePath)) || /\.(json|md|mdc)$/.test(filePath);
+}
+
 /**
  * Redact secrets from content
  */
@@ -4,6 +4,9 @@
  */
 
 import { z } from 'zod';
+import { findDependencyCycle, validatePhaseTransitions } from '../../utils/phase-graph.js';
+import { checkContractSchema } from '../../utils/json-contracts.js';
+import { KnowledgeBundleEntrySchema } from '../../utils/knowledge-schemas.js';
 
 /**
  * Agent schemas
@@ -30,15 +33,168 @@ export const RuleFrontmatterSchema = z.object({
 
 export type RuleFrontmatter = z.infer<typeof RuleFrontmatterSchema>;
 
+/**
+ * Shared content schemas (e.g. agents/_shared_context.md; frontmatter is optional)
+ */
+export const SharedContentFrontmatterSchema = z.object({
+  description: z.string().max(500).optional(),
+});
+
+export type SharedContentFrontmatter = z.infer<typeof SharedContentFrontmatterSchema>;
+
+/**
+ * Contract schemas (JSON Schema documents, not markdown)
+ */
+export const ContractDocumentSchema = z
+  .object({
+    $id: z.string().max(500).optional(),
+    title: z.string().max(100).optional(),
+    description: z.string().max(500).optional(),
+  })
+  .catchall(z.unknown())
+  .superRefine((data, ctx) => {
+    const error = checkContractSchema(data);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid JSON Schema: ${error}`, path: [] });
+    }
+  });
+
+export type ContractDocument = z.infer<typeof ContractDocumentSchema>;
+
+/**
+ * Phase conditions: a test on one field of a step output, with exactly one operator
+ */
+const outcomeConditionShape = {
+  field: z.string().min(1).max(200),
+  equals: z.union([z.string().max(200), z.number(), z.boolean(), z.null()]).optional(),
+  in: z.array(z.union([z.string().max(200), z.number(), z.boolean()])).min(1).max(50).optional(),
+  exists: z.boolean().optional(),
+};
+
+const hasOneOperator = (condition: { equals?: unknown; in?: unknown; exists?: unknown }) =>
+  ['equals', 'in', 'exists'].filter((operator) => operator in condition).length === 1;
+const ONE_OPERATOR = { message: 'A condition sets exactly one of equals, in and exists' };
+
+export const PhaseTransitionFrontmatterSchema = z.object({
+  when: z.object(outcomeConditionShape).refine(hasOneOperator, ONE_OPERATOR),
+  goto: z.string().min(1).max(100),
+});
+
+/**
+ * Workflow phase schema
+ * A phase is run by an agent, as a sub-workflow by another workflow, or as an approval gate by a person
+ */
+export const WorkflowPhaseFrontmatterSchema = z
+  .object({
+    phase: z.string().min(1).max(100),
+    agent: z.string().min(1).max(100).optional(),
+    workflow: z.string().min(1).max(200).optional(),
+    approval: z.object({ onReject: z.string().min(1).max(100) }).optional(),
+    description: z.string().max(500),
+    dependsOn: z.array(z.string().min(1).max(100)).max(50).optional(),
+    allowParallel: z.boolean().optional(),
+    outputContract: z.string().min(1).max(100).optional(),
+    when: z
+      .object({ ...outcomeConditionShape, phase: z.string().min(1).max(100).optional() })
+      .refine(hasOneOperator, ONE_OPERATOR)
+      .optional(),
+    onOutcome: z.array(PhaseTransitionFrontmatterSchema).max(20).optional(),
+    maxIterations: z.number().int().min(1).max(20).optional(),
+  })
+  .refine((phase) => [phase.agent, phase.workflow, phase.approval].filter((kind) => kind !== undefined).length === 1, {
+    message: 'A phase names exactly one of an agent, a workflow and an approval',
+    path: ['agent'],
+  });
+
+export type WorkflowPhaseFrontmatter = z.infer<typeof WorkflowPhaseFrontmatterSchema>;
+
 /**
  * Workflow schemas
  */
-export const WorkflowFrontmatterSchema = z.object({
+export const WorkflowFrontmatterSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    description: z.string().max(2000),
+    tags: z.array(z.string().max(50)).max(20).default([]),
+    keywords: z.array(z.string().max(100)).max(50).default([]),
+    complexity: z.enum(['simple', 'moderate', 'high']).optional(),
+    complexityHint: z.enum(['simple', 'moderate', 'high']).optional(),
+    phases: z.array(WorkflowPhaseFrontmatterSchema).max(50).default([]),
+  })
+  .superRefine((data, ctx) => {
+    const phaseNames = new Set<string>();
+    data.phases.forEach((phase, index) => {
+      if (phaseNames.has(phase.phase)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate phase name '${phase.phase}'`,
+          path: ['phases', index, 'phase'],
+        });
+      }
+      phaseNames.add(phase.phase);
+
+      if (phase.workflow === data.name) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Phase '${phase.phase}' runs its own workflow`,
+          path: ['phases', index, 'workflow'],
+        });
+      }
+    });
+
+    let hasUnknownDependency = false;
+    data.phases.forEach((phase, index) => {
+      for (const dependency of phase.dependsOn ?? []) {
+        if (!phaseNames.has(dependency)) {
+          hasUnknownDependency = true;
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Phase '${phase.phase}' depends on unknown phase '${dependency}'`,
+            path: ['phases', index, 'dependsOn'],
+          });
+        }
+      }
+    });
+
+    const cycle = hasUnknownDependency ? null : findDependencyCycle(data.phases);
+    if (cycle) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Phase dependency cycle detected: ${cycle.join(' -> ')}`,
+        path: ['phases'],
+      });
+    }
+
+    const transitionError = hasUnknownDependency || cycle ? null : validatePhaseTransitions(data.phases);
+    if (transitionError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: transitionError, path: ['phases'] });
+    }
+  });
+
+export type WorkflowFrontmatter = z.infer<typeof WorkflowFrontmatterSchema>;
+
+/**
+ * Workflow registry (workflows/index.yaml): discovery triggers per workflow, matched by name.
+ * Its path and tags fields are descriptive only; tags come from each workflow's frontmatter
+ */
+export const WorkflowRegistryEntrySchema = z.object({
   name: z.string().min(1).max(200),
-  description: z.string().max(2000),
-  tags: z.array(z.string().max(50)).max(20).default([]),
-  keywords: z.array(z.string().max(100)).max(50).default([]),
-  complexityHint: z.enum(['simple', 'moderate', 'high']).optional(),
+  triggers: z
+    .object({ keywords: z.array(z.string().max(100)).max(50).default([]) })
+    .default({ keywords: [] }),
+  complexity_hint: z.enum(['simple', 'moderate', 'high']).optional(),
 });
 
-export type WorkflowFrontmatter = z.infer<typeof WorkflowFrontmatterSchema>;
+export type WorkflowRegistryEntry = z.infer<typeof WorkflowRegistryEntrySchema>;
+
+export const WorkflowRegistrySchema = z.object({
+  workflows: z.array(WorkflowRegistryEntrySchema).default([]),
+});
+
+/**
+ * Knowledge schemas (one finding per file; the body is its content and the file name
+ * stands in for a missing uid, as in markdown bundles from knowledge.export)
+ */
+export const KnowledgeFrontmatterSchema = KnowledgeBundleEntrySchema.omit({ content: true }).partial({ uid: true });
+
+export type KnowledgeFrontmatter = z.infer<typeof KnowledgeFrontmatterSchema>;
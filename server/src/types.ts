@@ -58,6 +58,8 @@ export interface ExtractOptions {
   basePath: string;
   patterns?: string[];
   exclude?: string[];
+  includePartials?: boolean; // Also read `_`-prefixed files (skipped by default)
+  only?: string[]; // Restrict to these files (absolute paths), e.g. the ones a watcher saw change
 }
 
 /**
@@ -84,9 +86,20 @@ export interface PipelineContext {
   resourceType: string;
   basePath: string;
   database: DB;
+  conflictStrategy?: ConflictStrategy; // How sync settles a file that changed since its last sync (default: keep-newest)
+  changedPaths?: string[]; // Absolute paths that changed (watch mode); plugins that support it sync only these
   options?: Record<string, unknown>;
 }
 
+/**
+ * Directory a plugin reads from, watched in watch mode
+ */
+export interface WatchTarget {
+  path: string; // Absolute directory path; skipped while it does not exist
+  recursive?: boolean;
+  filter?: (path: string) => boolean; // Which changed files concern the plugin (default: all)
+}
+
 /**
  * Plugin interface - each resource type implements this
  */
@@ -98,6 +111,7 @@ export interface ResourcePlugin<T = unknown> {
   transform(raw: RawResource, options?: TransformOptions): Promise<TransformedResource<T>>;
   load(transformed: TransformedResource<T>, options: LoadOptions): Promise<void>;
   sync?(context: PipelineContext): Promise<SyncResult>;
+  watchTargets?(basePath: string): WatchTarget[];
 }
 
 /**
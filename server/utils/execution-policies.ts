@@ -83,3 +83,14 @@ export const EXECUTION_POLICIES: Record<'simple' | 'moderate' | 'high', Executio
 export function getExecutionPolicy(complexity: 'simple' | 'moderate' | 'high'): ExecutionPolicy {
   return EXECUTION_POLICIES[complexity];
 }
+
+/**
+ * Resolve the policy for a stored complexity value
+ * Falls back to moderate when the workflow declares no (or an unknown) complexity
+ */
+export function resolveExecutionPolicy(complexity: string | null | undefined): ExecutionPolicy {
+  if (complexity === 'simple' || complexity === 'moderate' || complexity === 'high') {
+    return EXECUTION_POLICIES[complexity];
+  }
+  return EXECUTION_POLICIES.moderate;
+}
@@ -0,0 +1,56 @@
+/**
+ * Glob matching for rule `globs`
+ * Supports `**` (any number of path segments), `*`, `?` and `{a,b}` alternatives,
+ * which covers the patterns used in content/rules
+ */
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) return cached;
+
+  let pattern = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more whole segments; a bare `**` matches anything
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      pattern += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      pattern += ')';
+    } else if (char === ',' && inGroup) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${pattern}$`);
+  cache.set(glob, regex);
+  return regex;
+}
+
+/**
+ * Match a path against a glob; Windows separators and a leading `./` are normalized first
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '');
+  return globToRegExp(glob).test(normalized);
+}
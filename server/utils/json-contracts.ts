@@ -0,0 +1,69 @@
+/**
+ * JSON contracts
+ * Shared by content validation (load time) and the workflow engine (run time)
+ * so both sides compile contracts with the same JSON Schema dialect and options
+ */
+
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+
+export interface ContractViolation {
+  pointer: string; // JSON pointer into the validated value ('' is the root)
+  message: string;
+}
+
+export type ContractValidation = { valid: true } | { valid: false; errors: ContractViolation[] };
+
+/**
+ * Create a validator for contract schemas (JSON Schema draft 2020-12)
+ * allErrors so a rejected output lists every problem at once rather than the first
+ */
+export function createContractAjv(): Ajv2020 {
+  return new Ajv2020({ allErrors: true, strict: false });
+}
+
+/**
+ * Check that a schema compiles
+ *
+ * @returns Error message, or null if the schema is usable
+ */
+export function checkContractSchema(schema: unknown): string | null {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) return 'Contract schema must be a JSON object';
+  try {
+    createContractAjv().compile(schema);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Run a compiled contract and map ajv errors to JSON pointers
+ * Missing and unexpected properties point at the property itself, not its parent object
+ */
+export function validateAgainstContract(validate: ValidateFunction, value: unknown): ContractValidation {
+  if (validate(value)) return { valid: true };
+  return { valid: false, errors: (validate.errors ?? []).map(toViolation) };
+}
+
+/**
+ * Render violations as one line each, e.g. `/artifacts/0/type: must have required property 'type'`
+ */
+export function formatContractViolations(errors: ContractViolation[]): string {
+  return errors.map((e) => `${e.pointer || '/'}: ${e.message}`).join('; ');
+}
+
+function toViolation(error: ErrorObject): ContractViolation {
+  const params = error.params as Record<string, unknown>;
+  let pointer = error.instancePath;
+  if (error.keyword === 'required' && typeof params['missingProperty'] === 'string') {
+    pointer += `/${escapePointerToken(params['missingProperty'])}`;
+  } else if (error.keyword === 'additionalProperties' && typeof params['additionalProperty'] === 'string') {
+    pointer += `/${escapePointerToken(params['additionalProperty'])}`;
+  }
+  return { pointer, message: error.message ?? `failed '${error.keyword}'` };
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,62 @@
+/**
+ * Knowledge Finding Schemas
+ * Finding fields and the portable bundle format, shared by the MCP tools and the content sync
+ */
+
+import { z } from 'zod';
+
+export const KnowledgeScopeSchema = z.enum(['global', 'project', 'system']);
+export type KnowledgeScope = z.infer<typeof KnowledgeScopeSchema>;
+
+export const KnowledgeCategorySchema = z.enum(['security', 'architecture', 'performance', 'constraint', 'pattern']);
+export type KnowledgeCategory = z.infer<typeof KnowledgeCategorySchema>;
+
+export const KnowledgeSeveritySchema = z.enum(['info', 'low', 'medium', 'high', 'critical']);
+export type KnowledgeSeverity = z.infer<typeof KnowledgeSeveritySchema>;
+
+export const KnowledgeStatusSchema = z.enum(['proposed', 'active', 'deprecated', 'rejected']);
+export type KnowledgeStatus = z.infer<typeof KnowledgeStatusSchema>;
+
+// Stored as an ISO timestamp; a bare date means midnight UTC
+export const FindingDateSchema = z
+  .union([z.string().date(), z.string().datetime({ offset: true })])
+  .transform((value) => new Date(value).toISOString());
+
+export const FindingChangeSchema = z.enum(['created', 'proposed', 'updated', 'approved', 'rejected', 'superseded', 'merged', 'expired']);
+export type FindingChange = z.infer<typeof FindingChangeSchema>;
+
+// Portable findings: a versioned JSON bundle, or one markdown file per finding with the fields as frontmatter
+export const KNOWLEDGE_BUNDLE_FORMAT = 'midex-knowledge';
+export const KNOWLEDGE_BUNDLE_VERSION = 1;
+
+// YAML frontmatter turns unquoted dates into Date objects
+const BundleDateSchema = z.union([FindingDateSchema, z.date().transform((date) => date.toISOString())]);
+
+export const KnowledgeBundleEntrySchema = z.object({
+  uid: z.string().min(1).max(100),
+  scope: KnowledgeScopeSchema,
+  project: z
+    .object({ name: z.string().min(1), path: z.string().min(1) })
+    .nullable()
+    .optional()
+    .describe('Project of a project-scoped finding; matched to a local project by path, then by name'),
+  category: KnowledgeCategorySchema,
+  severity: KnowledgeSeveritySchema,
+  status: KnowledgeStatusSchema.default('active'),
+  title: z.string().min(1),
+  content: z.string().min(1),
+  tags: z.array(z.string()).default([]),
+  source_agent: z.string().min(1).nullable().optional(),
+  expires_at: BundleDateSchema.nullable().optional(),
+  review_by: BundleDateSchema.nullable().optional(),
+  updated_at: BundleDateSchema.optional().describe('Compared with the local finding under keep-newest'),
+});
+export type KnowledgeBundleEntry = z.infer<typeof KnowledgeBundleEntrySchema>;
+
+export const KnowledgeBundleSchema = z.object({
+  format: z.literal(KNOWLEDGE_BUNDLE_FORMAT),
+  version: z.literal(KNOWLEDGE_BUNDLE_VERSION),
+  exported_at: z.string(),
+  findings: z.array(KnowledgeBundleEntrySchema),
+});
+export type KnowledgeBundle = z.infer<typeof KnowledgeBundleSchema>;
@@ -0,0 +1,32 @@
+/**
+ * Phase conditions
+ * `when` and `onOutcome` test one field of a step output, addressed by a dot path
+ * ('verdict', 'data.risk'); the field is missing when any segment along the path is
+ */
+
+export interface OutcomeTest {
+  field: string;
+  equals?: string | number | boolean | null;
+  in?: Array<string | number | boolean>;
+  exists?: boolean;
+}
+
+export function readOutputField(output: Record<string, unknown> | null, field: string): unknown {
+  let value: unknown = output;
+  for (const segment of field.split('.')) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Whether a step output passes the test. A missing output (a skipped or unfinished phase) has
+ * no fields, so only `exists: false` holds for it
+ */
+export function matchesCondition(test: OutcomeTest, output: Record<string, unknown> | null): boolean {
+  const value = readOutputField(output, test.field);
+  if (test.exists !== undefined) return (value !== undefined && value !== null) === test.exists;
+  if (test.in !== undefined) return test.in.some((candidate) => candidate === value);
+  return value === test.equals;
+}
@@ -0,0 +1,164 @@
+/**
+ * Phase dependency graph
+ * Shared by content validation (load time) and the workflow engine (run time)
+ * so both sides agree on what a well-formed phase graph looks like
+ */
+
+export interface PhaseNode {
+  phase: string;
+  dependsOn?: string[];
+  allowParallel?: boolean;
+  when?: { phase?: string };
+  onOutcome?: Array<{ goto: string }>;
+  approval?: { onReject: string };
+}
+
+/**
+ * Find a dependency cycle between phases
+ *
+ * @returns The cycle as a path (first and last entries are the same phase), or null if the graph is acyclic
+ */
+export function findDependencyCycle(phases: PhaseNode[]): string[] | null {
+  const byName = new Map(phases.map((p) => [p.phase, p]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    const current = state.get(name);
+    if (current === 'done') return null;
+    if (current === 'visiting') {
+      return [...stack.slice(stack.indexOf(name)), name];
+    }
+
+    state.set(name, 'visiting');
+    stack.push(name);
+
+    for (const dependency of byName.get(name)?.dependsOn ?? []) {
+      if (!byName.has(dependency)) continue;
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+
+    stack.pop();
+    state.set(name, 'done');
+    return null;
+  };
+
+  for (const phase of phases) {
+    const cycle = visit(phase.phase);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validate a phase graph: unique names, known dependencies and no cycles
+ *
+ * @returns Error message, or null if the graph is valid
+ */
+export function validatePhaseGraph(phases: PhaseNode[]): string | null {
+  const names = new Set<string>();
+  for (const phase of phases) {
+    if (names.has(phase.phase)) return `Duplicate phase name '${phase.phase}'`;
+    names.add(phase.phase);
+  }
+
+  for (const phase of phases) {
+    for (const dependency of phase.dependsOn ?? []) {
+      if (!names.has(dependency)) return `Phase '${phase.phase}' depends on unknown phase '${dependency}'`;
+    }
+  }
+
+  const cycle = findDependencyCycle(phases);
+  if (cycle) return `Phase dependency cycle detected: ${cycle.join(' -> ')}`;
+  return validatePhaseTransitions(phases);
+}
+
+/**
+ * Phases the given phase depends on, directly or through other phases
+ */
+export function findUpstreamPhases(phases: PhaseNode[], name: string): Set<string> {
+  const byName = new Map(phases.map((p) => [p.phase, p]));
+  const upstream = new Set<string>();
+  const pending = [...(byName.get(name)?.dependsOn ?? [])];
+  for (let next = pending.pop(); next !== undefined; next = pending.pop()) {
+    if (upstream.has(next)) continue;
+    upstream.add(next);
+    pending.push(...(byName.get(next)?.dependsOn ?? []));
+  }
+  return upstream;
+}
+
+/**
+ * The given phase and every phase that depends on it, directly or through other phases
+ */
+export function findDownstreamPhases(phases: PhaseNode[], name: string): Set<string> {
+  return new Set(phases.filter((p) => p.phase === name || findUpstreamPhases(phases, p.phase).has(name)).map((p) => p.phase));
+}
+
+/**
+ * Validate `when`, `onOutcome` and `approval.onReject`: a condition reads a phase that has finished
+ * by the time it is checked (one of dependsOn), and a transition only goes back (to the phase itself
+ * or upstream), since forward branches are what `when` is for. A rejection must go strictly upstream;
+ * reopening the approval itself would only ask the same question again
+ *
+ * @returns Error message, or null if every condition and transition is valid
+ */
+export function validatePhaseTransitions(phases: PhaseNode[]): string | null {
+  for (const phase of phases) {
+    const dependsOn = phase.dependsOn ?? [];
+    if (phase.when) {
+      const source = phase.when.phase ?? dependsOn[dependsOn.length - 1];
+      if (!source) return `Phase '${phase.phase}' has a when condition but no phase to read it from`;
+      if (!dependsOn.includes(source)) return `Phase '${phase.phase}' has a when condition on '${source}', which it does not depend on`;
+    }
+
+    const upstream = findUpstreamPhases(phases, phase.phase);
+    for (const transition of phase.onOutcome ?? []) {
+      if (transition.goto !== phase.phase && !upstream.has(transition.goto)) {
+        return `Phase '${phase.phase}' transitions to '${transition.goto}', which is not upstream of it`;
+      }
+    }
+    if (phase.approval && !upstream.has(phase.approval.onReject)) {
+      return `Approval phase '${phase.phase}' rejects to '${phase.approval.onReject}', which is not upstream of it`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get phases that can start now: not yet started, with every dependency completed
+ * Results keep declaration order so scheduling is deterministic
+ */
+export function getReadyPhases<T extends PhaseNode>(phases: T[], completed: Set<string>, started: Set<string>): T[] {
+  return phases.filter(
+    (p) => !started.has(p.phase) && (p.dependsOn ?? []).every((dependency) => completed.has(dependency))
+  );
+}
+
+/**
+ * Choose which ready phases to start alongside the ones already running
+ * Phases fan out up to maxConcurrent; a phase with allowParallel: false only
+ * starts once nothing else is running, and nothing starts next to it. Approval
+ * phases are always exclusive: the whole execution waits on the decision
+ */
+export function selectPhasesToStart<T extends PhaseNode>(ready: T[], running: PhaseNode[], maxConcurrent: number): T[] {
+  if (running.some(isExclusive)) return [];
+
+  const limit = Math.max(1, maxConcurrent);
+  const selected: T[] = [];
+  for (const phase of ready) {
+    if (running.length + selected.length >= limit) break;
+    if (isExclusive(phase)) {
+      // Drain everything else first so an exclusive phase is never starved
+      if (running.length === 0 && selected.length === 0) return [phase];
+      break;
+    }
+    selected.push(phase);
+  }
+  return selected;
+}
+
+function isExclusive(phase: PhaseNode): boolean {
+  return phase.allowParallel === false || phase.approval !== undefined;
+}